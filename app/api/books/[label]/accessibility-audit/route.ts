@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import fs from "node:fs";
+import { getAccessibilityReport, getBooksRoot } from "@/lib/books";
+import { resolveBookPaths } from "@/lib/pipeline/types";
+import { queue } from "@/lib/queue";
+
+const LABEL_RE = /^[a-z0-9-]+$/;
+const PAGE_RE = /^pg\d{3}$/;
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ label: string }> }
+) {
+  const { label } = await params;
+
+  if (!LABEL_RE.test(label)) {
+    return NextResponse.json({ error: "Invalid label" }, { status: 400 });
+  }
+
+  const pageId = new URL(request.url).searchParams.get("pageId");
+  if (pageId !== null && !PAGE_RE.test(pageId)) {
+    return NextResponse.json({ error: "Invalid pageId" }, { status: 400 });
+  }
+
+  const { bookDir } = resolveBookPaths(label, getBooksRoot());
+  if (!fs.existsSync(bookDir)) {
+    return NextResponse.json({ error: "Book not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    sections: getAccessibilityReport(label, pageId ?? undefined),
+  });
+}
+
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ label: string }> }
+) {
+  const { label } = await params;
+
+  if (!LABEL_RE.test(label)) {
+    return NextResponse.json({ error: "Invalid label" }, { status: 400 });
+  }
+
+  const { bookDir } = resolveBookPaths(label, getBooksRoot());
+  if (!fs.existsSync(bookDir)) {
+    return NextResponse.json({ error: "Book not found" }, { status: 404 });
+  }
+
+  const jobId = queue.enqueue("accessibility-audit", label);
+  return NextResponse.json({ jobId });
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import fs from "node:fs";
+import path from "node:path";
+import { previousEditionDir } from "@/lib/edition";
+
+const LABEL_RE = /^[a-z0-9-]+$/;
+const PAGE_RE = /^pg\d{3}$/;
+
+/** Page image of the previous edition, for the side-by-side comparison. */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ label: string; pageId: string }> }
+) {
+  const { label, pageId } = await params;
+
+  if (!LABEL_RE.test(label) || !PAGE_RE.test(pageId)) {
+    return NextResponse.json({ error: "Invalid params" }, { status: 400 });
+  }
+
+  const filePath = path.join(previousEditionDir(label), "images", `${pageId}_page.png`);
+  if (!fs.existsSync(filePath)) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const buffer = fs.readFileSync(filePath);
+  return new NextResponse(buffer, {
+    headers: {
+      "Content-Type": "image/png",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
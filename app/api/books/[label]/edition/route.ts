@@ -0,0 +1,107 @@
+import fs from "node:fs";
+import path from "node:path";
+import { getBooksRoot } from "@/lib/books";
+import { getDb, SchemaMismatchError } from "@/lib/db";
+import { resolveBookPaths } from "@/lib/pipeline/types";
+import { loadBookConfig } from "@/lib/config";
+import { replaceEdition } from "@/lib/edition";
+import { queue } from "@/lib/queue";
+
+const LABEL_RE = /^[a-z0-9-]+$/;
+
+/**
+ * Replace the book's PDF with a new edition, streaming extraction progress
+ * as NDJSON. Work on unchanged pages is kept; the page pipeline is queued
+ * for changed and added pages only. The final message includes the diff.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ label: string }> }
+) {
+  const { label } = await params;
+
+  if (!LABEL_RE.test(label)) {
+    return new Response(
+      JSON.stringify({ error: "Invalid label" }),
+      { status: 400, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  const paths = resolveBookPaths(label, getBooksRoot());
+  const pdfPath = path.join(paths.bookDir, `${label}.pdf`);
+  if (!fs.existsSync(pdfPath)) {
+    return new Response(
+      JSON.stringify({ error: "Book not found" }),
+      { status: 404, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  const formData = await request.formData();
+  const file = formData.get("pdf");
+  if (!(file instanceof File) || !file.name.endsWith(".pdf")) {
+    return new Response(
+      JSON.stringify({ error: "A .pdf file is required" }),
+      { status: 400, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  try {
+    getDb(label);
+  } catch (err) {
+    if (!(err instanceof SchemaMismatchError)) throw err;
+    return new Response(
+      JSON.stringify({ error: "The database cannot be opened; reimport the book first" }),
+      { status: 409, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  let startPage: number | undefined;
+  let endPage: number | undefined;
+  try {
+    const cfg = loadBookConfig(label);
+    startPage = cfg.start_page;
+    endPage = cfg.end_page;
+  } catch {
+    // Config read failed — proceed with defaults
+  }
+
+  // Cancel any running/queued jobs for this book before replacing the PDF
+  queue.cancelByLabel(label);
+  const pdf = Buffer.from(await file.arrayBuffer());
+
+  const { readable, writable } = new TransformStream();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
+
+  const write = (obj: object) =>
+    writer.write(encoder.encode(JSON.stringify(obj) + "\n"));
+
+  const streamProgress = {
+    emit(event: { type: string; page?: number; totalPages?: number }) {
+      if (event.type === "book-step-progress" && event.page !== undefined) {
+        write({ page: event.page, totalPages: event.totalPages });
+      }
+    },
+  };
+
+  (async () => {
+    try {
+      const diff = await replaceEdition(label, pdf, { pdfPath, startPage, endPage }, streamProgress);
+      const jobIds = diff.pages
+        .filter((page) => page.status === "changed" || page.status === "added")
+        .map((page) => queue.enqueue("page-pipeline", label, { pageId: page.pageId }));
+      write({ done: true, label, diff, jobIds });
+    } catch (err) {
+      write({ error: String(err) });
+    } finally {
+      writer.close();
+    }
+  })();
+
+  return new Response(readable, {
+    headers: {
+      "Content-Type": "application/x-ndjson",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
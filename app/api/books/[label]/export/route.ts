@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import fs from "node:fs";
+import { getBooksRoot } from "@/lib/books";
+import { buildEpub } from "@/lib/export/epub";
+import { buildWebPackage } from "@/lib/export/web-package";
+import { resolveBookPaths } from "@/lib/pipeline/types";
+
+const LABEL_RE = /^[a-z0-9-]+$/;
+
+const FORMATS = {
+  web: {
+    build: buildWebPackage,
+    contentType: "application/zip",
+    suffix: "-web.zip",
+  },
+  epub: {
+    build: buildEpub,
+    contentType: "application/epub+zip",
+    suffix: ".epub",
+  },
+} as const;
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ label: string }> }
+) {
+  const { label } = await params;
+
+  if (!LABEL_RE.test(label)) {
+    return NextResponse.json({ error: "Invalid label" }, { status: 400 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const formatParam = searchParams.get("format") ?? "web";
+  if (!(formatParam in FORMATS)) {
+    return NextResponse.json({ error: "Invalid format" }, { status: 400 });
+  }
+  const format = FORMATS[formatParam as keyof typeof FORMATS];
+
+  const paths = resolveBookPaths(label, getBooksRoot());
+  if (!fs.existsSync(paths.bookDir)) {
+    return NextResponse.json({ error: "Book not found" }, { status: 404 });
+  }
+
+  let archive: Buffer;
+  try {
+    archive = await format.build(label);
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Export failed" },
+      { status: 422 }
+    );
+  }
+
+  return new NextResponse(new Uint8Array(archive), {
+    headers: {
+      "Content-Type": format.contentType,
+      "Content-Disposition": `attachment; filename="${label}${format.suffix}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import fs from "node:fs";
+import { getBooksRoot, getPageLabels } from "@/lib/books";
+import { resolveBookPaths } from "@/lib/pipeline/types";
+import { runPageLabeling } from "@/lib/pipeline/actions";
+
+const LABEL_RE = /^[a-z0-9-]+$/;
+
+function bookExists(label: string): boolean {
+  return fs.existsSync(resolveBookPaths(label, getBooksRoot()).bookDir);
+}
+
+/** Printed page label of every page, or null if none were resolved yet. */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ label: string }> }
+) {
+  const { label } = await params;
+
+  if (!LABEL_RE.test(label)) {
+    return NextResponse.json({ error: "Invalid label" }, { status: 400 });
+  }
+  if (!bookExists(label)) {
+    return NextResponse.json({ error: "Book not found" }, { status: 404 });
+  }
+
+  const result = getPageLabels(label);
+  return NextResponse.json({ pageLabels: result?.data ?? null, version: result?.version ?? null });
+}
+
+/**
+ * Resolve page labels again from the current page numbers. Labels read from
+ * the PDF are kept as they are.
+ */
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ label: string }> }
+) {
+  const { label } = await params;
+
+  if (!LABEL_RE.test(label)) {
+    return NextResponse.json({ error: "Invalid label" }, { status: 400 });
+  }
+  if (!bookExists(label)) {
+    return NextResponse.json({ error: "Book not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ pageLabels: await runPageLabeling(label) });
+}
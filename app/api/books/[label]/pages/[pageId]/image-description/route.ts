@@ -0,0 +1,113 @@
+import { NextResponse } from "next/server";
+import {
+  getImageClassification,
+  getImageDescriptionVersion,
+  listImageDescriptionVersions,
+  putNodeData,
+} from "@/lib/books";
+import { applyPageImageDescriptions } from "@/lib/pipeline/actions";
+import { pageImageDescriptionsSchema } from "@/lib/pipeline/image-description/image-description-schema";
+import { queue } from "@/lib/queue";
+
+const LABEL_RE = /^[a-z0-9-]+$/;
+const PAGE_RE = /^pg\d{3}$/;
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ label: string; pageId: string }> }
+) {
+  const { label, pageId } = await params;
+
+  if (!LABEL_RE.test(label) || !PAGE_RE.test(pageId)) {
+    return NextResponse.json({ error: "Invalid params" }, { status: 400 });
+  }
+
+  const versions = listImageDescriptionVersions(label, pageId);
+  if (versions.length === 0) {
+    return NextResponse.json(
+      { error: "No image descriptions found" },
+      { status: 404 }
+    );
+  }
+
+  const url = new URL(request.url);
+  const vParam = url.searchParams.get("version");
+  const version = vParam ? Number(vParam) : versions[versions.length - 1];
+
+  if (!versions.includes(version)) {
+    return NextResponse.json(
+      { error: "Version not found" },
+      { status: 404 }
+    );
+  }
+
+  const data = getImageDescriptionVersion(label, pageId, version);
+  if (!data) {
+    return NextResponse.json(
+      { error: "Version not found" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ versions, version, data });
+}
+
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ label: string; pageId: string }> }
+) {
+  const { label, pageId } = await params;
+
+  if (!LABEL_RE.test(label) || !PAGE_RE.test(pageId)) {
+    return NextResponse.json({ error: "Invalid params" }, { status: 400 });
+  }
+
+  if (!getImageClassification(label, pageId)) {
+    return NextResponse.json(
+      { error: "No image classification found for this page" },
+      { status: 404 }
+    );
+  }
+
+  const jobId = queue.enqueue("image-description", label, { pageId });
+  return NextResponse.json({ jobId });
+}
+
+/**
+ * Save reviewer edits as a new version and stamp the new alt text onto the
+ * existing web renderings that show the page's images (including merged
+ * chains headed on an earlier page), so edits show up without an LLM
+ * re-render.
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ label: string; pageId: string }> }
+) {
+  const { label, pageId } = await params;
+
+  if (!LABEL_RE.test(label) || !PAGE_RE.test(pageId)) {
+    return NextResponse.json({ error: "Invalid params" }, { status: 400 });
+  }
+
+  const body = await request.json();
+  const parsed = pageImageDescriptionsSchema.safeParse(body.data);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Missing or invalid data payload" },
+      { status: 400 }
+    );
+  }
+
+  const data = parsed.data;
+  const versions = listImageDescriptionVersions(label, pageId);
+  const nextVersion = versions.length > 0 ? Math.max(...versions) + 1 : 1;
+  putNodeData(label, "image-description", pageId, nextVersion, data);
+
+  await applyPageImageDescriptions(label, pageId);
+
+  return NextResponse.json({
+    version: nextVersion,
+    versions: listImageDescriptionVersions(label, pageId),
+    data,
+  });
+}
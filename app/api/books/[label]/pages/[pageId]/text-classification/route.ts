@@ -10,6 +10,7 @@ import {
   type PageTextClassification,
 } from "@/lib/books";
 import { loadBookConfig } from "@/lib/config";
+import { tableErrors } from "@/lib/pipeline/text-classification/tables";
 import { queue } from "@/lib/queue";
 
 const LABEL_RE = /^[a-z0-9-]+$/;
@@ -113,6 +114,16 @@ export async function PUT(
   }
 
   const data: PageTextClassification = body.data;
+  for (const [gi, group] of (data.groups ?? []).entries()) {
+    const errors = group.table ? tableErrors(group.table, group.texts.length) : [];
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: `Invalid table in group ${gi + 1}: ${errors[0]}` },
+        { status: 400 }
+      );
+    }
+  }
+
   const nextVersion = latest.version + 1;
   putNodeData(label, "text-classification", pageId, nextVersion, data);
 
@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server";
+import {
+  getTextClassification,
+  getTranslationVersion,
+  listTranslationVersions,
+} from "@/lib/books";
+import { queue } from "@/lib/queue";
+
+const LABEL_RE = /^[a-z0-9-]+$/;
+const PAGE_RE = /^pg\d{3}$/;
+const LANGUAGE_RE = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ label: string; pageId: string }> }
+) {
+  const { label, pageId } = await params;
+
+  if (!LABEL_RE.test(label) || !PAGE_RE.test(pageId)) {
+    return NextResponse.json({ error: "Invalid params" }, { status: 400 });
+  }
+
+  const url = new URL(request.url);
+  const language = url.searchParams.get("language");
+  if (!language || !LANGUAGE_RE.test(language)) {
+    return NextResponse.json({ error: "Invalid language" }, { status: 400 });
+  }
+
+  const versions = listTranslationVersions(label, pageId, language);
+  if (versions.length === 0) {
+    return NextResponse.json(
+      { error: "No translation found" },
+      { status: 404 }
+    );
+  }
+
+  const vParam = url.searchParams.get("version");
+  const version = vParam ? Number(vParam) : versions[versions.length - 1];
+
+  if (!versions.includes(version)) {
+    return NextResponse.json(
+      { error: "Version not found" },
+      { status: 404 }
+    );
+  }
+
+  const data = getTranslationVersion(label, pageId, language, version);
+  if (!data) {
+    return NextResponse.json(
+      { error: "Version not found" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ versions, version, data });
+}
+
+/**
+ * Translate the page into the given languages (body `{ languages }`), or
+ * into every configured target language when no body is sent.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ label: string; pageId: string }> }
+) {
+  const { label, pageId } = await params;
+
+  if (!LABEL_RE.test(label) || !PAGE_RE.test(pageId)) {
+    return NextResponse.json({ error: "Invalid params" }, { status: 400 });
+  }
+
+  const body = (await request.json().catch(() => ({}))) as { languages?: unknown };
+  const languages = body.languages;
+  if (
+    languages !== undefined &&
+    (!Array.isArray(languages) ||
+      !languages.every((l) => typeof l === "string" && LANGUAGE_RE.test(l)))
+  ) {
+    return NextResponse.json({ error: "Invalid languages" }, { status: 400 });
+  }
+
+  if (!getTextClassification(label, pageId)) {
+    return NextResponse.json(
+      { error: "No text classification found for this page" },
+      { status: 404 }
+    );
+  }
+
+  const jobId = queue.enqueue("translation", label, {
+    pageId,
+    ...(languages ? { languages } : {}),
+  });
+  return NextResponse.json({ jobId });
+}
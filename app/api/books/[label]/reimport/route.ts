@@ -1,16 +1,25 @@
 import fs from "node:fs";
 import path from "node:path";
 import { getBooksRoot, putBookMetadata } from "@/lib/books";
-import { closeDb, getDb, undeleteDb } from "@/lib/db";
+import { closeDb, getDb, undeleteDb, SchemaMismatchError } from "@/lib/db";
 import { resolveBookPaths } from "@/lib/pipeline/types";
 import { loadBookConfig } from "@/lib/config";
 import { runExtract, createBookStorage } from "@/lib/pipeline/runner";
 import { queue } from "@/lib/queue";
+import { reimportBook } from "@/lib/reimport";
 
 const LABEL_RE = /^[a-z0-9-]+$/;
 
+/**
+ * Re-extract the book's PDF, streaming progress as NDJSON.
+ *
+ * By default the database and pipeline output are deleted first (the way
+ * out of an incompatible database). With `?mode=preserve` the previous
+ * import is kept as a backup and the work on unchanged pages is carried
+ * over; the final message includes the reimport report.
+ */
 export async function POST(
-  _request: Request,
+  request: Request,
   { params }: { params: Promise<{ label: string }> }
 ) {
   const { label } = await params;
@@ -51,9 +60,29 @@ export async function POST(
     // Config read failed — proceed with defaults
   }
 
+  const preserve = new URL(request.url).searchParams.get("mode") === "preserve";
+  if (preserve) {
+    try {
+      getDb(label);
+    } catch (err) {
+      if (!(err instanceof SchemaMismatchError)) throw err;
+      return new Response(
+        JSON.stringify({ error: "The database cannot be opened; only a full reimport is possible" }),
+        { status: 409, headers: { "Content-Type": "application/json" } }
+      );
+    }
+  }
+
   // Cancel any running/queued jobs for this book before reimporting
   queue.cancelByLabel(label);
 
+  if (preserve) {
+    return streamExtraction(async (progress, write) => {
+      const { result, report } = await reimportBook(label, { pdfPath, startPage, endPage }, progress);
+      write({ done: true, label, totalPages: result.totalPagesInPdf, report });
+    });
+  }
+
   // Close DB connection and delete the .db file
   closeDb(label);
   const dbPath = path.join(paths.bookDir, `${label}.db`);
@@ -87,7 +116,35 @@ export async function POST(
   undeleteDb(label);
   getDb(label);
 
-  // Stream extraction progress as NDJSON
+  return streamExtraction(async (progress, write) => {
+    const result = await runExtract(
+      { pdfPath, startPage, endPage },
+      createBookStorage(label),
+      progress
+    );
+
+    // Write stub metadata to DB so the book appears in listBooks().
+    putBookMetadata(label, "stub", {
+      title: label.replace(/-/g, " ").replace(/\b\w/g, (c) => c.toUpperCase()),
+      authors: [],
+      publisher: null,
+      language_code: null,
+      cover_page_number: 1,
+      reasoning: "Auto-generated stub from reimport",
+    });
+
+    const jobId = queue.enqueue("metadata", label);
+    write({ done: true, label, jobId, totalPages: result.totalPagesInPdf });
+  });
+}
+
+/** Run `extract` in the background, streaming its page progress as NDJSON. */
+function streamExtraction(
+  extract: (
+    progress: { emit(event: { type: string; page?: number; totalPages?: number }): void },
+    write: (obj: object) => void
+  ) => Promise<void>
+): Response {
   const { readable, writable } = new TransformStream();
   const writer = writable.getWriter();
   const encoder = new TextEncoder();
@@ -95,38 +152,19 @@ export async function POST(
   const write = (obj: object) =>
     writer.write(encoder.encode(JSON.stringify(obj) + "\n"));
 
+  // Create a progress emitter that writes to the stream
+  const streamProgress = {
+    emit(event: { type: string; page?: number; totalPages?: number }) {
+      if (event.type === "book-step-progress" && event.page !== undefined) {
+        write({ page: event.page, totalPages: event.totalPages });
+      }
+    },
+  };
+
   // Run extraction asynchronously
   (async () => {
     try {
-      const storage = createBookStorage(label);
-
-      // Create a progress emitter that writes to the stream
-      const streamProgress = {
-        emit(event: { type: string; page?: number; totalPages?: number; message?: string }) {
-          if (event.type === "book-step-progress" && event.page !== undefined) {
-            write({ page: event.page, totalPages: event.totalPages });
-          }
-        },
-      };
-
-      const result = await runExtract(
-        { pdfPath, startPage, endPage },
-        storage,
-        streamProgress
-      );
-
-      // Write stub metadata to DB so the book appears in listBooks().
-      putBookMetadata(label, "stub", {
-        title: label.replace(/-/g, " ").replace(/\b\w/g, (c) => c.toUpperCase()),
-        authors: [],
-        publisher: null,
-        language_code: null,
-        cover_page_number: 1,
-        reasoning: "Auto-generated stub from reimport",
-      });
-
-      const jobId = queue.enqueue("metadata", label);
-      write({ done: true, label, jobId, totalPages: result.totalPagesInPdf });
+      await extract(streamProgress, write);
     } catch (err) {
       write({ error: String(err) });
     } finally {
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import fs from "node:fs";
+import { getBooksRoot } from "@/lib/books";
+import { resolveBookPaths } from "@/lib/pipeline/types";
+import {
+  applyRunningTextCorrections,
+  findRunningTextInconsistencies,
+} from "@/lib/pipeline/actions";
+
+const LABEL_RE = /^[a-z0-9-]+$/;
+
+function bookExists(label: string): boolean {
+  return fs.existsSync(resolveBookPaths(label, getBooksRoot()).bookDir);
+}
+
+/**
+ * Running headers, footers and page numbers that are pruned on some pages
+ * and kept on others, each with the corrections that make it consistent.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ label: string }> }
+) {
+  const { label } = await params;
+
+  if (!LABEL_RE.test(label)) {
+    return NextResponse.json({ error: "Invalid label" }, { status: 400 });
+  }
+  if (!bookExists(label)) {
+    return NextResponse.json({ error: "Book not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ clusters: await findRunningTextInconsistencies(label) });
+}
+
+/**
+ * Accept the corrections of the clusters listed in `keys`. Each changed page
+ * gets a new text classification version, which leaves its sectioning stale.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ label: string }> }
+) {
+  const { label } = await params;
+
+  if (!LABEL_RE.test(label)) {
+    return NextResponse.json({ error: "Invalid label" }, { status: 400 });
+  }
+  if (!bookExists(label)) {
+    return NextResponse.json({ error: "Book not found" }, { status: 404 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const keys: unknown = body?.keys;
+  if (!Array.isArray(keys) || !keys.every((k) => typeof k === "string")) {
+    return NextResponse.json({ error: "Missing or invalid keys" }, { status: 400 });
+  }
+
+  const result = await applyRunningTextCorrections(label, keys as string[]);
+  return NextResponse.json(result);
+}
@@ -0,0 +1,139 @@
+import { NextResponse } from "next/server";
+import fs from "node:fs";
+import {
+  getBooksRoot,
+  getPageSectioning,
+  getSectionLinks,
+  getSectionLinksVersion,
+  listSectionLinksVersions,
+  putNodeData,
+  type SectionLinkEntry,
+  type SectionLinks,
+} from "@/lib/books";
+import { resolveBookPaths } from "@/lib/pipeline/types";
+import { fromDBSectionLinks } from "@/lib/pipeline/core/schemas";
+import { sectionsToRerender } from "@/lib/pipeline/steps";
+import { queue } from "@/lib/queue";
+
+const LABEL_RE = /^[a-z0-9-]+$/;
+const SECTION_RE = /^(pg\d{3})_s(\d{3})$/;
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ label: string }> }
+) {
+  const { label } = await params;
+
+  if (!LABEL_RE.test(label)) {
+    return NextResponse.json({ error: "Invalid label" }, { status: 400 });
+  }
+
+  const versions = listSectionLinksVersions(label);
+  if (versions.length === 0) {
+    return NextResponse.json(
+      { error: "No section links found" },
+      { status: 404 }
+    );
+  }
+
+  const url = new URL(request.url);
+  const vParam = url.searchParams.get("version");
+  const version = vParam ? Number(vParam) : versions[versions.length - 1];
+
+  const data = versions.includes(version)
+    ? getSectionLinksVersion(label, version)
+    : null;
+  if (!data) {
+    return NextResponse.json(
+      { error: "Version not found" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ versions, version, data });
+}
+
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ label: string }> }
+) {
+  const { label } = await params;
+
+  if (!LABEL_RE.test(label)) {
+    return NextResponse.json({ error: "Invalid label" }, { status: 400 });
+  }
+
+  const { bookDir } = resolveBookPaths(label, getBooksRoot());
+  if (!fs.existsSync(bookDir)) {
+    return NextResponse.json({ error: "Book not found" }, { status: 404 });
+  }
+
+  const jobId = queue.enqueue("section-linking", label);
+  return NextResponse.json({ jobId });
+}
+
+/**
+ * Save a manually edited set of links as a new version, then re-render the
+ * sections whose link status changed so merged renderings stay in sync.
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ label: string }> }
+) {
+  const { label } = await params;
+
+  if (!LABEL_RE.test(label)) {
+    return NextResponse.json({ error: "Invalid label" }, { status: 400 });
+  }
+
+  const body = await request.json();
+  const links: unknown = body.data?.links;
+  if (
+    !Array.isArray(links) ||
+    !links.every(
+      (l: SectionLinkEntry) =>
+        SECTION_RE.test(l?.from_section_id) && SECTION_RE.test(l?.to_section_id)
+    )
+  ) {
+    return NextResponse.json(
+      { error: "Missing or invalid links payload" },
+      { status: 400 }
+    );
+  }
+
+  const data: SectionLinks = {
+    links: (links as SectionLinkEntry[]).map((l) => ({
+      from_section_id: l.from_section_id,
+      to_section_id: l.to_section_id,
+      reasoning: typeof l.reasoning === "string" ? l.reasoning : "",
+    })),
+  };
+
+  const previous = getSectionLinks(label)?.data.links ?? [];
+  const versions = listSectionLinksVersions(label);
+  const nextVersion = versions.length > 0 ? Math.max(...versions) + 1 : 1;
+  putNodeData(label, "section-linking", "book", nextVersion, data);
+
+  // Chains that gained or lost a link are re-rendered once from their head;
+  // sections left unlinked are rendered on their own again
+  const rerender = sectionsToRerender(
+    fromDBSectionLinks({ links: previous }).links,
+    fromDBSectionLinks(data).links
+  );
+
+  const jobIds: string[] = [];
+  for (const sectionId of rerender) {
+    const [, pageId, sectionNumber] = SECTION_RE.exec(sectionId)!;
+    const sectionIndex = Number(sectionNumber) - 1;
+    const section = getPageSectioning(label, pageId)?.data.sections[sectionIndex];
+    if (!section || section.is_pruned) continue;
+    jobIds.push(queue.enqueue("web-rendering-section", label, { pageId, sectionIndex }));
+  }
+
+  return NextResponse.json({
+    version: nextVersion,
+    versions: listSectionLinksVersions(label),
+    data,
+    jobIds,
+  });
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import fs from "node:fs";
+import { getBooksRoot } from "@/lib/books";
+import { resolveBookPaths } from "@/lib/pipeline/types";
+import { queue } from "@/lib/queue";
+import { listStalePages } from "@/lib/staleness";
+
+const LABEL_RE = /^[a-z0-9-]+$/;
+
+function bookExists(label: string): boolean {
+  return fs.existsSync(resolveBookPaths(label, getBooksRoot()).bookDir);
+}
+
+/** Pages whose sectioning or rendering is older than the data it was built from. */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ label: string }> }
+) {
+  const { label } = await params;
+
+  if (!LABEL_RE.test(label)) {
+    return NextResponse.json({ error: "Invalid label" }, { status: 400 });
+  }
+  if (!bookExists(label)) {
+    return NextResponse.json({ error: "Book not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ pages: listStalePages(label) });
+}
+
+/** Rerun only the stale steps of each stale page. */
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ label: string }> }
+) {
+  const { label } = await params;
+
+  if (!LABEL_RE.test(label)) {
+    return NextResponse.json({ error: "Invalid label" }, { status: 400 });
+  }
+  if (!bookExists(label)) {
+    return NextResponse.json({ error: "Book not found" }, { status: 404 });
+  }
+
+  const jobIds = listStalePages(label).map((page) =>
+    queue.enqueue("page-pipeline", label, {
+      pageId: page.pageId,
+      steps: page.rerunSteps,
+    })
+  );
+  return NextResponse.json({ jobIds });
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import fs from "node:fs";
+import { getBooksRoot, getTableOfContents } from "@/lib/books";
+import { resolveBookPaths } from "@/lib/pipeline/types";
+import { runTableOfContents } from "@/lib/pipeline/actions";
+
+const LABEL_RE = /^[a-z0-9-]+$/;
+
+function bookExists(label: string): boolean {
+  return fs.existsSync(resolveBookPaths(label, getBooksRoot()).bookDir);
+}
+
+/** The reconstructed table of contents, or null if the book has none yet. */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ label: string }> }
+) {
+  const { label } = await params;
+
+  if (!LABEL_RE.test(label)) {
+    return NextResponse.json({ error: "Invalid label" }, { status: 400 });
+  }
+  if (!bookExists(label)) {
+    return NextResponse.json({ error: "Book not found" }, { status: 404 });
+  }
+
+  const result = getTableOfContents(label);
+  return NextResponse.json({ toc: result?.data ?? null, version: result?.version ?? null });
+}
+
+/**
+ * Rebuild the table of contents from the current sectioning and page
+ * labels. Returns null when no section is typed `table_of_contents`.
+ */
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ label: string }> }
+) {
+  const { label } = await params;
+
+  if (!LABEL_RE.test(label)) {
+    return NextResponse.json({ error: "Invalid label" }, { status: 400 });
+  }
+  if (!bookExists(label)) {
+    return NextResponse.json({ error: "Book not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ toc: await runTableOfContents(label) });
+}
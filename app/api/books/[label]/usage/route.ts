@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { getUsageReport } from "@/lib/usage";
+
+const LABEL_RE = /^[a-z0-9-]+$/;
+
+function parseTimestamp(value: string | null): string | undefined | null {
+  if (value === null || value === "") return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Token usage and estimated cost for a book, rolled up by step, page and
+ * model. `from` and `to` (ISO dates or timestamps) limit the time range.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ label: string }> }
+) {
+  const { label } = await params;
+  if (!LABEL_RE.test(label)) {
+    return NextResponse.json({ error: "Invalid label" }, { status: 400 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const from = parseTimestamp(searchParams.get("from"));
+  const to = parseTimestamp(searchParams.get("to"));
+  if (from === null || to === null) {
+    return NextResponse.json({ error: "Invalid from/to timestamp" }, { status: 400 });
+  }
+
+  return NextResponse.json(getUsageReport(label, { from, to }));
+}
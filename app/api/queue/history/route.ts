@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { queue } from "@/lib/queue";
+
+export const dynamic = "force-dynamic";
+
+const LABEL_RE = /^[a-z0-9-]+$/;
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const label = searchParams.get("label") ?? undefined;
+  if (label !== undefined && !LABEL_RE.test(label)) {
+    return NextResponse.json({ error: "Invalid label" }, { status: 400 });
+  }
+
+  const limitParam = searchParams.get("limit");
+  const limit = limitParam === null ? 100 : parseInt(limitParam, 10);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+    return NextResponse.json({ error: "Invalid limit" }, { status: 400 });
+  }
+
+  return NextResponse.json({ jobs: queue.getHistory({ label, limit }) });
+}
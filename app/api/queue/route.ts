@@ -1,3 +1,4 @@
+import { NextResponse } from "next/server";
 import { queue } from "@/lib/queue";
 import type { Job } from "@/lib/queue";
 
@@ -63,3 +64,29 @@ export async function GET(request: Request) {
     },
   });
 }
+
+/**
+ * Cancel a job: `?jobId=` for one job, or `?label=` for every queued and
+ * running job of a book.
+ */
+export async function DELETE(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const jobId = searchParams.get("jobId");
+  const label = searchParams.get("label");
+
+  if (label) {
+    return NextResponse.json({ cancelled: queue.cancelByLabel(label) });
+  }
+  if (!jobId) {
+    return NextResponse.json({ error: "jobId or label is required" }, { status: 400 });
+  }
+
+  const job = queue.getJob(jobId);
+  if (!job) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+  if (!queue.cancel(jobId)) {
+    return NextResponse.json({ error: `Job is already ${job.status}` }, { status: 409 });
+  }
+  return NextResponse.json({ cancelled: 1 });
+}
@@ -0,0 +1,38 @@
+import type { AccessibilityFindingEntry } from "@/lib/books";
+
+const RULE_LABELS: Record<AccessibilityFindingEntry["rule"], string> = {
+  "color-contrast": "Contrast",
+  "heading-order": "Headings",
+  "image-alt": "Alt text",
+  lang: "Language",
+  aria: "ARIA",
+};
+
+/** List of accessibility findings for one section. */
+export function AccessibilityFindings({
+  findings,
+}: {
+  findings: AccessibilityFindingEntry[];
+}) {
+  return (
+    <ul className="space-y-1">
+      {findings.map((f, i) => (
+        <li key={i} className="flex items-baseline gap-2 text-xs">
+          <span
+            className={`shrink-0 rounded px-1.5 py-0.5 font-medium text-white ${
+              f.severity === "error" ? "bg-red-500" : "bg-amber-500"
+            }`}
+          >
+            {RULE_LABELS[f.rule]}
+          </span>
+          <span>
+            {f.message}
+            {f.element_id && (
+              <span className="ml-1 font-mono text-muted">({f.element_id})</span>
+            )}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
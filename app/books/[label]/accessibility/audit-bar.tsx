@@ -0,0 +1,41 @@
+"use client";
+
+import { useBookJobBusy, useRerun } from "../use-pipeline-refresh";
+
+/**
+ * Book-level toolbar for the accessibility report: summarises the findings
+ * and lets the user re-audit every rendered section.
+ */
+export function AuditBar({
+  label,
+  errorCount,
+  warningCount,
+  sectionCount,
+}: {
+  label: string;
+  errorCount: number;
+  warningCount: number;
+  sectionCount: number;
+}) {
+  const busy = useBookJobBusy("accessibility-audit");
+  const { rerun, error } = useRerun(`/api/books/${label}/accessibility-audit`);
+
+  return (
+    <div className="mb-4 flex items-center gap-3 rounded-lg border border-border px-4 py-2 text-sm">
+      <span className="text-muted">
+        {sectionCount === 0
+          ? "No rendered sections have been audited yet."
+          : `${errorCount} error${errorCount === 1 ? "" : "s"} and ${warningCount} warning${warningCount === 1 ? "" : "s"} across ${sectionCount} section${sectionCount === 1 ? "" : "s"}.`}
+      </span>
+      {error && <span className="text-xs text-red-500">{error}</span>}
+      <button
+        type="button"
+        onClick={rerun}
+        disabled={busy}
+        className="ml-auto cursor-pointer rounded-md border border-border px-2.5 py-1 text-xs font-medium hover:bg-surface disabled:cursor-default disabled:opacity-50"
+      >
+        {busy ? "Auditing…" : "Re-run audit"}
+      </button>
+    </div>
+  );
+}
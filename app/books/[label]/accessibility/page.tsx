@@ -0,0 +1,57 @@
+import Link from "next/link";
+import { getAccessibilityReport } from "@/lib/books";
+import { PipelineSSEProvider } from "../use-pipeline-refresh";
+import { AccessibilityFindings } from "./accessibility-findings";
+import { AuditBar } from "./audit-bar";
+
+export default async function AccessibilityReportPage({
+  params,
+}: {
+  params: Promise<{ label: string }>;
+}) {
+  const { label } = await params;
+  const report = getAccessibilityReport(label);
+  const findings = report.flatMap((entry) => entry.audit.findings);
+  const withFindings = report.filter((entry) => entry.audit.findings.length > 0);
+
+  return (
+    <PipelineSSEProvider label={label}>
+      <div>
+        <AuditBar
+          label={label}
+          errorCount={findings.filter((f) => f.severity === "error").length}
+          warningCount={findings.filter((f) => f.severity === "warning").length}
+          sectionCount={report.length}
+        />
+        {report.length > 0 && withFindings.length === 0 && (
+          <p className="text-sm italic text-muted">No accessibility issues found.</p>
+        )}
+        <div className="space-y-3">
+          {withFindings.map((entry) => (
+            <section
+              key={entry.section_id}
+              className="rounded-lg border border-border"
+            >
+              <div className="flex items-center justify-between border-b border-border bg-surface px-4 py-1.5 text-xs">
+                <Link
+                  href={`/books/${label}/storyboard#${entry.page_id}`}
+                  className="font-mono font-medium underline"
+                >
+                  {entry.section_id}
+                </Link>
+                {entry.is_stale && (
+                  <span className="text-muted">
+                    Audited v{entry.audit.web_rendering_version}; re-run the audit for the latest version
+                  </span>
+                )}
+              </div>
+              <div className="px-4 py-2">
+                <AccessibilityFindings findings={entry.audit.findings} />
+              </div>
+            </section>
+          ))}
+        </div>
+      </div>
+    </PipelineSSEProvider>
+  );
+}
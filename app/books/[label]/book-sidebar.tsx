@@ -7,6 +7,9 @@ const navItems = [
   { label: "Overview", href: "" },
   { label: "Extract", href: "/extract" },
   { label: "Storyboard", href: "/storyboard" },
+  { label: "Running text", href: "/running-text" },
+  { label: "Accessibility", href: "/accessibility" },
+  { label: "New edition", href: "/edition" },
 ];
 
 const bottomItems = [
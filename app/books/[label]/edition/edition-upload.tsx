@@ -0,0 +1,81 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+/**
+ * Uploads a revised PDF as the book's new edition and streams the
+ * extraction progress. Changed pages are queued for processing by the route.
+ */
+export function EditionUpload({ label }: { label: string }) {
+  const router = useRouter();
+  const [file, setFile] = useState<File | null>(null);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  async function upload() {
+    if (!file) return;
+    setRunning(true);
+    setError(null);
+    setProgress("Uploading…");
+    try {
+      const form = new FormData();
+      form.append("pdf", file);
+      const res = await fetch(`/api/books/${label}/edition`, { method: "POST", body: form });
+      if (!res.ok || !res.body) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Request failed (${res.status})`);
+      }
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buf = "";
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buf += decoder.decode(value, { stream: true });
+        const lines = buf.split("\n");
+        buf = lines.pop()!;
+        for (const line of lines) {
+          if (!line) continue;
+          const msg = JSON.parse(line);
+          if (msg.error) throw new Error(msg.error);
+          if (msg.done) {
+            setFile(null);
+            router.refresh();
+            return;
+          }
+          setProgress(`Extracting page ${msg.page} of ${msg.totalPages}…`);
+        }
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setRunning(false);
+      setProgress("");
+    }
+  }
+
+  return (
+    <div className="mb-8 flex items-center gap-2 text-sm">
+      <input
+        type="file"
+        accept=".pdf,application/pdf"
+        disabled={running}
+        onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+        className="text-sm text-muted"
+      />
+      <button
+        type="button"
+        onClick={upload}
+        disabled={!file || running}
+        className="cursor-pointer rounded border border-border px-3 py-1.5 text-sm text-muted hover:bg-surface transition-colors disabled:cursor-default disabled:opacity-50"
+      >
+        {running ? "Importing…" : "Import new edition"}
+      </button>
+      {running && <span className="text-xs text-muted">{progress}</span>}
+      {error && <span className="text-xs text-red-500">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import Link from "next/link";
+import { getEditionDiff } from "@/lib/books";
+import type { EditionPageDiff } from "@/lib/edition";
+import { LightboxImage } from "../extract/image-lightbox";
+import { EditionUpload } from "./edition-upload";
+
+const STATUS_LABELS: Record<EditionPageDiff["status"], string> = {
+  unchanged: "Unchanged",
+  moved: "Moved",
+  changed: "Changed",
+  added: "Added",
+};
+
+function TextDiff({ parts }: { parts: NonNullable<EditionPageDiff["textDiff"]> }) {
+  if (!parts.some((part) => part.type !== "same")) {
+    return <p className="text-xs text-muted">Text unchanged.</p>;
+  }
+  return (
+    <p className="whitespace-pre-wrap text-xs leading-relaxed">
+      {parts.map((part, i) =>
+        part.type === "same" ? (
+          <span key={i}>{part.text} </span>
+        ) : part.type === "added" ? (
+          <ins key={i} className="bg-green-100 no-underline">{part.text} </ins>
+        ) : (
+          <del key={i} className="bg-red-100 text-muted">{part.text} </del>
+        )
+      )}
+    </p>
+  );
+}
+
+function PageComparison({ label, page }: { label: string; page: EditionPageDiff }) {
+  return (
+    <div id={page.pageId} className="rounded-lg border border-border p-4">
+      <div className="mb-3 flex items-baseline gap-2 text-sm">
+        <Link href={`/books/${label}/storyboard#${page.pageId}`} className="font-semibold hover:underline">
+          {page.pageId}
+        </Link>
+        <span className="text-muted">
+          {STATUS_LABELS[page.status]}
+          {page.previousPageId && page.previousPageId !== page.pageId && ` · was ${page.previousPageId}`}
+          {page.imagesAdded > 0 && ` · ${page.imagesAdded} new ${page.imagesAdded === 1 ? "image" : "images"}`}
+          {page.imagesRemoved > 0 && ` · ${page.imagesRemoved} ${page.imagesRemoved === 1 ? "image" : "images"} removed`}
+        </span>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <div className="mb-1 text-xs text-muted">Previous edition</div>
+          {page.previousPageId ? (
+            <LightboxImage
+              src={`/api/books/${label}/edition/pages/${page.previousPageId}/image`}
+              alt={`Previous ${page.previousPageId}`}
+              className="w-full border border-border bg-surface"
+            />
+          ) : (
+            <p className="text-xs italic text-muted">New page</p>
+          )}
+        </div>
+        <div>
+          <div className="mb-1 text-xs text-muted">New edition</div>
+          <LightboxImage
+            src={`/api/books/${label}/pages/${page.pageId}/image`}
+            alt={page.pageId}
+            className="w-full border border-border bg-surface"
+          />
+        </div>
+      </div>
+      {page.textDiff && (
+        <div className="mt-3">
+          <TextDiff parts={page.textDiff} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default async function EditionPage({
+  params,
+}: {
+  params: Promise<{ label: string }>;
+}) {
+  const { label } = await params;
+  const diff = getEditionDiff(label);
+  const differing = diff?.pages.filter((page) => page.status !== "unchanged") ?? [];
+  const unchanged = (diff?.pages.length ?? 0) - differing.length;
+
+  return (
+    <div>
+      <p className="mb-4 text-sm text-muted">
+        Replace the book&apos;s PDF with a corrected edition. Pages that did not change keep their
+        classifications, sections and edits; changed and added pages are processed again.
+      </p>
+      <EditionUpload label={label} />
+
+      {diff && (
+        <>
+          <p className="mb-4 text-sm">
+            New edition imported {new Date(diff.createdAt).toLocaleString()}: {unchanged} unchanged,{" "}
+            {differing.length} changed, added or moved
+            {diff.removed.length > 0 && `, ${diff.removed.length} removed (${diff.removed.join(", ")})`}.
+          </p>
+          <div className="space-y-4">
+            {differing.map((page) => (
+              <PageComparison key={page.pageId} label={label} page={page} />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
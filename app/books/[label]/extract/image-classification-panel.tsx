@@ -5,7 +5,9 @@ import type {
   ImageEntry,
   PageImageClassification,
 } from "@/lib/pipeline/image-classification/image-classification-schema";
+import type { PageImageDescriptions } from "@/lib/pipeline/image-description/image-description-schema";
 import { ImageCropDialog } from "./image-crop-dialog";
+import { ImageDescriptionEditor } from "./image-description-editor";
 import { NodeHeader, type VersionApi } from "../node-header";
 import { usePipelineBusy, usePanelJobBusy, usePanelJobError, useRerun } from "../use-pipeline-refresh";
 
@@ -18,6 +20,9 @@ interface ImageClassificationPanelProps {
   initialVersion: number;
   availableVersions: number[];
   initialImageHashes: Record<string, string>;
+  initialDescriptions: PageImageDescriptions | null;
+  descriptionVersion: number;
+  descriptionVersions: number[];
 }
 
 export function ImageClassificationPanel({
@@ -29,6 +34,9 @@ export function ImageClassificationPanel({
   initialVersion,
   availableVersions: initialAvailableVersions,
   initialImageHashes,
+  initialDescriptions,
+  descriptionVersion,
+  descriptionVersions,
 }: ImageClassificationPanelProps) {
   const [data, setData] = useState<PageImageClassification | null>(
     initialClassification
@@ -209,6 +217,7 @@ export function ImageClassificationPanel({
                     <img
                       src={`/api/books/${label}/pages/${pageId}/images/${displayId}?h=${hash}`}
                       alt={imageId}
+                      title={entry?.reason}
                       className={`w-full rounded-t border border-border ${isPruned ? "opacity-50" : ""}`}
                     />
                     {cropOverlay && (
@@ -276,6 +285,17 @@ export function ImageClassificationPanel({
           </p>
         )}
       </div>
+      {data && (
+        <ImageDescriptionEditor
+          key={descriptionVersion}
+          label={label}
+          pageId={pageId}
+          initialDescriptions={initialDescriptions}
+          initialVersion={descriptionVersion}
+          availableVersions={descriptionVersions}
+          imageHashes={imageHashes}
+        />
+      )}
       {cropImageId && (
         <ImageCropDialog
           src={`/api/books/${label}/pages/${pageId}/images/${cropImageId}?h=${imageHashes[cropImageId] ?? ""}`}
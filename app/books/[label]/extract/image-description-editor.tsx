@@ -0,0 +1,169 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import type {
+  ImageDescriptionEntry,
+  PageImageDescriptions,
+} from "@/lib/pipeline/image-description/image-description-schema";
+import { NodeHeader, type VersionApi } from "../node-header";
+import { usePipelineBusy, usePanelJobBusy, usePanelJobError, useRerun } from "../use-pipeline-refresh";
+
+interface ImageDescriptionEditorProps {
+  label: string;
+  pageId: string;
+  initialDescriptions: PageImageDescriptions | null;
+  initialVersion: number;
+  availableVersions: number[];
+  imageHashes: Record<string, string>;
+}
+
+/**
+ * Alt text and long descriptions of a page's images. Keyed on the stored
+ * version by its panel, so a pipeline run that stores a new version
+ * remounts the editor with the new data.
+ */
+export function ImageDescriptionEditor({
+  label,
+  pageId,
+  initialDescriptions,
+  initialVersion,
+  availableVersions: initialAvailableVersions,
+  imageHashes,
+}: ImageDescriptionEditorProps) {
+  const [data, setData] = useState<PageImageDescriptions | null>(initialDescriptions);
+  const [versions, setVersions] = useState(initialAvailableVersions);
+  const currentVersionRef = useRef(initialVersion);
+  const [isDirty, setIsDirty] = useState(false);
+
+  const pipelineBusy = usePipelineBusy(pageId, "image-description");
+  const panelJobBusy = usePanelJobBusy(pageId, "image-description");
+  const { error: jobError } = usePanelJobError(pageId, "image-description");
+  const apiBase = `/api/books/${label}/pages/${pageId}/image-description`;
+  const { rerun: handleRerun, error: rerunError } = useRerun(apiBase);
+  const busy = pipelineBusy || panelJobBusy;
+  const error = jobError || rerunError;
+
+  const versionApi: VersionApi = useMemo(() => ({
+    loadVersion: async (v: number) => {
+      const res = await fetch(`${apiBase}?version=${v}`);
+      if (!res.ok) throw new Error("Failed to load version");
+      return res.json();
+    },
+    saveVersion: async () => {
+      const res = await fetch(apiBase, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ data }),
+      });
+      if (!res.ok) throw new Error("Failed to save");
+      return res.json();
+    },
+  }), [apiBase, data]);
+
+  function updateEntry(imageId: string, patch: Partial<ImageDescriptionEntry>) {
+    setData((prev) => {
+      if (!prev) return prev;
+      return {
+        ...prev,
+        images: prev.images.map((img) =>
+          img.image_id === imageId ? { ...img, ...patch } : img
+        ),
+      };
+    });
+    setIsDirty(true);
+  }
+
+  async function discardEdits() {
+    try {
+      const json = await versionApi.loadVersion(currentVersionRef.current);
+      setData((json as { data: PageImageDescriptions }).data);
+    } catch {
+      // ignore
+    }
+    setIsDirty(false);
+  }
+
+  return (
+    <div className="border-t border-border">
+      <NodeHeader
+        title="Alt Text"
+        color="amber"
+        initialVersion={initialVersion}
+        initialVersions={versions}
+        versionApi={versionApi}
+        onVersionLoaded={(v, raw) => {
+          setData((raw as { data: PageImageDescriptions }).data);
+          currentVersionRef.current = v;
+        }}
+        onVersionSaved={(newVersion, newVersions, raw) => {
+          setData((raw as { data: PageImageDescriptions }).data);
+          currentVersionRef.current = newVersion;
+          setVersions(newVersions);
+          setIsDirty(false);
+        }}
+        rerunLoading={busy}
+        rerunDisabled={isDirty}
+        onRerun={handleRerun}
+        rerunTitle={data ? "Regenerate image descriptions" : "Generate image descriptions"}
+        isDirty={isDirty}
+        onDirtyDiscard={discardEdits}
+        error={error}
+      />
+      <div className="p-4">
+        {data && data.images.length > 0 ? (
+          <div className="space-y-3">
+            {data.images.map((entry) => (
+              <div key={entry.image_id} className="flex gap-3">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                  src={`/api/books/${label}/pages/${pageId}/images/${entry.image_id}?h=${imageHashes[entry.image_id] ?? ""}`}
+                  alt={entry.alt_text}
+                  className={`h-20 w-20 shrink-0 rounded border border-border object-contain ${entry.is_decorative ? "opacity-50" : ""}`}
+                />
+                <div className="min-w-0 flex-1 space-y-1.5">
+                  <div className="flex items-center justify-between font-mono text-[10px] text-muted">
+                    <span>{entry.image_id}</span>
+                    <label className="flex cursor-pointer items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={entry.is_decorative}
+                        onChange={(e) =>
+                          updateEntry(entry.image_id, { is_decorative: e.target.checked })
+                        }
+                      />
+                      Decorative
+                    </label>
+                  </div>
+                  <input
+                    type="text"
+                    value={entry.alt_text}
+                    disabled={entry.is_decorative}
+                    onChange={(e) => updateEntry(entry.image_id, { alt_text: e.target.value })}
+                    placeholder="Alt text"
+                    className="block w-full rounded border border-border bg-surface px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-amber-500 disabled:opacity-50"
+                  />
+                  <textarea
+                    value={entry.long_description ?? ""}
+                    disabled={entry.is_decorative}
+                    onChange={(e) =>
+                      updateEntry(entry.image_id, {
+                        long_description: e.target.value.trim() ? e.target.value : null,
+                      })
+                    }
+                    placeholder="Long description (charts, diagrams, maps)"
+                    rows={2}
+                    className="block w-full resize-y rounded border border-border bg-surface px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-amber-500 disabled:opacity-50"
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm italic text-muted">
+            {data ? "No images to describe on this page." : "Images have not been described yet."}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
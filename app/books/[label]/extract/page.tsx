@@ -1,5 +1,12 @@
-import { listPages, getImageHashes } from "@/lib/books";
+import {
+  listPages,
+  getImageHashes,
+  getPageSectioning,
+  getTextClassification,
+  getTextLayout,
+} from "@/lib/books";
 import { LightboxImage } from "./image-lightbox";
+import { TextSourceView, type SourceTextGroup } from "./text-source-view";
 
 export default async function ExtractPage({
   params,
@@ -17,25 +24,56 @@ export default async function ExtractPage({
           const pageHash = hashes[`${page.pageId}_page`];
           const pageQs = pageHash ? `?h=${pageHash}` : "";
           const extractedIds = page.imageIds.filter((id) => !id.endsWith("_page"));
+          const classification = getTextClassification(label, page.pageId);
+          const sectioning = getPageSectioning(label, page.pageId);
+          const sectionOf = new Map<string, { sectionId: string; sectionType: string }>();
+          sectioning?.data.sections.forEach((section, si) => {
+            const sectionId = `${page.pageId}_s${String(si + 1).padStart(3, "0")}`;
+            for (const partId of section.part_ids) {
+              sectionOf.set(partId, { sectionId, sectionType: section.section_type });
+            }
+          });
+          const groups: SourceTextGroup[] | null =
+            classification?.data.groups.map((group, gi) => {
+              const groupId = group.group_id ?? `${page.pageId}_gp${String(gi + 1).padStart(3, "0")}`;
+              return {
+                groupId,
+                groupType: group.group_type,
+                section: sectionOf.get(groupId) ?? null,
+                texts: group.texts.map((t, ti) => ({
+                  textId: `${groupId}_t${String(ti + 1).padStart(3, "0")}`,
+                  textType: t.text_type,
+                  text: t.text,
+                  isPruned: t.is_pruned,
+                })),
+              };
+            }) ?? null;
           return (
             <section
               key={page.pageId}
               id={page.pageId}
               className="scroll-mt-16 overflow-hidden rounded-lg border border-border"
             >
-              <div className="bg-slate-600 px-4 py-2.5 text-sm font-semibold text-white">
+              <div className="flex items-center gap-2 bg-slate-600 px-4 py-2.5 text-sm font-semibold text-white">
                 Page {i + 1}
+                {page.textSource === "ocr" && (
+                  <span
+                    title="The PDF has no text for this page; the text was transcribed from the page image"
+                    className="rounded bg-amber-400 px-1.5 py-0.5 text-xs font-medium text-slate-900"
+                  >
+                    OCR
+                  </span>
+                )}
               </div>
 
               <div className="grid gap-6 p-4 lg:grid-cols-[280px_1fr]">
-                <LightboxImage
-                  src={`/api/books/${label}/pages/${page.pageId}/image${pageQs}`}
-                  alt={`Page ${i + 1}`}
-                  className="w-full rounded-lg border border-border"
+                <TextSourceView
+                  pageAlt={`Page ${i + 1}`}
+                  imageSrc={`/api/books/${label}/pages/${page.pageId}/image${pageQs}`}
+                  layout={getTextLayout(label, page.pageId)}
+                  groups={groups}
+                  rawText={page.rawText}
                 />
-                <pre className="whitespace-pre-wrap rounded-lg border border-border bg-surface p-3 font-mono text-xs text-foreground">
-                  {page.rawText || <span className="text-faint italic">No raw text</span>}
-                </pre>
               </div>
               {extractedIds.length > 0 && (
                 <div className="grid grid-cols-6 gap-2 px-4 pb-4">
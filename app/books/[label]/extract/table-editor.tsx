@@ -0,0 +1,96 @@
+"use client";
+
+import { useState } from "react";
+import type { DBTextTable } from "@/lib/pipeline/core/schemas";
+import {
+  layoutTable,
+  tableColumnCount,
+  tableErrors,
+} from "@/lib/pipeline/text-classification/tables";
+
+interface TableEditorProps {
+  texts: Array<{ text: string; is_pruned: boolean }>;
+  table: DBTextTable | undefined;
+  onChange: (table: DBTextTable) => void;
+}
+
+/**
+ * Cell grid of a `table` group. Clicking a cell toggles it between header
+ * and data cell; changing the column count lays the texts out again row by
+ * row (dropping spans and blank cells).
+ */
+export function TableEditor({ texts, table, onChange }: TableEditorProps) {
+  const [columns, setColumns] = useState(() =>
+    table ? tableColumnCount(table) : Math.min(texts.length, 2) || 1
+  );
+  const errors = table ? tableErrors(table, texts.length) : [];
+
+  function relayout() {
+    onChange(layoutTable(texts.map((_, i) => i), columns, true));
+  }
+
+  function toggleHeader(ri: number, ci: number) {
+    if (!table) return;
+    onChange({
+      rows: table.rows.map((row, r) =>
+        row.map((cell, c) =>
+          r === ri && c === ci ? { ...cell, is_header: !cell.is_header } : cell
+        )
+      ),
+    });
+  }
+
+  return (
+    <div className="ml-5 mt-2 space-y-1.5">
+      <div className="flex items-center gap-2 text-xs text-muted">
+        <label className="flex items-center gap-1">
+          Columns
+          <input
+            type="number"
+            min={1}
+            value={columns}
+            onChange={(e) => setColumns(Math.max(1, Number(e.target.value) || 1))}
+            className="w-12 rounded border border-border bg-transparent px-1 py-0.5"
+          />
+        </label>
+        <button
+          type="button"
+          onClick={relayout}
+          className="cursor-pointer rounded border border-border px-1.5 py-0.5 hover:bg-surface"
+        >
+          {table ? "Re-layout" : "Lay out as table"}
+        </button>
+      </div>
+      {table && (
+        <table className="border-collapse text-xs">
+          <tbody>
+            {table.rows.map((row, ri) => (
+              <tr key={ri}>
+                {row.map((cell, ci) => {
+                  const entry = cell.text_index !== null ? texts[cell.text_index] : undefined;
+                  return (
+                    <td
+                      key={ci}
+                      rowSpan={cell.row_span}
+                      colSpan={cell.col_span}
+                      title={cell.is_header ? "Header cell — click for data cell" : "Data cell — click for header cell"}
+                      onClick={() => toggleHeader(ri, ci)}
+                      className={`cursor-pointer border border-border px-1.5 py-0.5 align-top${cell.is_header ? " bg-indigo-50 font-semibold" : ""}${entry?.is_pruned ? " opacity-40 line-through" : ""}`}
+                    >
+                      {entry ? entry.text : <span className="italic text-faint">blank</span>}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {errors.map((error, i) => (
+        <p key={i} className="text-xs text-red-600">
+          {error}
+        </p>
+      ))}
+    </div>
+  );
+}
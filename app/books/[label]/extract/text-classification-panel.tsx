@@ -5,8 +5,10 @@ import type { PageTextClassification } from "@/lib/books";
 import { TextTypeBadge } from "./text-type-badge";
 import { EditableText } from "./editable-text";
 import { TypeDropdown } from "./type-dropdown";
+import { TableEditor } from "./table-editor";
 import { usePipelineBusy, usePanelJobBusy, usePanelJobError, useRerun } from "../use-pipeline-refresh";
 import { NodeHeader, type VersionApi } from "../node-header";
+import { parseMathText, validateLatex } from "@/lib/pipeline/math/latex";
 
 interface TextClassificationPanelProps {
   label: string;
@@ -150,6 +152,9 @@ export function TextClassificationPanel({
                         });
                       }}
                     />
+                    {entry.text_type === "math" && (
+                      <MathFlag text={entry.text} />
+                    )}
                     <div className="shrink-0">
                       <TextTypeBadge
                         label={label}
@@ -196,6 +201,17 @@ export function TextClassificationPanel({
                   </div>
                 ))}
               </div>
+              {group.group_type === "table" && (
+                <TableEditor
+                  texts={group.texts}
+                  table={group.table}
+                  onChange={(table) => {
+                    applyEdit((d) => {
+                      d.groups[gi].table = table;
+                    });
+                  }}
+                />
+              )}
             </div>
           ))}
         </div>
@@ -203,3 +219,17 @@ export function TextClassificationPanel({
     </div>
   );
 }
+
+/** Marks a `math` text whose LaTeX cannot be converted to MathML. */
+function MathFlag({ text }: { text: string }) {
+  const error = useMemo(() => validateLatex(parseMathText(text).latex), [text]);
+  if (!error) return null;
+  return (
+    <span
+      title={error}
+      className="mt-0.5 shrink-0 rounded bg-red-100 px-1.5 py-0.5 text-[10px] font-medium text-red-700"
+    >
+      Invalid LaTeX
+    </span>
+  );
+}
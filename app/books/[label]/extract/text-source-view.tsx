@@ -0,0 +1,167 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import type { LayoutRect, PageLayout } from "@/lib/pipeline/runner";
+import { locateTexts, textAtPoint, unionRect } from "@/lib/pipeline/layout/layout";
+import { TEXT_TYPE_COLORS } from "./text-type-badge";
+
+export interface SourceTextGroup {
+  groupId: string;
+  groupType: string;
+  /** Section the group was placed in, null before sectioning */
+  section: { sectionId: string; sectionType: string } | null;
+  texts: Array<{ textId: string; textType: string; text: string; isPruned: boolean }>;
+}
+
+interface TextSourceViewProps {
+  pageAlt: string;
+  imageSrc: string;
+  /** Text geometry recorded at extraction; null for older extractions */
+  layout: PageLayout | null;
+  groups: SourceTextGroup[] | null;
+  rawText: string;
+}
+
+/**
+ * A page render linked to its classified texts. Hovering or clicking a text
+ * outlines the lines it came from on the render (found by matching the
+ * text against the page's structured text); clicking the render selects
+ * the text there, with its group and section. Pages that were never
+ * classified show their raw text instead.
+ */
+export function TextSourceView({ pageAlt, imageSrc, layout, groups, rawText }: TextSourceViewProps) {
+  const [hovered, setHovered] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [missed, setMissed] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const entries = useMemo(
+    () => groups?.flatMap((g) => g.texts.map((t) => ({ ...t, group: g }))) ?? [],
+    [groups]
+  );
+  const regions = useMemo(() => {
+    if (!layout) return new Map<string, LayoutRect[]>();
+    const rects = locateTexts(layout, entries.map((t) => t.text));
+    return new Map(entries.map((t, i) => [t.textId, rects[i]]));
+  }, [entries, layout]);
+
+  const selectedEntry = entries.find((t) => t.textId === selected);
+  const highlight = regions.get(hovered ?? selected ?? "") ?? [];
+  const groupOutline =
+    selectedEntry && !hovered
+      ? unionRect(selectedEntry.group.texts.flatMap((t) => regions.get(t.textId) ?? []))
+      : null;
+
+  function selectAt(event: React.MouseEvent<HTMLDivElement>) {
+    if (!layout || entries.length === 0) return;
+    const box = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - box.left) / box.width) * layout.width;
+    const y = ((event.clientY - box.top) / box.height) * layout.height;
+    const index = textAtPoint(entries.map((t) => regions.get(t.textId) ?? []), x, y);
+    setMissed(index === -1);
+    if (index === -1) {
+      setSelected(null);
+      return;
+    }
+    const textId = entries[index].textId;
+    setSelected(textId);
+    listRef.current
+      ?.querySelector(`[data-text-id="${textId}"]`)
+      ?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }
+
+  const place = ([x0, y0, x1, y1]: LayoutRect, page: PageLayout) => ({
+    left: `${(x0 / page.width) * 100}%`,
+    top: `${(y0 / page.height) * 100}%`,
+    width: `${((x1 - x0) / page.width) * 100}%`,
+    height: `${((y1 - y0) / page.height) * 100}%`,
+  });
+
+  return (
+    <>
+      <div className="self-start">
+        <div
+          onClick={selectAt}
+          className={`relative${layout && entries.length > 0 ? " cursor-crosshair" : ""}`}
+        >
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={imageSrc} alt={pageAlt} className="w-full rounded-lg border border-border" />
+          {layout && groupOutline && (
+            <div
+              className="pointer-events-none absolute rounded-sm ring-1 ring-yellow-500 ring-offset-2"
+              style={place(groupOutline, layout)}
+            />
+          )}
+          {layout &&
+            highlight.map((rect, i) => (
+              <div
+                key={i}
+                className="pointer-events-none absolute rounded-sm bg-yellow-300/40 ring-2 ring-yellow-500"
+                style={place(rect, layout)}
+              />
+            ))}
+        </div>
+        {selectedEntry ? (
+          <p className="mt-1.5 text-xs text-muted">
+            {selectedEntry.textId} · {selectedEntry.group.groupType}
+            {selectedEntry.group.section &&
+              ` · ${selectedEntry.group.section.sectionId} (${selectedEntry.group.section.sectionType})`}
+            {highlight.length === 0 && " · not found in the PDF's text"}
+          </p>
+        ) : (
+          missed && <p className="mt-1.5 text-xs text-faint italic">No classified text here</p>
+        )}
+      </div>
+      {groups ? (
+        <div ref={listRef} className="space-y-3 text-sm">
+          {groups.map((group) => (
+            <div
+              key={group.groupId}
+              className={`rounded-lg border p-2 ${selectedEntry?.group === group ? "border-yellow-500" : "border-border"}`}
+            >
+              <div className="mb-1 text-xs font-medium text-muted">
+                {group.groupId} · {group.groupType}
+                {group.section && ` · ${group.section.sectionId} (${group.section.sectionType})`}
+              </div>
+              {group.texts.map((entry) => {
+                const located = (regions.get(entry.textId) ?? []).length > 0;
+                const isSelected = entry.textId === selected;
+                return (
+                  <div
+                    key={entry.textId}
+                    data-text-id={entry.textId}
+                    onMouseEnter={() => setHovered(entry.textId)}
+                    onMouseLeave={() => setHovered(null)}
+                    onClick={() => {
+                      setMissed(false);
+                      setSelected(isSelected ? null : entry.textId);
+                    }}
+                    title={layout && !located ? "Not found in the PDF's text" : undefined}
+                    className={`flex cursor-pointer items-baseline gap-2 rounded px-1 py-0.5 ${isSelected ? "bg-yellow-100" : "hover:bg-surface"}${entry.isPruned ? " opacity-50 line-through" : ""}`}
+                  >
+                    <span
+                      className={`shrink-0 rounded px-1.5 py-0.5 text-xs ${TEXT_TYPE_COLORS[entry.textType] ?? TEXT_TYPE_COLORS.other}`}
+                    >
+                      {entry.textType}
+                    </span>
+                    <span className={layout && !located ? "text-muted" : undefined}>{entry.text}</span>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+          <details className="text-xs">
+            <summary className="cursor-pointer text-muted">Raw text</summary>
+            <pre className="mt-2 whitespace-pre-wrap rounded-lg border border-border bg-surface p-3 font-mono text-foreground">
+              {rawText || <span className="text-faint italic">No raw text</span>}
+            </pre>
+          </details>
+        </div>
+      ) : (
+        <pre className="whitespace-pre-wrap rounded-lg border border-border bg-surface p-3 font-mono text-xs text-foreground">
+          {rawText || <span className="text-faint italic">No raw text</span>}
+        </pre>
+      )}
+    </>
+  );
+}
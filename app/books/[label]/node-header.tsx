@@ -6,7 +6,7 @@ import { useState, useRef, useEffect, type ReactNode } from "react";
 // Reusable header bar for pipeline node cards.
 //
 // Handles:
-//  - Title label (left side)
+//  - Title label (left side), with a "Stale" badge when upstream data changed
 //  - Version dropdown with load/save/discard
 //  - Rerun button (spinning refresh icon)
 //  - Optional right-side children (edit mode buttons, etc.)
@@ -137,6 +137,8 @@ export interface NodeHeaderProps {
   saveDisabled?: boolean;
   /** Error message to display in the header. */
   error?: string | null;
+  /** Why the data is out of date with its upstream nodes; shows a "Stale" badge. */
+  stale?: string | null;
   /** Optional extra content that replaces the entire right side (e.g. edit-mode buttons). */
   children?: ReactNode;
 }
@@ -158,6 +160,7 @@ export function NodeHeader({
   onDirtySave,
   saveDisabled,
   error,
+  stale,
   children,
 }: NodeHeaderProps) {
   const c = colorMap[color];
@@ -258,6 +261,14 @@ export function NodeHeader({
       <span className="text-sm font-semibold text-white">
         {title}
       </span>
+      {stale && (
+        <span
+          title={stale}
+          className="ml-2 rounded bg-white/20 px-1.5 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-white"
+        >
+          Stale
+        </span>
+      )}
       {error && (
         <span className="ml-2 text-xs font-normal text-red-200">{error}</span>
       )}
@@ -0,0 +1,43 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+/**
+ * Re-resolves printed page labels from the current page numbers. Labels
+ * read from the PDF are kept, so this only matters for inferred ones.
+ */
+export function PageLabelsButton({ label }: { label: string }) {
+  const router = useRouter();
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function detect() {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/books/${label}/page-labels`, { method: "POST" });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.error ?? `Request failed (${res.status})`);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <>
+      {error && <span className="text-xs text-red-500">{error}</span>}
+      <button
+        type="button"
+        onClick={detect}
+        disabled={saving}
+        className="cursor-pointer rounded border border-border px-3 py-1.5 text-sm text-muted hover:bg-surface transition-colors disabled:cursor-default disabled:opacity-50"
+      >
+        {saving ? "Detecting…" : "Detect page numbers"}
+      </button>
+    </>
+  );
+}
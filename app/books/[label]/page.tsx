@@ -1,7 +1,20 @@
 import { notFound } from "next/navigation";
-import { getBookMetadata, getPdfMetadata, listPages } from "@/lib/books";
+import {
+  getBookMetadata,
+  getPageLabels,
+  getPdfMetadata,
+  getReimportReport,
+  getTableOfContents,
+  listPages,
+} from "@/lib/books";
+import { getUsageReport } from "@/lib/usage";
 import MetadataPanel from "./metadata-panel";
+import { UsagePanel } from "./usage-panel";
 import { LightboxImage } from "./extract/image-lightbox";
+import { PageLabelsButton } from "./page-labels-button";
+import { ReimportButton } from "./reimport-button";
+import { ReimportReportPanel } from "./reimport-report-panel";
+import { TableOfContentsPanel } from "./table-of-contents-panel";
 
 
 export default async function BookDetailPage({
@@ -15,10 +28,36 @@ export default async function BookDetailPage({
 
   const pdfMetadata = getPdfMetadata(label);
   const pages = listPages(label);
+  const usage = getUsageReport(label);
+  const pageLabels = getPageLabels(label)?.data.labels ?? {};
+  const toc = getTableOfContents(label);
+  const reimport = getReimportReport(label);
 
   return (
     <div>
       <MetadataPanel label={label} metadata={metadata} pdfMetadata={pdfMetadata} />
+      <UsagePanel report={usage} />
+      {toc && <TableOfContentsPanel label={label} entries={toc.data.entries} />}
+      {reimport && <ReimportReportPanel label={label} report={reimport} />}
+
+      <div className="mb-8 flex items-center justify-end gap-2">
+        <ReimportButton label={label} />
+        <PageLabelsButton label={label} />
+        <a
+          href={`/api/books/${label}/export`}
+          download
+          className="rounded border border-border px-3 py-1.5 text-sm text-muted hover:bg-surface transition-colors"
+        >
+          Download web package
+        </a>
+        <a
+          href={`/api/books/${label}/export?format=epub`}
+          download
+          className="rounded border border-border px-3 py-1.5 text-sm text-muted hover:bg-surface transition-colors"
+        >
+          Download EPUB
+        </a>
+      </div>
 
       <div className="grid gap-4 grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6">
         {pages.map((page) => (
@@ -33,6 +72,9 @@ export default async function BookDetailPage({
             />
             <div className="p-2 text-center text-xs text-muted">
               {page.pageId}
+              {pageLabels[page.pageId] && (
+                <span title="Page label printed in the book"> · p. {pageLabels[page.pageId]}</span>
+              )}
             </div>
           </div>
         ))}
@@ -0,0 +1,72 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+/**
+ * Re-extracts the book's PDF, keeping the work done on pages that did not
+ * change. Progress is streamed from the reimport route.
+ */
+export function ReimportButton({ label }: { label: string }) {
+  const router = useRouter();
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  async function reimport() {
+    if (!confirm("Re-extract the PDF? Work on unchanged pages is kept; changed pages need to be processed again.")) {
+      return;
+    }
+    setRunning(true);
+    setError(null);
+    setProgress("Starting…");
+    try {
+      const res = await fetch(`/api/books/${label}/reimport?mode=preserve`, { method: "POST" });
+      if (!res.ok || !res.body) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Request failed (${res.status})`);
+      }
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buf = "";
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buf += decoder.decode(value, { stream: true });
+        const lines = buf.split("\n");
+        buf = lines.pop()!;
+        for (const line of lines) {
+          if (!line) continue;
+          const msg = JSON.parse(line);
+          if (msg.error) throw new Error(msg.error);
+          if (msg.done) {
+            router.refresh();
+            return;
+          }
+          setProgress(`Page ${msg.page} of ${msg.totalPages}…`);
+        }
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setRunning(false);
+      setProgress("");
+    }
+  }
+
+  return (
+    <>
+      {error && <span className="text-xs text-red-500">{error}</span>}
+      {running && <span className="text-xs text-muted">{progress}</span>}
+      <button
+        type="button"
+        onClick={reimport}
+        disabled={running}
+        className="cursor-pointer rounded border border-border px-3 py-1.5 text-sm text-muted hover:bg-surface transition-colors disabled:cursor-default disabled:opacity-50"
+      >
+        {running ? "Reimporting…" : "Reimport PDF"}
+      </button>
+    </>
+  );
+}
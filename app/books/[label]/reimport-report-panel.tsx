@@ -0,0 +1,49 @@
+import Link from "next/link";
+import type { ReimportReport } from "@/lib/reimport";
+
+/**
+ * Outcome of the last reimport: pages that changed (and need to be
+ * processed and reviewed again), pages that disappeared, and how much
+ * work was carried over from the previous import.
+ */
+export function ReimportReportPanel({
+  label,
+  report,
+}: {
+  label: string;
+  report: ReimportReport;
+}) {
+  return (
+    <div className="mb-8 rounded-lg border border-border p-4 text-sm">
+      <div className="mb-2 flex items-baseline gap-2">
+        <h2 className="font-semibold">Last reimport</h2>
+        <span className="ml-auto text-xs text-muted">
+          {new Date(report.createdAt).toLocaleString()}
+        </span>
+      </div>
+      <p className="text-muted">
+        {report.unchanged.length} unchanged {report.unchanged.length === 1 ? "page" : "pages"} kept
+        their work ({report.carriedVersions} versions carried over).
+      </p>
+      {report.changed.length > 0 && (
+        <div className="mt-2">
+          <span className="font-medium">Changed, needs review:</span>{" "}
+          {report.changed.map((pageId, i) => (
+            <span key={pageId}>
+              {i > 0 && ", "}
+              <Link href={`/books/${label}/storyboard#${pageId}`} className="hover:underline">
+                {pageId}
+              </Link>
+            </span>
+          ))}
+        </div>
+      )}
+      {report.removed.length > 0 && (
+        <div className="mt-2">
+          <span className="font-medium">Removed:</span>{" "}
+          <span className="text-muted">{report.removed.join(", ")}</span>
+        </div>
+      )}
+    </div>
+  );
+}
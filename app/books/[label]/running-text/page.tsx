@@ -0,0 +1,22 @@
+import { findRunningTextInconsistencies } from "@/lib/pipeline/actions";
+import { RunningTextReview } from "./running-text-review";
+
+export default async function RunningTextPage({
+  params,
+}: {
+  params: Promise<{ label: string }>;
+}) {
+  const { label } = await params;
+  const clusters = await findRunningTextInconsistencies(label);
+
+  return (
+    <div>
+      <p className="mb-4 text-sm text-muted">
+        Running headers, footers and page numbers that are pruned on some pages and kept on
+        others. Accepting a correction gives every occurrence the majority classification and
+        saves a new text classification version for each changed page.
+      </p>
+      <RunningTextReview label={label} clusters={clusters} />
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import type { RunningTextCluster } from "@/lib/pipeline/actions";
+
+/**
+ * Bulk review of running text corrections: every cluster is selected by
+ * default, and accepting applies the selected ones in one request.
+ */
+export function RunningTextReview({
+  label,
+  clusters,
+}: {
+  label: string;
+  clusters: RunningTextCluster[];
+}) {
+  const router = useRouter();
+  const [selected, setSelected] = useState(() => new Set(clusters.map((c) => c.key)));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [applied, setApplied] = useState<{ pagesUpdated: number; textsUpdated: number } | null>(
+    null
+  );
+
+  function toggle(key: string) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  }
+
+  async function accept() {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/books/${label}/running-text`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ keys: [...selected] }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.error ?? `Request failed (${res.status})`);
+      setApplied(body);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const allSelected = selected.size === clusters.length;
+
+  return (
+    <div>
+      {applied && (
+        <p className="mb-4 rounded-lg border border-border px-4 py-2 text-sm">
+          Updated {applied.textsUpdated} text{applied.textsUpdated === 1 ? "" : "s"} on{" "}
+          {applied.pagesUpdated} page{applied.pagesUpdated === 1 ? "" : "s"}. Their sections are now
+          stale; rerun them from the{" "}
+          <Link href={`/books/${label}/storyboard`} className="underline">
+            storyboard
+          </Link>
+          .
+        </p>
+      )}
+
+      {clusters.length === 0 ? (
+        <p className="text-sm italic text-muted">
+          Running headers, footers and page numbers are classified consistently.
+        </p>
+      ) : (
+        <>
+          <div className="mb-4 flex items-center gap-3 rounded-lg border border-border px-4 py-2 text-sm">
+            <label className="flex items-center gap-2 text-muted">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                onChange={() =>
+                  setSelected(allSelected ? new Set() : new Set(clusters.map((c) => c.key)))
+                }
+              />
+              {clusters.length} inconsistent string{clusters.length === 1 ? "" : "s"}
+            </label>
+            {error && <span className="text-xs text-red-500">{error}</span>}
+            <button
+              type="button"
+              onClick={accept}
+              disabled={saving || selected.size === 0}
+              className="ml-auto cursor-pointer rounded-md border border-border px-2.5 py-1 text-xs font-medium hover:bg-surface disabled:cursor-default disabled:opacity-50"
+            >
+              {saving ? "Applying…" : `Accept ${selected.size} selected`}
+            </button>
+          </div>
+
+          <div className="space-y-3">
+            {clusters.map((cluster) => (
+              <section key={cluster.key} className="rounded-lg border border-border">
+                <label className="flex cursor-pointer items-center gap-3 border-b border-border bg-surface px-4 py-1.5 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(cluster.key)}
+                    onChange={() => toggle(cluster.key)}
+                  />
+                  <span className="font-mono font-medium">{cluster.sample}</span>
+                  <span className="text-muted">on {cluster.pageCount} pages</span>
+                  <span className="ml-auto">
+                    {cluster.isPruned ? "Prune" : "Keep"} as{" "}
+                    <span className="font-mono">{cluster.textType}</span>
+                  </span>
+                </label>
+                <ul className="divide-y divide-border px-4 text-xs">
+                  {cluster.corrections.map((c) => (
+                    <li
+                      key={`${c.groupId}:${c.textIndex}`}
+                      className="flex items-center gap-3 py-1.5"
+                    >
+                      <Link
+                        href={`/books/${label}/storyboard#${c.pageId}`}
+                        className="font-mono underline"
+                      >
+                        {c.pageId}
+                      </Link>
+                      <span className="truncate">{c.text}</span>
+                      <span className="ml-auto shrink-0 text-muted">
+                        now {c.isPruned ? "pruned" : "kept"} as{" "}
+                        <span className="font-mono">{c.textType}</span>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -107,8 +107,9 @@ export function SchemaErrorPage({ label }: { label: string }) {
           <p className="text-sm text-muted">
             The database for{" "}
             <span className="font-medium text-foreground">{label}</span>{" "}
-            was created with a different schema version and cannot be opened.
-            You can reimport the book using the existing config, or delete it
+            uses a schema version that cannot be upgraded automatically, or its
+            upgrade failed (the original database was kept as a backup). You
+            can reimport the book using the existing config, or delete it
             entirely.
           </p>
 
@@ -47,6 +47,8 @@ interface SectionsPanelProps {
   sectionTypes: Record<string, string>;
   textTypes: string[];
   groupTypes: string[];
+  /** Why the sectioning is out of date with the classifications, if it is */
+  staleReason?: string;
 }
 
 export function SectionsPanel({
@@ -60,6 +62,7 @@ export function SectionsPanel({
   sectionTypes,
   textTypes,
   groupTypes,
+  staleReason,
 }: SectionsPanelProps) {
   const [sectioning, setSectioning] = useState(initialSectioning);
   const [versions, setVersions] = useState(initialAvailableVersions);
@@ -584,6 +587,7 @@ export function SectionsPanel({
         isDirty={isDirty}
         onDirtyDiscard={discardEdits}
         error={error}
+        stale={staleReason}
       />
 
       {sectioning ? (
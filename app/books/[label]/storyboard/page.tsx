@@ -6,15 +6,26 @@ import {
   getImageClassification,
   listImageClassificationVersions,
   getImageHashes,
+  getImageDescriptions,
+  listImageDescriptionVersions,
   listPageSectioningVersions,
   getWebRendering,
+  getSectionLinks,
+  getAccessibilityReport,
+  getTextFidelityReport,
+  getTranslatedRenderings,
+  getBookMetadata,
+  getPageLabels,
 } from "@/lib/books";
 import { loadBookConfig, getSectionTypes } from "@/lib/config";
+import { listStalePages } from "@/lib/staleness";
 import { TextClassificationPanel } from "../extract/text-classification-panel";
 import { ImageClassificationPanel } from "../extract/image-classification-panel";
 import { SectionsPanel } from "../sections/sections-panel";
 import { WebRenderingPanel } from "./web-rendering-panel";
 import { StoryboardPageRow } from "./storyboard-page-row";
+import { SectionLinkingBar } from "./section-linking-bar";
+import { StalePagesBar } from "./stale-pages-bar";
 import { PipelineSSEProvider } from "../use-pipeline-refresh";
 
 export default async function StoryboardPage({
@@ -28,10 +39,30 @@ export default async function StoryboardPage({
   const textTypeKeys = Object.keys(bookConfig.text_types);
   const groupTypeKeys = Object.keys(bookConfig.text_group_types);
   const sectionTypes = getSectionTypes(bookConfig);
+  const sectionLinks = getSectionLinks(label);
+  const sourceLanguage = getBookMetadata(label)?.language_code ?? undefined;
+  const targetLanguages = bookConfig.translation?.target_languages ?? [];
+  const stalePages = listStalePages(label);
+  const pageLabels = getPageLabels(label)?.data.labels ?? {};
 
   return (
     <PipelineSSEProvider label={label}>
     <div>
+      {pages.length > 1 && (
+        <SectionLinkingBar
+          label={label}
+          linkCount={sectionLinks?.data.links.length ?? 0}
+          hasRun={sectionLinks !== null}
+        />
+      )}
+      {stalePages.length > 0 && (
+        <StalePagesBar
+          // Remount when the set changes so the button re-enables
+          key={stalePages.map((p) => p.pageId).join(",")}
+          label={label}
+          pageIds={stalePages.map((p) => p.pageId)}
+        />
+      )}
       <div>
         {pages.map((page, i) => {
           const extraction = getTextClassification(label, page.pageId);
@@ -39,9 +70,15 @@ export default async function StoryboardPage({
           const sectioningResult = getPageSectioning(label, page.pageId);
           const sectioningVersions = listPageSectioningVersions(label, page.pageId);
           const webRenderingResult = getWebRendering(label, page.pageId);
+          const accessibilityAudits = getAccessibilityReport(label, page.pageId);
+          const textFidelity = getTextFidelityReport(label, page.pageId);
+          const translatedRenderings = getTranslatedRenderings(label, page.pageId);
           const imageClassificationResult = getImageClassification(label, page.pageId);
           const imageClassificationVersions = listImageClassificationVersions(label, page.pageId);
           const imageHashes = getImageHashes(label, page.pageId);
+          const imageDescriptionsResult = getImageDescriptions(label, page.pageId);
+          const imageDescriptionVersions = listImageDescriptionVersions(label, page.pageId);
+          const staleness = stalePages.find((p) => p.pageId === page.pageId);
           return (
             <section
               key={page.pageId}
@@ -59,7 +96,15 @@ export default async function StoryboardPage({
                   label,
                   pageId: page.pageId,
                   pageNumber: i + 1,
+                  pageLabel: pageLabels[page.pageId],
                   sections: webRenderingResult?.sections ?? null,
+                  sectionLinks: sectionLinks?.data.links ?? [],
+                  accessibilityAudits,
+                  textFidelity,
+                  sourceLanguage,
+                  targetLanguages,
+                  translatedRenderings,
+                  staleSections: staleness?.staleSections,
                 }}
               >
                 {[
@@ -73,6 +118,9 @@ export default async function StoryboardPage({
                     initialVersion={imageClassificationResult?.version ?? 1}
                     availableVersions={imageClassificationVersions}
                     initialImageHashes={imageHashes}
+                    initialDescriptions={imageDescriptionsResult?.data ?? null}
+                    descriptionVersion={imageDescriptionsResult?.version ?? 1}
+                    descriptionVersions={imageDescriptionVersions}
                   />,
                   <TextClassificationPanel
                     key="text"
@@ -96,6 +144,7 @@ export default async function StoryboardPage({
                     sectionTypes={sectionTypes}
                     textTypes={textTypeKeys}
                     groupTypes={groupTypeKeys}
+                    staleReason={staleness?.stale["page-sectioning"]}
                   />,
                 ]}
               </StoryboardPageRow>
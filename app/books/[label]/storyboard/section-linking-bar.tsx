@@ -0,0 +1,41 @@
+"use client";
+
+import { useBookJobBusy, useRerun } from "../use-pipeline-refresh";
+
+/**
+ * Book-level toolbar for cross-page section linking: shows how many sections
+ * continue onto the next page and lets the user (re)run the linking step.
+ */
+export function SectionLinkingBar({
+  label,
+  linkCount,
+  hasRun,
+}: {
+  label: string;
+  linkCount: number;
+  hasRun: boolean;
+}) {
+  const busy = useBookJobBusy("section-linking");
+  const { rerun, error } = useRerun(`/api/books/${label}/section-links`);
+
+  return (
+    <div className="mb-4 flex items-center gap-3 rounded-lg border border-border px-4 py-2 text-sm">
+      <span className="text-muted">
+        {!hasRun
+          ? "Sections have not been linked across pages yet."
+          : linkCount === 0
+            ? "No sections continue across page breaks."
+            : `${linkCount} section${linkCount === 1 ? "" : "s"} continue${linkCount === 1 ? "s" : ""} across a page break.`}
+      </span>
+      {error && <span className="text-xs text-red-500">{error}</span>}
+      <button
+        type="button"
+        onClick={rerun}
+        disabled={busy}
+        className="ml-auto cursor-pointer rounded-md border border-border px-2.5 py-1 text-xs font-medium hover:bg-surface disabled:cursor-default disabled:opacity-50"
+      >
+        {busy ? "Linking…" : hasRun ? "Re-link sections across pages" : "Link sections across pages"}
+      </button>
+    </div>
+  );
+}
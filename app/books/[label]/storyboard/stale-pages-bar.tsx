@@ -0,0 +1,49 @@
+"use client";
+
+import { useState } from "react";
+import { useRerun } from "../use-pipeline-refresh";
+
+const MAX_LISTED = 8;
+
+/**
+ * Book-level toolbar shown when edits upstream (text or image classification,
+ * sectioning) left pages with out-of-date sectioning or renderings. Reruns
+ * only the stale steps of those pages.
+ */
+export function StalePagesBar({
+  label,
+  pageIds,
+}: {
+  label: string;
+  pageIds: string[];
+}) {
+  const { rerun, error } = useRerun(`/api/books/${label}/stale`);
+  const [submitted, setSubmitted] = useState(false);
+
+  async function handleRerun() {
+    setSubmitted(true);
+    await rerun();
+  }
+
+  const listed = pageIds.slice(0, MAX_LISTED).join(", ");
+  const more = pageIds.length > MAX_LISTED ? ` and ${pageIds.length - MAX_LISTED} more` : "";
+
+  return (
+    <div className="mb-4 flex items-center gap-3 rounded-lg border border-amber-300 bg-amber-50 px-4 py-2 text-sm">
+      <span className="text-amber-900">
+        {pageIds.length} page{pageIds.length === 1 ? " is" : "s are"} out of date with earlier
+        edits: {listed}
+        {more}
+      </span>
+      {error && <span className="text-xs text-red-500">{error}</span>}
+      <button
+        type="button"
+        onClick={handleRerun}
+        disabled={submitted && !error}
+        className="ml-auto shrink-0 cursor-pointer rounded-md border border-amber-300 px-2.5 py-1 text-xs font-medium text-amber-900 hover:bg-amber-100 disabled:cursor-default disabled:opacity-50"
+      >
+        {submitted && !error ? "Rerunning…" : "Rerun stale pages"}
+      </button>
+    </div>
+  );
+}
@@ -2,6 +2,12 @@
 
 import { useState, useRef, useCallback, type ReactNode } from "react";
 import { WebRenderingPanel, type EnrichedSection } from "./web-rendering-panel";
+import type {
+  AccessibilityReportEntry,
+  SectionLinkEntry,
+  TextFidelityEntry,
+  TranslatedRenderingEntry,
+} from "@/lib/books";
 import { usePipelineBusy } from "../use-pipeline-refresh";
 
 type PanelKey = "images" | "text" | "sections";
@@ -14,7 +20,15 @@ interface StoryboardPageRowProps {
     label: string;
     pageId: string;
     pageNumber?: number;
+    pageLabel?: string;
     sections: EnrichedSection[] | null;
+    sectionLinks?: SectionLinkEntry[];
+    accessibilityAudits?: AccessibilityReportEntry[];
+    textFidelity?: TextFidelityEntry[];
+    sourceLanguage?: string;
+    targetLanguages?: string[];
+    translatedRenderings?: TranslatedRenderingEntry[];
+    staleSections?: Record<string, string>;
   };
 }
 
@@ -0,0 +1,42 @@
+import type { TextFidelityEntry } from "@/lib/books";
+
+/** Missing and changed texts for one rendered section, with inline diffs. */
+export function TextFidelityReport({ entry }: { entry: TextFidelityEntry }) {
+  return (
+    <ul className="space-y-2 text-xs">
+      {entry.missing_ids.map((id) => (
+        <li key={id}>
+          <span className="mr-1.5 rounded bg-red-500 px-1.5 py-0.5 font-medium text-white">
+            Missing
+          </span>
+          <span className="font-mono text-muted">{id}</span>
+        </li>
+      ))}
+      {entry.mismatches.map((m) => (
+        <li key={m.text_id}>
+          <div>
+            <span className="mr-1.5 rounded bg-amber-500 px-1.5 py-0.5 font-medium text-white">
+              Changed
+            </span>
+            <span className="font-mono text-muted">{m.text_id}</span>
+          </div>
+          <p className="mt-1 whitespace-pre-wrap">
+            {m.diff.map((seg, i) =>
+              seg.op === "equal" ? (
+                <span key={i}>{seg.text}</span>
+              ) : seg.op === "delete" ? (
+                <del key={i} className="bg-red-100 text-red-700">
+                  {seg.text}
+                </del>
+              ) : (
+                <ins key={i} className="bg-green-100 text-green-700 no-underline">
+                  {seg.text}
+                </ins>
+              )
+            )}
+          </p>
+        </li>
+      ))}
+    </ul>
+  );
+}
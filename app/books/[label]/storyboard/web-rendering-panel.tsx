@@ -1,14 +1,28 @@
 "use client";
 
 import { useState, useRef, useEffect, useCallback, useMemo } from "react";
-import type { SectionRendering } from "@/lib/books";
+import type {
+  AccessibilityReportEntry,
+  SectionLinkEntry,
+  SectionRendering,
+  TextFidelityEntry,
+  TranslatedRenderingEntry,
+} from "@/lib/books";
 import type { Annotation } from "@/lib/pipeline/actions";
 import {
   SectionAnnotationEditor,
   type SectionAnnotationEditorHandle,
 } from "./section-annotation-editor";
-import { usePipelineBusy, useSectionBusy, useAnySectionBusy, useRerun } from "../use-pipeline-refresh";
+import {
+  usePipelineBusy,
+  usePanelJobBusy,
+  useSectionBusy,
+  useAnySectionBusy,
+  useRerun,
+} from "../use-pipeline-refresh";
 import { NodeHeader, type VersionApi } from "../node-header";
+import { AccessibilityFindings } from "../accessibility/accessibility-findings";
+import { TextFidelityReport } from "./text-fidelity-report";
 
 export interface EnrichedSection extends SectionRendering {
   version: number;
@@ -19,7 +33,18 @@ interface WebRenderingPanelProps {
   label: string;
   pageId: string;
   pageNumber?: number;
+  /** Printed page label ("iv", "12"), when the book's page labels are resolved */
+  pageLabel?: string;
   sections: EnrichedSection[] | null;
+  sectionLinks?: SectionLinkEntry[];
+  accessibilityAudits?: AccessibilityReportEntry[];
+  textFidelity?: TextFidelityEntry[];
+  /** Book language plus the configured translation targets */
+  sourceLanguage?: string;
+  targetLanguages?: string[];
+  translatedRenderings?: TranslatedRenderingEntry[];
+  /** Why each out-of-date section is stale, keyed by section ID */
+  staleSections?: Record<string, string>;
   panelToggles?: { images: boolean; text: boolean; sections: boolean };
   panelBusy?: { images: boolean; text: boolean; sections: boolean };
   panelLoaded?: { images: boolean; text: boolean; sections: boolean };
@@ -116,6 +141,27 @@ function SandboxedSection({
   );
 }
 
+/** "pg012_s001" → "#pg012" (the storyboard anchor for that page) */
+function pageAnchor(sectionId: string): string {
+  return `#${sectionId.split("_")[0]}`;
+}
+
+/**
+ * Placeholder for a section whose content was rendered as part of a section
+ * on an earlier page (it continues across the page break).
+ */
+function ContinuationCard({ mergedInto }: { mergedInto: string }) {
+  return (
+    <div className="rounded-lg border border-dashed border-border px-4 py-3 text-sm text-muted">
+      Continued from{" "}
+      <a href={pageAnchor(mergedInto)} className="font-medium underline">
+        {mergedInto}
+      </a>{" "}
+      — rendered as part of that section.
+    </div>
+  );
+}
+
 function SectionCard({
   section,
   sectionNumber,
@@ -132,6 +178,12 @@ function SectionCard({
   initialVersion,
   initialVersions,
   onSectionUpdated,
+  onUnlink,
+  audit,
+  fidelity,
+  language,
+  translation,
+  stale,
 }: {
   section: SectionRendering;
   sectionNumber: number;
@@ -148,6 +200,13 @@ function SectionCard({
   initialVersion: number;
   initialVersions: number[];
   onSectionUpdated: (section: SectionRendering, version: number, versions: number[]) => void;
+  onUnlink: (toSectionId: string) => void;
+  audit?: AccessibilityReportEntry;
+  fidelity?: TextFidelityEntry;
+  /** Target language being previewed; null shows the source rendering */
+  language: string | null;
+  translation?: TranslatedRenderingEntry;
+  stale?: string;
 }) {
   const containerRef = useRef<HTMLDivElement>(null);
   const editorRef = useRef<SectionAnnotationEditorHandle>(null);
@@ -208,13 +267,35 @@ function SectionCard({
         onDirtyDiscard={onCancelEdit}
         onDirtySave={() => editorRef.current?.submit()}
         saveDisabled={!canSubmitEdit || editLoading}
+        stale={stale}
       />
+      {section.merged_section_ids && section.merged_section_ids.length > 0 && (
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 border-b border-border bg-surface px-4 py-1.5 text-xs text-muted">
+          <span>Continues across the page break into</span>
+          {section.merged_section_ids.map((id) => (
+            <span key={id} className="flex items-center gap-1">
+              <a href={pageAnchor(id)} className="font-medium underline">
+                {id}
+              </a>
+              <button
+                type="button"
+                onClick={() => onUnlink(id)}
+                disabled={sectionBusy}
+                className="cursor-pointer text-red-500 hover:underline disabled:opacity-50"
+                title="Render these sections separately"
+              >
+                Unlink
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
       <div
         ref={containerRef}
         className="group relative"
         style={{ minHeight: isEditing ? iframeHeight : undefined }}
       >
-        {!isEditing && (
+        {!isEditing && !language && (
           <button
             type="button"
             onClick={onToggleEdit}
@@ -228,11 +309,21 @@ function SectionCard({
             </svg>
           </button>
         )}
-        <SandboxedSection
-          srcDoc={buildSrcDoc(displayedHtml, label, pageId)}
-          onHeightChange={onHeightChange}
-          initialHeight={iframeHeight}
-        />
+        {language && !translation ? (
+          <p className="px-4 py-6 text-center text-xs text-muted">
+            No {language} translation yet
+          </p>
+        ) : (
+          <SandboxedSection
+            srcDoc={buildSrcDoc(
+              language && translation ? translation.html : displayedHtml,
+              label,
+              pageId
+            )}
+            onHeightChange={onHeightChange}
+            initialHeight={iframeHeight}
+          />
+        )}
         {isEditing && (
           <>
             {editLoading && (
@@ -248,6 +339,45 @@ function SectionCard({
           </>
         )}
       </div>
+      {language && translation?.is_stale && (
+        <p className="border-t border-border px-4 py-1.5 text-xs text-amber-600">
+          Built from an older rendering; retranslate to update
+        </p>
+      )}
+      {fidelity && (
+        <details className="border-t border-border px-4 py-2">
+          <summary className="cursor-pointer text-xs font-medium text-red-500">
+            {fidelity.missing_ids.length > 0 &&
+              `${fidelity.missing_ids.length} missing ${
+                fidelity.missing_ids.length === 1 ? "text" : "texts"
+              }`}
+            {fidelity.missing_ids.length > 0 && fidelity.mismatches.length > 0 && ", "}
+            {fidelity.mismatches.length > 0 &&
+              `${fidelity.mismatches.length} changed ${
+                fidelity.mismatches.length === 1 ? "text" : "texts"
+              }`}
+          </summary>
+          <div className="mt-2">
+            <TextFidelityReport entry={fidelity} />
+          </div>
+        </details>
+      )}
+      {audit && audit.audit.findings.length > 0 && (
+        <details className="border-t border-border px-4 py-2">
+          <summary className="cursor-pointer text-xs font-medium text-amber-600">
+            {audit.audit.findings.length} accessibility{" "}
+            {audit.audit.findings.length === 1 ? "issue" : "issues"}
+            {audit.is_stale && (
+              <span className="ml-1 font-normal text-muted">
+                (audited v{audit.audit.web_rendering_version})
+              </span>
+            )}
+          </summary>
+          <div className="mt-2">
+            <AccessibilityFindings findings={audit.audit.findings} />
+          </div>
+        </details>
+      )}
       {section.reasoning && (
         <div className="border-t border-border px-4 py-2">
           <p className="whitespace-pre-wrap text-xs text-muted">{section.reasoning}</p>
@@ -261,7 +391,15 @@ export function WebRenderingPanel({
   label,
   pageId,
   pageNumber,
+  pageLabel,
   sections: initialSections,
+  sectionLinks,
+  accessibilityAudits,
+  textFidelity,
+  sourceLanguage,
+  targetLanguages,
+  translatedRenderings,
+  staleSections,
   panelToggles,
   panelBusy,
   panelLoaded,
@@ -272,8 +410,15 @@ export function WebRenderingPanel({
   const { rerun: rerunAll, error: rerunAllError } = useRerun(
     `/api/books/${label}/pages/${pageId}/web-rendering`
   );
+  const { rerun: translate, error: translateError } = useRerun(
+    `/api/books/${label}/pages/${pageId}/translation`
+  );
+  const translationPipelineBusy = usePipelineBusy(pageId, "translation");
+  const translationJobBusy = usePanelJobBusy(pageId, "translation");
+  const translating = translationPipelineBusy || translationJobBusy;
+  const [language, setLanguage] = useState<string | null>(null);
   const [editError, setEditError] = useState<string | null>(null);
-  const error = rerunAllError || editError;
+  const error = rerunAllError || translateError || editError;
   const [sections, setSections] = useState<EnrichedSection[]>(
     initialSections ?? []
   );
@@ -304,6 +449,26 @@ export function WebRenderingPanel({
     }
   }
 
+  async function handleUnlink(toSectionId: string) {
+    setEditError(null);
+    try {
+      const links = (sectionLinks ?? []).filter(
+        (l) => l.to_section_id !== toSectionId
+      );
+      const res = await fetch(`/api/books/${label}/section-links`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ data: { links } }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Request failed (${res.status})`);
+      }
+    } catch (err) {
+      setEditError(err instanceof Error ? err.message : "Unknown error");
+    }
+  }
+
   async function handleEditSubmit(
     sectionIndex: number,
     currentHtml: string,
@@ -375,10 +540,48 @@ export function WebRenderingPanel({
       {/* Header bar */}
       <div className="flex items-center gap-2 bg-slate-700 px-4 py-2 text-sm font-semibold text-white">
         <span>{pageNumber != null ? `Page ${pageNumber}` : "Web Pages"}</span>
+        {pageLabel && (
+          <span
+            className="text-xs font-normal text-slate-300"
+            title="Page label printed in the book"
+          >
+            printed {pageLabel}
+          </span>
+        )}
         {error && (
           <span className="text-xs font-normal text-red-200">{error}</span>
         )}
         <div className="ml-auto flex items-center gap-1.5">
+        {targetLanguages && targetLanguages.length > 0 && (
+          <div className="mr-2 flex items-center gap-1">
+            {[null, ...targetLanguages].map((lang) => (
+              <button
+                key={lang ?? "source"}
+                type="button"
+                onClick={() => setLanguage(lang)}
+                className={`cursor-pointer rounded px-1.5 py-0.5 text-xs uppercase transition-colors ${
+                  language === lang
+                    ? "bg-white text-slate-700"
+                    : "border border-white/30 text-white/70 hover:text-white"
+                }`}
+                title={lang ? `Preview the ${lang} translation` : "Show the source rendering"}
+              >
+                {lang ?? sourceLanguage ?? "source"}
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={translate}
+              disabled={translating}
+              className={`cursor-pointer rounded px-1.5 py-0.5 text-xs text-white/80 hover:bg-slate-600 hover:text-white disabled:opacity-50 ${
+                translating ? "animate-pulse" : ""
+              }`}
+              title="Translate this page into every target language"
+            >
+              Translate
+            </button>
+          </div>
+        )}
         {onTogglePanel && (
           <>
             {(["images", "text", "sections"] as const).map((panel) => {
@@ -457,13 +660,19 @@ export function WebRenderingPanel({
             </div>
           </div>
         </div>
-      ) : sections.every((s) => !s.html) ? (
+      ) : sections.every((s) => !s.html && !s.merged_into) ? (
         <p className="p-4 text-sm italic text-muted">
           No sections found for this page to render.
         </p>
       ) : (
         <div className="space-y-4 p-4">
-          {sections.filter((s) => s.html).map((section, idx) => (
+          {sections.filter((s) => s.html || s.merged_into).map((section, idx) =>
+            section.merged_into && !section.html ? (
+            <ContinuationCard
+              key={section.section_index}
+              mergedInto={section.merged_into}
+            />
+            ) : (
             <SectionCard
               key={section.section_index}
               section={section}
@@ -491,6 +700,29 @@ export function WebRenderingPanel({
                 )
               }
               onRerun={() => handleRerunSection(section.section_index)}
+              onUnlink={handleUnlink}
+              stale={
+                staleSections?.[
+                  `${pageId}_s${String(section.section_index + 1).padStart(3, "0")}`
+                ]
+              }
+              audit={accessibilityAudits?.find(
+                (a) =>
+                  a.section_id ===
+                  `${pageId}_s${String(section.section_index + 1).padStart(3, "0")}`
+              )}
+              language={language}
+              translation={translatedRenderings?.find(
+                (t) =>
+                  t.language === language &&
+                  t.section_id ===
+                    `${pageId}_s${String(section.section_index + 1).padStart(3, "0")}`
+              )}
+              fidelity={textFidelity?.find(
+                (f) =>
+                  f.section_id ===
+                  `${pageId}_s${String(section.section_index + 1).padStart(3, "0")}`
+              )}
               onSectionUpdated={(updatedSection, newVersion, newVersions) => {
                 setSections((prev) =>
                   prev.map((s) =>
@@ -507,7 +739,8 @@ export function WebRenderingPanel({
                 sectionHeights.current.get(section.section_index) ?? 200
               }
             />
-          ))}
+            )
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,85 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import type { TocEntry } from "@/lib/books";
+
+function TocList({ label, entries }: { label: string; entries: TocEntry[] }) {
+  return (
+    <ol className="ml-4 space-y-0.5">
+      {entries.map((entry, i) => (
+        <li key={`${entry.text_id}-${i}`}>
+          <div className="flex items-baseline gap-2">
+            {entry.page_id ? (
+              <Link
+                href={`/books/${label}/storyboard#${entry.page_id}`}
+                className="hover:underline"
+              >
+                {entry.title}
+              </Link>
+            ) : (
+              <span className="text-muted" title="No matching page or heading found">
+                {entry.title}
+              </span>
+            )}
+            <span className="ml-auto shrink-0 text-xs text-muted">
+              {entry.page_label ?? ""}
+              {entry.section_id && ` · ${entry.section_id}`}
+            </span>
+          </div>
+          {entry.children.length > 0 && <TocList label={label} entries={entry.children} />}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+/**
+ * The book's reconstructed table of contents with the page and section each
+ * entry links to. Rebuilding re-reads the TOC sections and page labels.
+ */
+export function TableOfContentsPanel({
+  label,
+  entries,
+}: {
+  label: string;
+  entries: TocEntry[];
+}) {
+  const router = useRouter();
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function rebuild() {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/books/${label}/table-of-contents`, { method: "POST" });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.error ?? `Request failed (${res.status})`);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="mb-8 rounded-lg border border-border p-4 text-sm">
+      <div className="mb-2 flex items-center gap-2">
+        <h2 className="font-semibold">Table of contents</h2>
+        {error && <span className="text-xs text-red-500">{error}</span>}
+        <button
+          type="button"
+          onClick={rebuild}
+          disabled={saving}
+          className="ml-auto cursor-pointer rounded border border-border px-2.5 py-1 text-xs text-muted hover:bg-surface transition-colors disabled:cursor-default disabled:opacity-50"
+        >
+          {saving ? "Rebuilding…" : "Rebuild"}
+        </button>
+      </div>
+      <TocList label={label} entries={entries} />
+    </div>
+  );
+}
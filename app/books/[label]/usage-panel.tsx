@@ -0,0 +1,115 @@
+import type { UsageReport, UsageTotals } from "@/lib/usage";
+import { formatTokens, formatUsd } from "@/lib/usage";
+
+const TOP_PAGES = 5;
+
+export function UsagePanel({ report }: { report: UsageReport }) {
+  const { total, budget } = report;
+  if (total.calls === 0 && !budget) return null;
+
+  const steps = Object.entries(report.byStep).sort((a, b) => b[1].costUsd - a[1].costUsd);
+  const pages = Object.entries(report.byPage)
+    .sort((a, b) => b[1].costUsd - a[1].costUsd || b[1].inputTokens - a[1].inputTokens)
+    .slice(0, TOP_PAGES);
+  const budgetPct = budget && budget.maxUsd > 0 ? Math.min(100, (budget.spentUsd / budget.maxUsd) * 100) : 0;
+
+  return (
+    <div className="mb-8 overflow-hidden rounded-lg border border-border">
+      <div className="flex items-center gap-2 bg-blue-900 px-4 py-2 text-sm font-semibold text-white">
+        LLM usage
+        <span className="ml-auto font-normal tabular-nums">
+          {formatUsd(total.costUsd)}
+          {total.unpricedCalls > 0 && " + unpriced calls"}
+        </span>
+      </div>
+
+      <div className="space-y-6 p-6">
+        <dl className="grid gap-x-8 gap-y-2 text-sm sm:grid-cols-4">
+          <Stat label="Calls" value={String(total.calls)} />
+          <Stat label="Input tokens" value={formatTokens(total.inputTokens)} />
+          <Stat label="Output tokens" value={formatTokens(total.outputTokens)} />
+          <Stat label="Cached input" value={formatTokens(total.cacheReadTokens)} />
+        </dl>
+
+        {budget && (
+          <div>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted">Budget</span>
+              <span className={`tabular-nums ${budget.exceeded ? "font-medium text-red-600" : ""}`}>
+                {formatUsd(budget.spentUsd)} of {formatUsd(budget.maxUsd)}
+                {budget.exceeded && " — queued jobs are paused"}
+              </span>
+            </div>
+            <div className="mt-2 h-1.5 overflow-hidden rounded-full bg-surface-bright">
+              <div
+                className={`h-full rounded-full ${budget.exceeded ? "bg-red-500" : "bg-foreground"}`}
+                style={{ width: `${budgetPct}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {steps.length > 0 && (
+          <div className="grid gap-6 sm:grid-cols-2">
+            <UsageTable title="By step" rows={steps} />
+            <UsageTable title={`Top ${TOP_PAGES} pages`} rows={pages} mono />
+          </div>
+        )}
+
+        {report.unpricedModels.length > 0 && (
+          <p className="text-xs text-muted">
+            No price configured for {report.unpricedModels.join(", ")}; add them under{" "}
+            <code>pricing</code> in config.yaml to include them in the estimate.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <dt className="text-muted">{label}</dt>
+      <dd className="tabular-nums">{value}</dd>
+    </div>
+  );
+}
+
+function UsageTable({
+  title,
+  rows,
+  mono = false,
+}: {
+  title: string;
+  rows: [string, UsageTotals][];
+  mono?: boolean;
+}) {
+  return (
+    <div>
+      <h3 className="mb-2 text-xs font-medium uppercase tracking-wider text-faint">{title}</h3>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-muted">
+            <th className="font-normal" />
+            <th className="text-right font-normal">Calls</th>
+            <th className="text-right font-normal">Tokens in/out</th>
+            <th className="text-right font-normal">Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(([key, t]) => (
+            <tr key={key}>
+              <td className={mono ? "font-mono text-xs" : ""}>{key}</td>
+              <td className="text-right tabular-nums">{t.calls}</td>
+              <td className="text-right tabular-nums">
+                {formatTokens(t.inputTokens)} / {formatTokens(t.outputTokens)}
+              </td>
+              <td className="text-right tabular-nums">{formatUsd(t.costUsd)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -31,7 +31,10 @@ import { PROGRESS_PHASES } from "@/lib/pipeline/runner/types";
 const PHASE_ORDER = [
   "queued",
   PROGRESS_PHASES["image-classification"],
+  PROGRESS_PHASES["image-description"],
   PROGRESS_PHASES["text-classification"],
+  PROGRESS_PHASES.translation,
+  PROGRESS_PHASES.speech,
   PROGRESS_PHASES["page-sectioning"],
   PROGRESS_PHASES["web-rendering"],
   "rendering", // any "Rendered section N/M"
@@ -45,6 +48,8 @@ function normalizePhase(progress: string | undefined, status: string): Phase {
   if (status === "completed" || status === "failed") return "completed";
   if (!progress) return "queued";
   if (progress.startsWith("Rendered section")) return "rendering";
+  if (progress.startsWith("Translating into")) return PROGRESS_PHASES.translation;
+  if (progress.startsWith("Synthesizing speech")) return PROGRESS_PHASES.speech;
 
   const found = PHASE_ORDER.find((p) => p === progress);
   return found ?? "queued";
@@ -61,7 +66,13 @@ function phaseIndex(phase: Phase): number {
 /** Returns true if the pipeline is at or before the given panel's active phase */
 export function isPipelineBusy(
   phase: Phase | null,
-  panel: "image-classification" | "text-classification" | "sections" | "web-rendering"
+  panel:
+    | "image-classification"
+    | "image-description"
+    | "text-classification"
+    | "translation"
+    | "sections"
+    | "web-rendering"
 ): boolean {
   if (!phase || phase === "completed") return false;
   const idx = phaseIndex(phase);
@@ -69,9 +80,15 @@ export function isPipelineBusy(
     // Image classification is busy during "Classifying images"
     case "image-classification":
       return idx <= phaseIndex("Classifying images");
+    // Image description is busy from queued through "Describing images"
+    case "image-description":
+      return idx <= phaseIndex("Describing images");
     // Text classification is busy from queued through "Classifying text"
     case "text-classification":
       return idx <= phaseIndex("Classifying text");
+    // Translation is busy from queued through "Translating text"
+    case "translation":
+      return idx <= phaseIndex("Translating text");
     // Sections is busy during "Sectioning page"
     case "sections":
       return idx === phaseIndex("Sectioning page");
@@ -89,9 +106,13 @@ type Listener = () => void;
 
 export type PanelJobType =
   | "image-classification"
+  | "image-description"
   | "text-classification"
+  | "translation"
   | "page-sectioning";
 
+export type BookJobType = "section-linking" | "accessibility-audit";
+
 class PipelineStore {
   /** pageId → current normalized phase */
   private phases = new Map<string, Phase>();
@@ -101,6 +122,8 @@ class PipelineStore {
   private panelJobs = new Map<string, "running" | "queued">();
   /** "pageId:jobType" → error message (set on failure, cleared on next run) */
   private panelErrors = new Map<string, string>();
+  /** jobType → "running" | "queued" for book-level jobs */
+  private bookJobs = new Map<string, "running" | "queued">();
   private listeners = new Set<Listener>();
 
   getPhase(pageId: string): Phase | null {
@@ -177,6 +200,24 @@ class PipelineStore {
     this.emit();
   }
 
+  // --- Book-level job tracking ---
+
+  isBookJobBusy(jobType: BookJobType): boolean {
+    return this.bookJobs.has(jobType);
+  }
+
+  setBookJob(jobType: BookJobType, status: string) {
+    if (status === "completed" || status === "failed") {
+      if (!this.bookJobs.has(jobType)) return;
+      this.bookJobs.delete(jobType);
+    } else {
+      const val = status === "running" ? "running" as const : "queued" as const;
+      if (this.bookJobs.get(jobType) === val) return;
+      this.bookJobs.set(jobType, val);
+    }
+    this.emit();
+  }
+
   subscribe(fn: Listener): () => void {
     this.listeners.add(fn);
     return () => this.listeners.delete(fn);
@@ -228,6 +269,13 @@ export function PipelineSSEProvider({
         const job = JSON.parse(e.data);
         if (job.label !== label) return;
 
+        // Track book-level jobs (no pageId)
+        if (job.type === "section-linking" || job.type === "accessibility-audit") {
+          store.setBookJob(job.type, job.status);
+          if (job.status === "completed" || job.status === "failed") scheduleRefresh();
+          return;
+        }
+
         const pageId = job.params?.pageId as string | undefined;
         if (!pageId) return;
 
@@ -244,7 +292,9 @@ export function PipelineSSEProvider({
         // Track individual panel jobs (standalone reruns)
         const PANEL_JOB_TYPES = new Set<PanelJobType>([
           "image-classification",
+          "image-description",
           "text-classification",
+          "translation",
           "page-sectioning",
         ]);
         if (PANEL_JOB_TYPES.has(job.type as PanelJobType)) {
@@ -290,7 +340,13 @@ export function PipelineSSEProvider({
 
 export function usePipelineBusy(
   pageId: string,
-  panel: "image-classification" | "text-classification" | "sections" | "web-rendering"
+  panel:
+    | "image-classification"
+    | "image-description"
+    | "text-classification"
+    | "translation"
+    | "sections"
+    | "web-rendering"
 ): boolean {
   const store = useContext(PipelineCtx);
 
@@ -417,6 +473,29 @@ export function usePanelJobError(
   return { error, clearError };
 }
 
+// ---------------------------------------------------------------------------
+// Hook — returns true if a book-level job of this type is active
+// ---------------------------------------------------------------------------
+
+export function useBookJobBusy(jobType: BookJobType): boolean {
+  const store = useContext(PipelineCtx);
+
+  const subscribe = useCallback(
+    (onStoreChange: () => void) => {
+      if (!store) return () => {};
+      return store.subscribe(onStoreChange);
+    },
+    [store]
+  );
+
+  const getSnapshot = useCallback(() => {
+    if (!store) return false;
+    return store.isBookJobBusy(jobType);
+  }, [store, jobType]);
+
+  return useSyncExternalStore(subscribe, getSnapshot, () => false);
+}
+
 // ---------------------------------------------------------------------------
 // Hook — POST-and-forget rerun pattern shared by all panels
 // ---------------------------------------------------------------------------
@@ -8,6 +8,7 @@ interface JobInfo {
   label: string;
   status: string;
   progress?: string;
+  error?: string;
   params?: Record<string, unknown>;
   startedAt?: number;
   completedAt?: number;
@@ -126,6 +127,11 @@ export default function QueueStatus() {
 
   if (active === 0 && jobs.size === 0) return null;
 
+  const cancelJob = (id: string) => {
+    // The queue broadcasts the failed job over the event stream
+    fetch(`/api/queue?jobId=${encodeURIComponent(id)}`, { method: "DELETE" }).catch(() => {});
+  };
+
   const STATUS_ORDER: Record<string, number> = { running: 0, queued: 1, completed: 2, failed: 2 };
   const sortedJobs = [...jobs.values()].sort((a, b) => {
     const ao = STATUS_ORDER[a.status] ?? 1;
@@ -177,6 +183,7 @@ export default function QueueStatus() {
                 className="flex items-center gap-2 border-b border-slate-800 px-3 py-1.5 last:border-b-0"
               >
                 <span
+                  title={job.error}
                   className={`h-1.5 w-1.5 shrink-0 rounded-full ${
                     job.status === "completed" ? "bg-green-500" :
                     job.status === "failed" ? "bg-red-500" :
@@ -197,6 +204,19 @@ export default function QueueStatus() {
                 <span className="w-10 shrink-0 text-right tabular-nums text-[11px] text-slate-600">
                   {formatElapsed(job, now)}
                 </span>
+                {job.status === "running" || job.status === "queued" ? (
+                  <button
+                    type="button"
+                    onClick={() => cancelJob(job.id)}
+                    aria-label={`Cancel ${formatJobType(job)} for ${job.label}`}
+                    title="Cancel"
+                    className="shrink-0 rounded px-1 text-xs leading-none text-slate-500 hover:bg-slate-800 hover:text-red-400"
+                  >
+                    &times;
+                  </button>
+                ) : (
+                  <span className="w-4 shrink-0" />
+                )}
               </div>
             ))}
             {remaining > 0 && (
@@ -1,81 +1,128 @@
 /**
  * Build fixtures/raven/raven.db from the existing fixture files on disk.
  * Run with: npx tsx fixtures/build-fixture-db.ts
+ *
+ * `buildFixtureDb()` can also build the book elsewhere and at an older
+ * schema version, for migration tests:
+ *   npx tsx fixtures/build-fixture-db.ts --schema-version 6 --books-root /tmp/books
  */
 import fs from "node:fs";
 import path from "node:path";
+import { pathToFileURL } from "node:url";
 
 const fixturesDir = path.resolve(import.meta.dirname);
 const ravenDir = path.join(fixturesDir, "raven");
-const dbPath = path.join(ravenDir, "raven.db");
 
-// Remove stale DB files
-for (const suffix of ["", "-wal", "-shm"]) {
-  const p = dbPath + suffix;
-  if (fs.existsSync(p)) fs.unlinkSync(p);
+export interface BuildFixtureDbOptions {
+  /** Books root to build `raven/raven.db` in (default: fixtures/) */
+  booksRoot?: string;
+  /** Schema version to leave the DB at (default: current) */
+  schemaVersion?: number;
 }
 
-// Set BOOKS_ROOT before importing DB module so getDb() finds the right path
-process.env.BOOKS_ROOT = fixturesDir;
-
-// Dynamic imports after env is set
-const { getDb, closeAllDbs } = await import("../lib/db");
-const { putPageText, putImage, putBookMetadata } = await import("../lib/books");
-const { hashBuffer } = await import("../lib/pipeline/llm-log");
-const { bookMetadataSchema } = await import("../lib/pipeline/metadata/metadata-schema");
-
-const db = getDb("raven");
-
-// 1. Populate pages table and images from flat images/ dir
-const imagesDir = path.join(ravenDir, "images");
-const imageFiles = fs.readdirSync(imagesDir).sort();
-
-// Discover page IDs from im000 page images
-const pageIds = imageFiles
-  .filter((f) => /^pg\d{3}_page\.png$/.test(f))
-  .map((f) => f.replace("_page.png", ""))
-  .sort();
-
-for (const pageId of pageIds) {
-  const pageNumber = parseInt(pageId.slice(2), 10);
-  // Text files no longer on disk; insert empty text (tests use DB)
-  putPageText("raven", pageId, pageNumber, "");
-
-  // All images: im000 is the page image (source "page"), im001+ are extracted (source "extract")
-  const re = new RegExp(`^${pageId}_im\\d{3}\\.png$`);
-  const allImages = imageFiles.filter((f) => re.test(f)).sort();
-  for (const imgFile of allImages) {
-    const imageId = imgFile.replace(/\.png$/, "");
-    const buf = fs.readFileSync(path.join(imagesDir, imgFile));
-    const source = "extract";
-    putImage(
-      "raven",
-      imageId,
-      pageId,
-      `images/${imgFile}`,
-      hashBuffer(buf),
-      buf.readUInt32BE(16),
-      buf.readUInt32BE(20),
-      source
-    );
+export async function buildFixtureDb(
+  options: BuildFixtureDbOptions = {}
+): Promise<{ dbPath: string; pageCount: number }> {
+  const booksRoot = path.resolve(options.booksRoot ?? fixturesDir);
+  const bookDir = path.join(booksRoot, "raven");
+  const dbPath = path.join(bookDir, "raven.db");
+
+  // Remove stale DB files
+  for (const suffix of ["", "-wal", "-shm"]) {
+    const p = dbPath + suffix;
+    if (fs.existsSync(p)) fs.unlinkSync(p);
   }
-}
 
-// 2. Populate book_metadata from metadata.json
-const metadataPath = path.join(ravenDir, "metadata", "metadata.json");
-if (fs.existsSync(metadataPath)) {
-  const raw = JSON.parse(fs.readFileSync(metadataPath, "utf-8"));
-  const result = bookMetadataSchema.safeParse(raw);
-  if (result.success) {
-    putBookMetadata("raven", "llm", result.data);
-  } else {
-    console.error("metadata.json failed schema validation:", result.error);
+  // Outside fixtures/, link the images so the book directory is complete
+  const imagesDir = path.join(ravenDir, "images");
+  if (bookDir !== ravenDir) {
+    fs.mkdirSync(bookDir, { recursive: true });
+    const linked = path.join(bookDir, "images");
+    if (!fs.existsSync(linked)) fs.symlinkSync(imagesDir, linked, "dir");
+  }
+
+  // Set BOOKS_ROOT before importing DB module so getDb() finds the right path
+  process.env.BOOKS_ROOT = booksRoot;
+
+  // Dynamic imports after env is set
+  const { getDb, closeAllDbs, SCHEMA_VERSION } = await import("../lib/db");
+  const { downgrade } = await import("../lib/db-migrations");
+  const { putPageText, putImage, putBookMetadata } = await import("../lib/books");
+  const { hashBuffer } = await import("../lib/pipeline/llm-log");
+  const { bookMetadataSchema } = await import("../lib/pipeline/metadata/metadata-schema");
+
+  closeAllDbs();
+  const db = getDb("raven");
+
+  // 1. Populate pages table and images from flat images/ dir
+  const imageFiles = fs.readdirSync(imagesDir).sort();
+
+  // Discover page IDs from im000 page images
+  const pageIds = imageFiles
+    .filter((f) => /^pg\d{3}_page\.png$/.test(f))
+    .map((f) => f.replace("_page.png", ""))
+    .sort();
+
+  for (const pageId of pageIds) {
+    const pageNumber = parseInt(pageId.slice(2), 10);
+    // Text files no longer on disk; insert empty text (tests use DB)
+    putPageText("raven", pageId, pageNumber, "");
+
+    // All images: im000 is the page image (source "page"), im001+ are extracted (source "extract")
+    const re = new RegExp(`^${pageId}_im\\d{3}\\.png$`);
+    const allImages = imageFiles.filter((f) => re.test(f)).sort();
+    for (const imgFile of allImages) {
+      const imageId = imgFile.replace(/\.png$/, "");
+      const buf = fs.readFileSync(path.join(imagesDir, imgFile));
+      const source = "extract";
+      putImage(
+        "raven",
+        imageId,
+        pageId,
+        `images/${imgFile}`,
+        hashBuffer(buf),
+        buf.readUInt32BE(16),
+        buf.readUInt32BE(20),
+        source
+      );
+    }
+  }
+
+  // 2. Populate book_metadata from metadata.json
+  const metadataPath = path.join(ravenDir, "metadata", "metadata.json");
+  if (fs.existsSync(metadataPath)) {
+    const raw = JSON.parse(fs.readFileSync(metadataPath, "utf-8"));
+    const result = bookMetadataSchema.safeParse(raw);
+    if (result.success) {
+      putBookMetadata("raven", "llm", result.data);
+    } else {
+      console.error("metadata.json failed schema validation:", result.error);
+    }
+  }
+
+  // 3. Step back to an older schema version if asked
+  if (options.schemaVersion !== undefined && options.schemaVersion < SCHEMA_VERSION) {
+    downgrade(db, SCHEMA_VERSION, options.schemaVersion);
   }
+
+  closeAllDbs();
+  return { dbPath, pageCount: pageIds.length };
+}
+
+function argValue(name: string): string | undefined {
+  const i = process.argv.indexOf(name);
+  return i >= 0 ? process.argv[i + 1] : undefined;
 }
 
-closeAllDbs();
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const schemaVersion = argValue("--schema-version");
+  const { dbPath, pageCount } = await buildFixtureDb({
+    booksRoot: argValue("--books-root"),
+    schemaVersion: schemaVersion ? parseInt(schemaVersion, 10) : undefined,
+  });
 
-const stats = fs.statSync(dbPath);
-console.log(`Built ${dbPath} (${(stats.size / 1024).toFixed(1)} KB)`);
-console.log(`  ${pageIds.length} pages`);
-console.log("Done.");
+  const stats = fs.statSync(dbPath);
+  console.log(`Built ${dbPath} (${(stats.size / 1024).toFixed(1)} KB)`);
+  console.log(`  ${pageCount} pages`);
+  console.log("Done.");
+}
@@ -10,7 +10,7 @@ import {
 import fs from "node:fs";
 import path from "node:path";
 import os from "node:os";
-import { getDb, closeAllDbs, SCHEMA_VERSION, SchemaMismatchError } from "@/lib/db";
+import { getDb, SCHEMA_VERSION, SchemaMismatchError } from "@/lib/db";
 import {
   putBookMetadata,
   deleteBookMetadata,
@@ -47,16 +47,7 @@ import {
   getLlmLog,
 } from "@/lib/books";
 import type { BookMetadata } from "@/lib/pipeline/metadata/metadata-schema";
-
-function useBooksRoot(dir: string): () => void {
-  const prev = process.env.BOOKS_ROOT;
-  process.env.BOOKS_ROOT = dir;
-  return () => {
-    closeAllDbs();
-    if (prev === undefined) delete process.env.BOOKS_ROOT;
-    else process.env.BOOKS_ROOT = prev;
-  };
-}
+import { useBooksRoot } from "./helpers";
 
 const VALID_METADATA: BookMetadata = {
   title: "Test Book",
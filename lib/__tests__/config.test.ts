@@ -25,10 +25,10 @@ describe("config", () => {
     }
   });
 
-  it("has all 5 group types with descriptions", () => {
+  it("has all 6 group types with descriptions", () => {
     const config = loadConfig();
     const types = getTextGroupTypes(config);
-    expect(Object.keys(types)).toHaveLength(5);
+    expect(Object.keys(types)).toHaveLength(6);
     for (const [key, description] of Object.entries(types)) {
       expect(key).toBeTruthy();
       expect(typeof key).toBe("string");
@@ -48,8 +48,9 @@ describe("config", () => {
   it("groupTypeKeys derived from config", () => {
     const config = loadConfig();
     const groupTypeKeys = Object.keys(config.text_group_types);
-    expect(groupTypeKeys).toHaveLength(5);
+    expect(groupTypeKeys).toHaveLength(6);
     expect(groupTypeKeys).toContain("heading");
+    expect(groupTypeKeys).toContain("table");
     expect(groupTypeKeys).toContain("other");
   });
 });
@@ -2,17 +2,8 @@ import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from
 import fs from "node:fs";
 import path from "node:path";
 import os from "node:os";
-import { getDb, closeDb, undeleteDb, closeAllDbs } from "@/lib/db";
-
-function useBooksRoot(dir: string): () => void {
-  const prev = process.env.BOOKS_ROOT;
-  process.env.BOOKS_ROOT = dir;
-  return () => {
-    closeAllDbs();
-    if (prev === undefined) delete process.env.BOOKS_ROOT;
-    else process.env.BOOKS_ROOT = prev;
-  };
-}
+import { getDb, closeDb, undeleteDb } from "@/lib/db";
+import { useBooksRoot } from "./helpers";
 
 describe("DB deletion guard", () => {
   const label = "guard-test";
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import {
+  getDb,
+  closeAllDbs,
+  SCHEMA_VERSION,
+  SchemaMismatchError,
+  SchemaMigrationError,
+} from "@/lib/db";
+import { MIGRATIONS, OLDEST_MIGRATABLE_VERSION, canMigrate } from "@/lib/db-migrations";
+import { buildFixtureDb } from "@/fixtures/build-fixture-db";
+import { useBooksRoot } from "./helpers";
+
+function readImages(label: string) {
+  return getDb(label)
+    .prepare("SELECT image_id, hash FROM images ORDER BY image_id")
+    .all() as { image_id: string; hash: string }[];
+}
+
+function schemaVersionOf(label: string): number {
+  const row = getDb(label).prepare("SELECT version FROM schema_version").get() as {
+    version: number;
+  };
+  return row.version;
+}
+
+function setSchemaVersion(dbPath: string, version: number) {
+  const label = path.basename(dbPath, ".db");
+  getDb(label).prepare("UPDATE schema_version SET version = ?").run(version);
+  closeAllDbs();
+}
+
+describe("book DB migrations", () => {
+  let tmpDir: string;
+  let restoreBooksRoot: () => void;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "db-migrations-test-"));
+    restoreBooksRoot = useBooksRoot(tmpDir);
+  });
+
+  afterEach(() => {
+    restoreBooksRoot();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("has a migration for every version since the oldest supported one", () => {
+    expect(canMigrate(OLDEST_MIGRATABLE_VERSION, SCHEMA_VERSION)).toBe(true);
+    expect(MIGRATIONS.at(-1)!.from).toBe(SCHEMA_VERSION - 1);
+  });
+
+  for (let version = OLDEST_MIGRATABLE_VERSION; version < SCHEMA_VERSION; version++) {
+    it(`upgrades a v${version} fixture in place and keeps a backup`, async () => {
+      const current = await buildFixtureDb({ booksRoot: path.join(tmpDir, "current") });
+      process.env.BOOKS_ROOT = path.join(tmpDir, "current");
+      const expectedImages = readImages("raven");
+      closeAllDbs();
+
+      const { dbPath, pageCount } = await buildFixtureDb({
+        booksRoot: tmpDir,
+        schemaVersion: version,
+      });
+      expect(current.pageCount).toBe(pageCount);
+      const before = fs.readFileSync(dbPath);
+
+      expect(schemaVersionOf("raven")).toBe(SCHEMA_VERSION);
+      expect(readImages("raven")).toEqual(expectedImages);
+      expect(
+        getDb("raven").prepare("SELECT COUNT(*) AS n FROM pages").get()
+      ).toEqual({ n: pageCount });
+
+      // The backup is the untouched pre-migration DB
+      expect(fs.readFileSync(`${dbPath}.v${version}.bak`).equals(before)).toBe(true);
+    });
+  }
+
+  it("refuses databases from a newer schema", async () => {
+    const { dbPath } = await buildFixtureDb({ booksRoot: tmpDir });
+    setSchemaVersion(dbPath, SCHEMA_VERSION + 1);
+
+    expect(() => getDb("raven")).toThrow(SchemaMismatchError);
+    expect(fs.existsSync(`${dbPath}.v${SCHEMA_VERSION + 1}.bak`)).toBe(false);
+  });
+
+  it("refuses databases older than the first migration", async () => {
+    const { dbPath } = await buildFixtureDb({ booksRoot: tmpDir });
+    setSchemaVersion(dbPath, OLDEST_MIGRATABLE_VERSION - 1);
+
+    expect(() => getDb("raven")).toThrow(/no migration exists/);
+  });
+
+  it("restores the original database when a migration fails", async () => {
+    const version = SCHEMA_VERSION - 1;
+    const { dbPath } = await buildFixtureDb({ booksRoot: tmpDir, schemaVersion: version });
+    const before = fs.readFileSync(dbPath);
+
+    const migration = MIGRATIONS.find((m) => m.from === version)!;
+    const up = migration.up;
+    migration.up = () => {
+      throw new Error("boom");
+    };
+    try {
+      expect(() => getDb("raven")).toThrow(SchemaMigrationError);
+    } finally {
+      migration.up = up;
+    }
+
+    expect(fs.readFileSync(dbPath).equals(before)).toBe(true);
+    expect(fs.existsSync(`${dbPath}.v${version}.bak`)).toBe(true);
+
+    // A retry succeeds and keeps the first backup
+    expect(schemaVersionOf("raven")).toBe(SCHEMA_VERSION);
+    expect(fs.existsSync(`${dbPath}.v${version}.1.bak`)).toBe(true);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { diffEditions, diffWords } from "@/lib/edition";
+import { pageSnapshot } from "./helpers";
+
+describe("diffWords", () => {
+  it("marks added and removed words", () => {
+    expect(diffWords("the quick brown fox", "the slow brown fox jumps")).toEqual([
+      { type: "same", text: "the" },
+      { type: "added", text: "slow" },
+      { type: "removed", text: "quick" },
+      { type: "same", text: "brown fox" },
+      { type: "added", text: "jumps" },
+    ]);
+  });
+
+  it("ignores whitespace differences", () => {
+    expect(diffWords("a  b\nc", "a b c")).toEqual([{ type: "same", text: "a b c" }]);
+  });
+});
+
+describe("diffEditions", () => {
+  it("classifies unchanged, changed, added and removed pages", () => {
+    const previous = [
+      pageSnapshot("pg001", "a", "Cover"),
+      pageSnapshot("pg002", "b", "Chapter one", ["i1"]),
+      pageSnapshot("pg003", "c", "The end"),
+    ];
+    const current = [
+      pageSnapshot("pg001", "a", "Cover"),
+      pageSnapshot("pg002", "b2", "Chapter 1", ["i2"]),
+      pageSnapshot("pg003", "x", "A new page"),
+      pageSnapshot("pg004", "y", "Another new page"),
+    ];
+
+    const diff = diffEditions(previous, current);
+    expect(diff.pages.map((p) => [p.pageId, p.status, p.previousPageId])).toEqual([
+      ["pg001", "unchanged", "pg001"],
+      ["pg002", "changed", "pg002"],
+      ["pg003", "changed", "pg003"],
+      ["pg004", "added", null],
+    ]);
+    expect(diff.pages[1]).toMatchObject({
+      textDiff: [
+        { type: "same", text: "Chapter" },
+        { type: "added", text: "1" },
+        { type: "removed", text: "one" },
+      ],
+      imagesAdded: 1,
+      imagesRemoved: 1,
+    });
+    expect(diff.removed).toEqual([]);
+  });
+
+  it("reports reordered pages as moved and pairs changes between matched pages", () => {
+    const previous = ["a", "b", "c", "d", "e"].map((hash, i) => pageSnapshot(`pg00${i + 1}`, hash));
+    const current = ["a", "c", "d", "b", "x"].map((hash, i) => pageSnapshot(`pg00${i + 1}`, hash));
+
+    const diff = diffEditions(previous, current);
+    expect(diff.pages.map((p) => [p.pageId, p.status, p.previousPageId])).toEqual([
+      ["pg001", "unchanged", "pg001"],
+      ["pg002", "unchanged", "pg003"],
+      ["pg003", "unchanged", "pg004"],
+      ["pg004", "moved", "pg002"],
+      ["pg005", "changed", "pg005"],
+    ]);
+    expect(diff.removed).toEqual([]);
+  });
+});
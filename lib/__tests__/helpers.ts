@@ -0,0 +1,25 @@
+import { closeAllDbs } from "@/lib/db";
+import type { PageSnapshot } from "@/lib/reimport";
+
+/**
+ * Point BOOKS_ROOT at `dir` for the duration of a test. The returned
+ * function closes any open databases and restores the previous root.
+ */
+export function useBooksRoot(dir: string): () => void {
+  const prev = process.env.BOOKS_ROOT;
+  process.env.BOOKS_ROOT = dir;
+  return () => {
+    closeAllDbs();
+    if (prev === undefined) delete process.env.BOOKS_ROOT;
+    else process.env.BOOKS_ROOT = prev;
+  };
+}
+
+export function pageSnapshot(
+  pageId: string,
+  pageImageHash: string,
+  text = "",
+  imageHashes: string[] = []
+): PageSnapshot {
+  return { pageId, text, pageImageHash, imageHashes };
+}
@@ -2,22 +2,13 @@ import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from
 import fs from "node:fs";
 import path from "node:path";
 import os from "node:os";
-import { getDb, closeAllDbs } from "@/lib/db";
+import { getDb } from "@/lib/db";
 import {
   putNodeData,
   listWebRenderingVersions,
   getWebRendering,
 } from "@/lib/books";
-
-function useBooksRoot(dir: string): () => void {
-  const prev = process.env.BOOKS_ROOT;
-  process.env.BOOKS_ROOT = dir;
-  return () => {
-    closeAllDbs();
-    if (prev === undefined) delete process.env.BOOKS_ROOT;
-    else process.env.BOOKS_ROOT = prev;
-  };
-}
+import { useBooksRoot } from "./helpers";
 
 describe("node_data with NULL data", () => {
   const label = "testbook";
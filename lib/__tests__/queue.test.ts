@@ -1,6 +1,12 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
 import type { JobType, JobExecutor } from "@/lib/queue";
 
+// Keep the singleton's job database out of the real books directory
+process.env.BOOKS_ROOT = fs.mkdtempSync(path.join(os.tmpdir(), "queue-test-"));
+
 // Fresh queue for each test — we bypass the singleton by importing the module
 // fresh and injecting a mock executor via the globalThis hook.
 
@@ -97,3 +103,196 @@ describe("queue.cancelByLabel", () => {
     expect(job.status).toBe("failed");
   });
 });
+
+describe("JobQueue.cancel", () => {
+  afterEach(() => {
+    clearMockExecutor();
+  });
+
+  it("aborts the signal of a running job", async () => {
+    const { JobQueue } = await import("@/lib/queue");
+    const q = new JobQueue();
+    let signal: AbortSignal | undefined;
+    installMockExecutor((_job, _update, s) => {
+      signal = s;
+      return new Promise((_resolve, reject) => {
+        s.addEventListener("abort", () => reject(s.reason));
+      });
+    });
+
+    const id = q.enqueue("page-pipeline", "book-a", { pageId: "pg001" });
+    expect(q.getJob(id)!.status).toBe("running");
+
+    expect(q.cancel(id)).toBe(true);
+    expect(signal!.aborted).toBe(true);
+    await new Promise((r) => setTimeout(r, 10));
+
+    const job = q.getJob(id)!;
+    expect(job.status).toBe("failed");
+    expect(job.error).toBe("Cancelled");
+  });
+
+  it("removes queued jobs before they start", async () => {
+    const { JobQueue } = await import("@/lib/queue");
+    const q = new JobQueue();
+    const started: string[] = [];
+    installMockExecutor((job) => {
+      started.push(job.id);
+      return new Promise(() => {});
+    });
+
+    const ids = Array.from({ length: 17 }, (_, i) =>
+      q.enqueue("page-pipeline", "book-a", { pageId: `pg${i}` })
+    );
+    const last = ids[16];
+    expect(q.getJob(last)!.status).toBe("queued");
+
+    expect(q.cancel(last)).toBe(true);
+    expect(q.getJob(last)!.status).toBe("failed");
+    expect(started).not.toContain(last);
+    expect(q.getStats()).toEqual({ queued: 0, running: 16 });
+  });
+
+  it("does not cancel finished jobs", async () => {
+    const { JobQueue } = await import("@/lib/queue");
+    const q = new JobQueue();
+    installMockExecutor(async () => {});
+
+    const id = q.enqueue("metadata", "book-a");
+    await new Promise((r) => setTimeout(r, 10));
+
+    expect(q.cancel(id)).toBe(false);
+    expect(q.cancel("job_missing")).toBe(false);
+    expect(q.getJob(id)!.status).toBe("completed");
+  });
+});
+
+describe("JobQueue pausing", () => {
+  afterEach(() => {
+    clearMockExecutor();
+  });
+
+  it("holds jobs of paused books without blocking other books", async () => {
+    const { JobQueue } = await import("@/lib/queue");
+    const paused = new Set(["book-a"]);
+    const q = new JobQueue({
+      pauseReason: (label) => (paused.has(label) ? "Paused: budget reached" : null),
+    });
+    const started: string[] = [];
+    installMockExecutor(async (job) => {
+      started.push(job.label);
+    });
+
+    const a = q.enqueue("metadata", "book-a");
+    const b = q.enqueue("metadata", "book-b");
+    await new Promise((r) => setTimeout(r, 10));
+
+    expect(started).toEqual(["book-b"]);
+    expect(q.getJob(b)!.status).toBe("completed");
+    expect(q.getJob(a)!.status).toBe("queued");
+    expect(q.getJob(a)!.progress).toBe("Paused: budget reached");
+
+    // The next drain re-checks the book
+    paused.delete("book-a");
+    q.enqueue("metadata", "book-b");
+    await new Promise((r) => setTimeout(r, 10));
+
+    expect(q.getJob(a)!.status).toBe("completed");
+    expect(q.getJob(a)!.progress).toBeUndefined();
+  });
+});
+
+describe("JobQueue persistence", () => {
+  let tmpDir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "queue-store-"));
+    dbPath = path.join(tmpDir, "queue.db");
+  });
+
+  afterEach(async () => {
+    clearMockExecutor();
+    const { closeAllDbs } = await import("@/lib/db");
+    closeAllDbs();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  /** Simulate a server restart: drop cached connections, reload from disk */
+  async function restart() {
+    const { closeAllDbs } = await import("@/lib/db");
+    const { createSqliteJobStore } = await import("@/lib/queue-store");
+    const { JobQueue } = await import("@/lib/queue");
+    closeAllDbs();
+    const store = createSqliteJobStore(dbPath);
+    return { store, queue: new JobQueue({ store }) };
+  }
+
+  it("records state transitions but not progress", async () => {
+    installMockExecutor(async (_job, update) => {
+      update({ progress: "halfway" });
+    });
+    const { store, queue: q } = await restart();
+
+    const id = q.enqueue("page-pipeline", "book-a", { pageId: "pg001" });
+    await new Promise((r) => setTimeout(r, 20));
+
+    const saved = store.get(id)!;
+    expect(saved.status).toBe("completed");
+    expect(saved.params).toEqual({ pageId: "pg001" });
+    expect(saved.attempts).toBe(1);
+    expect(saved.completedAt).toBeDefined();
+    expect(saved.progress).toBeUndefined();
+  });
+
+  it("re-queues interrupted jobs on restart and continues job IDs", async () => {
+    installMockExecutor(() => new Promise(() => {}));
+    const first = await restart();
+    const runningId = first.queue.enqueue("page-pipeline", "book-a", { pageId: "pg001" });
+    expect(first.store.get(runningId)!.status).toBe("running");
+
+    const ran: string[] = [];
+    installMockExecutor(async (job) => {
+      ran.push(job.id);
+    });
+    const second = await restart();
+    expect(second.queue.recover()).toEqual({ requeued: 1, failed: 0 });
+    await new Promise((r) => setTimeout(r, 20));
+
+    expect(ran).toEqual([runningId]);
+    const job = second.store.get(runningId)!;
+    expect(job.status).toBe("completed");
+    expect(job.attempts).toBe(2);
+
+    const nextId = second.queue.enqueue("page-pipeline", "book-a", { pageId: "pg002" });
+    expect(nextId).not.toBe(runningId);
+  });
+
+  it("fails interrupted jobs that cannot safely run twice", async () => {
+    installMockExecutor(() => new Promise(() => {}));
+    const first = await restart();
+    const id = first.queue.enqueue("web-edit", "book-a", { sectionId: "pg001_s001" });
+
+    const second = await restart();
+    expect(second.queue.recover()).toEqual({ requeued: 0, failed: 1 });
+
+    const job = second.queue.getJob(id)!;
+    expect(job.status).toBe("failed");
+    expect(job.error).toBe("Interrupted by server restart");
+    expect(second.store.get(id)!.status).toBe("failed");
+  });
+
+  it("keeps finished jobs in the history", async () => {
+    installMockExecutor(async () => {});
+    const first = await restart();
+    const a = first.queue.enqueue("metadata", "book-a");
+    const b = first.queue.enqueue("metadata", "book-b");
+    await new Promise((r) => setTimeout(r, 20));
+
+    const second = await restart();
+    second.queue.recover();
+    expect(second.queue.getHistory().map((j) => j.id)).toEqual([b, a]);
+    expect(second.queue.getHistory({ label: "book-a" }).map((j) => j.id)).toEqual([a]);
+    expect(second.queue.getJob(a)?.status).toBe("completed");
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { matchPages, remapIds } from "@/lib/reimport";
+import { pageSnapshot } from "./helpers";
+
+describe("matchPages", () => {
+  it("matches pages by render hash across insertions", () => {
+    const previous = [pageSnapshot("pg001", "a"), pageSnapshot("pg002", "b"), pageSnapshot("pg003", "c")];
+    const current = [pageSnapshot("pg001", "a"), pageSnapshot("pg002", "new"), pageSnapshot("pg003", "b"), pageSnapshot("pg004", "c")];
+
+    expect(matchPages(previous, current)).toEqual(
+      new Map([
+        ["pg001", "pg001"],
+        ["pg003", "pg002"],
+        ["pg004", "pg003"],
+      ])
+    );
+  });
+
+  it("falls back to text and image hashes, and matches each page once", () => {
+    const previous = [pageSnapshot("pg001", "a", "Once upon a time", ["i1"]), pageSnapshot("pg002", "b", "The end")];
+    const current = [
+      pageSnapshot("pg001", "a2", "Once upon a time", ["i1"]),
+      pageSnapshot("pg002", "b2", "Once upon a time", ["i1"]),
+      pageSnapshot("pg003", "b3", "The end", ["i2"]),
+    ];
+
+    expect(matchPages(previous, current)).toEqual(new Map([["pg001", "pg001"]]));
+  });
+
+  it("does not match blank pages by text", () => {
+    expect(matchPages([pageSnapshot("pg001", "a")], [pageSnapshot("pg001", "b")]).size).toBe(0);
+  });
+});
+
+describe("remapIds", () => {
+  const pageIds = new Map([
+    ["pg001", "pg002"],
+    ["pg002", "pg003"],
+  ]);
+  const imageIds = new Map([["pg001_im002", "pg002_im001"]]);
+
+  it("renames page, section, text and image IDs", () => {
+    const data = JSON.stringify({
+      section_id: "pg001_s001",
+      parts: ["pg001_gp001_t001", "pg002_gp001_t001"],
+      images: ["pg001_im002", "pg001_page", "pg002_crop_1700000000000"],
+    });
+
+    expect(JSON.parse(remapIds(data, pageIds, imageIds)!)).toEqual({
+      section_id: "pg002_s001",
+      parts: ["pg002_gp001_t001", "pg003_gp001_t001"],
+      images: ["pg002_im001", "pg002_page", "pg003_crop_1700000000000"],
+    });
+  });
+
+  it("returns null when an unmatched page is mentioned", () => {
+    expect(remapIds("pg001_s001 pg005_s001", pageIds, imageIds)).toBeNull();
+    expect(remapIds("no ids here", pageIds, imageIds)).toBe("no ids here");
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { closeAllDbs } from "@/lib/db";
+import { putNodeData } from "@/lib/books";
+import { createBookStorage } from "@/lib/pipeline/runner";
+import { getPageStaleness } from "@/lib/staleness";
+
+const LABEL = "book-a";
+const PAGE = "pg001";
+
+describe("getPageStaleness", () => {
+  let tmpDir: string;
+  let prevRoot: string | undefined;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "staleness-test-"));
+    prevRoot = process.env.BOOKS_ROOT;
+    process.env.BOOKS_ROOT = tmpDir;
+    fs.mkdirSync(path.join(tmpDir, LABEL));
+  });
+
+  afterEach(() => {
+    closeAllDbs();
+    if (prevRoot === undefined) delete process.env.BOOKS_ROOT;
+    else process.env.BOOKS_ROOT = prevRoot;
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function putClassifications(textVersion: number, imageVersion: number) {
+    for (let v = 1; v <= textVersion; v++) {
+      putNodeData(LABEL, "text-classification", PAGE, v, { reasoning: "", groups: [] });
+    }
+    for (let v = 1; v <= imageVersion; v++) {
+      putNodeData(LABEL, "image-classification", PAGE, v, { images: [] });
+    }
+  }
+
+  function putSectioning(version: number, textVersion: number, imageVersion: number) {
+    putNodeData(LABEL, "page-sectioning", PAGE, version, {
+      reasoning: "",
+      sections: [],
+      text_classification_version: textVersion,
+      image_classification_version: imageVersion,
+    });
+  }
+
+  async function renderSection() {
+    await createBookStorage(LABEL).putSectionRendering(`${PAGE}_s001`, {
+      sectionIndex: 0,
+      sectionType: "text_only",
+      reasoning: "",
+      html: "<section></section>",
+    });
+  }
+
+  it("reports nothing for a page that is up to date", async () => {
+    putClassifications(1, 1);
+    putSectioning(1, 1, 1);
+    await renderSection();
+
+    expect(getPageStaleness(LABEL, PAGE)).toEqual({
+      pageId: PAGE,
+      stale: {},
+      staleSections: {},
+      rerunSteps: [],
+    });
+  });
+
+  it("marks sectioning and its renderings stale after a classification edit", async () => {
+    putClassifications(1, 1);
+    putSectioning(1, 1, 1);
+    await renderSection();
+    putNodeData(LABEL, "text-classification", PAGE, 2, { reasoning: "", groups: [] });
+
+    const staleness = getPageStaleness(LABEL, PAGE);
+    expect(staleness.stale["page-sectioning"]).toContain("Text classification");
+    expect(staleness.stale["page-sectioning"]).toContain("v1 → v2");
+    expect(Object.keys(staleness.staleSections)).toEqual([`${PAGE}_s001`]);
+    expect(staleness.rerunSteps).toEqual(["page-sectioning", "web-rendering"]);
+  });
+
+  it("marks only renderings stale after a sectioning edit", async () => {
+    putClassifications(1, 1);
+    putSectioning(1, 1, 1);
+    await renderSection();
+    putSectioning(2, 1, 1);
+
+    const staleness = getPageStaleness(LABEL, PAGE);
+    expect(staleness.stale["page-sectioning"]).toBeUndefined();
+    expect(staleness.staleSections[`${PAGE}_s001`]).toContain("Page sectioning");
+    expect(staleness.rerunSteps).toEqual(["web-rendering"]);
+
+    // Re-rendering records the new sectioning version
+    await renderSection();
+    expect(getPageStaleness(LABEL, PAGE).rerunSteps).toEqual([]);
+  });
+
+  it("ignores renderings saved before sectioning versions were recorded", () => {
+    putClassifications(1, 1);
+    putSectioning(2, 1, 1);
+    putNodeData(LABEL, "web-rendering", `${PAGE}_s001`, 1, {
+      section_index: 0,
+      section_type: "text_only",
+      reasoning: "",
+      html: "<section></section>",
+    });
+
+    expect(getPageStaleness(LABEL, PAGE).rerunSteps).toEqual([]);
+  });
+
+  it("marks a linked head section stale after its continuation page is re-sectioned", async () => {
+    putClassifications(1, 1);
+    putSectioning(1, 1, 1);
+    putNodeData(LABEL, "page-sectioning", "pg002", 1, { reasoning: "", sections: [] });
+    await createBookStorage(LABEL).putSectionRendering(`${PAGE}_s001`, {
+      sectionIndex: 0,
+      sectionType: "text_only",
+      reasoning: "",
+      html: "<section></section>",
+      mergedSectionIds: ["pg002_s001"],
+    });
+    expect(getPageStaleness(LABEL, PAGE).rerunSteps).toEqual([]);
+
+    putNodeData(LABEL, "page-sectioning", "pg002", 2, { reasoning: "", sections: [] });
+
+    const staleness = getPageStaleness(LABEL, PAGE);
+    expect(staleness.staleSections[`${PAGE}_s001`]).toContain("Page sectioning of pg002");
+    expect(staleness.rerunSteps).toEqual(["web-rendering"]);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { closeAllDbs } from "@/lib/db";
+import { recordLlmUsage, type LlmUsageRecord } from "@/lib/books";
+import {
+  budgetPauseReason,
+  estimateCost,
+  getUsageReport,
+  priceFor,
+  summarizeUsage,
+} from "@/lib/usage";
+
+function record(overrides: Partial<LlmUsageRecord> = {}): LlmUsageRecord {
+  return {
+    timestamp: "2026-01-01T00:00:00.000Z",
+    taskType: "text-classification",
+    pageId: "pg001",
+    modelId: "openai:gpt-4o",
+    inputTokens: 1000,
+    outputTokens: 100,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    ...overrides,
+  };
+}
+
+const PRICING = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "openai:gpt-5": { input: 1.25, output: 10, cache_read: 0.125 },
+};
+
+describe("priceFor", () => {
+  it("matches the full model ID before the ID without its provider", () => {
+    expect(priceFor("openai:gpt-5", PRICING)).toBe(PRICING["openai:gpt-5"]);
+    expect(priceFor("openai:gpt-4o", PRICING)).toBe(PRICING["gpt-4o"]);
+    expect(priceFor("azure:gpt-4o", PRICING)).toBe(PRICING["gpt-4o"]);
+    expect(priceFor("gpt-5", PRICING)).toBeUndefined();
+  });
+});
+
+describe("estimateCost", () => {
+  it("charges cache reads at their own rate", () => {
+    const cost = estimateCost(
+      record({ inputTokens: 1_000_000, cacheReadTokens: 800_000, outputTokens: 0 }),
+      PRICING["openai:gpt-5"]
+    );
+    // 200k uncached at 1.25 + 800k cached at 0.125
+    expect(cost).toBeCloseTo(0.25 + 0.1);
+  });
+
+  it("falls back to the input rate for cache tokens", () => {
+    const cost = estimateCost(
+      record({ inputTokens: 1_000_000, cacheWriteTokens: 500_000, outputTokens: 1_000_000 }),
+      PRICING["gpt-4o"]
+    );
+    expect(cost).toBeCloseTo(2.5 + 10);
+  });
+});
+
+describe("summarizeUsage", () => {
+  it("rolls records up by step, page and model", () => {
+    const summary = summarizeUsage(
+      [
+        record(),
+        record({ pageId: "pg002" }),
+        record({ taskType: "metadata", pageId: null }),
+        record({ modelId: "ollama:llama3.1", pageId: "pg002" }),
+      ],
+      PRICING
+    );
+
+    const perCall = (1000 * 2.5 + 100 * 10) / 1_000_000;
+    expect(summary.total.calls).toBe(4);
+    expect(summary.total.inputTokens).toBe(4000);
+    expect(summary.total.costUsd).toBeCloseTo(3 * perCall);
+    expect(summary.total.unpricedCalls).toBe(1);
+    expect(summary.byStep["text-classification"].calls).toBe(3);
+    expect(summary.byStep["metadata"].costUsd).toBeCloseTo(perCall);
+    expect(Object.keys(summary.byPage).sort()).toEqual(["pg001", "pg002"]);
+    expect(summary.byPage["pg002"].unpricedCalls).toBe(1);
+    expect(summary.byModel["openai:gpt-4o"].calls).toBe(3);
+    expect(summary.unpricedModels).toEqual(["ollama:llama3.1"]);
+  });
+});
+
+describe("book usage and budgets", () => {
+  let tmpDir: string;
+  let prevRoot: string | undefined;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "usage-test-"));
+    prevRoot = process.env.BOOKS_ROOT;
+    process.env.BOOKS_ROOT = tmpDir;
+    fs.mkdirSync(path.join(tmpDir, "book-a"));
+  });
+
+  afterEach(() => {
+    closeAllDbs();
+    if (prevRoot === undefined) delete process.env.BOOKS_ROOT;
+    else process.env.BOOKS_ROOT = prevRoot;
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function writeBookConfig(yaml: string) {
+    fs.writeFileSync(path.join(tmpDir, "book-a", "config.yaml"), yaml);
+  }
+
+  function logCall(timestamp: string, inputTokens: number) {
+    recordLlmUsage("book-a", {
+      timestamp,
+      taskType: "page-sectioning",
+      pageId: "pg001",
+      modelId: "openai:gpt-4o",
+      usage: { inputTokens, outputTokens: 0 },
+    });
+  }
+
+  it("filters the report by time range but budgets on all-time spend", () => {
+    writeBookConfig("pricing:\n  gpt-4o: { input: 2, output: 8 }\nbudget:\n  max_usd: 5\n");
+    logCall("2026-01-01T00:00:00.000Z", 1_000_000);
+    logCall("2026-02-01T00:00:00.000Z", 2_000_000);
+
+    const report = getUsageReport("book-a", { from: "2026-01-15T00:00:00.000Z" });
+    expect(report.total.calls).toBe(1);
+    expect(report.total.costUsd).toBeCloseTo(4);
+    expect(report.budget).toEqual({ maxUsd: 5, spentUsd: 6, exceeded: true });
+  });
+
+  it("pauses a book once its budget is reached", () => {
+    writeBookConfig("pricing:\n  gpt-4o: { input: 2, output: 8 }\nbudget:\n  max_usd: 5\n");
+    logCall("2026-01-01T00:00:00.000Z", 2_000_000);
+    expect(budgetPauseReason("book-a")).toBeNull();
+
+    logCall("2026-01-02T00:00:00.000Z", 1_000_000);
+    expect(budgetPauseReason("book-a")).toBe("Paused: budget of $5.00 reached ($6.00 spent)");
+  });
+
+  it("never pauses books without a budget", () => {
+    logCall("2026-01-01T00:00:00.000Z", 100_000_000);
+    expect(budgetPauseReason("book-a")).toBeNull();
+    expect(budgetPauseReason("missing-book")).toBeNull();
+  });
+});
@@ -3,10 +3,32 @@ import path from "node:path";
 import { getDb } from "./db";
 import { resolveBookPaths } from "./pipeline/types";
 import { bookMetadataSchema, type BookMetadata } from "./pipeline/metadata/metadata-schema";
-import type { PdfMetadata } from "./pipeline/runner";
+import type { PdfMetadata, PageLayout } from "./pipeline/runner";
 import type { PageSectioning } from "./pipeline/page-sectioning/page-sectioning-schema";
 import type { PageImageClassification } from "./pipeline/image-classification/image-classification-schema";
+import type { PageImageDescriptions } from "./pipeline/image-description/image-description-schema";
 import type { SectionRendering, WebRendering } from "./pipeline/web-rendering/web-rendering-schema";
+import type { SectionLinks } from "./pipeline/section-linking/section-linking-schema";
+import type { SectionAccessibilityAudit } from "./pipeline/accessibility-audit/accessibility-audit-schema";
+import type { PageSpeech } from "./pipeline/speech/speech-schema";
+import type { PageLabels } from "./pipeline/page-labels/page-labels-schema";
+import type { TableOfContents } from "./pipeline/table-of-contents/table-of-contents-schema";
+import type { ReimportReport } from "./reimport";
+import type { EditionDiff } from "./edition";
+import {
+  translationItemId,
+  type PageTranslation,
+  type TranslatedSectionRendering,
+} from "./pipeline/translation/translation-schema";
+import {
+  fromDBPageSectioning,
+  type DBTextTable,
+  type PageSectioningOutput,
+} from "./pipeline/core/schemas";
+import {
+  checkTextFidelity,
+  type TextDiffSegment,
+} from "./pipeline/web-rendering/text-fidelity";
 
 interface TextEntry {
   text_type: string;
@@ -18,6 +40,8 @@ interface TextGroup {
   group_id?: string;
   group_type: string;
   texts: TextEntry[];
+  /** Cell structure of a `table` group */
+  table?: DBTextTable;
 }
 
 export interface PageTextClassification {
@@ -237,6 +261,133 @@ export function appendLlmLog(label: string, entry: unknown): void {
   ).run();
 }
 
+export interface LlmUsageRecord {
+  timestamp: string;
+  taskType: string;
+  pageId: string | null;
+  modelId: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+}
+
+/**
+ * Record the tokens of one LLM call. Unlike the LLM log this table is never
+ * trimmed, so it is the source for usage and cost reports.
+ */
+export function recordLlmUsage(
+  label: string,
+  entry: Pick<
+    import("./pipeline/core/llm").LLMLogEntry,
+    "timestamp" | "taskType" | "pageId" | "modelId" | "usage"
+  >
+): void {
+  if (!entry.usage) return;
+  getDb(label)
+    .prepare(
+      `INSERT INTO llm_usage (timestamp, task_type, page_id, model_id, input_tokens,
+         output_tokens, cache_read_tokens, cache_write_tokens)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      entry.timestamp,
+      entry.taskType,
+      entry.pageId ?? null,
+      entry.modelId,
+      entry.usage.inputTokens,
+      entry.usage.outputTokens,
+      entry.usage.cacheReadTokens ?? 0,
+      entry.usage.cacheWriteTokens ?? 0
+    );
+}
+
+/** Usage records, oldest first, optionally limited to `[from, to)` (ISO timestamps). */
+export function listLlmUsage(
+  label: string,
+  range: { from?: string; to?: string } = {}
+): LlmUsageRecord[] {
+  const conditions: string[] = [];
+  const params: string[] = [];
+  if (range.from) {
+    conditions.push("timestamp >= ?");
+    params.push(range.from);
+  }
+  if (range.to) {
+    conditions.push("timestamp < ?");
+    params.push(range.to);
+  }
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+  const rows = getDb(label)
+    .prepare(
+      `SELECT timestamp, task_type, page_id, model_id, input_tokens, output_tokens,
+         cache_read_tokens, cache_write_tokens
+       FROM llm_usage ${where}
+       ORDER BY id`
+    )
+    .all(...params) as {
+    timestamp: string;
+    task_type: string;
+    page_id: string | null;
+    model_id: string;
+    input_tokens: number;
+    output_tokens: number;
+    cache_read_tokens: number;
+    cache_write_tokens: number;
+  }[];
+  return rows.map((r) => ({
+    timestamp: r.timestamp,
+    taskType: r.task_type,
+    pageId: r.page_id,
+    modelId: r.model_id,
+    inputTokens: r.input_tokens,
+    outputTokens: r.output_tokens,
+    cacheReadTokens: r.cache_read_tokens,
+    cacheWriteTokens: r.cache_write_tokens,
+  }));
+}
+
+/**
+ * Token totals per model of the usage records after row `afterId`, with the
+ * ID of the last record so a caller can pick up where it left off.
+ */
+export function sumLlmUsageByModel(
+  label: string,
+  afterId = 0
+): {
+  lastId: number;
+  byModel: Array<
+    Pick<LlmUsageRecord, "modelId" | "inputTokens" | "outputTokens" | "cacheReadTokens" | "cacheWriteTokens">
+  >;
+} {
+  const rows = getDb(label)
+    .prepare(
+      `SELECT model_id, SUM(input_tokens) AS input_tokens, SUM(output_tokens) AS output_tokens,
+         SUM(cache_read_tokens) AS cache_read_tokens, SUM(cache_write_tokens) AS cache_write_tokens,
+         MAX(id) AS last_id
+       FROM llm_usage WHERE id > ?
+       GROUP BY model_id`
+    )
+    .all(afterId) as {
+    model_id: string;
+    input_tokens: number;
+    output_tokens: number;
+    cache_read_tokens: number;
+    cache_write_tokens: number;
+    last_id: number;
+  }[];
+  return {
+    lastId: Math.max(afterId, ...rows.map((r) => r.last_id)),
+    byModel: rows.map((r) => ({
+      modelId: r.model_id,
+      inputTokens: r.input_tokens,
+      outputTokens: r.output_tokens,
+      cacheReadTokens: r.cache_read_tokens,
+      cacheWriteTokens: r.cache_write_tokens,
+    })),
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Book-level reads
 // ---------------------------------------------------------------------------
@@ -300,11 +451,18 @@ export function getPdfMetadata(label: string): PdfMetadata | null {
 // Page listing
 // ---------------------------------------------------------------------------
 
+/**
+ * Where a page's raw text comes from: the PDF's text layer, an OCR
+ * transcription of the page image (scans), or nowhere yet.
+ */
+export type PageTextSource = "pdf" | "ocr" | "none";
+
 export interface PageSummary {
   pageId: string;
   hasImages: boolean;
   imageIds: string[];
   rawText: string;
+  textSource: PageTextSource;
 }
 
 export function listPages(label: string): PageSummary[] {
@@ -315,6 +473,16 @@ export function listPages(label: string): PageSummary[] {
   return rows.map((row) => buildPageSummary(label, row.page_id));
 }
 
+/** Text geometry of a page, recorded at extraction (null for books extracted before it was). */
+export function getTextLayout(label: string, pageId: string): PageLayout | null {
+  return getVersionData<PageLayout>(label, "text-layout", pageId, 1);
+}
+
+/** Replace a page's text geometry; each extraction has exactly one. */
+export function putTextLayout(label: string, pageId: string, layout: PageLayout): void {
+  putNodeData(label, "text-layout", pageId, 1, layout);
+}
+
 export function getPage(label: string, pageId: string): PageSummary | null {
   const db = getDb(label);
   const row = db
@@ -448,6 +616,42 @@ export function getImageClassification(
   return { data, version: latest };
 }
 
+// ---------------------------------------------------------------------------
+// Image description (alt text)
+// ---------------------------------------------------------------------------
+
+export function listImageDescriptionVersions(
+  label: string,
+  pageId: string
+): number[] {
+  return listVersions(label, "image-description", pageId);
+}
+
+export function getImageDescriptionVersion(
+  label: string,
+  pageId: string,
+  version: number
+): PageImageDescriptions | null {
+  return getVersionData<PageImageDescriptions>(
+    label,
+    "image-description",
+    pageId,
+    version
+  );
+}
+
+export function getImageDescriptions(
+  label: string,
+  pageId: string
+): { data: PageImageDescriptions; version: number } | null {
+  const versions = listImageDescriptionVersions(label, pageId);
+  if (versions.length === 0) return null;
+  const latest = versions[versions.length - 1];
+  const data = getImageDescriptionVersion(label, pageId, latest);
+  if (!data) return null;
+  return { data, version: latest };
+}
+
 // ---------------------------------------------------------------------------
 // Unpruned images
 // ---------------------------------------------------------------------------
@@ -525,6 +729,72 @@ export function loadUnprunedImagesFromDir(
   return images;
 }
 
+// ---------------------------------------------------------------------------
+// Translation (item_id = `${pageId}:${language}`)
+// ---------------------------------------------------------------------------
+
+export function listTranslationVersions(
+  label: string,
+  pageId: string,
+  language: string
+): number[] {
+  return listVersions(label, "translation", translationItemId(pageId, language));
+}
+
+export function getTranslationVersion(
+  label: string,
+  pageId: string,
+  language: string,
+  version: number
+): PageTranslation | null {
+  return getVersionData<PageTranslation>(
+    label,
+    "translation",
+    translationItemId(pageId, language),
+    version
+  );
+}
+
+export function getTranslation(
+  label: string,
+  pageId: string,
+  language: string
+): { data: PageTranslation; version: number } | null {
+  const versions = listTranslationVersions(label, pageId, language);
+  if (versions.length === 0) return null;
+  const latest = versions[versions.length - 1];
+  const data = getTranslationVersion(label, pageId, language, latest);
+  if (!data) return null;
+  return { data, version: latest };
+}
+
+export {
+  type PageTranslation,
+  type TextTranslationEntry,
+} from "./pipeline/translation/translation-schema";
+
+// ---------------------------------------------------------------------------
+// Speech (read-along audio; files live under the book's audio/ directory)
+// ---------------------------------------------------------------------------
+
+export function getSpeech(
+  label: string,
+  pageId: string
+): { data: PageSpeech; version: number } | null {
+  const latest = getLatestVersion(label, "speech", pageId);
+  if (!latest) return null;
+  const data = getVersionData<PageSpeech>(label, "speech", pageId, latest.version);
+  if (!data) return null;
+  return { data, version: latest.version };
+}
+
+export function resolveSpeechAudioPath(label: string, relPath: string): string {
+  const paths = resolveBookPaths(label, getBooksRoot());
+  return path.join(paths.bookDir, relPath);
+}
+
+export { type PageSpeech, type SpeechClipEntry } from "./pipeline/speech/speech-schema";
+
 // ---------------------------------------------------------------------------
 // Page sectioning
 // ---------------------------------------------------------------------------
@@ -563,6 +833,7 @@ export function getPageSectioning(
 
 export { type PageSectioning } from "./pipeline/page-sectioning/page-sectioning-schema";
 export { type PageImageClassification } from "./pipeline/image-classification/image-classification-schema";
+export { type PageImageDescriptions, type ImageDescriptionEntry } from "./pipeline/image-description/image-description-schema";
 export { type SectionRendering, type WebRendering } from "./pipeline/web-rendering/web-rendering-schema";
 export { type LlmLogEntry } from "./pipeline/llm-log";
 
@@ -626,6 +897,263 @@ export function getWebRendering(
   return { sections };
 }
 
+export interface TranslatedRenderingEntry {
+  section_id: string;
+  language: string;
+  html: string;
+  /** True when the section was re-rendered after this variant was built */
+  is_stale: boolean;
+}
+
+/** Latest language variant of every rendered section on a page. */
+export function getTranslatedRenderings(
+  label: string,
+  pageId: string
+): TranslatedRenderingEntry[] {
+  const db = getDb(label);
+  const rows = db
+    .prepare(
+      `SELECT DISTINCT item_id FROM node_data
+       WHERE node = 'translated-rendering' AND item_id LIKE ? || '_s%'
+       ORDER BY item_id`
+    )
+    .all(pageId) as { item_id: string }[];
+
+  const entries: TranslatedRenderingEntry[] = [];
+  for (const { item_id: itemId } of rows) {
+    const [sectionId, language] = itemId.split(":");
+    const latest = getLatestVersion(label, "translated-rendering", itemId);
+    if (!latest || !language) continue;
+    const data = getVersionData<TranslatedSectionRendering>(
+      label,
+      "translated-rendering",
+      itemId,
+      latest.version
+    );
+    if (!data) continue;
+    const renderingVersions = listWebRenderingVersions(label, sectionId);
+    entries.push({
+      section_id: sectionId,
+      language,
+      html: data.html,
+      is_stale:
+        data.web_rendering_version !== renderingVersions[renderingVersions.length - 1],
+    });
+  }
+  return entries;
+}
+
+// ---------------------------------------------------------------------------
+// Section linking (book-level, item "book")
+// ---------------------------------------------------------------------------
+
+export function listSectionLinksVersions(label: string): number[] {
+  return listVersions(label, "section-linking", "book");
+}
+
+export function getSectionLinksVersion(
+  label: string,
+  version: number
+): SectionLinks | null {
+  return getVersionData<SectionLinks>(label, "section-linking", "book", version);
+}
+
+export function getSectionLinks(
+  label: string
+): { data: SectionLinks; version: number } | null {
+  const versions = listSectionLinksVersions(label);
+  if (versions.length === 0) return null;
+  const latest = versions[versions.length - 1];
+  const data = getSectionLinksVersion(label, latest);
+  if (!data) return null;
+  return { data, version: latest };
+}
+
+export { type SectionLinks, type SectionLinkEntry } from "./pipeline/section-linking/section-linking-schema";
+
+// ---------------------------------------------------------------------------
+// Page labels (book-level, item "book")
+// ---------------------------------------------------------------------------
+
+export function getPageLabels(
+  label: string
+): { data: PageLabels; version: number } | null {
+  const versions = listVersions(label, "page-labels", "book");
+  if (versions.length === 0) return null;
+  const latest = versions[versions.length - 1];
+  const data = getVersionData<PageLabels>(label, "page-labels", "book", latest);
+  if (!data) return null;
+  return { data, version: latest };
+}
+
+export { type PageLabels } from "./pipeline/page-labels/page-labels-schema";
+
+// ---------------------------------------------------------------------------
+// Reimport report and edition diff (book-level, item "book")
+// ---------------------------------------------------------------------------
+
+export function getReimportReport(label: string): ReimportReport | null {
+  const versions = listVersions(label, "reimport", "book");
+  if (versions.length === 0) return null;
+  return getVersionData<ReimportReport>(label, "reimport", "book", versions[versions.length - 1]);
+}
+
+/** Page-level diff against the previous edition, after a new edition was imported. */
+export function getEditionDiff(label: string): EditionDiff | null {
+  const versions = listVersions(label, "edition-diff", "book");
+  if (versions.length === 0) return null;
+  return getVersionData<EditionDiff>(label, "edition-diff", "book", versions[versions.length - 1]);
+}
+
+// ---------------------------------------------------------------------------
+// Table of contents (book-level, item "book")
+// ---------------------------------------------------------------------------
+
+export function getTableOfContents(
+  label: string
+): { data: TableOfContents; version: number } | null {
+  const versions = listVersions(label, "table-of-contents", "book");
+  if (versions.length === 0) return null;
+  const latest = versions[versions.length - 1];
+  const data = getVersionData<TableOfContents>(label, "table-of-contents", "book", latest);
+  if (!data) return null;
+  return { data, version: latest };
+}
+
+export {
+  type TableOfContents,
+  type TocEntry,
+} from "./pipeline/table-of-contents/table-of-contents-schema";
+
+// ---------------------------------------------------------------------------
+// Accessibility audit (per section)
+// ---------------------------------------------------------------------------
+
+export function getAccessibilityAudit(
+  label: string,
+  sectionId: string
+): { data: SectionAccessibilityAudit; version: number } | null {
+  const latest = getLatestVersion(label, "accessibility-audit", sectionId);
+  if (!latest) return null;
+  const data = getVersionData<SectionAccessibilityAudit>(
+    label,
+    "accessibility-audit",
+    sectionId,
+    latest.version
+  );
+  if (!data) return null;
+  return { data, version: latest.version };
+}
+
+export interface AccessibilityReportEntry {
+  section_id: string;
+  page_id: string;
+  audit: SectionAccessibilityAudit;
+  /** True when the section was re-rendered after this audit ran */
+  is_stale: boolean;
+}
+
+/**
+ * Latest audit of every section that still has rendered content, optionally
+ * limited to one page.
+ */
+export function getAccessibilityReport(
+  label: string,
+  pageId?: string
+): AccessibilityReportEntry[] {
+  const db = getDb(label);
+  const rows = db
+    .prepare(
+      `SELECT DISTINCT item_id FROM node_data
+       WHERE node = 'accessibility-audit' AND item_id LIKE ? || '_s%'
+       ORDER BY item_id`
+    )
+    .all(pageId ?? "%") as { item_id: string }[];
+
+  const entries: AccessibilityReportEntry[] = [];
+  for (const { item_id: sectionId } of rows) {
+    const audit = getAccessibilityAudit(label, sectionId);
+    const renderingVersions = listWebRenderingVersions(label, sectionId);
+    if (!audit || renderingVersions.length === 0) continue;
+    const currentVersion = renderingVersions[renderingVersions.length - 1];
+    if (!getWebRenderingVersion(label, sectionId, currentVersion)?.html) continue;
+    entries.push({
+      section_id: sectionId,
+      page_id: sectionId.split("_")[0],
+      audit: audit.data,
+      is_stale: audit.data.web_rendering_version !== currentVersion,
+    });
+  }
+  return entries;
+}
+
+export {
+  type SectionAccessibilityAudit,
+  type AccessibilityFindingEntry,
+} from "./pipeline/accessibility-audit/accessibility-audit-schema";
+
+// ---------------------------------------------------------------------------
+// Text fidelity (computed from the sectioning and the latest rendering)
+// ---------------------------------------------------------------------------
+
+export interface TextFidelityEntry {
+  section_id: string;
+  missing_ids: string[];
+  mismatches: Array<{
+    text_id: string;
+    expected: string;
+    actual: string;
+    diff: TextDiffSegment[];
+  }>;
+}
+
+/**
+ * Compare every rendered section on a page with the texts it was rendered
+ * from (including those of sections merged into it). Sections whose text
+ * came through intact are omitted.
+ */
+export function getTextFidelityReport(
+  label: string,
+  pageId: string
+): TextFidelityEntry[] {
+  const rendering = getWebRendering(label, pageId);
+  if (!rendering) return [];
+
+  const sectionings = new Map<string, PageSectioningOutput | null>();
+  const sectionTexts = (sectionId: string) => {
+    const match = /^(.+)_s(\d+)$/.exec(sectionId);
+    if (!match) return [];
+    if (!sectionings.has(match[1])) {
+      const sectioning = getPageSectioning(label, match[1]);
+      sectionings.set(match[1], sectioning ? fromDBPageSectioning(sectioning.data) : null);
+    }
+    const section = sectionings.get(match[1])?.sections[Number(match[2]) - 1];
+    return section && !section.isPruned ? section.texts ?? [] : [];
+  };
+
+  const entries: TextFidelityEntry[] = [];
+  for (const section of rendering.sections) {
+    if (!section.html) continue;
+    const sectionId = `${pageId}_s${String(section.section_index + 1).padStart(3, "0")}`;
+    const texts = [sectionId, ...(section.merged_section_ids ?? [])].flatMap(sectionTexts);
+    const result = checkTextFidelity(section.html, texts);
+    if (result.missingIds.length === 0 && result.mismatches.length === 0) continue;
+    entries.push({
+      section_id: sectionId,
+      missing_ids: result.missingIds,
+      mismatches: result.mismatches.map((m) => ({
+        text_id: m.textId,
+        expected: m.expected,
+        actual: m.actual,
+        diff: m.diff,
+      })),
+    });
+  }
+  return entries;
+}
+
+export { type TextDiffSegment } from "./pipeline/web-rendering/text-fidelity";
+
 // ---------------------------------------------------------------------------
 // LLM log
 // ---------------------------------------------------------------------------
@@ -669,16 +1197,28 @@ function buildPageSummary(
     .all(pageId) as { image_id: string }[];
   const imageIds = imageRows.map((r) => r.image_id);
 
-  // Read rawText from DB
+  // Read rawText from DB, falling back to the OCR transcription
   const row = db
     .prepare("SELECT text FROM pages WHERE page_id = ?")
     .get(pageId) as { text: string } | undefined;
-  const rawText = row?.text ?? "";
+  let rawText = row?.text ?? "";
+  let textSource: PageTextSource = rawText.trim() ? "pdf" : "none";
+  if (textSource === "none") {
+    const versions = listVersions(label, "ocr", pageId);
+    const ocr = versions.length > 0
+      ? getVersionData<{ text: string }>(label, "ocr", pageId, versions[versions.length - 1])
+      : null;
+    if (ocr) {
+      rawText = ocr.text;
+      textSource = "ocr";
+    }
+  }
 
   return {
     pageId,
     hasImages: imageIds.length > 0,
     imageIds,
     rawText,
+    textSource,
   };
 }
@@ -8,6 +8,11 @@
  *   pnpm pipeline run <label> <pdf_path>     Run full pipeline on a PDF
  *   pnpm pipeline pages <label>              Process pages for existing book
  *   pnpm pipeline page <label> <page_id>     Process a single page
+ *   pnpm pipeline link <label>               Link sections across page breaks
+ *   pnpm pipeline audit <label>              Audit rendered sections for accessibility
+ *   pnpm pipeline translate <label> [lang..] Translate text and build language variants
+ *   pnpm pipeline speak <label>              Synthesize read-along audio for every text
+ *   pnpm pipeline export <label>             Export an offline web package or EPUB
  */
 
 import fs from "node:fs";
@@ -18,9 +23,18 @@ import {
   runExtract,
   runMetadataExtraction,
   runPagePipeline,
+  runSectionLinking,
+  runPageLabeling,
+  runTableOfContents,
+  runAccessibilityAudit,
+  runTranslation,
+  runSpeech,
   nullProgress,
 } from "../pipeline/runner";
-import { getBooksRoot } from "../books";
+import { getAccessibilityReport, getBooksRoot } from "../books";
+import { buildEpub } from "../export/epub";
+import { buildWebPackage } from "../export/web-package";
+import { getUsageReport, type UsageTotals } from "../usage";
 import { ParallelProgress, runParallel } from "./progress";
 
 const DEFAULT_CONCURRENCY = 16;
@@ -32,12 +46,21 @@ Commands:
   pages <label>             Process all pages for an existing book
   page <label> <page_id>    Process a single page
   metadata <label>          Extract metadata only
+  link <label>              Link sections that continue across page breaks
+  audit <label>             Audit rendered sections for accessibility (WCAG)
+  translate <label> [lang..]
+                            Translate every page (default: configured target
+                            languages) and rebuild the rendered variants
+  speak <label>             Synthesize read-along audio for every text
+  export <label>            Export an offline web package (zip) or EPUB
 
 Options:
   --start-page <n>      Start at page N (for run command)
   --end-page <n>        End at page N (for run command)
   --concurrency <n>     Max parallel page processing (default: ${DEFAULT_CONCURRENCY})
-  --skip-cache          Skip LLM cache`;
+  --skip-cache          Skip LLM cache
+  --format <web|epub>   Export format (default: web)
+  --out <path>          Output file (for export command)`;
 
 async function main() {
   const args = process.argv.slice(2);
@@ -111,7 +134,7 @@ async function main() {
           skipCache: flags.skipCache,
         });
 
-        const progress = new ParallelProgress();
+        const progress = new ParallelProgress({ usage: usageSince(label) });
         progress.start(pageIds.length);
 
         await runParallel(
@@ -128,6 +151,12 @@ async function main() {
         );
 
         progress.stop();
+
+        // Step 4: Link sections across page breaks and render them together
+        await runSectionLinking(runner, { render: true });
+        await runPageLabeling(runner);
+        await runTableOfContents(runner);
+        console.log();
       }
 
       // Summary
@@ -159,7 +188,7 @@ async function main() {
 
       console.log(`\nProcessing ${pageIds.length} pages for ${label}...\n`);
 
-      const progress = new ParallelProgress();
+      const progress = new ParallelProgress({ usage: usageSince(label) });
       progress.start(pageIds.length);
 
       await runParallel(
@@ -176,6 +205,15 @@ async function main() {
       );
 
       progress.stop();
+
+      const bookRunner = createPageRunner({
+        label,
+        progress: createConsoleProgress(),
+        skipCache: flags.skipCache,
+      });
+      await runSectionLinking(bookRunner, { render: true });
+      await runPageLabeling(bookRunner);
+      await runTableOfContents(bookRunner);
       break;
     }
 
@@ -220,6 +258,162 @@ async function main() {
       break;
     }
 
+    case "link": {
+      const [label] = positional;
+      if (!label) {
+        console.error("Usage: pnpm pipeline link <label>");
+        process.exit(1);
+      }
+
+      const runner = createPageRunner({
+        label,
+        progress: createConsoleProgress(),
+        skipCache: flags.skipCache,
+      });
+
+      console.log(`\nLinking sections for ${label}...\n`);
+      const result = await runSectionLinking(runner, { render: true });
+      console.log(`\nCompleted! ${result.links.length} cross-page link(s).`);
+      for (const link of result.links) {
+        console.log(`  ${link.fromSectionId} → ${link.toSectionId}`);
+      }
+      break;
+    }
+
+    case "audit": {
+      const [label] = positional;
+      if (!label) {
+        console.error("Usage: pnpm pipeline audit <label>");
+        process.exit(1);
+      }
+
+      const runner = createPageRunner({
+        label,
+        progress: createConsoleProgress(),
+      });
+
+      console.log(`\nAuditing ${label}...\n`);
+      const summary = await runAccessibilityAudit(runner);
+      console.log(
+        `\nCompleted! ${summary.sectionsAudited} section(s): ` +
+          `${summary.errors} error(s), ${summary.warnings} warning(s).`
+      );
+      for (const entry of getAccessibilityReport(label)) {
+        for (const finding of entry.audit.findings) {
+          console.log(`  ${entry.section_id} [${finding.severity}] ${finding.rule}: ${finding.message}`);
+        }
+      }
+      break;
+    }
+
+    case "translate": {
+      const [label, ...languages] = positional;
+      if (!label) {
+        console.error("Usage: pnpm pipeline translate <label> [lang...]");
+        process.exit(1);
+      }
+
+      const runner = createPageRunner({
+        label,
+        progress: nullProgress,
+        skipCache: flags.skipCache,
+      });
+      const targets = languages.length > 0 ? languages : runner.config.targetLanguages ?? [];
+      if (targets.length === 0) {
+        console.error("No target languages: pass them or set translation.target_languages");
+        process.exit(1);
+      }
+
+      const pageIds = await runner.storage.listPageIds();
+      console.log(`\nTranslating ${pageIds.length} pages of ${label} into ${targets.join(", ")}...\n`);
+
+      const progress = new ParallelProgress({ usage: usageSince(label) });
+      progress.start(pageIds.length);
+
+      await runParallel(
+        pageIds,
+        (pageId) => pageId,
+        async (pageId) => {
+          progress.updateTask(pageId, { step: "translating..." });
+          await runTranslation(pageId, runner, targets);
+        },
+        {
+          concurrency: flags.concurrency,
+          progress,
+        }
+      );
+
+      progress.stop();
+      console.log(`\nCompleted!`);
+      break;
+    }
+
+    case "speak": {
+      const [label] = positional;
+      if (!label) {
+        console.error("Usage: pnpm pipeline speak <label>");
+        process.exit(1);
+      }
+
+      const runner = createPageRunner({
+        label,
+        progress: nullProgress,
+        skipCache: flags.skipCache,
+      });
+      if (!runner.speechProvider) {
+        console.error("No speech provider: set speech.provider in the book config");
+        process.exit(1);
+      }
+
+      const pageIds = await runner.storage.listPageIds();
+      console.log(`\nSynthesizing speech for ${pageIds.length} pages of ${label}...\n`);
+
+      const progress = new ParallelProgress();
+      progress.start(pageIds.length);
+
+      await runParallel(
+        pageIds,
+        (pageId) => pageId,
+        async (pageId) => {
+          await runSpeech(pageId, runner, (done, total) =>
+            progress.updateTask(pageId, { step: `speaking ${done}/${total}` })
+          );
+        },
+        {
+          concurrency: flags.concurrency,
+          progress,
+        }
+      );
+
+      progress.stop();
+      console.log(`\nCompleted!`);
+      break;
+    }
+
+    case "export": {
+      const [label] = positional;
+      if (!label) {
+        console.error("Usage: pnpm pipeline export <label> [--format web|epub] [--out <path>]");
+        process.exit(1);
+      }
+
+      const format = flags.format ?? "web";
+      if (format !== "web" && format !== "epub") {
+        console.error(`Unknown export format: ${format}`);
+        process.exit(1);
+      }
+
+      const outPath = path.resolve(
+        flags.out ?? (format === "epub" ? `${label}.epub` : `${label}-web.zip`)
+      );
+      console.log(`\nExporting ${format === "epub" ? "EPUB" : "web package"} for ${label}...\n`);
+      const archive =
+        format === "epub" ? await buildEpub(label) : await buildWebPackage(label);
+      fs.writeFileSync(outPath, archive);
+      console.log(`Wrote ${outPath} (${(archive.length / 1024).toFixed(0)} KB)`);
+      break;
+    }
+
     default:
       console.error(`Unknown command: ${command}\n`);
       console.log(USAGE);
@@ -233,6 +427,8 @@ interface ParsedFlags {
   endPage?: number;
   concurrency: number;
   skipCache: boolean;
+  out?: string;
+  format?: string;
 }
 
 function parseFlags(args: string[]): ParsedFlags {
@@ -241,6 +437,8 @@ function parseFlags(args: string[]): ParsedFlags {
   let endPage: number | undefined;
   let concurrency = DEFAULT_CONCURRENCY;
   let skipCache = false;
+  let out: string | undefined;
+  let format: string | undefined;
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
@@ -252,12 +450,22 @@ function parseFlags(args: string[]): ParsedFlags {
       concurrency = parseInt(args[++i], 10);
     } else if (arg === "--skip-cache") {
       skipCache = true;
+    } else if (arg === "--out" && args[i + 1]) {
+      out = args[++i];
+    } else if (arg === "--format" && args[i + 1]) {
+      format = args[++i];
     } else if (!arg.startsWith("-")) {
       positional.push(arg);
     }
   }
 
-  return { positional, startPage, endPage, concurrency, skipCache };
+  return { positional, startPage, endPage, concurrency, skipCache, out, format };
+}
+
+/** LLM usage of a book since now, for the progress summary. */
+function usageSince(label: string): () => UsageTotals {
+  const from = new Date().toISOString();
+  return () => getUsageReport(label, { from }).total;
 }
 
 main().catch((err) => {
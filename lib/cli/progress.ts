@@ -5,6 +5,7 @@
  */
 
 import type { Observable } from "rxjs";
+import { formatTokens, formatUsd, type UsageTotals } from "../usage";
 
 // ANSI escape codes
 const ESC = "\x1b";
@@ -108,6 +109,8 @@ export interface TaskState {
 export interface ParallelProgressOptions {
   concurrency?: number;
   stream?: NodeJS.WriteStream;
+  /** LLM usage of the run, shown in the summary */
+  usage?: () => UsageTotals;
 }
 
 /**
@@ -124,9 +127,11 @@ export class ParallelProgress {
   private stream: NodeJS.WriteStream;
   private startTime = Date.now();
   private maxVisibleTasks = 16;
+  private usage?: () => UsageTotals;
 
   constructor(options: ParallelProgressOptions = {}) {
     this.stream = options.stream ?? process.stderr;
+    this.usage = options.usage;
   }
 
   /**
@@ -278,8 +283,26 @@ export class ParallelProgress {
         `${YELLOW}⚠${RESET} ${BOLD}Completed${RESET} ${success} pages, ${RED}${failed} failed${RESET} in ${elapsed}\n`
       );
     }
+
+    const usage = this.readUsage();
+    if (usage && usage.calls > 0) {
+      const unpriced = usage.unpricedCalls > 0 ? ` ${DIM}(+${usage.unpricedCalls} unpriced calls)${RESET}` : "";
+      this.stream.write(
+        `  ${DIM}LLM usage:${RESET} ${usage.calls} calls  ${DIM}|${RESET}  ${formatTokens(usage.inputTokens)} in / ${formatTokens(usage.outputTokens)} out tokens  ${DIM}|${RESET}  est. ${BOLD}${formatUsd(usage.costUsd)}${RESET}${unpriced}\n`
+      );
+    }
     this.stream.write("\n");
   }
+
+  private readUsage(): UsageTotals | null {
+    if (!this.usage) return null;
+    try {
+      return this.usage();
+    } catch {
+      // Usage is informational; never fail the summary over it
+      return null;
+    }
+  }
 }
 
 // ============================================================================
@@ -3,11 +3,30 @@ import path from "node:path";
 import yaml from "js-yaml";
 import { z } from "zod/v4";
 
+const providerSchema = z.object({
+  type: z.enum(["openai", "anthropic", "google", "openai-compatible", "azure"]),
+  base_url: z.string().optional(),
+  resource_name: z.string().optional(),
+  api_key_env: z.string().optional(),
+  headers: z.record(z.string(), z.string()).optional(),
+  default_model: z.string().optional(),
+});
+
+/** USD per million tokens */
+const modelPriceSchema = z.object({
+  input: z.number().min(0),
+  output: z.number().min(0),
+  cache_read: z.number().min(0).optional(),
+  cache_write: z.number().min(0).optional(),
+});
+
 const configSchema = z.object({
   text_types: z.record(z.string(), z.string()),
   text_group_types: z.record(z.string(), z.string()),
   pdf_path: z.string().optional(),
-  provider: z.enum(["openai", "anthropic", "google"]).optional(),
+  /** Default provider: a built-in one (openai, anthropic, google) or a key of `providers` */
+  provider: z.string().optional(),
+  providers: z.record(z.string(), providerSchema).optional(),
   metadata: z
     .object({
       prompt: z.string().optional(),
@@ -40,12 +59,64 @@ const configSchema = z.object({
       concurrency: z.number().int().min(1).optional(),
     })
     .optional(),
+  image_description: z
+    .object({
+      prompt: z.string().optional(),
+      model: z.string().optional(),
+      concurrency: z.number().int().min(1).optional(),
+    })
+    .optional(),
+  section_linking: z
+    .object({
+      prompt: z.string().optional(),
+      model: z.string().optional(),
+    })
+    .optional(),
+  translation: z
+    .object({
+      prompt: z.string().optional(),
+      model: z.string().optional(),
+      target_languages: z.array(z.string()).optional(),
+    })
+    .optional(),
+  speech: z
+    .object({
+      provider: z.enum(["stub", "openai"]).optional(),
+      model: z.string().optional(),
+      voice: z.string().optional(),
+    })
+    .optional(),
+  ocr: z
+    .object({
+      /** Transcribe pages without extractable text (scans) from the page image */
+      fallback: z.boolean().optional(),
+      prompt: z.string().optional(),
+      model: z.string().optional(),
+    })
+    .optional(),
+  math: z
+    .object({
+      /** Re-transcribe math texts from the page image after text classification */
+      reocr: z.boolean().optional(),
+      prompt: z.string().optional(),
+      model: z.string().optional(),
+    })
+    .optional(),
   web_rendering: z
     .object({
       prompt: z.string().optional(),
       model: z.string().optional(),
       concurrency: z.number().int().min(1).optional(),
       max_retries: z.number().int().min(0).optional(),
+      require_all_texts: z.boolean().optional(),
+    })
+    .optional(),
+  /** Prices per model ID (with or without the provider prefix) */
+  pricing: z.record(z.string(), modelPriceSchema).optional(),
+  budget: z
+    .object({
+      /** Estimated spend at which the book's queued jobs are paused */
+      max_usd: z.number().min(0).optional(),
     })
     .optional(),
   image_filters: z
@@ -61,6 +132,8 @@ const configSchema = z.object({
 });
 
 export type AppConfig = z.infer<typeof configSchema>;
+export type ProviderConfig = z.infer<typeof providerSchema>;
+export type ModelPrice = z.infer<typeof modelPriceSchema>;
 
 /**
  * Deep-merge two plain objects. Plain objects recurse;
@@ -133,8 +206,20 @@ export function getSectionTypes(cfg: AppConfig): Record<string, string> {
   return cfg.section_types ?? {};
 }
 
+export function getProviders(cfg: AppConfig): Record<string, ProviderConfig> {
+  return cfg.providers ?? {};
+}
+
 export function getImageFilters(cfg: AppConfig): {
   size?: { min_side?: number; max_side?: number };
 } {
   return cfg.image_filters ?? {};
 }
+
+export function getPricing(cfg: AppConfig): Record<string, ModelPrice> {
+  return cfg.pricing ?? {};
+}
+
+export function getBudgetUsd(cfg: AppConfig): number | undefined {
+  return cfg.budget?.max_usd;
+}
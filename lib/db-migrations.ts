@@ -0,0 +1,157 @@
+import path from "node:path";
+import fs from "node:fs";
+import { createHash } from "node:crypto";
+import type { SqlJsDatabase } from "@/lib/db";
+
+// ---------------------------------------------------------------------------
+// Book DB migrations
+// ---------------------------------------------------------------------------
+
+export interface MigrationContext {
+  /** Book directory, for migrations that read files (e.g. images) */
+  bookDir: string;
+}
+
+export interface Migration {
+  /** Schema version the migration upgrades from; it leaves the DB at `from + 1` */
+  from: number;
+  description: string;
+  up(db: SqlJsDatabase, context: MigrationContext): void;
+  /** Reverse of `up`, used to build test fixtures at older versions */
+  down(db: SqlJsDatabase): void;
+}
+
+/**
+ * Every schema change since v6, in order. When bumping SCHEMA_VERSION, add
+ * the migration from the previous version here and update SCHEMA_SQL so
+ * fresh databases match migrated ones.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    from: 6,
+    description: "Add content hashes to images",
+    up(db, { bookDir }) {
+      if (!hasColumn(db, "images", "hash")) {
+        db.exec("ALTER TABLE images ADD COLUMN hash TEXT NOT NULL DEFAULT ''");
+      }
+      const rows = db
+        .prepare("SELECT image_id, path FROM images WHERE hash = ''")
+        .all() as { image_id: string; path: string }[];
+      const update = db.prepare("UPDATE images SET hash = ? WHERE image_id = ?");
+      for (const row of rows) {
+        const file = path.join(bookDir, row.path);
+        if (!fs.existsSync(file)) continue;
+        update.run(hashImageFile(file), row.image_id);
+      }
+    },
+    down(db) {
+      db.exec("ALTER TABLE images DROP COLUMN hash");
+    },
+  },
+  {
+    from: 7,
+    description: "Add the llm_usage table, seeded from the LLM log",
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS llm_usage (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          timestamp TEXT NOT NULL,
+          task_type TEXT NOT NULL,
+          page_id TEXT,
+          model_id TEXT NOT NULL,
+          input_tokens INTEGER NOT NULL,
+          output_tokens INTEGER NOT NULL,
+          cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+          cache_write_tokens INTEGER NOT NULL DEFAULT 0
+        );
+        CREATE INDEX IF NOT EXISTS llm_usage_timestamp ON llm_usage (timestamp);
+      `);
+      // The log only keeps the newest calls, but that is better than nothing
+      const rows = db.prepare("SELECT data FROM llm_log ORDER BY id").all() as {
+        data: string;
+      }[];
+      const insert = db.prepare(
+        `INSERT INTO llm_usage (timestamp, task_type, page_id, model_id, input_tokens,
+           output_tokens, cache_read_tokens, cache_write_tokens)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      );
+      for (const row of rows) {
+        const entry = JSON.parse(row.data) as {
+          timestamp?: string;
+          taskType?: string;
+          pageId?: string;
+          modelId?: string;
+          usage?: {
+            inputTokens?: number;
+            outputTokens?: number;
+            cacheReadTokens?: number;
+            cacheWriteTokens?: number;
+          };
+        };
+        if (!entry.usage || !entry.timestamp || !entry.taskType || !entry.modelId) continue;
+        insert.run(
+          entry.timestamp,
+          entry.taskType,
+          entry.pageId ?? null,
+          entry.modelId,
+          entry.usage.inputTokens ?? 0,
+          entry.usage.outputTokens ?? 0,
+          entry.usage.cacheReadTokens ?? 0,
+          entry.usage.cacheWriteTokens ?? 0
+        );
+      }
+    },
+    down(db) {
+      db.exec("DROP TABLE llm_usage");
+    },
+  },
+];
+
+/** Oldest schema version that can still be upgraded in place. */
+export const OLDEST_MIGRATABLE_VERSION = MIGRATIONS[0].from;
+
+export function canMigrate(from: number, to: number): boolean {
+  for (let v = from; v < to; v++) {
+    if (!MIGRATIONS.some((m) => m.from === v)) return false;
+  }
+  return true;
+}
+
+/**
+ * Upgrade `db` from version `from` to `to`, one migration at a time. The
+ * caller is responsible for backing up the database first.
+ */
+export function migrate(
+  db: SqlJsDatabase,
+  from: number,
+  to: number,
+  context: MigrationContext
+): void {
+  for (let v = from; v < to; v++) {
+    const migration = MIGRATIONS.find((m) => m.from === v);
+    if (!migration) throw new Error(`No migration from schema v${v}`);
+    migration.up(db, context);
+    db.prepare("UPDATE schema_version SET version = ?").run(v + 1);
+  }
+}
+
+/** Reverse migrations down to version `to` (fixtures only). */
+export function downgrade(db: SqlJsDatabase, from: number, to: number): void {
+  for (let v = from - 1; v >= to; v--) {
+    const migration = MIGRATIONS.find((m) => m.from === v);
+    if (!migration) throw new Error(`No migration from schema v${v}`);
+    migration.down(db);
+    db.prepare("UPDATE schema_version SET version = ?").run(v);
+  }
+}
+
+function hasColumn(db: SqlJsDatabase, table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  return columns.some((c) => c.name === column);
+}
+
+/** Same scheme as `hashBuffer` in lib/pipeline/llm-log (sha256 of the base64). */
+function hashImageFile(file: string): string {
+  const base64 = fs.readFileSync(file).toString("base64");
+  return createHash("sha256").update(base64).digest("hex").slice(0, 16);
+}
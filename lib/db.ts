@@ -2,25 +2,46 @@ import path from "node:path";
 import fs from "node:fs";
 import { createRequire } from "node:module";
 import type { Database as SqlJsRawDatabase, SqlJsStatic } from "sql.js";
+import { canMigrate, migrate } from "@/lib/db-migrations";
 
 const esmRequire = createRequire(import.meta.url);
 const initSqlJs = esmRequire("sql.js") as (config?: Record<string, unknown>) => Promise<SqlJsStatic>;
 const SQL = await initSqlJs();
 
-export const SCHEMA_VERSION = 7;
+export const SCHEMA_VERSION = 8;
 
+/** The book DB is at a schema version that cannot be migrated to the current one. */
 export class SchemaMismatchError extends Error {
   constructor(
     public readonly found: number,
     public readonly expected: number
   ) {
     super(
-      `Database schema version mismatch: found v${found}, expected v${expected}. Delete the book and reimport it.`
+      found > expected
+        ? `Database schema v${found} is newer than this version of ADT Studio supports (v${expected}). Delete the book and reimport it.`
+        : `Database schema version mismatch: found v${found}, expected v${expected}, and no migration exists. Delete the book and reimport it.`
     );
     this.name = "SchemaMismatchError";
   }
 }
 
+/** A migration failed; the database was restored from its backup. */
+export class SchemaMigrationError extends SchemaMismatchError {
+  constructor(
+    found: number,
+    expected: number,
+    public readonly backupPath: string,
+    cause: unknown
+  ) {
+    super(found, expected);
+    this.name = "SchemaMigrationError";
+    this.message = `Migrating the database from v${found} to v${expected} failed: ${
+      cause instanceof Error ? cause.message : String(cause)
+    }. The original database was kept (backup: ${backupPath}).`;
+    this.cause = cause;
+  }
+}
+
 const SCHEMA_SQL = `
 PRAGMA journal_mode = WAL;
 
@@ -65,15 +86,30 @@ CREATE TABLE IF NOT EXISTS llm_log (
   timestamp TEXT NOT NULL,
   data TEXT NOT NULL
 );
+
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  timestamp TEXT NOT NULL,
+  task_type TEXT NOT NULL,
+  page_id TEXT,
+  model_id TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL,
+  output_tokens INTEGER NOT NULL,
+  cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+  cache_write_tokens INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS llm_usage_timestamp ON llm_usage (timestamp);
 `;
 
 // ---------------------------------------------------------------------------
 // sql.js wrapper — provides the same API surface as better-sqlite3
 // ---------------------------------------------------------------------------
 
-class SqlJsDatabase {
+export class SqlJsDatabase {
   private db: SqlJsRawDatabase;
   private dbPath: string;
+  private batchDepth = 0;
 
   constructor(dbPath: string) {
     this.dbPath = dbPath;
@@ -141,7 +177,34 @@ class SqlJsDatabase {
     this.db.close();
   }
 
+  /**
+   * Run `fn` with the file written once at the end instead of after every
+   * statement, for bulk inserts.
+   */
+  batch<T>(fn: () => T): T {
+    this.batchDepth++;
+    try {
+      return fn();
+    } finally {
+      this.batchDepth--;
+      this.persist();
+    }
+  }
+
+  /** Write a copy of the database to `destPath`. */
+  backup(destPath: string): void {
+    fs.writeFileSync(destPath, Buffer.from(this.db.export()));
+  }
+
+  /** Replace the database contents with the file at `srcPath`. */
+  restore(srcPath: string): void {
+    this.db.close();
+    this.db = new SQL.Database(fs.readFileSync(srcPath));
+    this.persist();
+  }
+
   private persist(): void {
+    if (this.batchDepth > 0) return;
     const data = this.db.export();
     const dir = path.dirname(this.dbPath);
     if (!fs.existsSync(dir)) {
@@ -183,12 +246,12 @@ export function getDb(label: string): SqlJsDatabase {
   db.pragma("journal_mode = WAL");
   db.pragma("busy_timeout = 5000");
 
-  initSchema(db);
+  initSchema(db, dbPath);
   connections.set(label, db);
   return db;
 }
 
-function initSchema(db: SqlJsDatabase): void {
+function initSchema(db: SqlJsDatabase, dbPath: string): void {
   const hasVersionTable = db
     .prepare(
       "SELECT name FROM sqlite_master WHERE type='table' AND name='schema_version'"
@@ -204,16 +267,34 @@ function initSchema(db: SqlJsDatabase): void {
     return;
   }
 
-  // Existing DB — check version matches exactly
+  // Existing DB — upgrade older versions in place
   const row = db
     .prepare("SELECT version FROM schema_version LIMIT 1")
     .get() as { version: number } | undefined;
   const existing = row?.version ?? 0;
 
-  if (existing !== SCHEMA_VERSION) {
+  if (existing === SCHEMA_VERSION) return;
+  if (existing > SCHEMA_VERSION || !canMigrate(existing, SCHEMA_VERSION)) {
     db.close();
     throw new SchemaMismatchError(existing, SCHEMA_VERSION);
   }
+
+  // Never overwrite an earlier backup
+  let backupPath = `${dbPath}.v${existing}.bak`;
+  for (let n = 1; fs.existsSync(backupPath); n++) {
+    backupPath = `${dbPath}.v${existing}.${n}.bak`;
+  }
+  db.backup(backupPath);
+  try {
+    migrate(db, existing, SCHEMA_VERSION, { bookDir: path.dirname(dbPath) });
+  } catch (err) {
+    db.restore(backupPath);
+    db.close();
+    throw new SchemaMigrationError(existing, SCHEMA_VERSION, backupPath, err);
+  }
+  console.log(
+    `[db] Migrated ${path.basename(dbPath)} from schema v${existing} to v${SCHEMA_VERSION} (backup: ${path.basename(backupPath)})`
+  );
 }
 
 export function closeDb(label: string): void {
@@ -235,4 +316,52 @@ export function closeAllDbs(): void {
     db.close();
     connections.delete(label);
   }
+  for (const [dbPath, db] of queueConnections) {
+    db.close();
+    queueConnections.delete(dbPath);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Job queue database — one per books root, shared by every book
+// ---------------------------------------------------------------------------
+
+const QUEUE_SCHEMA_SQL = `
+CREATE TABLE IF NOT EXISTS jobs (
+  seq INTEGER PRIMARY KEY,
+  id TEXT NOT NULL UNIQUE,
+  type TEXT NOT NULL,
+  label TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  params TEXT,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL,
+  started_at INTEGER,
+  completed_at INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS jobs_status ON jobs (status);
+CREATE INDEX IF NOT EXISTS jobs_label ON jobs (label, created_at);
+`;
+
+const globalForQueueDb = globalThis as unknown as {
+  __queueDbConnections?: Map<string, SqlJsDatabase>;
+};
+const queueConnections =
+  globalForQueueDb.__queueDbConnections ?? new Map<string, SqlJsDatabase>();
+globalForQueueDb.__queueDbConnections = queueConnections;
+
+export function getQueueDbPath(): string {
+  return path.join(booksRoot(), "queue.db");
+}
+
+export function getQueueDb(dbPath = getQueueDbPath()): SqlJsDatabase {
+  const existing = queueConnections.get(dbPath);
+  if (existing) return existing;
+
+  const db = new SqlJsDatabase(dbPath);
+  db.exec(QUEUE_SCHEMA_SQL);
+  queueConnections.set(dbPath, db);
+  return db;
 }
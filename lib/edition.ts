@@ -0,0 +1,239 @@
+import fs from "node:fs";
+import path from "node:path";
+import { getBooksRoot, putNodeData } from "@/lib/books";
+import { resolveBookPaths } from "@/lib/pipeline/types";
+import type { ExtractOptions, Progress } from "@/lib/pipeline/runner";
+import { matchPages, reimportBook, type PageSnapshot, type ReimportResult } from "@/lib/reimport";
+
+// ---------------------------------------------------------------------------
+// New editions
+//
+// A replacement PDF is imported with `reimportBook`, so pages that did not
+// change keep their work. The previous edition's PDF and page images are
+// kept in `previous-edition/` for the side-by-side comparison, and every
+// page of the new edition is compared to the page it replaces.
+// ---------------------------------------------------------------------------
+
+export interface TextDiffPart {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+export type EditionPageStatus = "unchanged" | "moved" | "changed" | "added";
+
+export interface EditionPageDiff {
+  pageId: string;
+  /** Page of the previous edition this page replaces, null for new pages */
+  previousPageId: string | null;
+  status: EditionPageStatus;
+  /** Word diff of the page text (changed pages only) */
+  textDiff?: TextDiffPart[];
+  /** Embedded images whose hash is new on the page, or gone from it */
+  imagesAdded: number;
+  imagesRemoved: number;
+}
+
+export interface EditionDiff {
+  createdAt: string;
+  pages: EditionPageDiff[];
+  /** Pages of the previous edition with no counterpart in the new one */
+  removed: string[];
+}
+
+/** Directory the previous edition's PDF and images are moved to. */
+export function previousEditionDir(label: string): string {
+  return path.join(resolveBookPaths(label, getBooksRoot()).bookDir, "previous-edition");
+}
+
+// ---------------------------------------------------------------------------
+// Diffing
+// ---------------------------------------------------------------------------
+
+/**
+ * Word-level diff of two texts (longest common subsequence of
+ * whitespace-separated words). Consecutive words of the same kind are
+ * joined into one part.
+ */
+export function diffWords(before: string, after: string): TextDiffPart[] {
+  const a = before.split(/\s+/).filter(Boolean);
+  const b = after.split(/\s+/).filter(Boolean);
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: TextDiffPart[] = [];
+  const push = (type: TextDiffPart["type"], word: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += ` ${word}`;
+    else parts.push({ type, text: word });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      push("same", a[i]);
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      push("added", b[j++]);
+    } else {
+      push("removed", a[i++]);
+    }
+  }
+  return parts;
+}
+
+/** Count the items of `a` not in `b`, as multisets. */
+function countMissing(a: string[], b: string[]): number {
+  const left = [...b];
+  let missing = 0;
+  for (const item of a) {
+    const index = left.indexOf(item);
+    if (index === -1) missing++;
+    else left.splice(index, 1);
+  }
+  return missing;
+}
+
+/** Indexes (into `values`) of a longest strictly increasing subsequence. */
+function longestIncreasing(values: number[]): Set<number> {
+  const length = values.map(() => 1);
+  const prev = values.map(() => -1);
+  for (let i = 0; i < values.length; i++) {
+    for (let j = 0; j < i; j++) {
+      if (values[j] < values[i] && length[j] + 1 > length[i]) {
+        length[i] = length[j] + 1;
+        prev[i] = j;
+      }
+    }
+  }
+  const result = new Set<number>();
+  let i = length.indexOf(Math.max(0, ...length));
+  while (i !== -1) {
+    result.add(i);
+    i = prev[i];
+  }
+  return result;
+}
+
+/**
+ * Compare the pages of a new edition to the previous one. Pages matched by
+ * content hash (see `matchPages`) are unchanged, or moved if they are out
+ * of order relative to the other matched pages. The remaining pages are
+ * paired in order within the gaps between in-order matched pages: paired
+ * pages are changed, extra new pages are added and extra previous pages
+ * removed.
+ */
+export function diffEditions(previous: PageSnapshot[], current: PageSnapshot[]): EditionDiff {
+  const matches = matchPages(previous, current);
+  const previousIndex = new Map(previous.map((p, i) => [p.pageId, i]));
+
+  const matched = current.filter((p) => matches.has(p.pageId));
+  const inOrder = longestIncreasing(matched.map((p) => previousIndex.get(matches.get(p.pageId)!)!));
+  const anchors = new Set(matched.filter((_, i) => inOrder.has(i)).map((p) => p.pageId));
+
+  const used = new Set(matches.values());
+  const pages: EditionPageDiff[] = [];
+  let gapStart = 0; // first previous index after the last anchor
+  let gap: PageSnapshot[] = [];
+
+  const flushGap = (gapEnd: number) => {
+    const candidates = previous
+      .slice(gapStart, gapEnd)
+      .filter((p) => !used.has(p.pageId));
+    gap.forEach((page, i) => {
+      const before = candidates[i];
+      if (!before) {
+        pages.push({ pageId: page.pageId, previousPageId: null, status: "added", imagesAdded: page.imageHashes.length, imagesRemoved: 0 });
+        return;
+      }
+      used.add(before.pageId);
+      pages.push({
+        pageId: page.pageId,
+        previousPageId: before.pageId,
+        status: "changed",
+        textDiff: diffWords(before.text, page.text),
+        imagesAdded: countMissing(page.imageHashes, before.imageHashes),
+        imagesRemoved: countMissing(before.imageHashes, page.imageHashes),
+      });
+    });
+    gap = [];
+  };
+
+  for (const page of current) {
+    const previousPageId = matches.get(page.pageId);
+    if (previousPageId === undefined) {
+      gap.push(page);
+      continue;
+    }
+    if (anchors.has(page.pageId)) {
+      flushGap(previousIndex.get(previousPageId)!);
+      gapStart = previousIndex.get(previousPageId)! + 1;
+    }
+    pages.push({
+      pageId: page.pageId,
+      previousPageId,
+      status: anchors.has(page.pageId) ? "unchanged" : "moved",
+      imagesAdded: 0,
+      imagesRemoved: 0,
+    });
+  }
+  flushGap(previous.length);
+
+  // Gaps are flushed at the next in-order page, after any moved pages
+  const order = new Map(current.map((p, i) => [p.pageId, i]));
+  pages.sort((x, y) => order.get(x.pageId)! - order.get(y.pageId)!);
+
+  return {
+    createdAt: new Date().toISOString(),
+    pages,
+    removed: previous.filter((p) => !used.has(p.pageId)).map((p) => p.pageId),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Replacing the PDF
+// ---------------------------------------------------------------------------
+
+/**
+ * Replace the book's PDF with a new edition and reimport it. The previous
+ * PDF and images go to `previous-edition/` (replacing an older edition),
+ * and the diff is stored book-wide. If the reimport fails the previous PDF
+ * is put back; once it has succeeded, later errors leave the new PDF in
+ * place, since the database already holds the new edition.
+ */
+export async function replaceEdition(
+  label: string,
+  pdf: Buffer,
+  options: ExtractOptions,
+  progress: Progress
+): Promise<EditionDiff> {
+  const dir = previousEditionDir(label);
+  const stagingDir = `${dir}.new`;
+  const pdfName = path.basename(options.pdfPath);
+
+  fs.rmSync(stagingDir, { recursive: true, force: true });
+  fs.mkdirSync(stagingDir, { recursive: true });
+  fs.copyFileSync(options.pdfPath, path.join(stagingDir, pdfName));
+  fs.writeFileSync(options.pdfPath, pdf);
+
+  let imported: ReimportResult;
+  try {
+    imported = await reimportBook(label, options, progress, path.join(stagingDir, "images"));
+  } catch (err) {
+    fs.copyFileSync(path.join(stagingDir, pdfName), options.pdfPath);
+    fs.rmSync(stagingDir, { recursive: true, force: true });
+    throw err;
+  }
+  fs.rmSync(dir, { recursive: true, force: true });
+  fs.renameSync(stagingDir, dir);
+
+  const diff = diffEditions(imported.previousPages, imported.currentPages);
+  putNodeData(label, "edition-diff", "book", 1, diff);
+  return diff;
+}
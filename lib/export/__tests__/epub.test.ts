@@ -0,0 +1,271 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { useBooksRoot } from "@/lib/__tests__/helpers";
+import { putBookMetadata, putImage, putNodeData, putPageText } from "@/lib/books";
+import {
+  buildEpub,
+  buildNavEntries,
+  deriveAccessibilityMetadata,
+  renderNavXhtml,
+  renderPageXhtml,
+} from "../epub";
+import type { ExportBook } from "../web-package";
+import { toXhtml } from "../xhtml";
+import { readZip } from "../zip";
+
+function bookWith(sections: { headings: string[]; html: string }[]): ExportBook {
+  return {
+    label: "b",
+    title: "T",
+    authors: [],
+    publisher: null,
+    languageCode: "en",
+    coverPageNumber: null,
+    pages: [
+      {
+        pageId: "pg001",
+        pageNumber: 1,
+        sections: sections.map((s, i) => ({
+          sectionId: `pg001_s00${i + 1}`,
+          sectionIndex: i,
+          sectionType: "text_only",
+          ...s,
+        })),
+      },
+    ],
+  };
+}
+
+describe("toXhtml", () => {
+  it("self-closes void elements and re-escapes text", () => {
+    expect(toXhtml('<p data-id="a">A &amp; B&nbsp;<br></p><img src="x.png" alt="1 < 2">')).toBe(
+      '<p data-id="a">A &amp; B <br/></p><img src="x.png" alt="1 &lt; 2"/>'
+    );
+  });
+
+  it("drops scripts and comments, keeps styles", () => {
+    expect(toXhtml("<!-- c --><script>alert(1)</script><style>a > b {}</style>")).toBe(
+      "<style>a > b {}</style>"
+    );
+  });
+
+  it("adds namespaces to inline svg and math", () => {
+    expect(toXhtml('<svg viewBox="0 0 1 1"></svg>')).toBe(
+      '<svg viewBox="0 0 1 1" xmlns="http://www.w3.org/2000/svg"></svg>'
+    );
+  });
+});
+
+describe("buildNavEntries", () => {
+  it("links section_heading texts to their sections", () => {
+    const book = bookWith([
+      { headings: ["Chapter 1"], html: "<h1>Chapter 1</h1>" },
+      { headings: [], html: "<p>x</p>" },
+      { headings: ["Part A"], html: "<h2>Part A</h2>" },
+    ]);
+    expect(buildNavEntries(book)).toEqual([
+      { title: "Chapter 1", href: "pg001.xhtml#pg001_s001" },
+      { title: "Part A", href: "pg001.xhtml#pg001_s003" },
+    ]);
+  });
+
+  it("falls back to page entries without headings", () => {
+    const book = bookWith([{ headings: [], html: "<p>x</p>" }]);
+    expect(buildNavEntries(book)).toEqual([{ title: "Page 1", href: "pg001.xhtml" }]);
+  });
+
+  it("names pages by their printed label when known", () => {
+    const book = bookWith([{ headings: [], html: "<p>x</p>" }]);
+    book.pages[0].pageLabel = "iv";
+    expect(buildNavEntries(book)).toEqual([{ title: "Page iv", href: "pg001.xhtml" }]);
+  });
+});
+
+describe("table of contents", () => {
+  function bookWithToc(): ExportBook {
+    const book = bookWith([
+      { headings: [], html: '<ol><li data-id="pg001_gp001_t001">The Raven 1</li><li data-id="pg001_gp001_t002">Lost 9</li></ol>' },
+      { headings: ["The Raven"], html: "<h1>The Raven</h1>" },
+    ]);
+    book.pages[0].sections[0].sectionType = "table_of_contents";
+    book.toc = [
+      {
+        title: "Poems",
+        pageLabel: null,
+        textId: "pg001_gp001_t000",
+        pageId: null,
+        sectionId: null,
+        children: [
+          {
+            title: "The Raven",
+            pageLabel: "1",
+            textId: "pg001_gp001_t001",
+            pageId: "pg001",
+            sectionId: "pg001_s002",
+            children: [],
+          },
+          {
+            title: "Lost",
+            pageLabel: "9",
+            textId: "pg001_gp001_t002",
+            pageId: null,
+            sectionId: null,
+            children: [],
+          },
+        ],
+      },
+    ];
+    return book;
+  }
+
+  it("builds a nested nav from the reconstructed entries", () => {
+    const entries = buildNavEntries(bookWithToc());
+    expect(entries).toEqual([
+      {
+        title: "Poems",
+        href: null,
+        children: [{ title: "The Raven", href: "pg001.xhtml#pg001_s002" }],
+      },
+    ]);
+    expect(renderNavXhtml(bookWithToc(), entries)).toContain(
+      '<li><span>Poems</span>\n<ol>\n<li><a href="pg001.xhtml#pg001_s002">The Raven</a></li>\n</ol>\n</li>'
+    );
+  });
+
+  it("links resolved entries inside the table of contents section", () => {
+    const xhtml = renderPageXhtml(bookWithToc(), 0, () => null);
+    expect(xhtml).toContain(
+      '<li data-id="pg001_gp001_t001"><a href="pg001.xhtml#pg001_s002">The Raven 1</a></li>'
+    );
+    expect(xhtml).toContain('<li data-id="pg001_gp001_t002">Lost 9</li>');
+  });
+});
+
+describe("deriveAccessibilityMetadata", () => {
+  it("claims alternativeText only when every image has alt text", () => {
+    const described = deriveAccessibilityMetadata(
+      bookWith([{ headings: [], html: '<img data-id="i" alt="A raven">' }]),
+      false
+    );
+    expect(described.accessMode).toEqual(["textual", "visual"]);
+    expect(described.accessModeSufficient).toEqual(["textual"]);
+    expect(described.accessibilityFeature).toContain("alternativeText");
+
+    const undescribed = deriveAccessibilityMetadata(
+      bookWith([{ headings: ["H"], html: '<img data-id="i" alt="">' }]),
+      true
+    );
+    expect(undescribed.accessibilityFeature).not.toContain("alternativeText");
+    expect(undescribed.accessibilityFeature).toContain("structuralNavigation");
+    expect(undescribed.accessModeSufficient).toEqual(["textual,visual"]);
+  });
+});
+
+describe("EPUB export", () => {
+  const label = "epub-book";
+  let tmpDir: string;
+  let restoreBooksRoot: () => void;
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "epub-test-"));
+    const imagesDir = path.join(tmpDir, label, "images");
+    fs.mkdirSync(imagesDir, { recursive: true });
+    fs.writeFileSync(path.join(imagesDir, "pg001_page.png"), "cover-bytes");
+    fs.writeFileSync(path.join(imagesDir, "pg001_im001.png"), "image-bytes");
+
+    restoreBooksRoot = useBooksRoot(tmpDir);
+    putBookMetadata(label, "llm", {
+      title: "The Raven & Other Poems",
+      authors: ["Edgar Allan Poe"],
+      publisher: "Wiley",
+      language_code: "en",
+      cover_page_number: 1,
+      reasoning: "",
+    });
+    putPageText(label, "pg001", 1, "The Raven");
+    putImage(label, "pg001_im001", "pg001", "images/pg001_im001.png", "abc", 10, 10, "extract");
+    putNodeData(label, "page-sectioning", "pg001", 1, {
+      reasoning: "",
+      sections: [
+        {
+          section_type: "text_and_images",
+          part_ids: ["pg001_gp001", "pg001_im001"],
+          background_color: "#ffffff",
+          text_color: "#000000",
+          page_number: 1,
+          is_pruned: false,
+        },
+      ],
+      groups: {
+        pg001_gp001: {
+          group_type: "heading",
+          texts: [{ text_type: "section_heading", text: "The Raven", is_pruned: false }],
+        },
+      },
+      images: { pg001_im001: { is_pruned: false } },
+    });
+    putNodeData(label, "web-rendering", "pg001_s001", 1, {
+      section_index: 0,
+      section_type: "text_and_images",
+      reasoning: "",
+      html: '<h1 data-id="pg001_gp001_t001" class="text-3xl">The Raven</h1><img data-id="pg001_im001" alt="A raven on a bust"><br>',
+    });
+    restoreBooksRoot();
+  });
+
+  beforeEach(() => {
+    restoreBooksRoot = useBooksRoot(tmpDir);
+  });
+
+  afterEach(() => {
+    restoreBooksRoot();
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("packages an EPUB 3 with nav, cover and accessibility metadata", async () => {
+    const epub = await buildEpub(label, { modified: new Date("2026-01-02T03:04:05.678Z") });
+    // mimetype must be the first, uncompressed entry
+    expect(epub.toString("utf8", 30, 58)).toBe("mimetypeapplication/epub+zip");
+
+    const entries = readZip(epub);
+    expect([...entries.keys()]).toEqual([
+      "mimetype",
+      "META-INF/container.xml",
+      "OEBPS/content.opf",
+      "OEBPS/cover.xhtml",
+      "OEBPS/pg001.xhtml",
+      "OEBPS/nav.xhtml",
+      "OEBPS/styles.css",
+      "OEBPS/images/pg001_page.png",
+      "OEBPS/images/pg001_im001.png",
+    ]);
+
+    const opf = entries.get("OEBPS/content.opf")!.toString();
+    expect(opf).toContain("<dc:title>The Raven &amp; Other Poems</dc:title>");
+    expect(opf).toContain("<dc:creator>Edgar Allan Poe</dc:creator>");
+    expect(opf).toContain("<dc:publisher>Wiley</dc:publisher>");
+    expect(opf).toContain("<dc:language>en</dc:language>");
+    expect(opf).toContain('<meta property="dcterms:modified">2026-01-02T03:04:05Z</meta>');
+    expect(opf).toContain('<meta property="schema:accessMode">visual</meta>');
+    expect(opf).toContain('<meta property="schema:accessibilityFeature">alternativeText</meta>');
+    expect(opf).toContain('<meta property="schema:accessibilityFeature">structuralNavigation</meta>');
+    expect(opf).toContain('properties="cover-image"');
+    expect(opf).toContain('properties="nav"');
+    expect(opf).toMatch(/<itemref idref="cover"\/>\s*<itemref idref="pg001"\/>/);
+
+    const nav = entries.get("OEBPS/nav.xhtml")!.toString();
+    expect(nav).toContain('<a href="pg001.xhtml#pg001_s001">The Raven</a>');
+    expect(nav).toContain('epub:type="page-list"');
+
+    const page = entries.get("OEBPS/pg001.xhtml")!.toString();
+    expect(page).toContain('xml:lang="en"');
+    expect(page).toContain('<img data-id="pg001_im001" alt="A raven on a bust" src="images/pg001_im001.png"/>');
+    expect(page).toContain("<br/>");
+    expect(page).toContain('epub:type="pagebreak"');
+  });
+});
@@ -0,0 +1,243 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { useBooksRoot } from "@/lib/__tests__/helpers";
+import { putBookMetadata, putImage, putNodeData, putPageText } from "@/lib/books";
+import {
+  buildWebPackage,
+  collectExportBook,
+  rewriteImageSrcs,
+} from "../web-package";
+import { extractClassCandidates } from "../tailwind";
+import { createZip, crc32, readZip } from "../zip";
+
+function section(index: number, html: string) {
+  return { section_index: index, section_type: "text_only", reasoning: "", html };
+}
+
+function sectioning(pruned: boolean[]) {
+  return {
+    reasoning: "",
+    sections: pruned.map((is_pruned) => ({
+      section_type: "text_only",
+      part_ids: [],
+      background_color: "#ffffff",
+      text_color: "#000000",
+      page_number: null,
+      is_pruned,
+    })),
+  };
+}
+
+describe("zip", () => {
+  it("computes the standard CRC-32", () => {
+    expect(crc32(Buffer.from("123456789"))).toBe(0xcbf43926);
+  });
+
+  it("round-trips stored and deflated entries", () => {
+    const zip = createZip([
+      { path: "mimetype", data: "application/epub+zip", store: true },
+      { path: "a/b.txt", data: "hello ".repeat(100) },
+    ]);
+    // Stored first entry: name and content appear verbatim at fixed offsets
+    expect(zip.toString("utf8", 30, 38)).toBe("mimetype");
+    expect(zip.toString("utf8", 38, 58)).toBe("application/epub+zip");
+
+    const entries = readZip(zip);
+    expect([...entries.keys()]).toEqual(["mimetype", "a/b.txt"]);
+    expect(entries.get("a/b.txt")!.toString()).toBe("hello ".repeat(100));
+  });
+});
+
+describe("rewriteImageSrcs", () => {
+  it("replaces or adds src on data-id images only", () => {
+    const html =
+      '<img data-id="pg001_im001" src="placeholder.png" alt="a"><img data-id="pg001_im002" alt="b"><img src="x.png">';
+    const out = rewriteImageSrcs(html, (id) => `images/${id}.png`);
+    expect(out).toContain('<img data-id="pg001_im001" src="images/pg001_im001.png" alt="a">');
+    expect(out).toContain('<img data-id="pg001_im002" alt="b" src="images/pg001_im002.png">');
+    expect(out).toContain('<img src="x.png">');
+  });
+
+  it("leaves tags untouched when the resolver returns null", () => {
+    const html = '<img data-id="missing" src="p.png">';
+    expect(rewriteImageSrcs(html, () => null)).toBe(html);
+  });
+});
+
+describe("extractClassCandidates", () => {
+  it("collects unique class names", () => {
+    const html = '<div class="p-4 bg-[#fff]"><p class="p-4  text-lg">x</p></div>';
+    expect(extractClassCandidates(html).sort()).toEqual(["bg-[#fff]", "p-4", "text-lg"]);
+  });
+});
+
+describe("web package export", () => {
+  const label = "export-book";
+  let tmpDir: string;
+  let restoreBooksRoot: () => void;
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "web-package-test-"));
+    const imagesDir = path.join(tmpDir, label, "images");
+    fs.mkdirSync(imagesDir, { recursive: true });
+    fs.writeFileSync(path.join(imagesDir, "pg001_page.png"), "cover-bytes");
+    fs.writeFileSync(path.join(imagesDir, "pg002_im001.png"), "image-bytes");
+
+    restoreBooksRoot = useBooksRoot(tmpDir);
+    putBookMetadata(label, "llm", {
+      title: "The Raven",
+      authors: ["Edgar Allan Poe"],
+      publisher: null,
+      language_code: "en",
+      cover_page_number: 1,
+      reasoning: "",
+    });
+    for (const n of [1, 2, 3]) {
+      putPageText(label, `pg00${n}`, n, `page ${n}`);
+    }
+    putImage(label, "pg002_im001", "pg002", "images/pg002_im001.png", "abc", 10, 10, "extract");
+
+    putNodeData(label, "page-sectioning", "pg001", 1, sectioning([false]));
+    putNodeData(label, "web-rendering", "pg001_s001", 1, section(0, '<h1 data-id="pg001_gp001_tx001" class="text-3xl">Title</h1>'));
+
+    putNodeData(label, "page-sectioning", "pg002", 1, sectioning([false, true]));
+    putNodeData(label, "web-rendering", "pg002_s001", 1, section(0, '<p data-id="pg002_gp001_tx001" class="p-4">Once upon</p><img data-id="pg002_im001" src="x">'));
+    putNodeData(label, "web-rendering", "pg002_s002", 1, section(1, '<p data-id="pg002_gp002_tx001">Pruned after render</p>'));
+    // Left over from an earlier sectioning that had three sections
+    putNodeData(label, "web-rendering", "pg002_s003", 1, section(2, '<p data-id="pg002_gp003_tx001">Leftover</p>'));
+
+    // Page 3 only has a null (pruned) rendering
+    putNodeData(label, "page-sectioning", "pg003", 1, sectioning([true]));
+    putNodeData(label, "web-rendering", "pg003_s001", 1, null);
+    restoreBooksRoot();
+  });
+
+  beforeEach(() => {
+    restoreBooksRoot = useBooksRoot(tmpDir);
+  });
+
+  afterEach(() => {
+    restoreBooksRoot();
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("collects non-pruned sections in page order", () => {
+    const book = collectExportBook(label);
+    expect(book.title).toBe("The Raven");
+    expect(book.pages.map((p) => p.pageId)).toEqual(["pg001", "pg002"]);
+    expect(book.pages[1].sections.map((s) => s.sectionId)).toEqual(["pg002_s001"]);
+  });
+
+  it("skips renderings of sections the current sectioning no longer has", () => {
+    const book = collectExportBook(label);
+    const html = book.pages.flatMap((p) => p.sections.map((s) => s.html)).join("");
+    expect(html).not.toContain("Leftover");
+  });
+
+  it("builds a navigable zip with local images and styles", async () => {
+    const entries = readZip(await buildWebPackage(label));
+    expect([...entries.keys()].sort()).toEqual([
+      "assets/styles.css",
+      "images/pg001_page.png",
+      "images/pg002_im001.png",
+      "index.html",
+      "pg001.html",
+      "pg002.html",
+    ]);
+
+    const index = entries.get("index.html")!.toString();
+    expect(index).toContain('<html lang="en">');
+    expect(index).toContain('src="images/pg001_page.png"');
+    expect(index).toContain('href="pg002.html"');
+
+    const page2 = entries.get("pg002.html")!.toString();
+    expect(page2).toContain('src="images/pg002_im001.png"');
+    expect(page2).toContain('href="pg001.html" rel="prev"');
+    expect(page2).not.toContain("Pruned after render");
+    expect(page2).not.toContain("cdn.tailwindcss.com");
+
+    const css = entries.get("assets/styles.css")!.toString();
+    expect(css).toContain(".p-4");
+    expect(css).toContain(".text-3xl");
+    expect(entries.get("images/pg002_im001.png")!.toString()).toBe("image-bytes");
+  });
+});
+
+describe("web package read-along audio", () => {
+  const label = "read-along-book";
+  let tmpDir: string;
+  let restoreBooksRoot: () => void;
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "web-package-audio-test-"));
+    fs.mkdirSync(path.join(tmpDir, label, "audio"), { recursive: true });
+    fs.writeFileSync(path.join(tmpDir, label, "audio", "aaaa.wav"), "wav-bytes");
+
+    restoreBooksRoot = useBooksRoot(tmpDir);
+    putPageText(label, "pg001", 1, "page 1");
+    putNodeData(label, "page-sectioning", "pg001", 1, sectioning([false]));
+    putNodeData(label, "web-rendering", "pg001_s001", 1, section(0, '<p data-id="pg001_gp001_t001">Hello fox</p><p data-id="pg001_gp001_t002">Quiet</p>'));
+    putNodeData(label, "speech", "pg001", 1, {
+      language: "en",
+      provider: "stub",
+      voice: null,
+      text_classification_version: 1,
+      clips: [
+        {
+          text_id: "pg001_gp001_t001",
+          source_hash: "s1",
+          audio_hash: "aaaa",
+          format: "wav",
+          path: "audio/aaaa.wav",
+          duration_ms: 1000,
+          words: [
+            { start: 0, end: 5, start_ms: 0, end_ms: 600 },
+            { start: 6, end: 9, start_ms: 600, end_ms: 1000 },
+          ],
+        },
+      ],
+    });
+    restoreBooksRoot();
+  });
+
+  beforeEach(() => {
+    restoreBooksRoot = useBooksRoot(tmpDir);
+  });
+
+  afterEach(() => {
+    restoreBooksRoot();
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("packages audio with timing data and the player script", async () => {
+    const entries = readZip(await buildWebPackage(label));
+    expect(entries.get("audio/aaaa.wav")!.toString()).toBe("wav-bytes");
+    expect(entries.has("assets/read-along.js")).toBe(true);
+
+    const page = entries.get("pg001.html")!.toString();
+    expect(page).toContain("data-read-along-toggle");
+    expect(page).toContain('<script src="assets/read-along.js"></script>');
+    const data = /<script type="application\/json" id="read-along-data">(.*?)<\/script>/.exec(page)!;
+    expect(JSON.parse(data[1])).toEqual({
+      clips: [
+        {
+          id: "pg001_gp001_t001",
+          src: "audio/aaaa.wav",
+          duration: 1000,
+          words: [
+            [0, 600],
+            [600, 1000],
+          ],
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,413 @@
+import fs from "node:fs";
+import path from "node:path";
+import { resolveCoverImagePath, resolveExtractedImagePath } from "@/lib/books";
+import { buildTailwindCss } from "./tailwind";
+import {
+  collectExportBook,
+  displayPageLabel,
+  linkTocTexts,
+  rewriteImageSrcs,
+  tocEntryHref,
+  type ExportBook,
+  type ExportTocEntry,
+} from "./web-package";
+import { escapeXml, toXhtml } from "./xhtml";
+import { createZip, type ZipEntry } from "./zip";
+
+/**
+ * EPUB 3 packager.
+ *
+ * Layout:
+ *   mimetype                  (stored, first entry)
+ *   META-INF/container.xml
+ *   OEBPS/content.opf         package document with schema.org a11y metadata
+ *   OEBPS/nav.xhtml           toc from section_heading texts + page-list
+ *   OEBPS/cover.xhtml         cover page render (when cover_page_number is set)
+ *   OEBPS/pgNNN.xhtml         one content document per page
+ *   OEBPS/styles.css          locally compiled Tailwind
+ *   OEBPS/images/*
+ */
+
+export interface EpubOptions {
+  /** Override `dcterms:modified` (defaults to now). */
+  modified?: Date;
+}
+
+export interface ManifestItem {
+  id: string;
+  href: string;
+  mediaType: string;
+  properties?: string;
+}
+
+export interface NavEntry {
+  title: string;
+  /** null for table of contents headings that only group their children */
+  href: string | null;
+  children?: NavEntry[];
+}
+
+function pageFileName(pageId: string): string {
+  return `${pageId}.xhtml`;
+}
+
+/** Stable identifier so re-exports of the same book are recognised as one title. */
+function bookIdentifier(label: string): string {
+  return `urn:adt-studio:${label}`;
+}
+
+function formatModified(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+function tocNavEntries(toc: ExportTocEntry[]): NavEntry[] {
+  return toc.flatMap((entry) => {
+    const href = tocEntryHref(entry, pageFileName);
+    const children = tocNavEntries(entry.children);
+    if (!href && children.length === 0) return [];
+    return [{ title: entry.title, href, ...(children.length > 0 ? { children } : {}) }];
+  });
+}
+
+/**
+ * Table of contents entries from the book's reconstructed table of
+ * contents when it has one, otherwise from `section_heading` texts, linking
+ * to the section that contains each heading. Books without either fall back
+ * to one entry per page.
+ */
+export function buildNavEntries(book: ExportBook): NavEntry[] {
+  const fromToc = book.toc ? tocNavEntries(book.toc) : [];
+  if (fromToc.length > 0) return fromToc;
+
+  const entries: NavEntry[] = [];
+  for (const page of book.pages) {
+    for (const section of page.sections) {
+      for (const heading of section.headings) {
+        const title = heading.trim();
+        if (!title) continue;
+        entries.push({ title, href: `${pageFileName(page.pageId)}#${section.sectionId}` });
+      }
+    }
+  }
+  if (entries.length > 0) return entries;
+  return book.pages.map((p) => ({
+    title: `Page ${displayPageLabel(p)}`,
+    href: pageFileName(p.pageId),
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Accessibility metadata
+// ---------------------------------------------------------------------------
+
+export interface AccessibilityMetadata {
+  accessMode: string[];
+  accessModeSufficient: string[];
+  accessibilityFeature: string[];
+  accessibilityHazard: string[];
+  accessibilitySummary: string;
+}
+
+/**
+ * Derive schema.org accessibility metadata from the exported content.
+ * `alternativeText` is only claimed when every content image carries a
+ * non-empty alt attribute.
+ */
+export function deriveAccessibilityMetadata(
+  book: ExportBook,
+  hasHeadings: boolean
+): AccessibilityMetadata {
+  let imageCount = 0;
+  let imagesWithAlt = 0;
+  for (const page of book.pages) {
+    for (const section of page.sections) {
+      for (const match of section.html.matchAll(/<img\b([^>]*)>/gi)) {
+        imageCount++;
+        const alt = match[1].match(/\balt="([^"]*)"/);
+        if (alt && alt[1].trim()) imagesWithAlt++;
+      }
+    }
+  }
+  const allImagesDescribed = imageCount === 0 || imagesWithAlt === imageCount;
+
+  const accessMode = imageCount > 0 ? ["textual", "visual"] : ["textual"];
+  const accessModeSufficient = allImagesDescribed
+    ? ["textual"]
+    : ["textual,visual"];
+  const accessibilityFeature = [
+    "displayTransformability",
+    "readingOrder",
+    "tableOfContents",
+    "printPageNumbers",
+  ];
+  if (hasHeadings) accessibilityFeature.push("structuralNavigation");
+  if (imageCount > 0 && allImagesDescribed) {
+    accessibilityFeature.push("alternativeText");
+  }
+
+  const summary = [
+    "Reflowable EPUB generated from structured, classified page content.",
+    hasHeadings
+      ? "Headings and a table of contents support structural navigation."
+      : "A page-based table of contents is provided.",
+    "Print page numbers are preserved via a page list.",
+    imageCount === 0
+      ? "The publication contains no images."
+      : allImagesDescribed
+        ? "All images have text alternatives."
+        : "Some images lack text alternatives.",
+  ].join(" ");
+
+  return {
+    accessMode,
+    accessModeSufficient,
+    accessibilityFeature,
+    accessibilityHazard: ["none"],
+    accessibilitySummary: summary,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Documents
+// ---------------------------------------------------------------------------
+
+function renderXhtmlDocument(
+  book: ExportBook,
+  title: string,
+  body: string
+): string {
+  const lang = escapeXml(book.languageCode ?? "en");
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${lang}" xml:lang="${lang}">
+<head>
+<meta charset="utf-8"/>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="styles.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+export function renderPageXhtml(
+  book: ExportBook,
+  index: number,
+  resolveImage: (imageId: string) => string | null
+): string {
+  const page = book.pages[index];
+  const pageBreak = `<span epub:type="pagebreak" role="doc-pagebreak" id="page-${page.pageNumber}" aria-label="${escapeXml(displayPageLabel(page))}"></span>`;
+  const sections = page.sections
+    .map(
+      (s) =>
+        `<section id="${s.sectionId}" data-section-type="${escapeXml(s.sectionType)}">\n${toXhtml(
+          rewriteImageSrcs(
+            book.toc && s.sectionType === "table_of_contents"
+              ? linkTocTexts(s.html, book.toc, pageFileName)
+              : s.html,
+            resolveImage
+          )
+        )}\n</section>`
+    )
+    .join("\n");
+  return renderXhtmlDocument(
+    book,
+    `${book.title} — Page ${displayPageLabel(page)}`,
+    `${pageBreak}\n${sections}`
+  );
+}
+
+function renderNavList(entries: NavEntry[]): string {
+  return entries
+    .map((e) => {
+      const label = e.href
+        ? `<a href="${escapeXml(e.href)}">${escapeXml(e.title)}</a>`
+        : `<span>${escapeXml(e.title)}</span>`;
+      const children = e.children ? `\n<ol>\n${renderNavList(e.children)}\n</ol>\n` : "";
+      return `<li>${label}${children}</li>`;
+    })
+    .join("\n");
+}
+
+export function renderNavXhtml(book: ExportBook, entries: NavEntry[]): string {
+  const toc = renderNavList(entries);
+  const pageList = book.pages
+    .map(
+      (p) =>
+        `<li><a href="${pageFileName(p.pageId)}#page-${p.pageNumber}">${escapeXml(displayPageLabel(p))}</a></li>`
+    )
+    .join("\n");
+  return renderXhtmlDocument(
+    book,
+    book.title,
+    `<nav epub:type="toc" id="toc" role="doc-toc">
+<h1>Contents</h1>
+<ol>
+${toc}
+</ol>
+</nav>
+<nav epub:type="page-list" id="page-list" hidden="hidden">
+<h2>Pages</h2>
+<ol>
+${pageList}
+</ol>
+</nav>`
+  );
+}
+
+function renderCoverXhtml(book: ExportBook, coverSrc: string): string {
+  return renderXhtmlDocument(
+    book,
+    book.title,
+    `<section epub:type="cover">
+<img role="doc-cover" src="${escapeXml(coverSrc)}" alt="${escapeXml(`Cover of ${book.title}`)}"/>
+</section>`
+  );
+}
+
+export function renderPackageOpf(
+  book: ExportBook,
+  manifest: ManifestItem[],
+  spine: string[],
+  a11y: AccessibilityMetadata,
+  modified: Date
+): string {
+  const lang = escapeXml(book.languageCode ?? "en");
+  const meta = (property: string, value: string) =>
+    `<meta property="${property}">${escapeXml(value)}</meta>`;
+
+  const metadata = [
+    `<dc:identifier id="book-id">${bookIdentifier(book.label)}</dc:identifier>`,
+    `<dc:title>${escapeXml(book.title)}</dc:title>`,
+    ...book.authors.map((a) => `<dc:creator>${escapeXml(a)}</dc:creator>`),
+    ...(book.publisher ? [`<dc:publisher>${escapeXml(book.publisher)}</dc:publisher>`] : []),
+    `<dc:language>${lang}</dc:language>`,
+    meta("dcterms:modified", formatModified(modified)),
+    ...a11y.accessMode.map((v) => meta("schema:accessMode", v)),
+    ...a11y.accessModeSufficient.map((v) => meta("schema:accessModeSufficient", v)),
+    ...a11y.accessibilityFeature.map((v) => meta("schema:accessibilityFeature", v)),
+    ...a11y.accessibilityHazard.map((v) => meta("schema:accessibilityHazard", v)),
+    meta("schema:accessibilitySummary", a11y.accessibilitySummary),
+    ...(manifest.some((m) => m.id === "cover-image")
+      ? [`<meta name="cover" content="cover-image"/>`]
+      : []),
+  ];
+
+  const items = manifest
+    .map(
+      (m) =>
+        `<item id="${m.id}" href="${escapeXml(m.href)}" media-type="${m.mediaType}"${m.properties ? ` properties="${m.properties}"` : ""}/>`
+    )
+    .join("\n    ");
+  const itemrefs = spine.map((id) => `<itemref idref="${id}"/>`).join("\n    ");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${lang}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    ${metadata.join("\n    ")}
+  </metadata>
+  <manifest>
+    ${items}
+  </manifest>
+  <spine>
+    ${itemrefs}
+  </spine>
+</package>
+`;
+}
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+// ---------------------------------------------------------------------------
+// Package builder
+// ---------------------------------------------------------------------------
+
+export async function buildEpubEntries(
+  label: string,
+  options: EpubOptions = {}
+): Promise<ZipEntry[]> {
+  const book = collectExportBook(label);
+  if (book.pages.length === 0) {
+    throw new Error(`Book "${label}" has no rendered pages to export`);
+  }
+
+  const manifest: ManifestItem[] = [];
+  const imageEntries: ZipEntry[] = [];
+  const packagedImages = new Set<string>();
+
+  const addImage = (sourcePath: string, id?: string): string | null => {
+    const href = `images/${path.basename(sourcePath)}`;
+    if (!packagedImages.has(href)) {
+      if (!fs.existsSync(sourcePath)) return null;
+      packagedImages.add(href);
+      imageEntries.push({ path: `OEBPS/${href}`, data: fs.readFileSync(sourcePath) });
+      manifest.push({
+        id: id ?? `img-${packagedImages.size}`,
+        href,
+        mediaType: "image/png",
+        ...(id === "cover-image" ? { properties: "cover-image" } : {}),
+      });
+    }
+    return href;
+  };
+
+  const spine: string[] = [];
+  const documents: ZipEntry[] = [];
+
+  const coverPath = resolveCoverImagePath(label);
+  const coverSrc = coverPath ? addImage(coverPath, "cover-image") : null;
+  if (coverSrc) {
+    documents.push({ path: "OEBPS/cover.xhtml", data: renderCoverXhtml(book, coverSrc) });
+    manifest.push({ id: "cover", href: "cover.xhtml", mediaType: "application/xhtml+xml" });
+    spine.push("cover");
+  }
+
+  for (let i = 0; i < book.pages.length; i++) {
+    const page = book.pages[i];
+    const xhtml = renderPageXhtml(book, i, (imageId) =>
+      addImage(resolveExtractedImagePath(label, page.pageId, imageId))
+    );
+    documents.push({ path: `OEBPS/${pageFileName(page.pageId)}`, data: xhtml });
+    manifest.push({
+      id: page.pageId,
+      href: pageFileName(page.pageId),
+      mediaType: "application/xhtml+xml",
+    });
+    spine.push(page.pageId);
+  }
+
+  const navEntries = buildNavEntries(book);
+  const hasHeadings = book.pages.some((p) => p.sections.some((s) => s.headings.length > 0));
+  documents.push({ path: "OEBPS/nav.xhtml", data: renderNavXhtml(book, navEntries) });
+  manifest.push({ id: "nav", href: "nav.xhtml", mediaType: "application/xhtml+xml", properties: "nav" });
+
+  const css = await buildTailwindCss(documents.map((d) => d.data as string));
+  manifest.push({ id: "css", href: "styles.css", mediaType: "text/css" });
+
+  const a11y = deriveAccessibilityMetadata(book, hasHeadings);
+  const opf = renderPackageOpf(book, manifest, spine, a11y, options.modified ?? new Date());
+
+  return [
+    { path: "mimetype", data: "application/epub+zip", store: true },
+    { path: "META-INF/container.xml", data: CONTAINER_XML },
+    { path: "OEBPS/content.opf", data: opf },
+    ...documents,
+    { path: "OEBPS/styles.css", data: css },
+    ...imageEntries,
+  ];
+}
+
+export async function buildEpub(
+  label: string,
+  options: EpubOptions = {}
+): Promise<Buffer> {
+  return createZip(await buildEpubEntries(label, options));
+}
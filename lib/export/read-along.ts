@@ -0,0 +1,153 @@
+// ---------------------------------------------------------------------------
+// Read-along audio for exported pages
+// ---------------------------------------------------------------------------
+
+export interface ReadAlongClip {
+  /** data-id of the element the clip reads */
+  textId: string;
+  /** Package-relative audio path, e.g. `audio/<hash>.wav` */
+  src: string;
+  durationMs: number;
+  /** [startMs, endMs] per word, in the order the words appear in the text */
+  words: Array<[number, number]>;
+}
+
+/**
+ * Timing data for a page, embedded as JSON so the player script can find
+ * it without a network request.
+ */
+export function renderReadAlongData(clips: ReadAlongClip[]): string {
+  const json = JSON.stringify({
+    clips: clips.map((c) => ({
+      id: c.textId,
+      src: c.src,
+      duration: c.durationMs,
+      words: c.words,
+    })),
+  }).replace(/</g, "\\u003c");
+  return `<script type="application/json" id="read-along-data">${json}</script>`;
+}
+
+export const READ_ALONG_BUTTON = `<button type="button" hidden data-read-along-toggle aria-pressed="false" class="rounded border border-gray-300 px-3 py-1 text-sm text-gray-700 hover:bg-gray-100">Read aloud</button>`;
+
+/**
+ * Player for exported pages: plays the clips in reading order (or from a
+ * clicked text), marks the element being read with `data-read-along-active`
+ * and highlights the current word with the CSS Custom Highlight API where
+ * the browser supports it. Words are matched by position, so the timings
+ * only need the word order of the text, not its exact characters.
+ */
+export const READ_ALONG_SCRIPT = `(function () {
+  var dataEl = document.getElementById("read-along-data");
+  if (!dataEl) return;
+  var clips = JSON.parse(dataEl.textContent).clips.filter(function (c) {
+    return document.querySelector('[data-id="' + c.id + '"]');
+  });
+  if (clips.length === 0) return;
+
+  var style = document.createElement("style");
+  style.textContent =
+    "[data-read-along-active]{background-color:#fef9c3;outline:2px solid #facc15;outline-offset:2px}" +
+    "::highlight(read-along-word){background-color:#fde047}" +
+    "[data-read-along-clip]{cursor:pointer}";
+  document.head.appendChild(style);
+
+  var highlights = window.CSS && CSS.highlights && window.Highlight ? CSS.highlights : null;
+  var audio = new Audio();
+  var buttons = document.querySelectorAll("[data-read-along-toggle]");
+  var current = -1;
+  var ranges = [];
+
+  function element(i) {
+    return document.querySelector('[data-id="' + clips[i].id + '"]');
+  }
+
+  function wordRanges(el) {
+    var result = [];
+    var walker = document.createTreeWalker(el, NodeFilter.SHOW_TEXT);
+    var node;
+    while ((node = walker.nextNode())) {
+      var re = /\\S+/g;
+      var m;
+      while ((m = re.exec(node.data))) {
+        var r = document.createRange();
+        r.setStart(node, m.index);
+        r.setEnd(node, m.index + m[0].length);
+        result.push(r);
+      }
+    }
+    return result;
+  }
+
+  function setPlaying(playing) {
+    buttons.forEach(function (b) {
+      b.setAttribute("aria-pressed", playing ? "true" : "false");
+      b.textContent = playing ? "Pause" : "Read aloud";
+    });
+  }
+
+  function clearActive() {
+    if (current >= 0) {
+      var el = element(current);
+      if (el) el.removeAttribute("data-read-along-active");
+    }
+    if (highlights) highlights.delete("read-along-word");
+  }
+
+  function play(i) {
+    clearActive();
+    if (i >= clips.length) {
+      current = -1;
+      setPlaying(false);
+      return;
+    }
+    current = i;
+    var el = element(i);
+    el.setAttribute("data-read-along-active", "");
+    el.scrollIntoView({ block: "nearest", behavior: "smooth" });
+    ranges = highlights ? wordRanges(el) : [];
+    audio.src = clips[i].src;
+    audio.play();
+    setPlaying(true);
+  }
+
+  audio.addEventListener("timeupdate", function () {
+    if (!highlights || current < 0) return;
+    var ms = audio.currentTime * 1000;
+    var words = clips[current].words;
+    for (var w = 0; w < words.length && w < ranges.length; w++) {
+      if (ms >= words[w][0] && ms < words[w][1]) {
+        highlights.set("read-along-word", new Highlight(ranges[w]));
+        return;
+      }
+    }
+  });
+  audio.addEventListener("ended", function () {
+    play(current + 1);
+  });
+
+  buttons.forEach(function (b) {
+    b.hidden = false;
+    b.addEventListener("click", function () {
+      if (current >= 0 && !audio.paused) {
+        audio.pause();
+        setPlaying(false);
+      } else if (current >= 0) {
+        audio.play();
+        setPlaying(true);
+      } else {
+        play(0);
+      }
+    });
+  });
+
+  clips.forEach(function (c, i) {
+    var el = element(i);
+    el.setAttribute("data-read-along-clip", "");
+    el.addEventListener("click", function (event) {
+      if (event.target.closest("a, button")) return;
+      play(i);
+    });
+  });
+})();
+`;
@@ -0,0 +1,54 @@
+import fs from "node:fs";
+import path from "node:path";
+import { createRequire } from "node:module";
+import { compile } from "tailwindcss";
+
+const esmRequire = createRequire(import.meta.url);
+
+function tailwindDir(): string {
+  return path.dirname(esmRequire.resolve("tailwindcss/package.json"));
+}
+
+/**
+ * Collect Tailwind candidate class names from rendered HTML. Tailwind
+ * ignores anything that isn't a utility, so over-collecting is harmless.
+ */
+export function extractClassCandidates(html: string): string[] {
+  const candidates = new Set<string>();
+  for (const match of html.matchAll(/\bclass="([^"]*)"/gi)) {
+    for (const cls of match[1].split(/\s+/)) {
+      if (cls) candidates.add(cls);
+    }
+  }
+  return [...candidates];
+}
+
+/**
+ * Compile a static Tailwind stylesheet containing only the utilities used by
+ * the given HTML fragments. Replaces the Tailwind CDN script used in the
+ * storyboard preview so exported packages work offline.
+ */
+export async function buildTailwindCss(htmlFragments: string[]): Promise<string> {
+  const base = tailwindDir();
+  const compiler = await compile('@import "tailwindcss";', {
+    base,
+    loadStylesheet: async (id: string) => {
+      const file =
+        id === "tailwindcss"
+          ? "index.css"
+          : id.replace(/^tailwindcss\//, "").replace(/(\.css)?$/, ".css");
+      const filePath = path.join(base, file);
+      return {
+        path: filePath,
+        base: path.dirname(filePath),
+        content: fs.readFileSync(filePath, "utf8"),
+      };
+    },
+  });
+
+  const candidates = new Set<string>();
+  for (const html of htmlFragments) {
+    for (const cls of extractClassCandidates(html)) candidates.add(cls);
+  }
+  return compiler.build([...candidates]);
+}
@@ -0,0 +1,464 @@
+import fs from "node:fs";
+import path from "node:path";
+import {
+  getBookMetadata,
+  getPageLabels,
+  getPageSectioning,
+  getSpeech,
+  getTableOfContents,
+  getWebRendering,
+  listPages,
+  resolveCoverImagePath,
+  resolveExtractedImagePath,
+  resolveSpeechAudioPath,
+  type SpeechClipEntry,
+  type TocEntry,
+} from "@/lib/books";
+import { fromDBPageSectioning } from "@/lib/pipeline/core/schemas";
+import { buildTailwindCss } from "./tailwind";
+import {
+  READ_ALONG_BUTTON,
+  READ_ALONG_SCRIPT,
+  renderReadAlongData,
+  type ReadAlongClip,
+} from "./read-along";
+import { createZip, type ZipEntry } from "./zip";
+
+// ---------------------------------------------------------------------------
+// Collected book content
+// ---------------------------------------------------------------------------
+
+export interface ExportSection {
+  sectionId: string;
+  sectionIndex: number;
+  sectionType: string;
+  html: string;
+  /** `section_heading` texts in this section, used for navigation. */
+  headings: string[];
+}
+
+export interface ExportAudioClip {
+  /** data-id of the text element */
+  textId: string;
+  /** Book-relative audio path, e.g. `audio/<hash>.wav` */
+  path: string;
+  durationMs: number;
+  words: Array<[number, number]>;
+}
+
+export interface ExportPage {
+  pageId: string;
+  pageNumber: number;
+  /** Printed page label ("iv", "12") when the book's page labels are resolved */
+  pageLabel?: string;
+  sections: ExportSection[];
+  /** Read-along clips for the texts on this page, in reading order */
+  audio?: ExportAudioClip[];
+}
+
+export interface ExportTocEntry {
+  title: string;
+  pageLabel: string | null;
+  /** Text in the table of contents section the entry was read from */
+  textId: string;
+  /** Exported page and section the entry links to; null when not exported */
+  pageId: string | null;
+  sectionId: string | null;
+  children: ExportTocEntry[];
+}
+
+export interface ExportBook {
+  label: string;
+  title: string;
+  authors: string[];
+  publisher: string | null;
+  languageCode: string | null;
+  coverPageNumber: number | null;
+  pages: ExportPage[];
+  /** Reconstructed table of contents, when the book has one */
+  toc?: ExportTocEntry[];
+}
+
+function pageNumberFromId(pageId: string): number {
+  return parseInt(pageId.replace(/^pg/, ""), 10);
+}
+
+/** Page name shown to readers: the printed label, else the PDF page number. */
+export function displayPageLabel(page: ExportPage): string {
+  return page.pageLabel ?? String(page.pageNumber);
+}
+
+/** Link target of a table of contents entry, or null if it has none. */
+export function tocEntryHref(
+  entry: ExportTocEntry,
+  fileName: (pageId: string) => string
+): string | null {
+  if (!entry.pageId) return null;
+  return entry.sectionId ? `${fileName(entry.pageId)}#${entry.sectionId}` : fileName(entry.pageId);
+}
+
+/**
+ * Turn the entry texts of a rendered table of contents section into links
+ * to the pages and sections they name. Texts already containing a link are
+ * left alone.
+ */
+export function linkTocTexts(
+  html: string,
+  toc: ExportTocEntry[],
+  fileName: (pageId: string) => string
+): string {
+  const hrefs = new Map<string, string>();
+  const visit = (entries: ExportTocEntry[]) => {
+    for (const entry of entries) {
+      const href = tocEntryHref(entry, fileName);
+      if (href && !hrefs.has(entry.textId)) hrefs.set(entry.textId, href);
+      visit(entry.children);
+    }
+  };
+  visit(toc);
+
+  let out = html;
+  for (const [textId, href] of hrefs) {
+    const id = textId.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const element = new RegExp(
+      `(<([a-zA-Z][\\w-]*)\\b[^>]*\\sdata-id="${id}"[^>]*>)([\\s\\S]*?)(</\\2>)`
+    );
+    out = out.replace(element, (match, open: string, _tag, inner: string, close: string) =>
+      /<a\b/i.test(inner) ? match : `${open}<a href="${escapeHtml(href)}">${inner}</a>${close}`
+    );
+  }
+  return out;
+}
+
+/**
+ * Gather the latest rendered sections for every page, in page order.
+ * Sections pruned in page sectioning (or rendered as null) are skipped, as
+ * are renderings left over from an earlier sectioning with more sections,
+ * and pages with nothing left to show.
+ */
+export function collectExportBook(label: string): ExportBook {
+  const metadata = getBookMetadata(label);
+  const pages: ExportPage[] = [];
+  const pageIds = listPages(label).map((p) => p.pageId);
+  const pageLabels = getPageLabels(label)?.data.labels ?? {};
+
+  // Linked sections render texts of later pages, so index clips book-wide
+  const clips = new Map<string, SpeechClipEntry>();
+  for (const pageId of pageIds) {
+    for (const clip of getSpeech(label, pageId)?.data.clips ?? []) {
+      clips.set(clip.text_id, clip);
+    }
+  }
+
+  for (const pageId of pageIds) {
+    const rendering = getWebRendering(label, pageId);
+    if (!rendering) continue;
+    const stored = getPageSectioning(label, pageId)?.data;
+    const sectioning = stored ? fromDBPageSectioning(stored) : null;
+
+    const sections: ExportSection[] = [];
+    for (const section of rendering.sections) {
+      const source = sectioning?.sections[section.section_index];
+      if (!source || source.isPruned) continue;
+      if (!section.html.trim()) continue;
+      sections.push({
+        sectionId: `${pageId}_s${String(section.section_index + 1).padStart(3, "0")}`,
+        sectionIndex: section.section_index,
+        sectionType: section.section_type,
+        html: section.html,
+        headings: (source.texts ?? [])
+          .filter((t) => t.textType === "section_heading")
+          .map((t) => t.text),
+      });
+    }
+    if (sections.length === 0) continue;
+
+    const audio = sections.flatMap((section) =>
+      [...section.html.matchAll(/\sdata-id="([^"]+)"/g)].flatMap(([, textId]) => {
+        const clip = clips.get(textId);
+        if (!clip) return [];
+        return [
+          {
+            textId,
+            path: clip.path,
+            durationMs: clip.duration_ms,
+            words: clip.words.map((w): [number, number] => [w.start_ms, w.end_ms]),
+          },
+        ];
+      })
+    );
+
+    pages.push({
+      pageId,
+      pageNumber: pageNumberFromId(pageId),
+      ...(pageLabels[pageId] ? { pageLabel: pageLabels[pageId] } : {}),
+      sections,
+      ...(audio.length > 0 ? { audio } : {}),
+    });
+  }
+
+  // Only link table of contents entries to pages and sections that exist
+  const exportedPages = new Set(pages.map((p) => p.pageId));
+  const exportedSections = new Set(pages.flatMap((p) => p.sections.map((s) => s.sectionId)));
+  const toExportToc = (entry: TocEntry): ExportTocEntry => {
+    const pageId = entry.page_id && exportedPages.has(entry.page_id) ? entry.page_id : null;
+    const sectionId =
+      pageId && entry.section_id && exportedSections.has(entry.section_id)
+        ? entry.section_id
+        : null;
+    return {
+      title: entry.title,
+      pageLabel: entry.page_label,
+      textId: entry.text_id,
+      pageId,
+      sectionId,
+      children: entry.children.map(toExportToc),
+    };
+  };
+  const toc = getTableOfContents(label)?.data.entries.map(toExportToc);
+
+  return {
+    label,
+    title: metadata?.title ?? label,
+    authors: metadata?.authors ?? [],
+    publisher: metadata?.publisher ?? null,
+    languageCode: metadata?.language_code ?? null,
+    coverPageNumber: metadata?.cover_page_number ?? null,
+    pages,
+    ...(toc && toc.length > 0 ? { toc } : {}),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// HTML helpers
+// ---------------------------------------------------------------------------
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Point every `<img data-id="...">` at a packaged file. `resolve` returns the
+ * relative src for an image ID, or null to leave the tag untouched.
+ */
+export function rewriteImageSrcs(
+  html: string,
+  resolve: (imageId: string) => string | null
+): string {
+  return html.replace(/<img\b([^>]*)>/gi, (match, attrs: string) => {
+    const dataIdMatch = attrs.match(/data-id="([^"]+)"/);
+    if (!dataIdMatch) return match;
+    const src = resolve(dataIdMatch[1]);
+    if (src === null) return match;
+    const newAttrs = /src="[^"]*"/.test(attrs)
+      ? attrs.replace(/src="[^"]*"/, `src="${src}"`)
+      : `${attrs} src="${src}"`;
+    return `<img${newAttrs}>`;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Page templates
+// ---------------------------------------------------------------------------
+
+function pageFileName(pageId: string): string {
+  return `${pageId}.html`;
+}
+
+function renderDocument(
+  book: ExportBook,
+  title: string,
+  body: string
+): string {
+  const lang = book.languageCode ? ` lang="${escapeHtml(book.languageCode)}"` : "";
+  return `<!DOCTYPE html>
+<html${lang}>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" href="assets/styles.css">
+</head>
+<body class="bg-white text-gray-900">
+${body}
+</body>
+</html>
+`;
+}
+
+function withTocLinks(book: ExportBook, section: ExportSection): string {
+  return book.toc && section.sectionType === "table_of_contents"
+    ? linkTocTexts(section.html, book.toc, pageFileName)
+    : section.html;
+}
+
+function renderTocList(entries: ExportTocEntry[]): string {
+  const items = entries.map((entry) => {
+    const href = tocEntryHref(entry, pageFileName);
+    const title = escapeHtml(entry.title);
+    const label = href
+      ? `<a class="underline hover:text-gray-900" href="${href}">${title}</a>`
+      : `<span>${title}</span>`;
+    const children =
+      entry.children.length > 0 ? `\n${renderTocList(entry.children)}\n` : "";
+    return `<li>${label}${children}</li>`;
+  });
+  return `<ol class="ml-4 space-y-1">\n${items.join("\n")}\n</ol>`;
+}
+
+function renderPageNav(book: ExportBook, index: number): string {
+  const prev = index > 0 ? book.pages[index - 1] : null;
+  const next = index < book.pages.length - 1 ? book.pages[index + 1] : null;
+  const link = (href: string, text: string, rel?: string) =>
+    `<a class="underline hover:text-gray-900" href="${href}"${rel ? ` rel="${rel}"` : ""}>${text}</a>`;
+  return `<nav aria-label="Page navigation" class="flex items-center justify-between gap-4 border-b border-gray-200 px-4 py-2 text-sm text-gray-600">
+<span>${prev ? link(pageFileName(prev.pageId), "&larr; Previous", "prev") : ""}</span>
+<span>${link("index.html", "Contents")} &middot; Page ${escapeHtml(displayPageLabel(book.pages[index]))}</span>
+<span>${next ? link(pageFileName(next.pageId), "Next &rarr;", "next") : ""}</span>
+</nav>`;
+}
+
+export function renderPageHtml(
+  book: ExportBook,
+  index: number,
+  resolveImage: (imageId: string) => string | null,
+  readAlong: ReadAlongClip[] = []
+): string {
+  const page = book.pages[index];
+  const nav = renderPageNav(book, index);
+  const sections = page.sections
+    .map(
+      (s) =>
+        `<section id="${s.sectionId}" data-section-type="${escapeHtml(s.sectionType)}">\n${rewriteImageSrcs(withTocLinks(book, s), resolveImage)}\n</section>`
+    )
+    .join("\n");
+  const player =
+    readAlong.length > 0
+      ? `<div class="flex justify-end px-4 py-2">${READ_ALONG_BUTTON}</div>\n`
+      : "";
+  const scripts =
+    readAlong.length > 0
+      ? `\n${renderReadAlongData(readAlong)}\n<script src="assets/read-along.js"></script>`
+      : "";
+  return renderDocument(
+    book,
+    `${book.title} — Page ${displayPageLabel(page)}`,
+    `${nav}\n${player}<main id="${page.pageId}">\n${sections}\n</main>\n${nav}${scripts}`
+  );
+}
+
+export function renderIndexHtml(book: ExportBook, coverSrc: string | null): string {
+  const cover = coverSrc
+    ? `<img class="mx-auto mb-6 max-h-96 rounded shadow" src="${coverSrc}" alt="${escapeHtml(`Cover of ${book.title}`)}">`
+    : "";
+  const byline = book.authors.length
+    ? `<p class="text-center text-gray-600">${escapeHtml(book.authors.join(", "))}</p>`
+    : "";
+  const items = book.pages
+    .map(
+      (p) =>
+        `<li><a class="underline hover:text-gray-900" href="${pageFileName(p.pageId)}">Page ${escapeHtml(displayPageLabel(p))}</a></li>`
+    )
+    .join("\n");
+  return renderDocument(
+    book,
+    book.title,
+    `<main class="mx-auto max-w-2xl px-4 py-8">
+${cover}
+<h1 class="mb-2 text-center text-3xl font-bold">${escapeHtml(book.title)}</h1>
+${byline}
+${book.toc ? `<nav aria-label="Table of contents" class="mt-8 text-gray-700">\n<h2 class="mb-2 text-xl font-semibold">Contents</h2>\n${renderTocList(book.toc)}\n</nav>\n` : ""}<nav aria-label="${book.toc ? "Pages" : "Contents"}" class="mt-8">
+<ol class="list-inside list-decimal space-y-1 text-gray-700">
+${items}
+</ol>
+</nav>
+</main>`
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Package builder
+// ---------------------------------------------------------------------------
+
+/**
+ * Build the file list for an offline web package: one HTML file per page
+ * with prev/next navigation, an index page, referenced images copied into
+ * `images/`, read-along audio under `audio/` with a small player script,
+ * and a locally compiled Tailwind stylesheet.
+ */
+export async function buildWebPackageEntries(label: string): Promise<ZipEntry[]> {
+  const book = collectExportBook(label);
+  if (book.pages.length === 0) {
+    throw new Error(`Book "${label}" has no rendered pages to export`);
+  }
+
+  const packagedFiles = new Set<string>();
+  const entries: ZipEntry[] = [];
+
+  const addImage = (sourcePath: string, fileName: string): string | null => {
+    const packagePath = `images/${fileName}`;
+    if (!packagedFiles.has(packagePath)) {
+      if (!fs.existsSync(sourcePath)) return null;
+      packagedFiles.add(packagePath);
+      entries.push({ path: packagePath, data: fs.readFileSync(sourcePath) });
+    }
+    return packagePath;
+  };
+
+  // Audio files are named by content hash, so shared clips are packaged once
+  const addAudio = (relPath: string): string | null => {
+    if (!packagedFiles.has(relPath)) {
+      const sourcePath = resolveSpeechAudioPath(label, relPath);
+      if (!fs.existsSync(sourcePath)) return null;
+      packagedFiles.add(relPath);
+      entries.push({ path: relPath, data: fs.readFileSync(sourcePath) });
+    }
+    return relPath;
+  };
+
+  const htmlFiles: ZipEntry[] = [];
+  let hasReadAlong = false;
+  for (let i = 0; i < book.pages.length; i++) {
+    const page = book.pages[i];
+    const readAlong = (page.audio ?? []).flatMap((clip) => {
+      const src = addAudio(clip.path);
+      return src ? [{ ...clip, src }] : [];
+    });
+    hasReadAlong ||= readAlong.length > 0;
+    const html = renderPageHtml(
+      book,
+      i,
+      (imageId) => {
+        const sourcePath = resolveExtractedImagePath(label, page.pageId, imageId);
+        return addImage(sourcePath, path.basename(sourcePath));
+      },
+      readAlong
+    );
+    htmlFiles.push({ path: pageFileName(page.pageId), data: html });
+  }
+
+  const coverPath = resolveCoverImagePath(label);
+  const coverSrc = coverPath ? addImage(coverPath, path.basename(coverPath)) : null;
+  const indexHtml = renderIndexHtml(book, coverSrc);
+
+  const css = await buildTailwindCss([
+    indexHtml,
+    ...htmlFiles.map((f) => f.data as string),
+  ]);
+
+  return [
+    { path: "index.html", data: indexHtml },
+    ...htmlFiles,
+    { path: "assets/styles.css", data: css },
+    ...(hasReadAlong ? [{ path: "assets/read-along.js", data: READ_ALONG_SCRIPT }] : []),
+    ...entries,
+  ];
+}
+
+export async function buildWebPackage(label: string): Promise<Buffer> {
+  return createZip(await buildWebPackageEntries(label));
+}
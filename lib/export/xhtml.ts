@@ -0,0 +1,84 @@
+import { parseDocument } from "htmlparser2";
+
+/**
+ * Convert an LLM-rendered HTML fragment into well-formed XHTML for EPUB
+ * content documents: void elements are self-closed, text and attributes are
+ * re-escaped (named entities like `&nbsp;` are decoded to characters), and
+ * scripts and comments are dropped.
+ */
+
+const VOID_TAGS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input",
+  "link", "meta", "source", "track", "wbr",
+]);
+
+const DROPPED_TAGS = new Set(["script"]);
+
+const FOREIGN_NAMESPACES: Record<string, string> = {
+  svg: "http://www.w3.org/2000/svg",
+  math: "http://www.w3.org/1998/Math/MathML",
+};
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const XML_NAME_RE = /^[A-Za-z_:][A-Za-z0-9_.:-]*$/;
+
+export function toXhtml(html: string): string {
+  const doc = parseDocument(html, {
+    lowerCaseAttributeNames: false,
+    recognizeSelfClosing: true,
+  });
+  return serializeChildren(doc);
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function serializeChildren(node: any): string {
+  let out = "";
+  for (const child of node.children ?? []) {
+    out += serializeNode(child);
+  }
+  return out;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function serializeNode(node: any): string {
+  if (node.type === "text") return escapeXml(node.data);
+  if (node.type === "cdata") return serializeChildren(node);
+  if (node.type !== "tag" && node.type !== "style" && node.type !== "script") {
+    // comments, directives
+    return "";
+  }
+
+  const name: string = node.name;
+  if (DROPPED_TAGS.has(name)) return "";
+
+  const attribs: Record<string, string> = { ...node.attribs };
+  if (FOREIGN_NAMESPACES[name] && !attribs.xmlns) {
+    attribs.xmlns = FOREIGN_NAMESPACES[name];
+  }
+  const attrs = Object.entries(attribs)
+    .filter(([key]) => XML_NAME_RE.test(key))
+    .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+    .join("");
+
+  if (VOID_TAGS.has(name)) return `<${name}${attrs}/>`;
+
+  if (name === "style") {
+    // Style content is raw text; only `<` and `&` need escaping in XML.
+    const css = (node.children ?? [])
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .map((c: any) => c.data ?? "")
+      .join("")
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;");
+    return `<style${attrs}>${css}</style>`;
+  }
+
+  return `<${name}${attrs}>${serializeChildren(node)}</${name}>`;
+}
@@ -0,0 +1,128 @@
+import zlib from "node:zlib";
+
+/**
+ * Minimal ZIP writer for export packages.
+ *
+ * Writes local file headers + central directory with no data descriptors,
+ * so the whole archive is built in memory. Entries are deflated unless
+ * `store` is set (EPUB requires its `mimetype` entry to be stored).
+ */
+
+export interface ZipEntry {
+  path: string;
+  data: Buffer | string;
+  store?: boolean;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(buf: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < buf.length; i++) {
+    crc = CRC_TABLE[(crc ^ buf[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Fixed DOS timestamp (1980-01-01 00:00) keeps archives byte-for-byte
+// reproducible across runs.
+const DOS_TIME = 0;
+const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+
+export function createZip(entries: ZipEntry[]): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.path, "utf8");
+    const raw =
+      typeof entry.data === "string"
+        ? Buffer.from(entry.data, "utf8")
+        : entry.data;
+    const method = entry.store ? 0 : 8;
+    const body = entry.store ? raw : zlib.deflateRawSync(raw);
+    const crc = crc32(raw);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(DOS_TIME, 10);
+    local.writeUInt16LE(DOS_DATE, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+    localParts.push(local, name, body);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6); // version needed
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt16LE(DOS_TIME, 12);
+    central.writeUInt16LE(DOS_DATE, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt16LE(0, 30); // extra length
+    central.writeUInt16LE(0, 32); // comment length
+    central.writeUInt16LE(0, 34); // disk number
+    central.writeUInt16LE(0, 36); // internal attrs
+    central.writeUInt32LE(0, 38); // external attrs
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, name);
+
+    offset += local.length + name.length + body.length;
+  }
+
+  const centralSize = centralParts.reduce((n, b) => n + b.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(0, 4);
+  end.writeUInt16LE(0, 6);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+  end.writeUInt16LE(0, 20);
+
+  return Buffer.concat([...localParts, ...centralParts, end]);
+}
+
+/**
+ * Read entries back out of an archive written by `createZip`. Only handles
+ * the subset of the format `createZip` produces — used by tests and by
+ * tools that inspect exported packages.
+ */
+export function readZip(buf: Buffer): Map<string, Buffer> {
+  const entries = new Map<string, Buffer>();
+  let pos = 0;
+  while (pos + 4 <= buf.length && buf.readUInt32LE(pos) === 0x04034b50) {
+    const method = buf.readUInt16LE(pos + 8);
+    const compressedSize = buf.readUInt32LE(pos + 18);
+    const nameLength = buf.readUInt16LE(pos + 26);
+    const extraLength = buf.readUInt16LE(pos + 28);
+    const name = buf.toString("utf8", pos + 30, pos + 30 + nameLength);
+    const start = pos + 30 + nameLength + extraLength;
+    const body = buf.subarray(start, start + compressedSize);
+    entries.set(name, method === 8 ? zlib.inflateRawSync(body) : Buffer.from(body));
+    pos = start + compressedSize;
+  }
+  return entries;
+}
@@ -171,6 +171,49 @@ describe("extractPdf", () => {
     expect(typeof result.pdfMetadata).toBe("object");
   });
 
+  it("reads the PDF's page labels when present", async () => {
+    const doc = new mupdf.PDFDocument(Buffer.from(TWO_PAGE_PDF));
+    doc.setPageLabels(0, "r", "", 1);
+    doc.setPageLabels(1, "D", "", 1);
+    const pdfBuffer = Buffer.from(doc.saveToBuffer("").asUint8Array());
+
+    const result = await extractPdf({ pdfBuffer });
+    expect(result.pages.map((p) => p.pageLabel)).toEqual(["i", "1"]);
+
+    const unlabelled = await extractPdf({ pdfBuffer: Buffer.from(TWO_PAGE_PDF) });
+    expect(unlabelled.pages[0].pageLabel).toBeUndefined();
+  });
+
+  it("records the geometry and fonts of the page text", async () => {
+    const doc = new mupdf.PDFDocument();
+    const resources = doc.newDictionary();
+    const fonts = doc.newDictionary();
+    fonts.put("F1", doc.addSimpleFont(new mupdf.Font("Times-Bold")));
+    fonts.put("F2", doc.addSimpleFont(new mupdf.Font("Times-Roman")));
+    resources.put("Font", fonts);
+    const content = "BT /F1 24 Tf 72 700 Td (Chapter One) Tj ET BT /F2 12 Tf 72 600 Td (It was a dark night.) Tj ET";
+    doc.insertPage(-1, doc.addPage([0, 0, 612, 792], 0, resources, content));
+    const pdfBuffer = Buffer.from(doc.saveToBuffer("").asUint8Array());
+
+    const { layout } = (await extractPdf({ pdfBuffer })).pages[0];
+    expect(layout.width).toBe(612);
+    expect(layout.height).toBe(792);
+
+    const lines = layout.blocks.flatMap((b) => b.lines);
+    expect(lines.map((l) => l.text)).toEqual(["Chapter One", "It was a dark night."]);
+    expect(lines[0].spans).toHaveLength(1);
+    expect(lines[0].spans[0]).toMatchObject({ size: 24, bold: true, italic: false });
+    expect(lines[1].spans[0]).toMatchObject({ size: 12, bold: false });
+
+    // Top-left origin: the heading (baseline 92pt from the top) is above the body text
+    const [x0, y0, x1, y1] = lines[0].bbox;
+    expect(x0).toBeCloseTo(72, 0);
+    expect(y0).toBeGreaterThan(60);
+    expect(y1).toBeLessThan(110);
+    expect(y1).toBeLessThan(lines[1].bbox[1]);
+    expect(x1).toBeGreaterThan(x0);
+  });
+
   it("throws on invalid PDF data", async () => {
     const pdfBuffer = Buffer.from("not a pdf");
 
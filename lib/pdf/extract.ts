@@ -23,11 +23,47 @@ export interface ExtractInput {
 export interface ExtractedPage {
   pageId: string;
   pageNumber: number;
+  /** Printed page label from the PDF's page labels ("iv", "12"), when it has them */
+  pageLabel?: string;
   text: string;
+  /** Geometry and fonts of the page's text */
+  layout: PageLayout;
   pageImage: ExtractedImage;
   images: ExtractedImage[];
 }
 
+/** Rectangle in PDF points, `[x0, y0, x1, y1]` from the top left of the page */
+export type LayoutRect = [number, number, number, number];
+
+/** A run of characters in the same font within a line */
+export interface LayoutSpan {
+  text: string;
+  bbox: LayoutRect;
+  /** Font name without the subset prefix ("Times-Bold") */
+  font: string;
+  size: number;
+  bold: boolean;
+  italic: boolean;
+}
+
+export interface LayoutLine {
+  bbox: LayoutRect;
+  text: string;
+  spans: LayoutSpan[];
+}
+
+export interface LayoutBlock {
+  bbox: LayoutRect;
+  lines: LayoutLine[];
+}
+
+/** Text blocks of a page in MuPDF's reading order, with the page size in points */
+export interface PageLayout {
+  width: number;
+  height: number;
+  blocks: LayoutBlock[];
+}
+
 export interface ExtractedImage {
   imageId: string;
   pageId: string;
@@ -178,9 +214,10 @@ async function extractPage(doc: MupdfDocument, pageIndex: number): Promise<Extra
     hash: hashBuffer(pagePngBuf),
   };
 
-  // Extract text
+  // Extract text and its geometry
   const stext = page.toStructuredText();
   const text = stext.asText();
+  const layout = extractLayout(page, stext);
 
   // Generate page SVG once for both raster and vector extraction
   const pageSvg = getPageSvg(page);
@@ -189,15 +226,95 @@ async function extractPage(doc: MupdfDocument, pageIndex: number): Promise<Extra
   const rasterImages = await extractRasterImages(pageSvg, pageId);
   const vectorImages = await extractVectorImagesFromSvg(pageSvg, pageId, rasterImages.length);
 
+  const pageLabel = page.getLabel();
+
   return {
     pageId,
     pageNumber: pageNum,
+    ...(pageLabel ? { pageLabel } : {}),
     text,
+    layout,
     pageImage,
     images: [...rasterImages, ...vectorImages],
   };
 }
 
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Walk the structured text into blocks, lines and spans. A new span starts
+ * whenever the font, size or style changes; whitespace-only lines and
+ * empty blocks are dropped.
+ */
+function extractLayout(
+  page: ReturnType<MupdfDocument["loadPage"]>,
+  stext: ReturnType<ReturnType<MupdfDocument["loadPage"]>["toStructuredText"]>
+): PageLayout {
+  const [px, py, px1, py1] = page.getBounds();
+  const rect = (x0: number, y0: number, x1: number, y1: number): LayoutRect => [
+    round1(x0 - px),
+    round1(y0 - py),
+    round1(x1 - px),
+    round1(y1 - py),
+  ];
+
+  const blocks: LayoutBlock[] = [];
+  let block: LayoutBlock | null = null;
+  let line: LayoutLine | null = null;
+  let span: LayoutSpan | null = null;
+
+  stext.walk({
+    beginTextBlock(bbox) {
+      block = { bbox: rect(...bbox), lines: [] };
+    },
+    beginLine(bbox) {
+      line = { bbox: rect(...bbox), text: "", spans: [] };
+      span = null;
+    },
+    onChar(c, _origin, font, size, quad) {
+      if (!line) return;
+      const xs = [quad[0], quad[2], quad[4], quad[6]];
+      const ys = [quad[1], quad[3], quad[5], quad[7]];
+      const charRect = rect(Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys));
+      const name = font.getName().replace(/^[A-Z]{6}\+/, "");
+      const style = {
+        font: name,
+        size: round1(size),
+        bold: font.isBold() || /bold|black|heavy/i.test(name),
+        italic: font.isItalic() || /italic|oblique/i.test(name),
+      };
+      if (
+        !span ||
+        span.font !== style.font ||
+        span.size !== style.size ||
+        span.bold !== style.bold ||
+        span.italic !== style.italic
+      ) {
+        span = { text: "", bbox: charRect, ...style };
+        line.spans.push(span);
+      }
+      span.text += c;
+      span.bbox = [
+        Math.min(span.bbox[0], charRect[0]),
+        Math.min(span.bbox[1], charRect[1]),
+        Math.max(span.bbox[2], charRect[2]),
+        Math.max(span.bbox[3], charRect[3]),
+      ];
+      line.text += c;
+    },
+    endLine() {
+      if (block && line && line.text.trim()) block.lines.push(line);
+      line = null;
+    },
+    endTextBlock() {
+      if (block && block.lines.length > 0) blocks.push(block);
+      block = null;
+    },
+  });
+
+  return { width: round1(px1 - px), height: round1(py1 - py), blocks };
+}
+
 interface PageSvgData {
   svgContent: string;
   contentWithoutDefs: string;
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { auditSectionAccessibility } from "../../steps/accessibility-audit";
+import {
+  contrastRatio,
+  formatHex,
+  parseCssColor,
+  resolveTailwindColor,
+} from "../../web-rendering/color-contrast";
+
+function audit(html: string, colors: { textColor?: string; backgroundColor?: string } = {}) {
+  return auditSectionAccessibility({
+    html,
+    textColor: colors.textColor ?? "#000000",
+    backgroundColor: colors.backgroundColor ?? "#ffffff",
+    languageCode: "en",
+  });
+}
+
+describe("color contrast helpers", () => {
+  it("parses CSS and Tailwind colors", () => {
+    expect(parseCssColor("#fff")).toEqual({ r: 255, g: 255, b: 255 });
+    expect(parseCssColor("rgb(10, 20, 30)")).toEqual({ r: 10, g: 20, b: 30 });
+    expect(parseCssColor("rgba(0 0 0 / 0.5)")).toBeNull();
+    expect(formatHex(resolveTailwindColor("white")!)).toBe("#ffffff");
+    expect(formatHex(resolveTailwindColor("[#1e3a8a]")!)).toBe("#1e3a8a");
+    expect(resolveTailwindColor("red-500")).not.toBeNull();
+    expect(resolveTailwindColor("center")).toBeNull();
+  });
+
+  it("computes WCAG contrast ratios", () => {
+    expect(contrastRatio(parseCssColor("#000")!, parseCssColor("#fff")!)).toBeCloseTo(21);
+    expect(contrastRatio(parseCssColor("#777")!, parseCssColor("#fff")!)).toBeCloseTo(4.48, 2);
+  });
+});
+
+describe("auditSectionAccessibility", () => {
+  it("accepts a clean section", () => {
+    const html =
+      '<section role="article" lang="en-US"><h1 data-id="t1">Foxes</h1>' +
+      '<img data-id="pg001_im001" alt="A red fox asleep in the snow">' +
+      '<p data-id="t2">Foxes sleep a lot.</p></section>';
+    expect(audit(html)).toEqual([]);
+  });
+
+  it("flags low contrast from the section colors and from Tailwind classes", () => {
+    const findings = audit(
+      '<section><p data-id="t1">Grey</p><div class="bg-black"><p data-id="t2" class="text-gray-800">Dark</p></div></section>',
+      { textColor: "#aaaaaa", backgroundColor: "#ffffff" }
+    );
+    expect(findings.map((f) => [f.rule, f.elementId])).toEqual([
+      ["color-contrast", "t1"],
+      ["color-contrast", "t2"],
+    ]);
+    expect(findings[0].message).toContain("#aaaaaa on #ffffff");
+  });
+
+  it("uses the large-text threshold for big headings and skips gradients", () => {
+    const findings = audit(
+      '<section><h1 data-id="t1" style="color: #888888">Title</h1>' +
+        '<div class="bg-gradient-to-r from-white to-black"><p data-id="t2" class="text-white">On gradient</p></div></section>'
+    );
+    expect(findings).toEqual([]);
+  });
+
+  it("flags skipped heading levels", () => {
+    const findings = audit('<section><h2 data-id="t1">A</h2><h4 data-id="t2">B</h4></section>');
+    expect(findings).toEqual([
+      {
+        rule: "heading-order",
+        severity: "warning",
+        message: "Heading level jumps from h2 to h4",
+        elementId: "t2",
+      },
+    ]);
+  });
+
+  it("flags missing and placeholder alt text but allows decorative images", () => {
+    const findings = audit(
+      '<section><img data-id="pg001_im001"><img data-id="pg001_im002" alt="image">' +
+        '<img data-id="pg001_im003" alt="pg001_im003"><img data-id="pg001_im004" alt="" role="presentation"></section>'
+    );
+    expect(findings.map((f) => [f.rule, f.severity, f.elementId])).toEqual([
+      ["image-alt", "error", "pg001_im001"],
+      ["image-alt", "error", "pg001_im002"],
+      ["image-alt", "error", "pg001_im003"],
+    ]);
+  });
+
+  it("flags lang attributes that do not match the book language", () => {
+    const findings = audit('<section lang="fr"><p data-id="t1">Bonjour</p></section>');
+    expect(findings).toEqual([
+      {
+        rule: "lang",
+        severity: "warning",
+        message: 'lang="fr" does not match the book language "en"',
+        elementId: null,
+      },
+    ]);
+  });
+
+  it("checks ARIA roles, attributes and references", () => {
+    const findings = audit(
+      '<section role="activity"><div role="banana"></div>' +
+        '<p data-id="t1" aria-labelledby="missing" aria-foo="x">Hi</p>' +
+        '<div aria-hidden="true"><button>Go</button></div></section>'
+    );
+    expect(findings.map((f) => f.message)).toEqual([
+      'Unknown ARIA role "banana" on <div>',
+      'aria-labelledby references missing id "missing"',
+      "Unknown ARIA attribute aria-foo",
+      "aria-hidden <div> contains focusable content",
+    ]);
+  });
+});
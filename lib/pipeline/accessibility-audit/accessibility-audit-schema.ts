@@ -0,0 +1,18 @@
+import type { AccessibilityRule } from "../core/schemas";
+
+export interface AccessibilityFindingEntry {
+  rule: AccessibilityRule;
+  severity: "error" | "warning";
+  message: string;
+  element_id: string | null;
+}
+
+/**
+ * WCAG-oriented findings for one rendered section, stored as the
+ * `accessibility-audit` node (item_id = section ID).
+ */
+export interface SectionAccessibilityAudit {
+  /** Version of the `web-rendering` node the findings were computed from */
+  web_rendering_version: number;
+  findings: AccessibilityFindingEntry[];
+}
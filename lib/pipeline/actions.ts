@@ -9,30 +9,53 @@ import {
   createPageRunner,
   runPagePipeline as runPagePipelineImpl,
   runImageClassification as runImageClassificationImpl,
+  runImageDescription as runImageDescriptionImpl,
+  applyPageImageDescriptions as applyPageImageDescriptionsImpl,
   runTextClassification as runTextClassificationImpl,
+  runTranslation as runTranslationImpl,
   runPageSectioning as runPageSectioningImpl,
   runWebRendering as runWebRenderingImpl,
   runWebRenderingSection as runWebRenderingSectionImpl,
   runWebEdit as runWebEditImpl,
+  runSectionLinking as runSectionLinkingImpl,
+  runAccessibilityAudit as runAccessibilityAuditImpl,
+  findRunningTextInconsistencies as findRunningTextInconsistenciesImpl,
+  applyRunningTextCorrections as applyRunningTextCorrectionsImpl,
+  runPageLabeling as runPageLabelingImpl,
+  runTableOfContents as runTableOfContentsImpl,
+  type AccessibilityAuditSummary,
+  type RunningTextApplyResult,
+  type RunningTextCluster,
   nullProgress,
   createCallbackProgress,
+  type PageStepName,
 } from "./runner";
-import type { SectionRendering } from "./core/schemas";
+import type { SectionLinksOutput, SectionRendering } from "./core/schemas";
 import type { Annotation } from "./steps/web-rendering";
+import type { PageLabels } from "./page-labels/page-labels-schema";
+import type { TableOfContents } from "./table-of-contents/table-of-contents-schema";
 
 // Re-export types that API routes need
 export type { Annotation } from "./steps/web-rendering";
 export type { SectionRendering } from "./core/schemas";
+export type { RunningTextCluster, RunningTextCorrection } from "./runner";
 
 // ---------------------------------------------------------------------------
 // Shared helpers
 // ---------------------------------------------------------------------------
 
-function createRunner(label: string, options?: { skipCache?: boolean; onProgress?: (msg: string) => void }) {
+interface RunnerOptions {
+  skipCache?: boolean;
+  onProgress?: (msg: string) => void;
+  signal?: AbortSignal;
+}
+
+function createRunner(label: string, options?: RunnerOptions) {
   return createPageRunner({
     label,
     progress: options?.onProgress ? createCallbackProgress(options.onProgress) : nullProgress,
     skipCache: options?.skipCache,
+    signal: options?.signal,
   });
 }
 
@@ -48,9 +71,9 @@ export async function runWebRendering(
   label: string,
   pageId: string,
   onProgress?: (message: string) => void,
-  options?: { skipCache?: boolean }
+  options?: { skipCache?: boolean; signal?: AbortSignal }
 ): Promise<WebRenderingResult> {
-  const runner = createRunner(label, { skipCache: options?.skipCache, onProgress });
+  const runner = createRunner(label, { ...options, onProgress });
   const result = await runWebRenderingImpl(pageId, runner, onProgress);
   return { sections: result.sections };
 }
@@ -70,9 +93,9 @@ export async function runWebRenderingSection(
   pageId: string,
   sectionIndex: number,
   onProgress?: (message: string) => void,
-  options?: { skipCache?: boolean }
+  options?: { skipCache?: boolean; signal?: AbortSignal }
 ): Promise<WebEditResult> {
-  const runner = createRunner(label, { skipCache: options?.skipCache, onProgress });
+  const runner = createRunner(label, { ...options, onProgress });
   const result = await runWebRenderingSectionImpl(pageId, sectionIndex, runner);
   return {
     section: result,
@@ -95,10 +118,11 @@ export interface WebEditParams {
 
 export async function runWebEdit(
   label: string,
-  params: WebEditParams
+  params: WebEditParams,
+  options?: { signal?: AbortSignal }
 ): Promise<WebEditResult> {
   const { pageId, sectionIndex, annotationImageBase64, annotations, currentHtml } = params;
-  const runner = createRunner(label);
+  const runner = createRunner(label, options);
   const result = await runWebEditImpl(
     pageId,
     sectionIndex,
@@ -126,13 +150,26 @@ export interface TextClassificationResult {
 export async function runTextClassification(
   label: string,
   pageId: string,
-  options?: { skipCache?: boolean }
+  options?: { skipCache?: boolean; signal?: AbortSignal }
 ): Promise<TextClassificationResult> {
-  const runner = createRunner(label, { skipCache: options?.skipCache });
+  const runner = createRunner(label, options);
   const result = await runTextClassificationImpl(pageId, runner);
   return { version: result.version };
 }
 
+// ---------------------------------------------------------------------------
+// Translation — translate a page's text and rebuild its language variants
+// ---------------------------------------------------------------------------
+
+export async function runTranslation(
+  label: string,
+  pageId: string,
+  options?: { skipCache?: boolean; languages?: string[]; signal?: AbortSignal }
+): Promise<Array<{ language: string; version: number }>> {
+  const runner = createRunner(label, options);
+  return runTranslationImpl(pageId, runner, options?.languages);
+}
+
 // ---------------------------------------------------------------------------
 // Page sectioning — section a single page
 // ---------------------------------------------------------------------------
@@ -140,33 +177,121 @@ export async function runTextClassification(
 export async function runPageSectioning(
   label: string,
   pageId: string,
-  options?: { skipCache?: boolean }
+  options?: { skipCache?: boolean; signal?: AbortSignal }
 ): Promise<{ version: number }> {
-  const runner = createRunner(label, { skipCache: options?.skipCache });
+  const runner = createRunner(label, options);
   return runPageSectioningImpl(pageId, runner);
 }
 
 // ---------------------------------------------------------------------------
-// Image classification — rule-based size filtering for one page (no LLM)
+// Image classification — size filters, or the LLM when a model is configured
 // ---------------------------------------------------------------------------
 
 export async function runImageClassification(
   label: string,
-  pageId: string
+  pageId: string,
+  options?: { skipCache?: boolean; signal?: AbortSignal }
 ): Promise<{ version: number }> {
-  const runner = createRunner(label);
+  const runner = createRunner(label, options);
   return runImageClassificationImpl(pageId, runner);
 }
 
 // ---------------------------------------------------------------------------
-// Page pipeline — full sequential processing of one page
+// Image description — LLM alt text and long descriptions for one page
+// ---------------------------------------------------------------------------
+
+export async function runImageDescription(
+  label: string,
+  pageId: string,
+  options?: { skipCache?: boolean; signal?: AbortSignal }
+): Promise<{ version: number }> {
+  const runner = createRunner(label, options);
+  return runImageDescriptionImpl(pageId, runner);
+}
+
+/** Stamp edited image descriptions onto the renderings that show the page's images. */
+export async function applyPageImageDescriptions(
+  label: string,
+  pageId: string
+): Promise<string[]> {
+  return applyPageImageDescriptionsImpl(pageId, createRunner(label));
+}
+
+// ---------------------------------------------------------------------------
+// Page pipeline — sequential processing of one page (all steps by default)
 // ---------------------------------------------------------------------------
 
 export async function runPagePipeline(
   label: string,
   pageId: string,
-  onProgress?: (message: string) => void
+  onProgress?: (message: string) => void,
+  options?: { signal?: AbortSignal; steps?: PageStepName[] }
 ): Promise<void> {
-  const runner = createRunner(label, { onProgress });
-  await runPagePipelineImpl(pageId, runner);
+  const runner = createRunner(label, { signal: options?.signal, onProgress });
+  await runPagePipelineImpl(pageId, runner, { steps: options?.steps });
+}
+
+// ---------------------------------------------------------------------------
+// Section linking — find sections that continue across page breaks
+// ---------------------------------------------------------------------------
+
+export async function runSectionLinking(
+  label: string,
+  onProgress?: (message: string) => void,
+  options?: { skipCache?: boolean; signal?: AbortSignal }
+): Promise<SectionLinksOutput> {
+  const runner = createRunner(label, { ...options, onProgress });
+  return runSectionLinkingImpl(runner, { render: true });
+}
+
+// ---------------------------------------------------------------------------
+// Accessibility audit — re-check every rendered section (no LLM)
+// ---------------------------------------------------------------------------
+
+export async function runAccessibilityAudit(
+  label: string,
+  onProgress?: (message: string) => void,
+  options?: { signal?: AbortSignal }
+): Promise<AccessibilityAuditSummary> {
+  const runner = createRunner(label, { ...options, onProgress });
+  return runAccessibilityAuditImpl(runner);
+}
+
+// ---------------------------------------------------------------------------
+// Running text — consistent pruning of headers, footers and page numbers
+// ---------------------------------------------------------------------------
+
+export async function findRunningTextInconsistencies(
+  label: string
+): Promise<RunningTextCluster[]> {
+  return findRunningTextInconsistenciesImpl(createRunner(label));
+}
+
+export async function applyRunningTextCorrections(
+  label: string,
+  keys: string[]
+): Promise<RunningTextApplyResult> {
+  return applyRunningTextCorrectionsImpl(createRunner(label), keys);
+}
+
+// ---------------------------------------------------------------------------
+// Page labels — map PDF pages to printed page numbers (no LLM)
+// ---------------------------------------------------------------------------
+
+export async function runPageLabeling(
+  label: string,
+  options?: { signal?: AbortSignal }
+): Promise<PageLabels> {
+  return runPageLabelingImpl(createRunner(label, options));
+}
+
+// ---------------------------------------------------------------------------
+// Table of contents — parse TOC sections and link entries (no LLM)
+// ---------------------------------------------------------------------------
+
+export async function runTableOfContents(
+  label: string,
+  options?: { signal?: AbortSignal }
+): Promise<TableOfContents | null> {
+  return runTableOfContentsImpl(createRunner(label, options));
 }
@@ -0,0 +1,133 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { z } from "zod/v4";
+import {
+  BUILTIN_PROVIDERS,
+  createLLMModel,
+  defaultModelFor,
+  parseModelRef,
+  resolveLanguageModel,
+  type LLMLogEntry,
+  type ProviderRegistry,
+} from "../llm";
+
+const providers: ProviderRegistry = {
+  ...BUILTIN_PROVIDERS,
+  ollama: { type: "openai-compatible", baseURL: "http://localhost:11434/v1" },
+  azure: { type: "azure", resourceName: "my-resource", apiKeyEnv: "TEST_AZURE_KEY" },
+  broken: { type: "openai-compatible" },
+};
+
+function describeModel(model: unknown): { provider: string; modelId: string } {
+  const m = model as { provider: string; modelId: string };
+  return { provider: m.provider, modelId: m.modelId };
+}
+
+describe("parseModelRef", () => {
+  it("splits registered provider prefixes only", () => {
+    expect(parseModelRef("openai:gpt-5.2", providers)).toEqual({
+      provider: "openai",
+      modelId: "gpt-5.2",
+    });
+    expect(parseModelRef("ollama:llama3.1:8b", providers)).toEqual({
+      provider: "ollama",
+      modelId: "llama3.1:8b",
+    });
+    expect(parseModelRef("llama3.1:8b", providers)).toEqual({ modelId: "llama3.1:8b" });
+  });
+});
+
+describe("resolveLanguageModel", () => {
+  afterEach(() => {
+    delete process.env.TEST_AZURE_KEY;
+  });
+
+  it("resolves prefixed and bare model IDs against the registry", () => {
+    expect(describeModel(resolveLanguageModel("openai", "ollama:llama3.1:8b", providers))).toEqual({
+      provider: "ollama.chat",
+      modelId: "llama3.1:8b",
+    });
+    expect(describeModel(resolveLanguageModel("ollama", "qwen2.5", providers))).toEqual({
+      provider: "ollama.chat",
+      modelId: "qwen2.5",
+    });
+    expect(describeModel(resolveLanguageModel("openai", undefined, providers)).modelId).toBe(
+      "gpt-4o"
+    );
+  });
+
+  it("uses the deployment name as the Azure model ID", () => {
+    process.env.TEST_AZURE_KEY = "secret";
+    expect(describeModel(resolveLanguageModel("azure", "gpt-4o-prod", providers))).toEqual({
+      provider: "azure.chat",
+      modelId: "gpt-4o-prod",
+    });
+  });
+
+  it("reports configuration errors", () => {
+    expect(() => resolveLanguageModel("missing", "x", providers)).toThrow(
+      'Unknown LLM provider "missing"'
+    );
+    expect(() => resolveLanguageModel("broken", "x", providers)).toThrow("requires a base_url");
+    expect(() => resolveLanguageModel("azure", "x", providers)).toThrow(
+      "TEST_AZURE_KEY is not set"
+    );
+    expect(() => defaultModelFor("ollama", providers)).toThrow("has no default_model");
+  });
+});
+
+describe("createLLMModel", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("rejects without calling the provider once the signal is aborted", async () => {
+    const model = createLLMModel({ provider: "ollama", modelId: "qwen2.5", providers });
+    const controller = new AbortController();
+    controller.abort(new Error("Cancelled"));
+
+    await expect(
+      model.generateObject({
+        schema: {},
+        messages: [{ role: "user", content: "hello" }],
+        maxRetries: 2,
+        abortSignal: controller.signal,
+      })
+    ).rejects.toThrow("Cancelled");
+  });
+
+  it("logs the usage of attempts that all fail validation", async () => {
+    // An OpenAI-compatible endpoint answering every request with 10 + 5 tokens
+    vi.stubGlobal("fetch", async () =>
+      Response.json({
+        id: "chatcmpl-1",
+        created: 0,
+        model: "qwen2.5",
+        choices: [
+          { index: 0, message: { role: "assistant", content: '{"answer":"no"}' }, finish_reason: "stop" },
+        ],
+        usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+      })
+    );
+    const logs: LLMLogEntry[] = [];
+    const model = createLLMModel({
+      provider: "ollama",
+      modelId: "qwen2.5",
+      providers,
+      onLog: (entry) => logs.push(entry),
+    });
+
+    await expect(
+      model.generateObject({
+        schema: z.object({ answer: z.string() }),
+        messages: [{ role: "user", content: "hello" }],
+        validate: () => ({ valid: false, errors: ["Wrong answer"] }),
+        maxRetries: 2,
+        log: { taskType: "test", promptName: "test" },
+      })
+    ).rejects.toThrow("Validation failed after 3 attempts");
+
+    expect(logs).toHaveLength(1);
+    expect(logs[0].usage).toMatchObject({ inputTokens: 30, outputTokens: 15 });
+    expect(logs[0].validationErrors).toEqual(["Wrong answer", "Wrong answer", "Wrong answer"]);
+  });
+});
@@ -3,6 +3,8 @@
  *
  * This module provides a clean interface for LLM calls that:
  * - Wraps the Vercel AI SDK
+ * - Resolves models through a provider registry (cloud APIs, Azure OpenAI,
+ *   local OpenAI-compatible servers)
  * - Handles disk-based caching of responses
  * - Supports validation with retry loops
  * - Logs all calls for debugging
@@ -12,9 +14,9 @@ import fs from "node:fs";
 import path from "node:path";
 import crypto from "node:crypto";
 import { generateObject, type LanguageModel, type ModelMessage } from "ai";
-import { openai } from "@ai-sdk/openai";
-import { anthropic } from "@ai-sdk/anthropic";
-import { google } from "@ai-sdk/google";
+import { openai, createOpenAI } from "@ai-sdk/openai";
+import { anthropic, createAnthropic } from "@ai-sdk/anthropic";
+import { google, createGoogleGenerativeAI } from "@ai-sdk/google";
 import type {
   LLMModel,
   GenerateObjectOptions,
@@ -27,36 +29,162 @@ import { renderPrompt, type PromptMessage } from "../prompt";
 type GenerateObjectParams = Parameters<typeof generateObject>[0];
 
 // ============================================================================
-// Provider types and model resolution
+// Provider registry and model resolution
 // ============================================================================
 
+/** Built-in cloud providers, available without a `providers` entry. */
 export type LLMProvider = "openai" | "anthropic" | "google";
 
+export type ProviderType = LLMProvider | "openai-compatible" | "azure";
+
+/**
+ * A named provider (`providers.<name>` in config.yaml). Steps reference its
+ * models as `<name>:<model-id>`.
+ */
+export interface ProviderDefinition {
+  type: ProviderType;
+  /** API base URL; required for openai-compatible servers (Ollama, vLLM, LM Studio) */
+  baseURL?: string;
+  /** Azure OpenAI resource name, used when no base URL is given */
+  resourceName?: string;
+  /** Environment variable holding the API key (default: the SDK's own variable) */
+  apiKeyEnv?: string;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+  /** Model used when a step names none */
+  defaultModel?: string;
+}
+
+export type ProviderRegistry = Record<string, ProviderDefinition>;
+
 const DEFAULT_MODELS: Record<LLMProvider, string> = {
   openai: "gpt-4o",
   anthropic: "claude-sonnet-4-20250514",
   google: "gemini-2.0-flash",
 };
 
-const MODEL_FACTORIES: Record<LLMProvider, (id: string) => LanguageModel> = {
-  openai: (id) => openai(id),
-  anthropic: (id) => anthropic(id),
-  google: (id) => google(id),
+export const BUILTIN_PROVIDERS: ProviderRegistry = {
+  openai: { type: "openai" },
+  anthropic: { type: "anthropic" },
+  google: { type: "google" },
+};
+
+const MODEL_FACTORIES: Record<
+  ProviderType,
+  (name: string, def: ProviderDefinition, id: string) => LanguageModel
+> = {
+  openai: (_name, def, id) =>
+    hasClientOptions(def)
+      ? createOpenAI({ baseURL: def.baseURL, apiKey: apiKeyFor(def), headers: def.headers })(id)
+      : openai(id),
+  anthropic: (_name, def, id) =>
+    hasClientOptions(def)
+      ? createAnthropic({ baseURL: def.baseURL, apiKey: apiKeyFor(def), headers: def.headers })(id)
+      : anthropic(id),
+  google: (_name, def, id) =>
+    hasClientOptions(def)
+      ? createGoogleGenerativeAI({
+          baseURL: def.baseURL,
+          apiKey: apiKeyFor(def),
+          headers: def.headers,
+        })(id)
+      : google(id),
+  // Local servers implement the Chat Completions API and often need no key
+  "openai-compatible": (name, def, id) => {
+    if (!def.baseURL) {
+      throw new Error(`Provider "${name}" (openai-compatible) requires a base_url`);
+    }
+    return createOpenAI({
+      name,
+      baseURL: def.baseURL,
+      apiKey: apiKeyFor(def) ?? "not-needed",
+      headers: def.headers,
+    }).chat(id);
+  },
+  // Azure's v1 endpoint is OpenAI-compatible; the model ID is the deployment name
+  azure: (name, def, id) => {
+    const baseURL =
+      def.baseURL ??
+      (def.resourceName
+        ? `https://${def.resourceName}.openai.azure.com/openai/v1`
+        : undefined);
+    if (!baseURL) {
+      throw new Error(`Provider "${name}" (azure) requires a base_url or resource_name`);
+    }
+    const apiKey = apiKeyFor(def) ?? process.env.AZURE_OPENAI_API_KEY;
+    return createOpenAI({
+      name,
+      baseURL,
+      apiKey,
+      headers: { ...(apiKey ? { "api-key": apiKey } : {}), ...def.headers },
+    }).chat(id);
+  },
 };
 
+/**
+ * Split a model reference into provider name and model ID. A prefix only
+ * counts as a provider when it is registered, so IDs that contain colons
+ * themselves (e.g. Ollama's `llama3.1:8b`) stay intact.
+ */
+export function parseModelRef(
+  modelRef: string,
+  providers: ProviderRegistry = BUILTIN_PROVIDERS
+): { provider?: string; modelId: string } {
+  const i = modelRef.indexOf(":");
+  if (i > 0 && Object.hasOwn(providers, modelRef.slice(0, i))) {
+    return { provider: modelRef.slice(0, i), modelId: modelRef.slice(i + 1) };
+  }
+  return { modelId: modelRef };
+}
+
+export function defaultModelFor(
+  provider: string,
+  providers: ProviderRegistry = BUILTIN_PROVIDERS
+): string {
+  const def = lookupProvider(provider, providers);
+  const model =
+    def.defaultModel ??
+    (def.type in DEFAULT_MODELS ? DEFAULT_MODELS[def.type as LLMProvider] : undefined);
+  if (!model) {
+    throw new Error(`Provider "${provider}" has no default_model; set a model for each step`);
+  }
+  return model;
+}
+
+/**
+ * Resolve a model reference (`<provider>:<model-id>` or a bare model ID for
+ * the default provider) against the registry.
+ */
 export function resolveLanguageModel(
-  provider: LLMProvider,
-  modelId?: string
+  provider: string,
+  modelId?: string,
+  providers: ProviderRegistry = BUILTIN_PROVIDERS
 ): LanguageModel {
-  const id = modelId ?? DEFAULT_MODELS[provider];
+  const ref = parseModelRef(modelId ?? defaultModelFor(provider, providers), providers);
+  const name = ref.provider ?? provider;
+  const def = lookupProvider(name, providers);
+  return MODEL_FACTORIES[def.type](name, def, ref.modelId);
+}
 
-  // Handle "provider:model-id" format
-  if (modelId?.includes(":")) {
-    const [p, m] = modelId.split(":", 2);
-    return MODEL_FACTORIES[p as LLMProvider](m);
+function lookupProvider(name: string, providers: ProviderRegistry): ProviderDefinition {
+  const def = Object.hasOwn(providers, name) ? providers[name] : undefined;
+  if (!def) {
+    throw new Error(
+      `Unknown LLM provider "${name}". Known providers: ${Object.keys(providers).join(", ")}`
+    );
   }
+  return def;
+}
+
+function hasClientOptions(def: ProviderDefinition): boolean {
+  return !!(def.baseURL || def.apiKeyEnv || def.headers);
+}
 
-  return MODEL_FACTORIES[provider](id);
+function apiKeyFor(def: ProviderDefinition): string | undefined {
+  if (!def.apiKeyEnv) return undefined;
+  const key = process.env[def.apiKeyEnv];
+  if (!key) throw new Error(`Environment variable ${def.apiKeyEnv} is not set`);
+  return key;
 }
 
 // ============================================================================
@@ -64,8 +192,11 @@ export function resolveLanguageModel(
 // ============================================================================
 
 export interface CreateLLMModelOptions {
-  provider: LLMProvider;
+  /** Default provider name, used for model IDs without a provider prefix */
+  provider: string;
   modelId?: string;
+  /** Provider registry (default: the built-in cloud providers) */
+  providers?: ProviderRegistry;
   cacheDir?: string;
   skipCache?: boolean;
   onLog?: (entry: LLMLogEntry) => void;
@@ -107,8 +238,9 @@ export interface LLMLogContentPart {
  * This is the main entry point for creating LLM clients in the pipeline.
  */
 export function createLLMModel(options: CreateLLMModelOptions): LLMModel {
-  const languageModel = resolveLanguageModel(options.provider, options.modelId);
-  const modelId = options.modelId ?? DEFAULT_MODELS[options.provider];
+  const providers = options.providers ?? BUILTIN_PROVIDERS;
+  const languageModel = resolveLanguageModel(options.provider, options.modelId, providers);
+  const modelId = options.modelId ?? defaultModelFor(options.provider, providers);
 
   return {
     async generateObject<T>(
@@ -124,6 +256,7 @@ export function createLLMModel(options: CreateLLMModelOptions): LLMModel {
       let totalUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
 
       for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        opts.abortSignal?.throwIfAborted();
         const hash = computeHash({
           modelId,
           system: opts.system,
@@ -153,6 +286,7 @@ export function createLLMModel(options: CreateLLMModelOptions): LLMModel {
               schema: opts.schema,
               system: opts.system,
               messages: aiMessages,
+              abortSignal: opts.abortSignal,
             } as GenerateObjectParams);
 
             result = generated.object as T;
@@ -162,6 +296,14 @@ export function createLLMModel(options: CreateLLMModelOptions): LLMModel {
             const u = generated.usage;
             totalUsage.inputTokens += u.inputTokens ?? 0;
             totalUsage.outputTokens += u.outputTokens ?? 0;
+            const cacheRead = u.inputTokenDetails?.cacheReadTokens ?? 0;
+            const cacheWrite = u.inputTokenDetails?.cacheWriteTokens ?? 0;
+            if (cacheRead > 0) {
+              totalUsage.cacheReadTokens = (totalUsage.cacheReadTokens ?? 0) + cacheRead;
+            }
+            if (cacheWrite > 0) {
+              totalUsage.cacheWriteTokens = (totalUsage.cacheWriteTokens ?? 0) + cacheWrite;
+            }
 
             // Write cache
             if (cacheFile) {
@@ -218,6 +360,9 @@ export function createLLMModel(options: CreateLLMModelOptions): LLMModel {
             cached: lastCacheHit,
           };
         } catch (err) {
+          // Cancelled: don't retry or log a failed attempt
+          if (opts.abortSignal?.aborted) throw err;
+
           const errMsg = err instanceof Error ? err.message : String(err);
           allErrors.push(errMsg);
           if (cacheFile) bustCache(cacheFile);
@@ -248,7 +393,26 @@ export function createLLMModel(options: CreateLLMModelOptions): LLMModel {
         }
       }
 
-      // Should never reach here, but TypeScript needs this
+      // Every attempt failed validation: log the tokens they used
+      if (opts.log) {
+        options.onLog?.({
+          timestamp: new Date().toISOString(),
+          taskType: opts.log.taskType,
+          pageId: opts.log.pageId,
+          promptName: opts.log.promptName,
+          modelId,
+          cacheHit: false,
+          attempt: maxRetries,
+          durationMs: Date.now() - t0,
+          usage:
+            totalUsage.inputTokens > 0 || totalUsage.outputTokens > 0
+              ? totalUsage
+              : undefined,
+          validationErrors: allErrors,
+          system: opts.system,
+          messages: messagesToLogFormat(currentMessages),
+        });
+      }
       throw new Error(
         `Validation failed after ${maxRetries + 1} attempts. Errors:\n${allErrors.join("\n")}`
       );
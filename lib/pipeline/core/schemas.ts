@@ -27,6 +27,70 @@ export type ImageClassificationOutput = z.infer<
   typeof imageClassificationOutputSchema
 >;
 
+/** Categories the LLM classification mode assigns; only "content" is kept. */
+export const IMAGE_CATEGORIES = [
+  "content",
+  "decorative",
+  "logo",
+  "background",
+  "duplicate",
+] as const;
+
+export type ImageCategory = (typeof IMAGE_CATEGORIES)[number];
+
+/**
+ * Build the LLM schema for image classification, with image IDs constrained
+ * to the images actually sent.
+ */
+export function buildImageClassificationLLMSchema(imageIds: [string, ...string[]]) {
+  return z.object({
+    reasoning: z.string(),
+    images: z.array(
+      z.object({
+        image_id: z.enum(imageIds),
+        category: z.enum(IMAGE_CATEGORIES),
+        reason: z.string(),
+      })
+    ),
+  });
+}
+
+// ============================================================================
+// Image Description (alt text)
+// ============================================================================
+
+export const imageDescriptionSchema = z.object({
+  imageId: z.string(),
+  altText: z.string(), // short alt text; empty when decorative
+  longDescription: z.string().nullable(), // charts, diagrams, maps, etc.
+  isDecorative: z.boolean(),
+});
+
+export const imageDescriptionOutputSchema = z.object({
+  reasoning: z.string(),
+  images: z.array(imageDescriptionSchema),
+});
+
+export type ImageDescription = z.infer<typeof imageDescriptionSchema>;
+export type ImageDescriptionOutput = z.infer<typeof imageDescriptionOutputSchema>;
+
+/**
+ * Build an LLM-facing schema with image IDs constrained to the page's images.
+ */
+export function buildImageDescriptionLLMSchema(imageIds: [string, ...string[]]) {
+  return z.object({
+    reasoning: z.string(),
+    images: z.array(
+      z.object({
+        image_id: z.enum(imageIds),
+        is_decorative: z.boolean(),
+        alt_text: z.string(),
+        long_description: z.string().nullable(),
+      })
+    ),
+  });
+}
+
 // ============================================================================
 // Text Classification
 // ============================================================================
@@ -37,10 +101,27 @@ export const textEntrySchema = z.object({
   isPruned: z.boolean(),
 });
 
+/**
+ * One cell of a `table` group. `textIndex` points into the group's texts;
+ * null is a blank cell (e.g. one to fill in).
+ */
+export const tableCellSchema = z.object({
+  textIndex: z.number().int().nullable(),
+  isHeader: z.boolean(),
+  rowSpan: z.number().int().min(1),
+  colSpan: z.number().int().min(1),
+});
+
+export const textTableSchema = z.object({
+  rows: z.array(z.array(tableCellSchema)),
+});
+
 export const textGroupSchema = z.object({
   groupId: z.string(),
   groupType: z.string(),
   texts: z.array(textEntrySchema),
+  /** Cell structure of a `table` group */
+  table: textTableSchema.optional(),
 });
 
 export const textClassificationOutputSchema = z.object({
@@ -49,6 +130,8 @@ export const textClassificationOutputSchema = z.object({
 });
 
 export type TextEntry = z.infer<typeof textEntrySchema>;
+export type TableCell = z.infer<typeof tableCellSchema>;
+export type TextTable = z.infer<typeof textTableSchema>;
 export type TextGroup = z.infer<typeof textGroupSchema>;
 export type TextClassificationOutput = z.infer<
   typeof textClassificationOutputSchema
@@ -73,15 +156,142 @@ export function buildTextClassificationLLMSchema(
             text: z.string(),
           })
         ),
+        // Cells of a "table" group, row by row; null for other groups
+        table: z
+          .object({
+            rows: z.array(
+              z.array(
+                z.object({
+                  text_index: z.number().int().nullable(),
+                  is_header: z.boolean(),
+                  row_span: z.number().int(),
+                  col_span: z.number().int(),
+                })
+              )
+            ),
+          })
+          .nullable(),
+      })
+    ),
+  });
+}
+
+// ============================================================================
+// Translation (per page and target language)
+// ============================================================================
+
+export const textTranslationSchema = z.object({
+  textId: z.string(), // same ID as in text classification / sectioning
+  text: z.string(),
+});
+
+export const translationOutputSchema = z.object({
+  language: z.string(), // target language code, e.g. "fr"
+  reasoning: z.string(),
+  texts: z.array(textTranslationSchema),
+});
+
+export type TextTranslation = z.infer<typeof textTranslationSchema>;
+export type TranslationOutput = z.infer<typeof translationOutputSchema>;
+
+/**
+ * Build an LLM-facing schema with text IDs constrained to the page's texts.
+ */
+export function buildTranslationLLMSchema(textIds: [string, ...string[]]) {
+  return z.object({
+    reasoning: z.string(),
+    translations: z.array(
+      z.object({
+        text_id: z.enum(textIds),
+        text: z.string(),
       })
     ),
   });
 }
 
+// ============================================================================
+// Math Re-OCR (LaTeX transcription of a page's math texts)
+// ============================================================================
+
+export function buildMathReocrLLMSchema(textIds: [string, ...string[]]) {
+  return z.object({
+    reasoning: z.string(),
+    expressions: z.array(
+      z.object({
+        text_id: z.enum(textIds),
+        latex: z.string(),
+      })
+    ),
+  });
+}
+
+// ============================================================================
+// Page OCR (transcription of pages without extractable text)
+// ============================================================================
+
+export const pageOcrOutputSchema = z.object({
+  reasoning: z.string(),
+  text: z.string(), // page text in reading order, one line per printed line
+});
+
+export type PageOcrOutput = z.infer<typeof pageOcrOutputSchema>;
+
+// ============================================================================
+// Speech (read-along audio per page)
+// ============================================================================
+
+export const wordTimingSchema = z.object({
+  start: z.number().int(), // character offsets in the text
+  end: z.number().int(),
+  startMs: z.number(),
+  endMs: z.number(),
+});
+
+export const speechClipSchema = z.object({
+  textId: z.string(), // same ID as in text classification / sectioning
+  sourceHash: z.string(), // hash of provider, voice, language and text
+  audioHash: z.string(), // hash of the audio file contents
+  format: z.enum(["wav", "mp3"]),
+  durationMs: z.number(),
+  words: z.array(wordTimingSchema),
+});
+
+export const speechOutputSchema = z.object({
+  language: z.string(),
+  provider: z.string(),
+  voice: z.string().nullable(),
+  clips: z.array(speechClipSchema),
+});
+
+export type WordTimingEntry = z.infer<typeof wordTimingSchema>;
+export type SpeechClip = z.infer<typeof speechClipSchema>;
+export type SpeechOutput = z.infer<typeof speechOutputSchema>;
+
+/** Book-relative path of an audio file (`audio/<hash>.<format>`). */
+export function speechAudioPath(clip: Pick<SpeechClip, "audioHash" | "format">): string {
+  return `audio/${clip.audioHash}.${clip.format}`;
+}
+
 // ============================================================================
 // Page Sectioning
 // ============================================================================
 
+/** A `table` group within a section, with cells resolved to text IDs. */
+export const sectionTableSchema = z.object({
+  groupId: z.string(),
+  rows: z.array(
+    z.array(
+      z.object({
+        // null for blank cells and cells whose text is pruned
+        textId: z.string().nullable(),
+        isHeader: z.boolean(),
+        rowSpan: z.number().int().min(1),
+        colSpan: z.number().int().min(1),
+      })
+    )
+  ),
+});
+
 export const sectionSchema = z.object({
   sectionType: z.string(),
   partIds: z.array(z.string()), // References to group IDs or image IDs
@@ -94,6 +304,7 @@ export const sectionSchema = z.object({
     .array(z.object({ textId: z.string(), textType: z.string(), text: z.string() }))
     .optional(),
   imageIds: z.array(z.string()).optional(),
+  tables: z.array(sectionTableSchema).optional(),
 });
 
 export const pageSectioningOutputSchema = z.object({
@@ -102,6 +313,7 @@ export const pageSectioningOutputSchema = z.object({
 });
 
 export type Section = z.infer<typeof sectionSchema>;
+export type SectionTable = z.infer<typeof sectionTableSchema>;
 export type PageSectioningOutput = z.infer<typeof pageSectioningOutputSchema>;
 
 /**
@@ -125,6 +337,31 @@ export function buildPageSectioningLLMSchema(
   });
 }
 
+// ============================================================================
+// Section Linking (book-level, across page breaks)
+// ============================================================================
+
+export const sectionLinkSchema = z.object({
+  fromSectionId: z.string(), // last section on a page, e.g. "pg001_s003"
+  toSectionId: z.string(), // its continuation on the next page, e.g. "pg002_s001"
+  reasoning: z.string(),
+});
+
+export const sectionLinksOutputSchema = z.object({
+  links: z.array(sectionLinkSchema),
+});
+
+export type SectionLink = z.infer<typeof sectionLinkSchema>;
+export type SectionLinksOutput = z.infer<typeof sectionLinksOutputSchema>;
+
+/**
+ * LLM response schema for deciding whether one section continues another.
+ */
+export const sectionContinuationLLMSchema = z.object({
+  reasoning: z.string(),
+  continues: z.boolean(),
+});
+
 // ============================================================================
 // Web Rendering
 // ============================================================================
@@ -134,6 +371,10 @@ export const sectionRenderingSchema = z.object({
   sectionType: z.string(),
   reasoning: z.string(),
   html: z.string(),
+  /** Continuation sections rendered into this one (merged multi-page unit) */
+  mergedSectionIds: z.array(z.string()).optional(),
+  /** Set on a continuation section whose content lives in another section */
+  mergedInto: z.string().optional(),
 });
 
 export const webRenderingOutputSchema = z.object({
@@ -151,6 +392,47 @@ export const webRenderingLLMResponseSchema = z.object({
   content: z.string(),
 });
 
+/**
+ * A section rendering in a target language: the source HTML with every text
+ * element's content replaced by its translation, so the data-id structure
+ * is identical.
+ */
+export const translatedRenderingSchema = z.object({
+  language: z.string(),
+  webRenderingVersion: z.number().int(), // source rendering it was built from
+  html: z.string(),
+});
+
+export type TranslatedRendering = z.infer<typeof translatedRenderingSchema>;
+
+// ============================================================================
+// Accessibility Audit (per rendered section)
+// ============================================================================
+
+export const ACCESSIBILITY_RULES = [
+  "color-contrast",
+  "heading-order",
+  "image-alt",
+  "lang",
+  "aria",
+] as const;
+
+export const accessibilityFindingSchema = z.object({
+  rule: z.enum(ACCESSIBILITY_RULES),
+  severity: z.enum(["error", "warning"]),
+  message: z.string(),
+  elementId: z.string().nullable(), // data-id of the offending element, if any
+});
+
+export const accessibilityAuditOutputSchema = z.object({
+  webRenderingVersion: z.number().int(), // rendering version that was audited
+  findings: z.array(accessibilityFindingSchema),
+});
+
+export type AccessibilityRule = (typeof ACCESSIBILITY_RULES)[number];
+export type AccessibilityFinding = z.infer<typeof accessibilityFindingSchema>;
+export type AccessibilityAuditOutput = z.infer<typeof accessibilityAuditOutputSchema>;
+
 // ============================================================================
 // Section Edit (for annotation-based edits)
 // ============================================================================
@@ -166,6 +448,38 @@ export type SectionEditOutput = z.infer<typeof sectionEditOutputSchema>;
 // DB format converters (for compatibility with existing storage)
 // ============================================================================
 
+export interface DBTextTable {
+  rows: Array<
+    Array<{ text_index: number | null; is_header: boolean; row_span: number; col_span: number }>
+  >;
+}
+
+function toDBTable(table: TextTable): DBTextTable {
+  return {
+    rows: table.rows.map((row) =>
+      row.map((c) => ({
+        text_index: c.textIndex,
+        is_header: c.isHeader,
+        row_span: c.rowSpan,
+        col_span: c.colSpan,
+      }))
+    ),
+  };
+}
+
+export function fromDBTable(db: DBTextTable): TextTable {
+  return {
+    rows: db.rows.map((row) =>
+      row.map((c) => ({
+        textIndex: c.text_index,
+        isHeader: c.is_header,
+        rowSpan: c.row_span,
+        colSpan: c.col_span,
+      }))
+    ),
+  };
+}
+
 /**
  * Convert new schema format to DB storage format.
  * Used to maintain compatibility with existing data.
@@ -176,6 +490,7 @@ export function toDBTextClassification(output: TextClassificationOutput): {
     group_id: string;
     group_type: string;
     texts: Array<{ text_type: string; text: string; is_pruned: boolean }>;
+    table?: DBTextTable;
   }>;
 } {
   return {
@@ -188,6 +503,7 @@ export function toDBTextClassification(output: TextClassificationOutput): {
         text: t.text,
         is_pruned: t.isPruned,
       })),
+      ...(g.table ? { table: toDBTable(g.table) } : {}),
     })),
   };
 }
@@ -201,6 +517,7 @@ export function fromDBTextClassification(db: {
     group_id?: string;
     group_type: string;
     texts: Array<{ text_type: string; text: string; is_pruned: boolean }>;
+    table?: DBTextTable;
   }>;
 }): TextClassificationOutput {
   return {
@@ -213,6 +530,7 @@ export function fromDBTextClassification(db: {
         text: t.text,
         isPruned: t.is_pruned,
       })),
+      ...(g.table ? { table: fromDBTable(g.table) } : {}),
     })),
   };
 }
@@ -224,6 +542,7 @@ export function toDBImageClassification(
     image_id: string;
     path: string;
     is_pruned: boolean;
+    reason?: string;
   }>;
 } {
   return {
@@ -231,6 +550,7 @@ export function toDBImageClassification(
       image_id: img.imageId,
       path: `images/${img.imageId}.png`,
       is_pruned: img.isPruned,
+      ...(img.reason !== undefined ? { reason: img.reason } : {}),
     })),
   };
 }
@@ -240,12 +560,54 @@ export function fromDBImageClassification(db: {
     image_id: string;
     path: string;
     is_pruned: boolean;
+    reason?: string;
   }>;
 }): ImageClassificationOutput {
   return {
     images: db.images.map((img) => ({
       imageId: img.image_id,
       isPruned: img.is_pruned,
+      ...(img.reason !== undefined ? { reason: img.reason } : {}),
+    })),
+  };
+}
+
+export function toDBImageDescriptions(output: ImageDescriptionOutput): {
+  reasoning: string;
+  images: Array<{
+    image_id: string;
+    alt_text: string;
+    long_description: string | null;
+    is_decorative: boolean;
+  }>;
+} {
+  return {
+    reasoning: output.reasoning,
+    images: output.images.map((img) => ({
+      image_id: img.imageId,
+      alt_text: img.altText,
+      long_description: img.longDescription,
+      is_decorative: img.isDecorative,
+    })),
+  };
+}
+
+export function fromDBImageDescriptions(db: {
+  reasoning: string;
+  images: Array<{
+    image_id: string;
+    alt_text: string;
+    long_description: string | null;
+    is_decorative: boolean;
+  }>;
+}): ImageDescriptionOutput {
+  return {
+    reasoning: db.reasoning,
+    images: db.images.map((img) => ({
+      imageId: img.image_id,
+      altText: img.alt_text,
+      longDescription: img.long_description,
+      isDecorative: img.is_decorative,
     })),
   };
 }
@@ -274,6 +636,7 @@ export function toDBPageSectioning(
       group_type: string;
       is_pruned?: boolean;
       texts: Array<{ text_type: string; text: string; is_pruned: boolean }>;
+      table?: DBTextTable;
     }
   >;
   images: Record<string, { is_pruned: boolean }>;
@@ -286,6 +649,7 @@ export function toDBPageSectioning(
       group_type: string;
       is_pruned?: boolean;
       texts: Array<{ text_type: string; text: string; is_pruned: boolean }>;
+      table?: DBTextTable;
     }
   > = {};
   for (const g of textClassification.groups) {
@@ -297,6 +661,7 @@ export function toDBPageSectioning(
         text: t.text,
         is_pruned: t.isPruned,
       })),
+      ...(g.table ? { table: toDBTable(g.table) } : {}),
     };
   }
 
@@ -340,6 +705,7 @@ export function fromDBPageSectioning(db: {
     {
       group_type: string;
       texts: Array<{ text_type: string; text: string; is_pruned: boolean }>;
+      table?: DBTextTable;
     }
   >;
   images?: Record<string, { is_pruned: boolean }>;
@@ -353,18 +719,35 @@ export function fromDBPageSectioning(db: {
       // Resolve texts and images for this section
       const texts: Array<{ textId: string; textType: string; text: string }> = [];
       const imageIds: string[] = [];
+      const tables: SectionTable[] = [];
 
       for (const partId of s.part_ids) {
         const group = groups[partId];
         if (group) {
+          const textId = (ti: number) => `${partId}_t${String(ti + 1).padStart(3, "0")}`;
           group.texts.forEach((t, ti) => {
             if (t.is_pruned) return;
             texts.push({
-              textId: `${partId}_t${String(ti + 1).padStart(3, "0")}`,
+              textId: textId(ti),
               textType: t.text_type,
               text: t.text,
             });
           });
+          if (group.table) {
+            const cellTextId = (ti: number | null) =>
+              ti !== null && group.texts[ti] && !group.texts[ti].is_pruned ? textId(ti) : null;
+            tables.push({
+              groupId: partId,
+              rows: group.table.rows.map((row) =>
+                row.map((c) => ({
+                  textId: cellTextId(c.text_index),
+                  isHeader: c.is_header,
+                  rowSpan: c.row_span,
+                  colSpan: c.col_span,
+                }))
+              ),
+            });
+          }
           continue;
         }
 
@@ -383,6 +766,7 @@ export function fromDBPageSectioning(db: {
         isPruned: s.is_pruned,
         texts,
         imageIds,
+        ...(tables.length > 0 ? { tables } : {}),
       };
     }),
   };
@@ -393,12 +777,16 @@ export function toDBSectionRendering(output: SectionRendering): {
   section_type: string;
   reasoning: string;
   html: string;
+  merged_section_ids?: string[];
+  merged_into?: string;
 } {
   return {
     section_index: output.sectionIndex,
     section_type: output.sectionType,
     reasoning: output.reasoning,
     html: output.html,
+    ...(output.mergedSectionIds ? { merged_section_ids: output.mergedSectionIds } : {}),
+    ...(output.mergedInto ? { merged_into: output.mergedInto } : {}),
   };
 }
 
@@ -407,11 +795,205 @@ export function fromDBSectionRendering(db: {
   section_type: string;
   reasoning: string;
   html: string;
+  merged_section_ids?: string[];
+  merged_into?: string;
 }): SectionRendering {
   return {
     sectionIndex: db.section_index,
     sectionType: db.section_type,
     reasoning: db.reasoning,
     html: db.html,
+    ...(db.merged_section_ids ? { mergedSectionIds: db.merged_section_ids } : {}),
+    ...(db.merged_into ? { mergedInto: db.merged_into } : {}),
+  };
+}
+
+export function toDBSectionLinks(output: SectionLinksOutput): {
+  links: Array<{ from_section_id: string; to_section_id: string; reasoning: string }>;
+} {
+  return {
+    links: output.links.map((l) => ({
+      from_section_id: l.fromSectionId,
+      to_section_id: l.toSectionId,
+      reasoning: l.reasoning,
+    })),
+  };
+}
+
+export function fromDBSectionLinks(db: {
+  links: Array<{ from_section_id: string; to_section_id: string; reasoning: string }>;
+}): SectionLinksOutput {
+  return {
+    links: db.links.map((l) => ({
+      fromSectionId: l.from_section_id,
+      toSectionId: l.to_section_id,
+      reasoning: l.reasoning,
+    })),
+  };
+}
+
+export function toDBAccessibilityAudit(output: AccessibilityAuditOutput): {
+  web_rendering_version: number;
+  findings: Array<{
+    rule: AccessibilityRule;
+    severity: "error" | "warning";
+    message: string;
+    element_id: string | null;
+  }>;
+} {
+  return {
+    web_rendering_version: output.webRenderingVersion,
+    findings: output.findings.map((f) => ({
+      rule: f.rule,
+      severity: f.severity,
+      message: f.message,
+      element_id: f.elementId,
+    })),
+  };
+}
+
+export function fromDBAccessibilityAudit(db: {
+  web_rendering_version: number;
+  findings: Array<{
+    rule: AccessibilityRule;
+    severity: "error" | "warning";
+    message: string;
+    element_id: string | null;
+  }>;
+}): AccessibilityAuditOutput {
+  return {
+    webRenderingVersion: db.web_rendering_version,
+    findings: db.findings.map((f) => ({
+      rule: f.rule,
+      severity: f.severity,
+      message: f.message,
+      elementId: f.element_id,
+    })),
+  };
+}
+
+export function toDBTranslation(
+  output: TranslationOutput,
+  textClassificationVersion: number
+): {
+  language: string;
+  reasoning: string;
+  text_classification_version: number;
+  texts: Array<{ text_id: string; text: string }>;
+} {
+  return {
+    language: output.language,
+    reasoning: output.reasoning,
+    text_classification_version: textClassificationVersion,
+    texts: output.texts.map((t) => ({ text_id: t.textId, text: t.text })),
+  };
+}
+
+export function fromDBTranslation(db: {
+  language: string;
+  reasoning: string;
+  texts: Array<{ text_id: string; text: string }>;
+}): TranslationOutput {
+  return {
+    language: db.language,
+    reasoning: db.reasoning,
+    texts: db.texts.map((t) => ({ textId: t.text_id, text: t.text })),
+  };
+}
+
+export function toDBTranslatedRendering(output: TranslatedRendering): {
+  language: string;
+  web_rendering_version: number;
+  html: string;
+} {
+  return {
+    language: output.language,
+    web_rendering_version: output.webRenderingVersion,
+    html: output.html,
+  };
+}
+
+export function fromDBTranslatedRendering(db: {
+  language: string;
+  web_rendering_version: number;
+  html: string;
+}): TranslatedRendering {
+  return {
+    language: db.language,
+    webRenderingVersion: db.web_rendering_version,
+    html: db.html,
+  };
+}
+
+export function toDBSpeech(
+  output: SpeechOutput,
+  textClassificationVersion: number
+): {
+  language: string;
+  provider: string;
+  voice: string | null;
+  text_classification_version: number;
+  clips: Array<{
+    text_id: string;
+    source_hash: string;
+    audio_hash: string;
+    format: "wav" | "mp3";
+    path: string;
+    duration_ms: number;
+    words: Array<{ start: number; end: number; start_ms: number; end_ms: number }>;
+  }>;
+} {
+  return {
+    language: output.language,
+    provider: output.provider,
+    voice: output.voice,
+    text_classification_version: textClassificationVersion,
+    clips: output.clips.map((c) => ({
+      text_id: c.textId,
+      source_hash: c.sourceHash,
+      audio_hash: c.audioHash,
+      format: c.format,
+      path: speechAudioPath(c),
+      duration_ms: c.durationMs,
+      words: c.words.map((w) => ({
+        start: w.start,
+        end: w.end,
+        start_ms: w.startMs,
+        end_ms: w.endMs,
+      })),
+    })),
+  };
+}
+
+export function fromDBSpeech(db: {
+  language: string;
+  provider: string;
+  voice: string | null;
+  clips: Array<{
+    text_id: string;
+    source_hash: string;
+    audio_hash: string;
+    format: "wav" | "mp3";
+    duration_ms: number;
+    words: Array<{ start: number; end: number; start_ms: number; end_ms: number }>;
+  }>;
+}): SpeechOutput {
+  return {
+    language: db.language,
+    provider: db.provider,
+    voice: db.voice,
+    clips: db.clips.map((c) => ({
+      textId: c.text_id,
+      sourceHash: c.source_hash,
+      audioHash: c.audio_hash,
+      format: c.format,
+      durationMs: c.duration_ms,
+      words: c.words.map((w) => ({
+        start: w.start,
+        end: w.end,
+        startMs: w.start_ms,
+        endMs: w.end_ms,
+      })),
+    })),
   };
 }
@@ -0,0 +1,178 @@
+/**
+ * TTS abstraction.
+ *
+ * This module provides the speech synthesis providers used by the speech
+ * step:
+ * - A deterministic local stub (silent audio, no network) for tests and dry runs
+ * - OpenAI speech models via the Vercel AI SDK
+ *
+ * Providers return WAV audio; word timings are estimated from the clip
+ * duration when the provider does not report them.
+ */
+
+import { experimental_generateSpeech as generateSpeech } from "ai";
+import { openai } from "@ai-sdk/openai";
+import type { TTSProvider, SpeechRequest, SpeechResult, WordTiming } from "./types";
+
+// ============================================================================
+// Provider types and factory
+// ============================================================================
+
+export type TTSProviderName = "stub" | "openai";
+
+export interface CreateTTSProviderOptions {
+  provider: TTSProviderName;
+  modelId?: string;
+}
+
+const DEFAULT_OPENAI_SPEECH_MODEL = "gpt-4o-mini-tts";
+const DEFAULT_OPENAI_VOICE = "alloy";
+
+export function createTTSProvider(options: CreateTTSProviderOptions): TTSProvider {
+  switch (options.provider) {
+    case "stub":
+      return createStubTTSProvider();
+    case "openai":
+      return createOpenAITTSProvider(options.modelId ?? DEFAULT_OPENAI_SPEECH_MODEL);
+  }
+}
+
+// ============================================================================
+// Stub provider
+// ============================================================================
+
+const STUB_SAMPLE_RATE = 8000;
+const STUB_MS_PER_WORD = 400;
+const STUB_PADDING_MS = 200;
+
+/**
+ * Deterministic provider: silent mono WAV whose length depends only on the
+ * word count, with evenly estimated word timings. The same request always
+ * produces the same bytes, so audio hashes are stable across runs.
+ */
+export function createStubTTSProvider(): TTSProvider {
+  return {
+    name: "stub",
+    async synthesize(request: SpeechRequest): Promise<SpeechResult> {
+      const wordCount = (request.text.match(/\S+/g) ?? []).length;
+      const durationMs = wordCount * STUB_MS_PER_WORD + STUB_PADDING_MS;
+      const samples = Math.round((durationMs / 1000) * STUB_SAMPLE_RATE);
+      return {
+        audio: encodeSilentWav(samples, STUB_SAMPLE_RATE),
+        format: "wav",
+        durationMs,
+        words: estimateWordTimings(request.text, durationMs),
+      };
+    },
+  };
+}
+
+// ============================================================================
+// OpenAI provider
+// ============================================================================
+
+function createOpenAITTSProvider(modelId: string): TTSProvider {
+  const model = openai.speech(modelId);
+  return {
+    name: `openai:${modelId}`,
+    async synthesize(request: SpeechRequest): Promise<SpeechResult> {
+      const result = await generateSpeech({
+        model,
+        text: request.text,
+        voice: request.voice ?? DEFAULT_OPENAI_VOICE,
+        language: request.language,
+        outputFormat: "wav",
+        abortSignal: request.abortSignal,
+      });
+      const audio = result.audio.uint8Array;
+      const durationMs = wavDurationMs(audio);
+      if (durationMs === null) {
+        throw new Error("Speech provider returned audio that is not a readable WAV file");
+      }
+      return {
+        audio,
+        format: "wav",
+        durationMs,
+        words: estimateWordTimings(request.text, durationMs),
+      };
+    },
+  };
+}
+
+// ============================================================================
+// Timing and WAV helpers
+// ============================================================================
+
+/**
+ * Spread `durationMs` over the words of `text`, proportionally to word
+ * length (plus one character for the following pause).
+ */
+export function estimateWordTimings(text: string, durationMs: number): WordTiming[] {
+  const words = [...text.matchAll(/\S+/g)].map((m) => ({
+    start: m.index,
+    end: m.index + m[0].length,
+  }));
+  const weight = words.reduce((sum, w) => sum + (w.end - w.start) + 1, 0);
+  if (weight === 0) return [];
+
+  const timings: WordTiming[] = [];
+  let elapsed = 0;
+  for (const w of words) {
+    const share = ((w.end - w.start + 1) / weight) * durationMs;
+    timings.push({
+      start: w.start,
+      end: w.end,
+      startMs: Math.round(elapsed),
+      endMs: Math.round(elapsed + share),
+    });
+    elapsed += share;
+  }
+  return timings;
+}
+
+/**
+ * Duration of a PCM WAV file from its header, or null if the data is not
+ * a WAV file this parser understands.
+ */
+export function wavDurationMs(data: Uint8Array): number | null {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const ascii = (offset: number) =>
+    String.fromCharCode(...data.subarray(offset, offset + 4));
+  if (data.byteLength < 12 || ascii(0) !== "RIFF" || ascii(8) !== "WAVE") return null;
+
+  let byteRate = 0;
+  for (let offset = 12; offset + 8 <= data.byteLength; ) {
+    const id = ascii(offset);
+    let size = view.getUint32(offset + 4, true);
+    if (id === "fmt ") byteRate = view.getUint32(offset + 16, true);
+    if (id === "data") {
+      if (byteRate === 0) return null;
+      // Streamed WAVs leave the data size unset; use what was received
+      if (size === 0 || size === 0xffffffff || offset + 8 + size > data.byteLength) {
+        size = data.byteLength - offset - 8;
+      }
+      return Math.round((size / byteRate) * 1000);
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+function encodeSilentWav(samples: number, sampleRate: number): Uint8Array {
+  const dataSize = samples * 2;
+  const buf = Buffer.alloc(44 + dataSize);
+  buf.write("RIFF", 0, "ascii");
+  buf.writeUInt32LE(36 + dataSize, 4);
+  buf.write("WAVE", 8, "ascii");
+  buf.write("fmt ", 12, "ascii");
+  buf.writeUInt32LE(16, 16);
+  buf.writeUInt16LE(1, 20); // PCM
+  buf.writeUInt16LE(1, 22); // mono
+  buf.writeUInt32LE(sampleRate, 24);
+  buf.writeUInt32LE(sampleRate * 2, 28);
+  buf.writeUInt16LE(2, 32);
+  buf.writeUInt16LE(16, 34);
+  buf.write("data", 36, "ascii");
+  buf.writeUInt32LE(dataSize, 40);
+  return new Uint8Array(buf.buffer, buf.byteOffset, buf.byteLength);
+}
@@ -5,6 +5,8 @@
  * They are independent of storage, UI, or any external dependencies.
  */
 
+import type { PageLayout } from "../../pdf/extract";
+
 // ============================================================================
 // Page - the fundamental unit of work
 // ============================================================================
@@ -12,8 +14,9 @@
 export interface Page {
   pageId: string; // "pg001"
   pageNumber: number; // 1
-  rawText: string; // Extracted text from PDF
+  rawText: string; // Extracted text from PDF (or its OCR transcription)
   pageImageBase64: string; // Full page render as base64 PNG
+  layout?: PageLayout; // Text geometry from the PDF (absent for older extractions)
 }
 
 export interface PageImage {
@@ -35,6 +38,16 @@ export interface StepConfig {
   prunedTextTypes: string[];
   prunedSectionTypes: string[];
   imageFilters: ImageFilters;
+  /** Fail (and retry) web rendering when a section's text is missing from the HTML */
+  requireAllTexts?: boolean;
+  /** Re-transcribe `math` texts from the page image after text classification */
+  mathReocr?: boolean;
+  /** Transcribe the page image with an LLM when the PDF has no text for a page */
+  ocrFallback?: boolean;
+  /** Language codes to translate the book's text into (empty: no translation) */
+  targetLanguages?: string[];
+  /** Voice for speech synthesis (provider default when unset) */
+  speechVoice?: string;
 }
 
 export interface TypeDef {
@@ -61,6 +74,8 @@ export interface GenerateObjectOptions {
   messages: Message[];
   validate?: (result: unknown) => ValidationResult;
   maxRetries?: number;
+  /** Aborts the in-flight request; no further attempts are made */
+  abortSignal?: AbortSignal;
   /** Logging context - optional but recommended for debugging */
   log?: {
     taskType: string;
@@ -104,6 +119,40 @@ export interface ImagePart {
   image: string; // base64
 }
 
+// ============================================================================
+// TTS Provider - abstracted interface for speech synthesis
+// ============================================================================
+
+export interface TTSProvider {
+  /** Provider name, stored with the generated audio */
+  name: string;
+  synthesize(request: SpeechRequest): Promise<SpeechResult>;
+}
+
+export interface SpeechRequest {
+  text: string;
+  /** BCP 47 language code of the text */
+  language: string;
+  voice?: string;
+  abortSignal?: AbortSignal;
+}
+
+export interface SpeechResult {
+  audio: Uint8Array;
+  format: "wav" | "mp3";
+  durationMs: number;
+  /** Per-word timings; estimated from the duration when the provider has none */
+  words?: WordTiming[];
+}
+
+export interface WordTiming {
+  /** Character offsets of the word in the synthesized text */
+  start: number;
+  end: number;
+  startMs: number;
+  endMs: number;
+}
+
 // ============================================================================
 // Prompt Templates - structured prompts passed to steps
 // ============================================================================
@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import type { LLMModel, GenerateObjectOptions, Page, PageImage } from "../../core/types";
+import { fromDBImageClassification, toDBImageClassification } from "../../core/schemas";
+import { classifyImages, classifyImagesWithLLM } from "../../steps/image-classification";
+
+const page: Page = {
+  pageId: "pg001",
+  pageNumber: 1,
+  rawText: "Activity 1",
+  pageImageBase64: "cGFnZQ==",
+};
+
+function image(imageId: string, width = 200, height = 200): PageImage {
+  return { imageId, imageBase64: "aW1n", width, height };
+}
+
+function fakeModel(images: unknown[]) {
+  const calls: GenerateObjectOptions[] = [];
+  const model: LLMModel = {
+    async generateObject<T>(options: GenerateObjectOptions) {
+      calls.push(options);
+      return { object: { reasoning: "classified", images } as T };
+    },
+  };
+  return { model, calls };
+}
+
+describe("classifyImages", () => {
+  it("prunes page renders and images outside the size filters", () => {
+    const result = classifyImages({
+      pageId: "pg001",
+      images: [image("pg001_page"), image("pg001_im001", 40, 40), image("pg001_im002")],
+      filters: { minSide: 100, maxSide: 5000 },
+    });
+    expect(result.images).toEqual([
+      { imageId: "pg001_page", isPruned: true, reason: "full-page-render" },
+      { imageId: "pg001_im001", isPruned: true, reason: "too-small: 40px < 100px min" },
+      { imageId: "pg001_im002", isPruned: false },
+    ]);
+  });
+});
+
+describe("classifyImagesWithLLM", () => {
+  it("keeps content images and records the category with the reason", async () => {
+    const { model, calls } = fakeModel([
+      { image_id: "pg001_im002", category: "logo", reason: "Publisher logo" },
+      { image_id: "pg001_im001", category: "content", reason: " Activity icon " },
+    ]);
+    const result = await classifyImagesWithLLM({
+      page,
+      images: [image("pg001_page"), image("pg001_im001", 40, 40), image("pg001_im002")],
+      model,
+      promptName: "image_classification",
+    });
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0].log?.taskType).toBe("image-classification");
+    expect(JSON.stringify(calls[0].messages)).not.toContain("pg001_page");
+    expect(result.images).toEqual([
+      { imageId: "pg001_page", isPruned: true, reason: "full-page-render" },
+      { imageId: "pg001_im001", isPruned: false, reason: "content: Activity icon" },
+      { imageId: "pg001_im002", isPruned: true, reason: "logo: Publisher logo" },
+    ]);
+  });
+
+  it("skips the LLM when the page only has its render", async () => {
+    const { model, calls } = fakeModel([]);
+    const result = await classifyImagesWithLLM({
+      page,
+      images: [image("pg001_page")],
+      model,
+      promptName: "image_classification",
+    });
+    expect(calls).toHaveLength(0);
+    expect(result.images).toEqual([
+      { imageId: "pg001_page", isPruned: true, reason: "full-page-render" },
+    ]);
+  });
+
+  it("rejects responses that miss or repeat an image", async () => {
+    const { model, calls } = fakeModel([]);
+    await classifyImagesWithLLM({
+      page,
+      images: [image("pg001_im001"), image("pg001_im002")],
+      model,
+      promptName: "image_classification",
+    });
+
+    const validation = calls[0].validate!({
+      reasoning: "",
+      images: [
+        { image_id: "pg001_im001", category: "content", reason: "" },
+        { image_id: "pg001_im001", category: "duplicate", reason: "" },
+      ],
+    });
+    expect(validation.errors).toEqual([
+      'Duplicate image_id: "pg001_im001"',
+      'Missing classification for image "pg001_im002"',
+    ]);
+  });
+});
+
+describe("image classification storage", () => {
+  it("round-trips reasons through the DB format", () => {
+    const output = {
+      images: [
+        { imageId: "pg001_im001", isPruned: true, reason: "decorative: Border" },
+        { imageId: "pg001_im002", isPruned: false },
+      ],
+    };
+    expect(fromDBImageClassification(toDBImageClassification(output))).toEqual(output);
+  });
+});
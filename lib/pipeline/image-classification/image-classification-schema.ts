@@ -13,6 +13,7 @@ export const imageEntrySchema = z.object({
   width: z.number().int().nonnegative(),
   height: z.number().int().nonnegative(),
   is_pruned: z.boolean(),
+  reason: z.string().optional(),
   source_image_id: z.string().optional(),
   source_region: sourceRegionSchema.optional(),
 });
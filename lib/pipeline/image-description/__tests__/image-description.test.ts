@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import type { LLMModel, GenerateObjectOptions, Page, PageImage } from "../../core/types";
+import type { ImageDescription } from "../../core/schemas";
+import { describeImages } from "../../steps/image-description";
+import { applyImageDescriptions } from "../../web-rendering/image-descriptions";
+import { validateSectionHtml } from "../../web-rendering/validate-html";
+
+const page: Page = {
+  pageId: "pg001",
+  pageNumber: 1,
+  rawText: "The water cycle",
+  pageImageBase64: "cGFnZQ==",
+};
+
+function image(imageId: string): PageImage {
+  return { imageId, imageBase64: "aW1n", width: 100, height: 100 };
+}
+
+function fakeModel(images: unknown[]) {
+  const calls: GenerateObjectOptions[] = [];
+  const model: LLMModel = {
+    async generateObject<T>(options: GenerateObjectOptions) {
+      calls.push(options);
+      return { object: { reasoning: "described", images } as T };
+    },
+  };
+  return { model, calls };
+}
+
+describe("describeImages", () => {
+  it("skips the LLM when there are no un-pruned images", async () => {
+    const { model, calls } = fakeModel([]);
+    const result = await describeImages({
+      page,
+      imageClassification: { images: [{ imageId: "pg001_im001", isPruned: true }] },
+      images: [image("pg001_page"), image("pg001_im001")],
+      language: "en",
+      model,
+      promptName: "image_description",
+    });
+
+    expect(calls).toHaveLength(0);
+    expect(result).toEqual({ reasoning: "No images to describe", images: [] });
+  });
+
+  it("describes un-pruned images and normalizes decorative ones", async () => {
+    const { model, calls } = fakeModel([
+      { image_id: "pg001_im003", is_decorative: true, alt_text: "A border", long_description: "x" },
+      {
+        image_id: "pg001_im002",
+        is_decorative: false,
+        alt_text: " Diagram of the water cycle ",
+        long_description: "Water evaporates, forms clouds and falls as rain.",
+      },
+    ]);
+    const result = await describeImages({
+      page,
+      imageClassification: {
+        images: [
+          { imageId: "pg001_im001", isPruned: true },
+          { imageId: "pg001_im002", isPruned: false },
+          { imageId: "pg001_im003", isPruned: false },
+        ],
+      },
+      images: [image("pg001_page"), image("pg001_im001"), image("pg001_im002"), image("pg001_im003")],
+      language: "en",
+      model,
+      promptName: "image_description",
+    });
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0].log?.taskType).toBe("image-description");
+    expect(result.images).toEqual([
+      {
+        imageId: "pg001_im002",
+        altText: "Diagram of the water cycle",
+        longDescription: "Water evaporates, forms clouds and falls as rain.",
+        isDecorative: false,
+      },
+      { imageId: "pg001_im003", altText: "", longDescription: null, isDecorative: true },
+    ]);
+  });
+
+  it("rejects responses that miss an image or leave alt text empty", async () => {
+    const { model, calls } = fakeModel([]);
+    await describeImages({
+      page,
+      imageClassification: { images: [] },
+      images: [image("pg001_im001"), image("pg001_im002")],
+      language: "en",
+      model,
+      promptName: "image_description",
+    });
+
+    const validation = calls[0].validate!({
+      reasoning: "",
+      images: [{ image_id: "pg001_im001", is_decorative: false, alt_text: " ", long_description: null }],
+    });
+    expect(validation.valid).toBe(false);
+    expect(validation.errors).toEqual([
+      'Missing alt_text for non-decorative image "pg001_im001"',
+      'Missing description for image "pg001_im002"',
+    ]);
+  });
+});
+
+describe("applyImageDescriptions", () => {
+  const descriptions: ImageDescription[] = [
+    { imageId: "pg001_im001", altText: "A red fox", longDescription: null, isDecorative: false },
+    { imageId: "pg001_im002", altText: "", longDescription: null, isDecorative: true },
+    {
+      imageId: "pg001_im003",
+      altText: "Bar chart of rainfall",
+      longDescription: "Rainfall peaks in July at 120 mm.",
+      isDecorative: false,
+    },
+  ];
+
+  it("replaces whatever alt text the LLM wrote", () => {
+    const html = applyImageDescriptions(
+      '<img data-id="pg001_im001" src="a.png" alt="image">',
+      descriptions
+    );
+    expect(html).toBe('<img data-id="pg001_im001" src="a.png" alt="A red fox">');
+  });
+
+  it("hides decorative images from assistive technology", () => {
+    const html = applyImageDescriptions('<img data-id="pg001_im002" alt="Border" />', descriptions);
+    expect(html).toBe('<img data-id="pg001_im002" alt="" role="presentation" />');
+  });
+
+  it("adds a referenced long description and is idempotent", () => {
+    const once = applyImageDescriptions('<div><img data-id="pg001_im003"></div>', descriptions);
+    expect(once).toBe(
+      '<div><img data-id="pg001_im003" alt="Bar chart of rainfall" aria-describedby="pg001_im003-description">' +
+        '<span id="pg001_im003-description" data-description-for="pg001_im003" class="sr-only">' +
+        "Rainfall peaks in July at 120 mm.</span></div>"
+    );
+    expect(applyImageDescriptions(once, descriptions)).toBe(once);
+  });
+
+  it("produces HTML that passes section validation", () => {
+    const html = applyImageDescriptions(
+      '<section><img data-id="pg001_im003"><p data-id="pg001_t001">Rain</p></section>',
+      descriptions
+    );
+    expect(validateSectionHtml(html, ["pg001_t001"], ["pg001_im003"]).valid).toBe(true);
+  });
+});
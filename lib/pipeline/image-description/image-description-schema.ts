@@ -0,0 +1,20 @@
+import { z } from "zod/v4";
+
+export const imageDescriptionEntrySchema = z.object({
+  image_id: z.string(),
+  alt_text: z.string(),
+  long_description: z.string().nullable(),
+  is_decorative: z.boolean(),
+});
+
+/**
+ * Per-page alt text, long descriptions and decorative flags, stored as the
+ * `image-description` node (item_id = page ID).
+ */
+export const pageImageDescriptionsSchema = z.object({
+  reasoning: z.string(),
+  images: z.array(imageDescriptionEntrySchema),
+});
+
+export type ImageDescriptionEntry = z.infer<typeof imageDescriptionEntrySchema>;
+export type PageImageDescriptions = z.infer<typeof pageImageDescriptionsSchema>;
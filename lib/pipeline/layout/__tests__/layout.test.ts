@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import type { LayoutLine, PageLayout } from "../../../pdf/extract";
+import { describeRegion, locateTexts, summarizeLayout, textAtPoint, unionRect } from "../layout";
+
+function line(text: string, y: number, size = 12, bold = false): LayoutLine {
+  const bbox: [number, number, number, number] = [50, y, 50 + text.length * 6, y + size];
+  return { bbox, text, spans: [{ text, bbox, font: "Times-Roman", size, bold, italic: false }] };
+}
+
+const LAYOUT: PageLayout = {
+  width: 500,
+  height: 1000,
+  blocks: [
+    { bbox: [50, 50, 300, 74], lines: [line("Chapter One", 50, 24, true)] },
+    {
+      bbox: [50, 100, 450, 136],
+      lines: [line("It was a bright cold day in Ap-", 100), line("ril. Yes.", 112), line("Yes.", 124)],
+    },
+    { bbox: [240, 950, 260, 962], lines: [line("7", 950)] },
+  ],
+};
+
+describe("locateTexts", () => {
+  it("finds texts across lines, ignoring spacing and hyphenation", () => {
+    const [heading, body, missing] = locateTexts(LAYOUT, [
+      "Chapter One",
+      "It was a bright cold day in April.",
+      "Not on this page",
+    ]);
+    expect(heading).toEqual([[50, 50, 116, 74]]);
+    expect(body.map((r) => r[1])).toEqual([100, 112]);
+    expect(missing).toEqual([]);
+  });
+
+  it("gives repeated texts successive occurrences", () => {
+    const [first, second] = locateTexts(LAYOUT, ["Yes.", "Yes."]);
+    expect(first.map((r) => r[1])).toEqual([112]);
+    expect(second.map((r) => r[1])).toEqual([124]);
+  });
+});
+
+describe("textAtPoint", () => {
+  const regions = locateTexts(LAYOUT, ["Chapter One", "It was a bright cold day in April.", "7"]);
+
+  it("finds the text whose lines contain the point", () => {
+    expect(textAtPoint(regions, 60, 60)).toBe(0);
+    expect(textAtPoint(regions, 60, 115)).toBe(1);
+    expect(textAtPoint(regions, 52, 955)).toBe(2);
+  });
+
+  it("allows a few points of slop and misses empty space", () => {
+    expect(textAtPoint(regions, 60, 77)).toBe(0);
+    expect(textAtPoint(regions, 400, 500)).toBe(-1);
+  });
+});
+
+describe("layout summaries", () => {
+  it("describes regions as percentages of the page", () => {
+    expect(describeRegion(LAYOUT, unionRect([[50, 100, 250, 150], [100, 50, 450, 60]])!)).toBe(
+      "top 5–15%, left 10–90%"
+    );
+    expect(unionRect([])).toBeNull();
+  });
+
+  it("summarizes each block with position, type and opening words", () => {
+    expect(summarizeLayout(LAYOUT).split("\n")).toEqual([
+      '1. top 5–7%, left 10–60% · 24pt bold · 1 line · "Chapter One"',
+      '2. top 10–14%, left 10–90% · 12pt · 3 lines · "It was a bright cold day in Ap- ril. Yes. Yes."',
+      '3. top 95–96%, left 48–52% · 12pt · 1 line · "7"',
+    ]);
+  });
+});
@@ -0,0 +1,132 @@
+import type { LayoutRect, PageLayout } from "../../pdf/extract";
+
+/** Letters and digits only, lowercased: spacing, punctuation and hyphenation differ between sources. */
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+}
+
+const pct = (value: number, total: number) => Math.round((value / total) * 100);
+
+/**
+ * Find the lines of the page that each text came from. Texts are matched
+ * against the page's lines ignoring spacing and punctuation; a text that
+ * occurs more than once takes the first occurrence no earlier text has
+ * claimed. Texts that are not found (rewritten or OCR'd text, LaTeX) get
+ * no rectangles. Returns one list of line rectangles per text.
+ */
+export function locateTexts(layout: PageLayout, texts: string[]): LayoutRect[][] {
+  const lines = layout.blocks.flatMap((block) => block.lines);
+  let haystack = "";
+  const owner: number[] = [];
+  lines.forEach((line, li) => {
+    const chars = normalize(line.text);
+    haystack += chars;
+    for (let i = 0; i < chars.length; i++) owner.push(li);
+  });
+  const claimed = new Array<boolean>(haystack.length).fill(false);
+
+  const find = (needle: string): number => {
+    for (let at = haystack.indexOf(needle); at !== -1; at = haystack.indexOf(needle, at + 1)) {
+      if (!claimed[at]) return at;
+    }
+    return -1;
+  };
+
+  return texts.map((text) => {
+    const needle = normalize(text);
+    if (!needle) return [];
+    let start = find(needle);
+    let end = start + needle.length;
+
+    // Texts that differ in the middle (corrected words, dropped footnote
+    // markers) can still be placed by their beginning and end
+    if (start === -1 && needle.length >= 24) {
+      start = find(needle.slice(0, 12));
+      const tail = start === -1 ? -1 : haystack.indexOf(needle.slice(-12), start + 12);
+      if (tail === -1 || tail - start > needle.length * 2) return [];
+      end = tail + 12;
+    }
+    if (start === -1) return [];
+
+    for (let i = start; i < end; i++) claimed[i] = true;
+    const lineIndexes = [...new Set(owner.slice(start, end))];
+    return lineIndexes.map((li) => lines[li].bbox);
+  });
+}
+
+/** Smallest rectangle containing all of `rects`, or null for none. */
+export function unionRect(rects: LayoutRect[]): LayoutRect | null {
+  if (rects.length === 0) return null;
+  return [
+    Math.min(...rects.map((r) => r[0])),
+    Math.min(...rects.map((r) => r[1])),
+    Math.max(...rects.map((r) => r[2])),
+    Math.max(...rects.map((r) => r[3])),
+  ];
+}
+
+/**
+ * Index of the text (in `regions`, as returned by `locateTexts`) at a point
+ * of the page: the text with a line containing it, the smallest line if
+ * several do, otherwise the text with a line within `slop` points of it.
+ * Returns -1 when no text is there.
+ */
+export function textAtPoint(regions: LayoutRect[][], x: number, y: number, slop = 4): number {
+  let best = -1;
+  let bestDistance = Infinity;
+  let bestArea = Infinity;
+  regions.forEach((rects, i) => {
+    for (const [x0, y0, x1, y1] of rects) {
+      const distance = Math.hypot(Math.max(x0 - x, 0, x - x1), Math.max(y0 - y, 0, y - y1));
+      const area = (x1 - x0) * (y1 - y0);
+      if (distance > slop) continue;
+      if (distance < bestDistance || (distance === bestDistance && area < bestArea)) {
+        best = i;
+        bestDistance = distance;
+        bestArea = area;
+      }
+    }
+  });
+  return best;
+}
+
+/** Position of a region as percentages of the page ("top 8–12%, left 12–88%"). */
+export function describeRegion(layout: PageLayout, rect: LayoutRect): string {
+  const [x0, y0, x1, y1] = rect;
+  return (
+    `top ${pct(y0, layout.height)}–${pct(y1, layout.height)}%, ` +
+    `left ${pct(x0, layout.width)}–${pct(x1, layout.width)}%`
+  );
+}
+
+/**
+ * A compact, one-line-per-block description of the page's text layout for
+ * prompts: where each block is, its main font size and style, how many
+ * lines it has, and how it starts. Lets the LLM tell headings, captions,
+ * running headers and columns apart without reading coordinates.
+ */
+export function summarizeLayout(layout: PageLayout): string {
+  return layout.blocks
+    .map((block, i) => {
+      const spans = block.lines.flatMap((line) => line.spans);
+      const chars = (pick: (s: (typeof spans)[number]) => boolean) =>
+        spans.filter(pick).reduce((n, s) => n + s.text.length, 0);
+      const total = chars(() => true) || 1;
+
+      // Font size covering most of the block's characters
+      const bySize = new Map<number, number>();
+      for (const span of spans) bySize.set(span.size, (bySize.get(span.size) ?? 0) + span.text.length);
+      const size = [...bySize].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+
+      const style = [
+        `${size}pt`,
+        ...(chars((s) => s.bold) / total > 0.5 ? ["bold"] : []),
+        ...(chars((s) => s.italic) / total > 0.5 ? ["italic"] : []),
+      ].join(" ");
+      const text = block.lines.map((line) => line.text.trim()).join(" ");
+      const excerpt = text.length > 60 ? `${text.slice(0, 60)}…` : text;
+      const lineCount = `${block.lines.length} ${block.lines.length === 1 ? "line" : "lines"}`;
+      return `${i + 1}. ${describeRegion(layout, block.bbox)} · ${style} · ${lineCount} · "${excerpt}"`;
+    })
+    .join("\n");
+}
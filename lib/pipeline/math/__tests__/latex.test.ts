@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import {
+  latexToMathml,
+  parseLatex,
+  parseMathText,
+  stripMathDelimiters,
+  validateLatex,
+} from "../latex";
+
+describe("parseLatex", () => {
+  it("converts scripts, fractions and roots", () => {
+    expect(parseLatex("x^2 + y_1")).toBe(
+      "<mrow><msup><mi>x</mi><mn>2</mn></msup><mo>+</mo><msub><mi>y</mi><mn>1</mn></msub></mrow>"
+    );
+    expect(parseLatex("\\frac{1}{2}")).toBe("<mfrac><mn>1</mn><mn>2</mn></mfrac>");
+    expect(parseLatex("\\frac12")).toBe("<mfrac><mn>1</mn><mn>2</mn></mfrac>");
+    expect(parseLatex("\\sqrt[3]{8}")).toBe("<mroot><mn>8</mn><mn>3</mn></mroot>");
+  });
+
+  it("puts limits under large operators and applies functions", () => {
+    expect(parseLatex("\\sum_{i=1}^{n} i")).toBe(
+      '<mrow><munderover><mo largeop="true">∑</mo><mrow><mi>i</mi><mo>=</mo><mn>1</mn></mrow><mi>n</mi></munderover><mi>i</mi></mrow>'
+    );
+    expect(parseLatex("\\sin^2 x")).toBe(
+      "<mrow><msup><mi>sin</mi><mn>2</mn></msup><mo>&#x2061;</mo><mi>x</mi></mrow>"
+    );
+  });
+
+  it("handles delimiters, text and environments", () => {
+    expect(parseLatex("\\left( a \\right)")).toBe(
+      '<mrow><mo fence="true" stretchy="true">(</mo><mi>a</mi><mo fence="true" stretchy="true">)</mo></mrow>'
+    );
+    expect(parseLatex("5 \\text{ cm}")).toBe("<mrow><mn>5</mn><mtext> cm</mtext></mrow>");
+    expect(parseLatex("\\begin{pmatrix} 1 & 0 \\\\ 0 & 1 \\end{pmatrix}")).toBe(
+      '<mrow><mo fence="true" stretchy="true">(</mo><mtable><mtr><mtd><mn>1</mn></mtd><mtd><mn>0</mn></mtd></mtr><mtr><mtd><mn>0</mn></mtd><mtd><mn>1</mn></mtd></mtr></mtable><mo fence="true" stretchy="true">)</mo></mrow>'
+    );
+  });
+
+  it("escapes literal markup characters", () => {
+    expect(parseLatex("a < b")).toBe("<mrow><mi>a</mi><mo>&lt;</mo><mi>b</mi></mrow>");
+  });
+});
+
+describe("validateLatex", () => {
+  it("accepts textbook expressions", () => {
+    for (const latex of [
+      "E = mc^2",
+      "\\alpha + \\beta \\leq \\pi",
+      "\\lim_{x \\to 0} \\frac{\\sin x}{x} = 1",
+      "\\int_0^1 x\\,dx",
+      "f'(x) = 3x^2",
+      "\\overline{AB} \\parallel \\vec{v}",
+      "\\mathbb{R} \\setminus \\{0\\}",
+      "\\begin{cases} x & x \\geq 0 \\\\ -x & x < 0 \\end{cases}",
+    ]) {
+      expect(validateLatex(latex), latex).toBeNull();
+    }
+  });
+
+  it("reports unknown commands and unbalanced groups with a position", () => {
+    expect(validateLatex("\\fraq{1}{2}")).toBe('Unknown command "\\fraq" at position 0');
+    expect(validateLatex("\\frac{1}{2")).toMatch(/^Expected "}"/);
+    expect(validateLatex("a}")).toBe('Unexpected "}" at position 1');
+    expect(validateLatex("\\left( x")).toMatch(/^\\left without \\right/);
+    expect(validateLatex("  ")).toBe("Empty expression");
+  });
+});
+
+describe("math text delimiters", () => {
+  it("strips $, $$, \\( and \\[ and detects display math", () => {
+    expect(parseMathText("$x^2$")).toEqual({ latex: "x^2", display: false });
+    expect(parseMathText("$$x^2$$")).toEqual({ latex: "x^2", display: true });
+    expect(parseMathText("\\[ a = b \\]")).toEqual({ latex: "a = b", display: true });
+    expect(parseMathText("a = b")).toEqual({ latex: "a = b", display: false });
+    expect(stripMathDelimiters("\\(y\\)")).toBe("y");
+    expect(stripMathDelimiters("costs $5 or $6")).toBe("costs $5 or $6");
+  });
+
+  it("wraps the MathML in a math element with the LaTeX as alttext", () => {
+    expect(latexToMathml("$$\\frac{a}{b}$$")).toBe(
+      '<math display="block" alttext="\\frac{a}{b}"><mfrac><mi>a</mi><mi>b</mi></mfrac></math>'
+    );
+  });
+});
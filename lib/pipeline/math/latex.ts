@@ -0,0 +1,544 @@
+/**
+ * LaTeX to MathML
+ *
+ * Text classification writes `math` texts as LaTeX. This module parses the
+ * subset of LaTeX that textbooks use (fractions, roots, scripts, Greek
+ * letters, operators and relations, functions, accents, delimiters, text
+ * and matrix-like environments) and emits presentation MathML, so rendered
+ * pages show real math without a client-side library or CDN. Anything
+ * outside the subset is a parse error, which doubles as validation.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export class LatexError extends Error {
+  constructor(
+    message: string,
+    /** Offset in the LaTeX source where parsing failed */
+    readonly position: number
+  ) {
+    super(message);
+    this.name = "LatexError";
+  }
+}
+
+export interface MathText {
+  /** LaTeX without the surrounding `$…$`, `\(…\)` or `\[…\]` */
+  latex: string;
+  display: boolean;
+}
+
+// ============================================================================
+// Symbol tables
+// ============================================================================
+
+const GREEK: Record<string, string> = {
+  alpha: "α", beta: "β", gamma: "γ", delta: "δ", epsilon: "ϵ", varepsilon: "ε",
+  zeta: "ζ", eta: "η", theta: "θ", vartheta: "ϑ", iota: "ι", kappa: "κ",
+  lambda: "λ", mu: "μ", nu: "ν", xi: "ξ", pi: "π", varpi: "ϖ", rho: "ρ",
+  varrho: "ϱ", sigma: "σ", varsigma: "ς", tau: "τ", upsilon: "υ", phi: "ϕ",
+  varphi: "φ", chi: "χ", psi: "ψ", omega: "ω",
+  Gamma: "Γ", Delta: "Δ", Theta: "Θ", Lambda: "Λ", Xi: "Ξ", Pi: "Π",
+  Sigma: "Σ", Upsilon: "Υ", Phi: "Φ", Psi: "Ψ", Omega: "Ω",
+};
+
+/** Identifier-like symbols rendered as `<mi>`. */
+const IDENTIFIERS: Record<string, string> = {
+  infty: "∞", partial: "∂", nabla: "∇", emptyset: "∅", varnothing: "∅",
+  hbar: "ℏ", ell: "ℓ", aleph: "ℵ", Re: "ℜ", Im: "ℑ", angle: "∠",
+  triangle: "△", square: "□", degree: "°",
+};
+
+/** Operators and relations rendered as `<mo>`. */
+const OPERATORS: Record<string, string> = {
+  times: "×", cdot: "⋅", div: "÷", pm: "±", mp: "∓", ast: "∗", star: "⋆",
+  circ: "∘", bullet: "∙", setminus: "∖", cup: "∪", cap: "∩", wedge: "∧",
+  vee: "∨", land: "∧", lor: "∨", neg: "¬", lnot: "¬", oplus: "⊕", otimes: "⊗",
+  leq: "≤", le: "≤", geq: "≥", ge: "≥", neq: "≠", ne: "≠", approx: "≈",
+  equiv: "≡", sim: "∼", simeq: "≃", cong: "≅", propto: "∝", ll: "≪", gg: "≫",
+  in: "∈", notin: "∉", ni: "∋", subset: "⊂", subseteq: "⊆", supset: "⊃",
+  supseteq: "⊇", perp: "⊥", parallel: "∥", mid: "∣", forall: "∀",
+  exists: "∃", therefore: "∴", because: "∵", to: "→", rightarrow: "→",
+  leftarrow: "←", gets: "←", leftrightarrow: "↔", Rightarrow: "⇒",
+  Leftarrow: "⇐", Leftrightarrow: "⇔", implies: "⟹", iff: "⟺", mapsto: "↦",
+  uparrow: "↑", downarrow: "↓", ldots: "…", cdots: "⋯", vdots: "⋮",
+  ddots: "⋱", dots: "…", prime: "′", colon: ":",
+  langle: "⟨", rangle: "⟩", lfloor: "⌊", rfloor: "⌋", lceil: "⌈",
+  rceil: "⌉", vert: "|", Vert: "‖", lbrace: "{", rbrace: "}",
+};
+
+/** Large operators whose scripts go above and below. */
+const LARGE_OPERATORS: Record<string, string> = {
+  sum: "∑", prod: "∏", coprod: "∐", bigcup: "⋃", bigcap: "⋂",
+  bigoplus: "⨁", bigotimes: "⨂",
+};
+
+/** Integrals keep their scripts at the side. */
+const INTEGRALS: Record<string, string> = {
+  int: "∫", iint: "∬", iiint: "∭", oint: "∮",
+};
+
+/** Named functions: upright, followed by an invisible function application. */
+const FUNCTIONS = new Set([
+  "sin", "cos", "tan", "cot", "sec", "csc", "arcsin", "arccos", "arctan",
+  "sinh", "cosh", "tanh", "coth", "log", "ln", "lg", "exp", "deg", "dim",
+  "ker", "arg", "hom", "det", "gcd", "Pr",
+]);
+
+/** Named operators whose scripts go underneath, like `\lim_{x \to 0}`. */
+const LIMIT_FUNCTIONS = new Set(["lim", "limsup", "liminf", "max", "min", "sup", "inf"]);
+
+const ACCENTS: Record<string, { char: string; under?: boolean; stretchy?: boolean }> = {
+  hat: { char: "^" }, widehat: { char: "^", stretchy: true },
+  bar: { char: "¯" }, overline: { char: "¯", stretchy: true },
+  underline: { char: "_", under: true, stretchy: true },
+  vec: { char: "→" }, overrightarrow: { char: "→", stretchy: true },
+  dot: { char: "˙" }, ddot: { char: "¨" },
+  tilde: { char: "~" }, widetilde: { char: "~", stretchy: true },
+};
+
+const SPACES: Record<string, string> = {
+  ",": "0.167em", ":": "0.222em", ";": "0.278em", " ": "0.25em",
+  "!": "-0.167em", quad: "1em", qquad: "2em",
+};
+
+const VARIANTS: Record<string, string> = {
+  mathrm: "normal", mathbf: "bold", mathit: "italic", mathbb: "double-struck",
+  mathcal: "script", mathfrak: "fraktur", mathsf: "sans-serif", boldsymbol: "bold-italic",
+  bm: "bold-italic", operatorname: "normal",
+};
+
+const TEXT_COMMANDS = new Set(["text", "textrm", "textit", "textbf", "mbox", "mathtext"]);
+
+/** Commands that change nothing in MathML output. */
+const IGNORED = new Set(["displaystyle", "textstyle", "limits", "nolimits"]);
+
+const ENVIRONMENTS: Record<string, [string, string]> = {
+  matrix: ["", ""], pmatrix: ["(", ")"], bmatrix: ["[", "]"], Bmatrix: ["{", "}"],
+  vmatrix: ["|", "|"], Vmatrix: ["‖", "‖"], cases: ["{", ""], array: ["", ""],
+  aligned: ["", ""], align: ["", ""], "align*": ["", ""], gathered: ["", ""],
+  split: ["", ""],
+};
+
+/** Characters that are operators when they appear literally. */
+const OPERATOR_CHARS = new Set([..."+-=<>()[]|,;:!/*.'?"]);
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+type Token =
+  | { kind: "command"; value: string; pos: number }
+  | { kind: "char"; value: string; pos: number }
+  | { kind: "number"; value: string; pos: number };
+
+function tokenize(latex: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < latex.length) {
+    const ch = latex[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "\\") {
+      const name = latex.slice(i + 1).match(/^[a-zA-Z]+\*?/)?.[0];
+      if (name) {
+        tokens.push({ kind: "command", value: name, pos: i });
+        i += 1 + name.length;
+      } else if (i + 1 < latex.length) {
+        tokens.push({ kind: "command", value: latex[i + 1], pos: i });
+        i += 2;
+      } else {
+        throw new LatexError("Trailing backslash", i);
+      }
+    } else if (/[0-9]/.test(ch)) {
+      const num = latex.slice(i).match(/^[0-9]+(?:\.[0-9]+)?/)![0];
+      tokens.push({ kind: "number", value: num, pos: i });
+      i += num.length;
+    } else {
+      tokens.push({ kind: "char", value: ch, pos: i });
+      i++;
+    }
+  }
+  return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function mrow(items: string[]): string {
+  return items.length === 1 ? items[0] : `<mrow>${items.join("")}</mrow>`;
+}
+
+/** Marks large operators and limits whose scripts go above and below. */
+const LIMITS_ATTR = ' data-limits="under"';
+
+/** Invisible function application, placed after a function and its scripts. */
+const APPLY_FUNCTION = "<mo>&#x2061;</mo>";
+
+class Parser {
+  private readonly tokens: Token[];
+  private index = 0;
+  /** Set by function names so the application operator follows their scripts */
+  private applyFunction = false;
+
+  constructor(private readonly source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private position(): number {
+    return this.peek()?.pos ?? this.source.length;
+  }
+
+  private isChar(value: string): boolean {
+    const t = this.peek();
+    return t?.kind === "char" && t.value === value;
+  }
+
+  private isCommand(value: string): boolean {
+    const t = this.peek();
+    return t?.kind === "command" && t.value === value;
+  }
+
+  private expectChar(value: string): void {
+    if (!this.isChar(value)) throw new LatexError(`Expected "${value}"`, this.position());
+    this.index++;
+  }
+
+  /** Parse the whole input; nothing may be left over. */
+  parseAll(): string {
+    const items = this.parseSequence(new Set());
+    if (this.peek()) {
+      throw new LatexError(`Unexpected "${this.peek()!.value}"`, this.position());
+    }
+    return mrow(items);
+  }
+
+  /**
+   * Parse atoms (with their scripts) until end of input, a closing brace,
+   * `\right`, `\end`, or one of the stop characters.
+   */
+  private parseSequence(stops: Set<string>, variant?: string): string[] {
+    const items: string[] = [];
+    for (;;) {
+      const t = this.peek();
+      if (!t) break;
+      if (t.kind === "char" && (t.value === "}" || stops.has(t.value))) break;
+      if (t.kind === "command" && (t.value === "right" || t.value === "end" || stops.has(`\\${t.value}`))) {
+        break;
+      }
+      const atom = this.parseAtom(variant);
+      if (atom === null) continue;
+      const isFunction = this.applyFunction;
+      this.applyFunction = false;
+      items.push(this.parseScripts(atom));
+      if (isFunction) items.push(APPLY_FUNCTION);
+    }
+    return items;
+  }
+
+  /** A braced group, or a single atom when there are no braces. */
+  private parseArgument(variant?: string): string {
+    if (this.isChar("{")) {
+      this.index++;
+      const items = this.parseSequence(new Set(), variant);
+      this.expectChar("}");
+      return mrow(items.length ? items : ["<mrow></mrow>"]);
+    }
+    const t = this.peek();
+    if (!t) throw new LatexError("Missing argument", this.position());
+    if (t.kind === "number" && t.value.length > 1) {
+      // \frac12: a bare argument is a single digit
+      this.tokens[this.index] = { kind: "number", value: t.value.slice(1), pos: t.pos + 1 };
+      return `<mn>${t.value[0]}</mn>`;
+    }
+    const atom = this.parseAtom(variant);
+    this.applyFunction = false;
+    if (atom === null) throw new LatexError("Missing argument", this.position());
+    return atom;
+  }
+
+  /** Raw text of a braced group, for `\text{…}` and environment names. */
+  private parseRawGroup(): string {
+    const open = this.peek();
+    if (!open || open.kind !== "char" || open.value !== "{") {
+      throw new LatexError('Expected "{"', this.position());
+    }
+    let depth = 0;
+    const start = open.pos + 1;
+    while (this.peek()) {
+      const t = this.peek()!;
+      this.index++;
+      if (t.kind === "char" && t.value === "{") depth++;
+      if (t.kind === "char" && t.value === "}" && --depth === 0) {
+        return this.source.slice(start, t.pos);
+      }
+    }
+    throw new LatexError("Unclosed group", start - 1);
+  }
+
+  private parseScripts(base: string): string {
+    let sub: string | null = null;
+    let sup: string | null = null;
+    for (;;) {
+      if (this.isChar("_") && sub === null) {
+        this.index++;
+        sub = this.parseArgument();
+      } else if (this.isChar("^") && sup === null) {
+        this.index++;
+        sup = this.parseArgument();
+      } else if (this.isChar("'") && sup === null) {
+        // x' is x with a prime superscript
+        let primes = "";
+        while (this.isChar("'")) {
+          this.index++;
+          primes += "′";
+        }
+        sup = `<mo>${primes}</mo>`;
+      } else {
+        break;
+      }
+    }
+    const below = /^<mo[^>]*data-limits="under"/.test(base);
+    if (sub !== null && sup !== null) {
+      return below ? `<munderover>${base}${sub}${sup}</munderover>` : `<msubsup>${base}${sub}${sup}</msubsup>`;
+    }
+    if (sub !== null) return below ? `<munder>${base}${sub}</munder>` : `<msub>${base}${sub}</msub>`;
+    if (sup !== null) return below ? `<mover>${base}${sup}</mover>` : `<msup>${base}${sup}</msup>`;
+    return base;
+  }
+
+  private parseDelimiter(): string {
+    const t = this.peek();
+    if (!t) throw new LatexError("Missing delimiter", this.position());
+    this.index++;
+    if (t.kind === "char") return t.value === "." ? "" : t.value;
+    if (t.kind === "command") {
+      if (t.value === "{" || t.value === "}" || t.value === "|") return t.value === "|" ? "‖" : t.value;
+      if (OPERATORS[t.value]) return OPERATORS[t.value];
+    }
+    throw new LatexError(`Invalid delimiter "${t.value}"`, t.pos);
+  }
+
+  private fence(char: string): string {
+    return char ? `<mo fence="true" stretchy="true">${escapeXml(char)}</mo>` : "";
+  }
+
+  private parseEnvironment(start: number): string {
+    const name = this.parseRawGroup();
+    const delimiters = ENVIRONMENTS[name];
+    if (!delimiters) throw new LatexError(`Unsupported environment "${name}"`, start);
+    // Column spec of array, e.g. {cc|c}
+    if (name === "array") this.parseRawGroup();
+
+    const rows: string[][] = [[]];
+    for (;;) {
+      const cell = this.parseSequence(new Set(["&", "\\\\"]));
+      rows[rows.length - 1].push(`<mtd>${mrow(cell.length ? cell : ["<mrow></mrow>"])}</mtd>`);
+      if (this.isChar("&")) {
+        this.index++;
+      } else if (this.isCommand("\\")) {
+        this.index++;
+        rows.push([]);
+      } else if (this.isCommand("end")) {
+        const endPos = this.position();
+        this.index++;
+        const endName = this.parseRawGroup();
+        if (endName !== name) {
+          throw new LatexError(`\\begin{${name}} ended by \\end{${endName}}`, endPos);
+        }
+        break;
+      } else {
+        throw new LatexError(`Unclosed environment "${name}"`, start);
+      }
+    }
+    // A trailing \\ leaves an empty last row
+    const last = rows[rows.length - 1];
+    if (rows.length > 1 && last.length === 1 && last[0] === "<mtd><mrow></mrow></mtd>") rows.pop();
+
+    const align = name.startsWith("align") || name === "aligned" || name === "split"
+      ? ' columnalign="right left"'
+      : name === "cases"
+        ? ' columnalign="left left"'
+        : "";
+    const table = `<mtable${align}>${rows.map((r) => `<mtr>${r.join("")}</mtr>`).join("")}</mtable>`;
+    const [open, close] = delimiters;
+    return open || close ? `<mrow>${this.fence(open)}${table}${this.fence(close)}</mrow>` : table;
+  }
+
+  /** One atom, or null for tokens that produce no output. */
+  private parseAtom(variant?: string): string | null {
+    const t = this.peek()!;
+    const variantAttr = variant ? ` mathvariant="${variant}"` : "";
+
+    if (t.kind === "number") {
+      this.index++;
+      return `<mn${variantAttr}>${t.value}</mn>`;
+    }
+
+    if (t.kind === "char") {
+      switch (t.value) {
+        case "{":
+          return this.parseArgument(variant);
+        case "^":
+        case "_":
+          // A script with no base, like ^{14}C
+          return "<mrow></mrow>";
+        case "&":
+          throw new LatexError('Unexpected "&" outside an environment', t.pos);
+        case "$":
+          throw new LatexError('Unexpected "$"', t.pos);
+        case "#":
+        case "%":
+        case "~":
+          this.index++;
+          return t.value === "~" ? '<mspace width="0.25em"></mspace>' : `<mo>${t.value}</mo>`;
+      }
+      this.index++;
+      if (/[a-zA-Z]/.test(t.value)) return `<mi${variantAttr}>${t.value}</mi>`;
+      if (OPERATOR_CHARS.has(t.value)) {
+        const op = t.value === "-" ? "−" : t.value === "*" ? "∗" : t.value;
+        return `<mo>${escapeXml(op)}</mo>`;
+      }
+      // Unicode letters and symbols typed directly
+      return /\p{L}/u.test(t.value)
+        ? `<mi${variantAttr}>${escapeXml(t.value)}</mi>`
+        : `<mo>${escapeXml(t.value)}</mo>`;
+    }
+
+    // Commands
+    this.index++;
+    const name = t.value;
+
+    if (IGNORED.has(name)) return null;
+    if (name in SPACES) return `<mspace width="${SPACES[name]}"></mspace>`;
+    if (name === "{" || name === "}") return `<mo>${name}</mo>`;
+    if (name === "%" || name === "$" || name === "#" || name === "_") return `<mi>${name}</mi>`;
+    if (name === "&") return "<mo>&amp;</mo>";
+    if (name === "|") return "<mo>‖</mo>";
+    if (name === "\\") throw new LatexError("Unexpected line break outside an environment", t.pos);
+
+    if (GREEK[name]) {
+      const upright = /^[A-Z]/.test(name) && !variant;
+      return `<mi${upright ? ' mathvariant="normal"' : variantAttr}>${GREEK[name]}</mi>`;
+    }
+    if (IDENTIFIERS[name]) return `<mi>${IDENTIFIERS[name]}</mi>`;
+    if (OPERATORS[name]) return `<mo>${escapeXml(OPERATORS[name])}</mo>`;
+    if (LARGE_OPERATORS[name]) return `<mo largeop="true"${LIMITS_ATTR}>${LARGE_OPERATORS[name]}</mo>`;
+    if (INTEGRALS[name]) return `<mo largeop="true">${INTEGRALS[name]}</mo>`;
+    if (FUNCTIONS.has(name)) {
+      this.applyFunction = true;
+      return `<mi>${name}</mi>`;
+    }
+    if (LIMIT_FUNCTIONS.has(name)) return `<mo${LIMITS_ATTR}>${name}</mo>`;
+
+    if (name === "frac" || name === "dfrac" || name === "tfrac" || name === "cfrac") {
+      const num = this.parseArgument();
+      const den = this.parseArgument();
+      return `<mfrac>${num}${den}</mfrac>`;
+    }
+    if (name === "binom" || name === "dbinom" || name === "tbinom") {
+      const n = this.parseArgument();
+      const k = this.parseArgument();
+      return `<mrow><mo>(</mo><mfrac linethickness="0">${n}${k}</mfrac><mo>)</mo></mrow>`;
+    }
+    if (name === "sqrt") {
+      if (this.isChar("[")) {
+        this.index++;
+        const index = this.parseSequence(new Set(["]"]));
+        this.expectChar("]");
+        const radicand = this.parseArgument();
+        return `<mroot>${radicand}${mrow(index)}</mroot>`;
+      }
+      return `<msqrt>${this.parseArgument()}</msqrt>`;
+    }
+    if (ACCENTS[name]) {
+      const accent = ACCENTS[name];
+      const base = this.parseArgument(variant);
+      const mo = `<mo${accent.stretchy ? ' stretchy="true"' : ' stretchy="false"'}>${escapeXml(accent.char)}</mo>`;
+      return accent.under
+        ? `<munder accentunder="true">${base}${mo}</munder>`
+        : `<mover accent="true">${base}${mo}</mover>`;
+    }
+    if (VARIANTS[name]) {
+      if (name === "operatorname") {
+        this.applyFunction = true;
+        return `<mi>${escapeXml(this.parseRawGroup())}</mi>`;
+      }
+      return this.parseArgument(VARIANTS[name]);
+    }
+    if (TEXT_COMMANDS.has(name)) {
+      const text = this.parseRawGroup();
+      return `<mtext>${escapeXml(text)}</mtext>`;
+    }
+    if (name === "left") {
+      const open = this.parseDelimiter();
+      const inner = this.parseSequence(new Set());
+      if (!this.isCommand("right")) throw new LatexError("\\left without \\right", t.pos);
+      this.index++;
+      const close = this.parseDelimiter();
+      return `<mrow>${this.fence(open)}${inner.join("")}${this.fence(close)}</mrow>`;
+    }
+    if (name === "begin") return this.parseEnvironment(t.pos);
+
+    throw new LatexError(`Unknown command "\\${name}"`, t.pos);
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/** Inner MathML (without the `<math>` element) for a LaTeX expression. */
+export function parseLatex(latex: string): string {
+  return new Parser(latex).parseAll().replaceAll(LIMITS_ATTR, "");
+}
+
+/** Null when the LaTeX parses, otherwise a message describing the problem. */
+export function validateLatex(latex: string): string | null {
+  if (!latex.trim()) return "Empty expression";
+  try {
+    parseLatex(latex);
+    return null;
+  } catch (err) {
+    if (err instanceof LatexError) {
+      return `${err.message} at position ${err.position}`;
+    }
+    throw err;
+  }
+}
+
+const DELIMITED_RE = /^\s*(?:\$\$([\s\S]+)\$\$|\$([^$]+)\$|\\\(([\s\S]+)\\\)|\\\[([\s\S]+)\\\])\s*$/;
+
+/** Split a `math` text into its LaTeX and whether it was display math. */
+export function parseMathText(text: string): MathText {
+  const m = text.match(DELIMITED_RE);
+  if (!m) return { latex: text.trim(), display: /^\s*\\begin\{(align|gather)/.test(text) };
+  const latex = (m[1] ?? m[2] ?? m[3] ?? m[4]).trim();
+  return { latex, display: m[1] !== undefined || m[4] !== undefined };
+}
+
+/** The text with any surrounding math delimiters removed. */
+export function stripMathDelimiters(text: string): string {
+  return DELIMITED_RE.test(text) ? parseMathText(text).latex : text;
+}
+
+/**
+ * Convert a `math` text to a `<math>` element, with the LaTeX as `alttext`.
+ * Throws a `LatexError` when the LaTeX cannot be parsed.
+ */
+export function latexToMathml(text: string): string {
+  const { latex, display } = parseMathText(text);
+  const inner = parseLatex(latex);
+  return `<math display="${display ? "block" : "inline"}" alttext="${escapeXml(latex)}">${inner}</math>`;
+}
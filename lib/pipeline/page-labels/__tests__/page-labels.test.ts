@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import {
+  inferPageLabels,
+  pageIdForLabel,
+  parseRoman,
+  toRoman,
+  type PageNumberEvidence,
+} from "../../steps/page-labels";
+
+function pages(...candidates: string[][]): PageNumberEvidence[] {
+  return candidates.map((c, i) => ({
+    pageId: "pg" + String(i + 1).padStart(3, "0"),
+    candidates: c,
+  }));
+}
+
+describe("roman numerals", () => {
+  it("round-trips canonical numerals in either case", () => {
+    expect(toRoman(14)).toBe("xiv");
+    expect(parseRoman("XIV")).toBe(14);
+    expect(parseRoman("mcmxc")).toBe(1990);
+  });
+
+  it("rejects words and non-canonical numerals", () => {
+    expect(parseRoman("iiii")).toBeNull();
+    expect(parseRoman("civic")).toBeNull();
+    expect(parseRoman("page")).toBeNull();
+  });
+});
+
+describe("inferPageLabels", () => {
+  it("finds the offset most pages agree on and fills the gaps", () => {
+    const labels = inferPageLabels(
+      pages([], [], ["1"], [], ["Page 3"], ["- 4 -", "1865"], ["5"])
+    );
+    expect(labels).toEqual({
+      pg003: "1",
+      pg004: "2",
+      pg005: "3",
+      pg006: "4",
+      pg007: "5",
+    });
+  });
+
+  it("labels roman front matter before page 1", () => {
+    const labels = inferPageLabels(
+      pages([], ["II"], ["III"], [], ["1"], ["2"], ["3"])
+    );
+    expect(labels).toEqual({
+      pg001: "I",
+      pg002: "II",
+      pg003: "III",
+      pg004: "IV",
+      pg005: "1",
+      pg006: "2",
+      pg007: "3",
+    });
+  });
+
+  it("labels nothing without enough agreeing pages", () => {
+    expect(inferPageLabels(pages(["12"], [], ["99"], []))).toEqual({});
+  });
+});
+
+describe("pageIdForLabel", () => {
+  it("looks up decorated and differently cased labels", () => {
+    const labels = { pg001: "iv", pg005: "1", pg016: "12" };
+    expect(pageIdForLabel(labels, "Page 12")).toBe("pg016");
+    expect(pageIdForLabel(labels, "IV")).toBe("pg001");
+    expect(pageIdForLabel(labels, "13")).toBeNull();
+  });
+});
@@ -0,0 +1,15 @@
+import { z } from "zod/v4";
+
+/**
+ * Printed page label of every PDF page, stored as the book-level
+ * `page-labels` node (item_id = "book"). Labels come from the PDF's own
+ * page labels when it has them, otherwise they are inferred from the
+ * printed page numbers found on the pages.
+ */
+export const pageLabelsSchema = z.object({
+  source: z.enum(["pdf", "inferred"]),
+  /** Label by page ID, e.g. { pg003: "i", pg009: "1" }; unlabelled pages are absent */
+  labels: z.record(z.string(), z.string()),
+});
+
+export type PageLabels = z.infer<typeof pageLabelsSchema>;
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { z } from "zod/v4";
+import { closeAllDbs } from "@/lib/db";
+import { createPageRunner } from "../factory";
+
+const LABEL = "book-a";
+
+describe("createPageRunner budget", () => {
+  let tmpDir: string;
+  let prevRoot: string | undefined;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "factory-test-"));
+    prevRoot = process.env.BOOKS_ROOT;
+    process.env.BOOKS_ROOT = tmpDir;
+    fs.mkdirSync(path.join(tmpDir, LABEL));
+    fs.writeFileSync(
+      path.join(tmpDir, LABEL, "config.yaml"),
+      [
+        "providers:",
+        "  ollama: { type: openai-compatible, base_url: http://localhost:11434/v1 }",
+        "text_classification: { model: ollama:qwen2.5 }",
+        "pricing:",
+        "  ollama:qwen2.5: { input: 100000, output: 0 }",
+        "budget: { max_usd: 1 }",
+      ].join("\n")
+    );
+    // Every call uses 10 input tokens: $1 at the configured price
+    vi.stubGlobal("fetch", async () =>
+      Response.json({
+        id: "chatcmpl-1",
+        created: 0,
+        model: "qwen2.5",
+        choices: [
+          { index: 0, message: { role: "assistant", content: '{"answer":"yes"}' }, finish_reason: "stop" },
+        ],
+        usage: { prompt_tokens: 10, completion_tokens: 0, total_tokens: 10 },
+      })
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    closeAllDbs();
+    if (prevRoot === undefined) delete process.env.BOOKS_ROOT;
+    else process.env.BOOKS_ROOT = prevRoot;
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("aborts the runner's signal once a call spends the budget", async () => {
+    const runner = createPageRunner({ label: LABEL, skipCache: true });
+    expect(runner.signal?.aborted).toBe(false);
+
+    await runner.model.generateObject({
+      schema: z.object({ answer: z.string() }),
+      messages: [{ role: "user", content: "hello" }],
+      log: { taskType: "text-classification", promptName: "test" },
+    });
+
+    expect(runner.signal?.aborted).toBe(true);
+    expect(String(runner.signal?.reason)).toContain("Stopped: budget of $1.00 reached");
+  });
+});
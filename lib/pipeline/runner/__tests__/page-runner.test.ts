@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import type { GenerateObjectOptions, LLMModel, Page, StepConfig } from "../../core/types";
+import type { SectionRendering, TextClassificationOutput } from "../../core/schemas";
+import { applyPageImageDescriptions, runPagePipeline } from "../page-runner";
+import { nullProgress, type Storage } from "../types";
+
+const page: Page = {
+  pageId: "pg001",
+  pageNumber: 1,
+  rawText: "Solve x2 = 4",
+  pageImageBase64: "cGFnZQ==",
+};
+
+const config: StepConfig = {
+  language: "en",
+  textTypes: [
+    { key: "paragraph", description: "Body text" },
+    { key: "math", description: "An equation" },
+  ],
+  textGroupTypes: [{ key: "paragraph", description: "A paragraph" }],
+  sectionTypes: [],
+  prunedTextTypes: [],
+  prunedSectionTypes: [],
+  imageFilters: {},
+  mathReocr: true,
+};
+
+const prompts = {
+  metadata: "metadata_extraction",
+  textClassification: "text_classification",
+  pageSectioning: "page_sectioning",
+  webRendering: "web_generation_html",
+};
+
+function fakeModel() {
+  const calls: GenerateObjectOptions[] = [];
+  const model: LLMModel = {
+    async generateObject<T>(options: GenerateObjectOptions) {
+      calls.push(options);
+      const object =
+        options.log?.taskType === "math-reocr"
+          ? { reasoning: "", expressions: [{ text_id: "pg001_gp001_t002", latex: "x^2 = 4" }] }
+          : {
+              reasoning: "",
+              groups: [
+                {
+                  group_type: "paragraph",
+                  texts: [
+                    { text_type: "paragraph", text: "Solve" },
+                    { text_type: "math", text: "x2 = 4" },
+                  ],
+                  table: null,
+                },
+              ],
+            };
+      return { object: object as T };
+    },
+  };
+  return { model, calls };
+}
+
+describe("runPagePipeline", () => {
+  it("re-transcribes math after text classification when mathReocr is on", async () => {
+    const { model, calls } = fakeModel();
+    const stored: TextClassificationOutput[] = [];
+    const storage = {
+      getPage: async () => page,
+      getImageClassification: async () => null,
+      putTextClassification: async (_pageId: string, data: TextClassificationOutput) => {
+        stored.push(data);
+        return { version: stored.length };
+      },
+    } as unknown as Storage;
+
+    await runPagePipeline(
+      "pg001",
+      { storage, progress: nullProgress, config, model, prompts },
+      { steps: ["text-classification"] }
+    );
+
+    expect(calls.map((c) => c.log?.taskType)).toEqual(["text-classification", "math-reocr"]);
+    expect(stored).toHaveLength(1);
+    expect(stored[0].groups[0].texts[1].text).toBe("x^2 = 4");
+  });
+});
+
+describe("applyPageImageDescriptions", () => {
+  it("updates the head of a chain that continues onto the page", async () => {
+    const renderings = new Map<string, SectionRendering>([
+      ["pg001_s001", { sectionIndex: 0, sectionType: "text_only", reasoning: "", html: '<p>Start</p><img data-id="pg002_im001" alt="old">', mergedSectionIds: ["pg002_s001"] }],
+      ["pg002_s001", { sectionIndex: 0, sectionType: "text_only", reasoning: "", html: "", mergedInto: "pg001_s001" }],
+    ]);
+    const audited: string[] = [];
+    const storage = {
+      getImageDescriptions: async () => ({
+        data: { images: [{ imageId: "pg002_im001", altText: "A red fox", isDecorative: false, longDescription: null }] },
+        version: 2,
+      }),
+      getPageSectioning: async () => ({ data: { reasoning: "", sections: [{}] }, version: 1 }),
+      getSectionLinks: async () => ({
+        data: { links: [{ fromSectionId: "pg001_s001", toSectionId: "pg002_s001", reasoning: "" }] },
+        version: 1,
+      }),
+      getSectionRendering: async (id: string) => {
+        const data = renderings.get(id);
+        return data ? { data, version: 1 } : null;
+      },
+      putSectionRendering: async (id: string, data: SectionRendering) => {
+        renderings.set(id, data);
+        return { version: 2 };
+      },
+      putAccessibilityAudit: async (id: string) => {
+        audited.push(id);
+        return { version: 1 };
+      },
+    } as unknown as Storage;
+
+    const updated = await applyPageImageDescriptions("pg002", {
+      storage,
+      progress: nullProgress,
+      config: { ...config, targetLanguages: [] },
+      model: fakeModel().model,
+      prompts,
+    });
+
+    expect(updated).toEqual(["pg001_s001"]);
+    expect(renderings.get("pg001_s001")!.html).toContain('alt="A red fox"');
+    expect(audited).toEqual(["pg001_s001"]);
+  });
+});
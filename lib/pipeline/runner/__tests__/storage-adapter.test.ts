@@ -2,8 +2,8 @@ import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from
 import fs from "node:fs";
 import path from "node:path";
 import os from "node:os";
-import { closeAllDbs } from "@/lib/db";
-import { putNodeData } from "@/lib/books";
+import { useBooksRoot } from "@/lib/__tests__/helpers";
+import { getPage, putNodeData, putPageText } from "@/lib/books";
 import { createBookStorage } from "../storage-adapter";
 
 // Minimal 1x1 white PNG (67 bytes)
@@ -12,16 +12,6 @@ const TINY_PNG = Buffer.from(
   "base64"
 );
 
-function useBooksRoot(dir: string): () => void {
-  const prev = process.env.BOOKS_ROOT;
-  process.env.BOOKS_ROOT = dir;
-  return () => {
-    closeAllDbs();
-    if (prev === undefined) delete process.env.BOOKS_ROOT;
-    else process.env.BOOKS_ROOT = prev;
-  };
-}
-
 describe("storage-adapter getPageImages", () => {
   const label = "testbook";
   const pageId = "pg001";
@@ -129,3 +119,45 @@ describe("storage-adapter getPageImages", () => {
     expect(images[0].imageId).toBe("pg001_im001");
   });
 });
+
+describe("storage-adapter OCR text", () => {
+  const label = "scanbook";
+  let tmpDir: string;
+  let restoreBooksRoot: () => void;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "storage-adapter-ocr-test-"));
+    const imagesDir = path.join(tmpDir, label, "images");
+    fs.mkdirSync(imagesDir, { recursive: true });
+    fs.writeFileSync(path.join(imagesDir, "pg001_page.png"), TINY_PNG);
+    fs.writeFileSync(path.join(imagesDir, "pg002_page.png"), TINY_PNG);
+    restoreBooksRoot = useBooksRoot(tmpDir);
+    putPageText(label, "pg001", 1, "");
+    putPageText(label, "pg002", 2, "Text layer");
+  });
+
+  afterEach(() => {
+    restoreBooksRoot();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("uses the latest OCR transcription for a page without PDF text", async () => {
+    const storage = createBookStorage(label);
+    expect((await storage.getPage("pg001"))?.rawText).toBe("");
+
+    await storage.putPageOcr("pg001", { reasoning: "", text: "First try" });
+    await storage.putPageOcr("pg001", { reasoning: "", text: "Scanned text" });
+
+    expect((await storage.getPage("pg001"))?.rawText).toBe("Scanned text");
+    expect((await storage.getFirstPages(1))[0].rawText).toBe("Scanned text");
+    expect(getPage(label, "pg001")).toMatchObject({ rawText: "Scanned text", textSource: "ocr" });
+  });
+
+  it("keeps the PDF text when there is one", async () => {
+    const storage = createBookStorage(label);
+    await storage.putPageOcr("pg002", { reasoning: "", text: "Ignored" });
+
+    expect((await storage.getPage("pg002"))?.rawText).toBe("Text layer");
+    expect(getPage(label, "pg002")).toMatchObject({ rawText: "Text layer", textSource: "pdf" });
+  });
+});
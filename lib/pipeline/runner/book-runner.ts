@@ -5,13 +5,46 @@
  * 1. PDF extraction
  * 2. Metadata extraction
  * 3. Page-level processing (classification, sectioning, rendering)
+ * 4. Cross-page section linking
+ * 5. Printed page labels (from the PDF, or inferred from page numbers)
+ * 6. Table of contents reconstruction
+ *
+ * Plus a book-wide accessibility audit of every rendered section, and a
+ * consistency pass over running headers, footers and page numbers.
  */
 
 import fs from "node:fs";
 import type { Storage, Progress, PageRunnerConfig, RunOptions } from "./types";
-import { extractPdf, extractMetadata } from "../steps";
-import type { BookMetadata, ExtractResult, ExtractProgress } from "../steps";
-import { runPagePipeline } from "./page-runner";
+import { modelForStep } from "./types";
+import {
+  extractPdf,
+  extractMetadata,
+  linkSections,
+  findRunningTextClusters,
+  applyRunningTextClusters,
+  inferPageLabels,
+  buildTableOfContents,
+  sectionsToRerender,
+} from "../steps";
+import type {
+  BookMetadata,
+  ExtractResult,
+  ExtractProgress,
+  PageNumberEvidence,
+  PageSectionsInput,
+  RunningTextCluster,
+  RunningTextPage,
+  TocHeading,
+  TocSourceSection,
+} from "../steps";
+import type { SectionLinksOutput } from "../core/schemas";
+import type { PageLabels } from "../page-labels/page-labels-schema";
+import type { TableOfContents } from "../table-of-contents/table-of-contents-schema";
+import {
+  runPagePipeline,
+  runWebRenderingSection,
+  runSectionAccessibilityAudit,
+} from "./page-runner";
 
 // ============================================================================
 // Extract runner
@@ -63,6 +96,15 @@ export async function runExtract(
       await storage.putExtractedPage(page);
     }
 
+    // Save the PDF's own page labels, which beat anything inferred later
+    const labels: Record<string, string> = {};
+    for (const page of result.pages) {
+      if (page.pageLabel) labels[page.pageId] = page.pageLabel;
+    }
+    if (Object.keys(labels).length > 0) {
+      await storage.putPageLabels({ source: "pdf", labels });
+    }
+
     progress.emit({ type: "book-step-complete", step: "extract" });
 
     return result;
@@ -91,7 +133,8 @@ export async function runMetadataExtraction(
   runner: PageRunnerConfig,
   pageCount?: number
 ): Promise<BookMetadata> {
-  const { storage, progress, model, prompts } = runner;
+  const { storage, progress, prompts } = runner;
+  const model = modelForStep(runner, "metadata");
 
   progress.emit({ type: "book-step-start", step: "metadata" });
 
@@ -138,6 +181,295 @@ export async function runMetadataExtraction(
   }
 }
 
+// ============================================================================
+// Section linking runner
+// ============================================================================
+
+export interface SectionLinkingOptions {
+  /** Re-render each linked chain as a single section once links are saved */
+  render?: boolean;
+}
+
+const SECTION_ID_RE = /^(pg\d{3})_s(\d{3})$/;
+
+/**
+ * Run cross-page section linking for a book.
+ *
+ * Looks at every page boundary for a section that continues onto the next
+ * page and saves the resulting links as a new version. With `render`, each
+ * linked chain is then re-rendered as one section, and sections that lost
+ * their link are rendered on their own again.
+ */
+export async function runSectionLinking(
+  runner: PageRunnerConfig,
+  options?: SectionLinkingOptions
+): Promise<SectionLinksOutput> {
+  const { storage, progress, prompts } = runner;
+  const model = modelForStep(runner, "section-linking");
+
+  progress.emit({ type: "book-step-start", step: "section-linking" });
+
+  try {
+    const pageIds = await storage.listPageIds();
+    const pages: PageSectionsInput[] = [];
+    for (const pageId of pageIds) {
+      const sectioning = await storage.getPageSectioning(pageId);
+      if (sectioning) pages.push({ pageId, sectioning: sectioning.data });
+    }
+
+    progress.emit({
+      type: "book-step-progress",
+      step: "section-linking",
+      message: `Checking ${Math.max(pages.length - 1, 0)} page boundaries`,
+    });
+
+    const result = await linkSections({
+      pages,
+      model,
+      promptName: prompts.sectionLinking ?? "section_linking",
+    });
+
+    const previous = (await storage.getSectionLinks())?.data.links ?? [];
+    await storage.putSectionLinks(result);
+
+    if (options?.render) {
+      const heads = result.links
+        .map((l) => l.fromSectionId)
+        .filter((id) => !result.links.some((l) => l.toSectionId === id));
+      const sectionIds = [...new Set([...heads, ...sectionsToRerender(previous, result.links)])]
+        .map((id) => SECTION_ID_RE.exec(id))
+        .filter((m): m is RegExpExecArray => m !== null)
+        .map(([id, pageId, number]) => ({ id, pageId, sectionIndex: Number(number) - 1 }))
+        .filter(({ pageId, sectionIndex }) => {
+          const section = pages.find((p) => p.pageId === pageId)?.sectioning.sections[sectionIndex];
+          return section !== undefined && !section.isPruned;
+        });
+      for (let i = 0; i < sectionIds.length; i++) {
+        const { id, pageId, sectionIndex } = sectionIds[i];
+        progress.emit({
+          type: "book-step-progress",
+          step: "section-linking",
+          message: `Rendering section ${id}`,
+          page: i + 1,
+          totalPages: sectionIds.length,
+        });
+        await runWebRenderingSection(pageId, sectionIndex, runner);
+      }
+    }
+
+    progress.emit({ type: "book-step-complete", step: "section-linking" });
+
+    return result;
+  } catch (err) {
+    progress.emit({
+      type: "book-step-error",
+      step: "section-linking",
+      error: err instanceof Error ? err.message : String(err),
+    });
+    throw err;
+  }
+}
+
+// ============================================================================
+// Accessibility audit runner
+// ============================================================================
+
+export interface AccessibilityAuditSummary {
+  sectionsAudited: number;
+  errors: number;
+  warnings: number;
+}
+
+/**
+ * Re-audit every rendered section in the book. Sections are audited as they
+ * are rendered; this catches renderings saved before the audit existed or
+ * restored from an older version.
+ */
+export async function runAccessibilityAudit(
+  runner: PageRunnerConfig
+): Promise<AccessibilityAuditSummary> {
+  const { storage, progress } = runner;
+
+  progress.emit({ type: "book-step-start", step: "accessibility-audit" });
+
+  try {
+    const summary: AccessibilityAuditSummary = { sectionsAudited: 0, errors: 0, warnings: 0 };
+    const pageIds = await storage.listPageIds();
+    for (let i = 0; i < pageIds.length; i++) {
+      const pageId = pageIds[i];
+      progress.emit({
+        type: "book-step-progress",
+        step: "accessibility-audit",
+        message: `Auditing page ${pageId}`,
+        page: i + 1,
+        totalPages: pageIds.length,
+      });
+
+      const sectioning = await storage.getPageSectioning(pageId);
+      const sectionCount = sectioning?.data.sections.length ?? 0;
+      for (let s = 0; s < sectionCount; s++) {
+        const sectionId = `${pageId}_s${String(s + 1).padStart(3, "0")}`;
+        const audit = await runSectionAccessibilityAudit(sectionId, runner);
+        if (!audit) continue;
+        summary.sectionsAudited++;
+        for (const finding of audit.findings) {
+          if (finding.severity === "error") summary.errors++;
+          else summary.warnings++;
+        }
+      }
+    }
+
+    progress.emit({ type: "book-step-complete", step: "accessibility-audit" });
+
+    return summary;
+  } catch (err) {
+    progress.emit({
+      type: "book-step-error",
+      step: "accessibility-audit",
+      error: err instanceof Error ? err.message : String(err),
+    });
+    throw err;
+  }
+}
+
+// ============================================================================
+// Running text consistency
+// ============================================================================
+
+async function loadRunningTextPages(storage: Storage): Promise<RunningTextPage[]> {
+  const pages: RunningTextPage[] = [];
+  for (const pageId of await storage.listPageIds()) {
+    const result = await storage.getTextClassification(pageId);
+    if (result) pages.push({ pageId, classification: result.data });
+  }
+  return pages;
+}
+
+/**
+ * Find running headers, footers and page numbers that are pruned on some
+ * pages and kept on others. No LLM calls; nothing is saved.
+ */
+export async function findRunningTextInconsistencies(
+  runner: PageRunnerConfig
+): Promise<RunningTextCluster[]> {
+  return findRunningTextClusters(await loadRunningTextPages(runner.storage));
+}
+
+export interface RunningTextApplyResult {
+  pagesUpdated: number;
+  textsUpdated: number;
+}
+
+/**
+ * Apply the corrections of the clusters with the given keys, saving a new
+ * text classification version for every page that changes. The clusters
+ * are recomputed first, so keys that are no longer inconsistent are ignored.
+ */
+export async function applyRunningTextCorrections(
+  runner: PageRunnerConfig,
+  keys: string[]
+): Promise<RunningTextApplyResult> {
+  const { storage } = runner;
+  const pages = await loadRunningTextPages(storage);
+  const accepted = findRunningTextClusters(pages).filter((c) => keys.includes(c.key));
+  const touched = new Set(accepted.flatMap((c) => c.corrections.map((x) => x.pageId)));
+
+  const result: RunningTextApplyResult = { pagesUpdated: 0, textsUpdated: 0 };
+  for (const page of pages) {
+    if (!touched.has(page.pageId)) continue;
+    const { classification, changed } = applyRunningTextClusters(
+      page.pageId,
+      page.classification,
+      accepted
+    );
+    if (changed === 0) continue;
+    await storage.putTextClassification(page.pageId, classification);
+    result.pagesUpdated++;
+    result.textsUpdated += changed;
+  }
+  return result;
+}
+
+// ============================================================================
+// Page labels
+// ============================================================================
+
+/**
+ * Resolve the printed page label of every page. Labels read from the PDF
+ * are kept as they are; otherwise they are inferred from the `page_number`
+ * texts of text classification and the page numbers of sectioning, and a
+ * new version is saved. No LLM calls.
+ */
+export async function runPageLabeling(runner: PageRunnerConfig): Promise<PageLabels> {
+  const { storage } = runner;
+  const stored = await storage.getPageLabels();
+  if (stored?.data.source === "pdf") return stored.data;
+
+  const evidence: PageNumberEvidence[] = [];
+  for (const pageId of await storage.listPageIds()) {
+    const candidates: string[] = [];
+    const classification = await storage.getTextClassification(pageId);
+    for (const group of classification?.data.groups ?? []) {
+      for (const entry of group.texts) {
+        if (entry.textType === "page_number") candidates.push(entry.text);
+      }
+    }
+    const sectioning = await storage.getPageSectioning(pageId);
+    for (const section of sectioning?.data.sections ?? []) {
+      if (section.pageNumber !== null) candidates.push(String(section.pageNumber));
+    }
+    evidence.push({ pageId, candidates });
+  }
+
+  const data: PageLabels = { source: "inferred", labels: inferPageLabels(evidence) };
+  runner.signal?.throwIfAborted();
+  await storage.putPageLabels(data);
+  return data;
+}
+
+// ============================================================================
+// Table of contents
+// ============================================================================
+
+/**
+ * Rebuild the book's table of contents from its `table_of_contents`
+ * sections, resolving each entry through the page labels and the
+ * `section_heading` texts of the other sections. Saves a new version when
+ * the book has a table of contents and returns null when it has none.
+ * No LLM calls.
+ */
+export async function runTableOfContents(
+  runner: PageRunnerConfig
+): Promise<TableOfContents | null> {
+  const { storage } = runner;
+  const pageIds = await storage.listPageIds();
+  const sources: TocSourceSection[] = [];
+  const headings: TocHeading[] = [];
+
+  for (const pageId of pageIds) {
+    const sectioning = await storage.getPageSectioning(pageId);
+    sectioning?.data.sections.forEach((section, index) => {
+      if (section.isPruned) return;
+      const sectionId = `${pageId}_s${String(index + 1).padStart(3, "0")}`;
+      const texts = section.texts ?? [];
+      if (section.sectionType === "table_of_contents") {
+        sources.push({ sectionId, texts });
+        return;
+      }
+      for (const t of texts) {
+        if (t.textType === "section_heading") headings.push({ pageId, sectionId, text: t.text });
+      }
+    });
+  }
+  if (sources.length === 0) return null;
+
+  const pageLabels = (await storage.getPageLabels())?.data.labels ?? {};
+  const toc = buildTableOfContents(sources, { pageIds, pageLabels, headings });
+  runner.signal?.throwIfAborted();
+  await storage.putTableOfContents(toc);
+  return toc;
+}
+
 // ============================================================================
 // Full book pipeline
 // ============================================================================
@@ -152,6 +484,8 @@ export interface BookPipelineOptions {
   skipPages?: boolean;
   /** Options for page-level processing */
   pageOptions?: RunOptions;
+  /** Skip cross-page section linking after page processing */
+  skipSectionLinking?: boolean;
 }
 
 /**
@@ -159,6 +493,9 @@ export interface BookPipelineOptions {
  * 1. Extract PDF pages
  * 2. Extract book metadata
  * 3. Process each page (classification, sectioning, rendering)
+ * 4. Link sections that continue across page breaks and re-render them
+ * 5. Resolve printed page labels
+ * 6. Rebuild the table of contents
  *
  * Returns the list of page IDs and extracted metadata.
  */
@@ -212,6 +549,23 @@ export async function runBookPipeline(
       });
       throw err;
     }
+
+    // Step 4: Link sections across page breaks (needs sectioning of every page)
+    const pageSteps = options.pageOptions?.steps;
+    if (
+      !options.skipSectionLinking &&
+      (!pageSteps || pageSteps.includes("page-sectioning"))
+    ) {
+      await runSectionLinking(runner, {
+        render: !pageSteps || pageSteps.includes("web-rendering"),
+      });
+    }
+
+    // Step 5: Map PDF pages to printed page labels
+    await runPageLabeling(runner);
+
+    // Step 6: Link table of contents entries to their pages and sections
+    await runTableOfContents(runner);
   }
 
   return { pageIds, metadata };
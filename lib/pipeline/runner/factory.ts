@@ -9,7 +9,12 @@ import path from "node:path";
 import type { PageRunnerConfig, Progress, PromptConfig } from "./types";
 import { nullProgress } from "./types";
 import { createBookStorage } from "./storage-adapter";
-import { createLLMModel, type LLMProvider } from "../core/llm";
+import {
+  BUILTIN_PROVIDERS,
+  createLLMModel,
+  type ProviderRegistry,
+} from "../core/llm";
+import { createTTSProvider } from "../core/tts";
 import type { StepConfig, TypeDef } from "../core/types";
 import {
   loadBookConfig,
@@ -19,9 +24,12 @@ import {
   getPrunedSectionTypes,
   getSectionTypes,
   getImageFilters,
+  getProviders,
+  type ProviderConfig,
 } from "@/lib/config";
 import { getBooksRoot, getBookMetadata } from "@/lib/books";
-import { appendLlmLog } from "@/lib/books";
+import { appendLlmLog, recordLlmUsage } from "@/lib/books";
+import { budgetStopReason } from "@/lib/usage";
 
 // ============================================================================
 // Factory options
@@ -31,6 +39,8 @@ export interface CreatePageRunnerOptions {
   label: string;
   progress?: Progress;
   skipCache?: boolean;
+  /** Cancels the runner's in-flight model calls (e.g. when a job is cancelled) */
+  signal?: AbortSignal;
 }
 
 // ============================================================================
@@ -41,12 +51,17 @@ export interface CreatePageRunnerOptions {
  * Create a fully configured PageRunnerConfig for a book.
  *
  * This loads the configuration, creates storage, sets up the LLM model
- * with caching, and wires everything together.
+ * with caching, and wires everything together. Once an LLM call spends the
+ * book's budget, the runner's signal is aborted so no further calls start.
  */
 export function createPageRunner(
   options: CreatePageRunnerOptions
 ): PageRunnerConfig {
   const { label, progress = nullProgress, skipCache = false } = options;
+  const budgetController = new AbortController();
+  const signal = options.signal
+    ? AbortSignal.any([options.signal, budgetController.signal])
+    : budgetController.signal;
 
   // Load configuration
   const bookConfig = loadBookConfig(label);
@@ -66,6 +81,11 @@ export function createPageRunner(
       minSide: rawFilters.min_side,
       maxSide: rawFilters.max_side,
     },
+    requireAllTexts: bookConfig.web_rendering?.require_all_texts ?? false,
+    mathReocr: bookConfig.math?.reocr ?? false,
+    ocrFallback: bookConfig.ocr?.fallback ?? false,
+    targetLanguages: bookConfig.translation?.target_languages ?? [],
+    speechVoice: bookConfig.speech?.voice,
   };
 
   // Build prompt config
@@ -75,27 +95,75 @@ export function createPageRunner(
       bookConfig.text_classification?.prompt ?? "text_classification",
     pageSectioning: bookConfig.page_sectioning?.prompt ?? "page_sectioning",
     webRendering: bookConfig.web_rendering?.prompt ?? "web_generation_html",
+    imageClassification:
+      bookConfig.image_classification?.prompt ?? "image_classification",
+    imageDescription:
+      bookConfig.image_description?.prompt ?? "image_description",
     sectionEdit: "web_edit_section",
+    sectionLinking: bookConfig.section_linking?.prompt ?? "section_linking",
+    translation: bookConfig.translation?.prompt ?? "translation",
+    mathReocr: bookConfig.math?.prompt ?? "math_reocr",
+    ocr: bookConfig.ocr?.prompt ?? "page_ocr",
   };
 
   // Create LLM model with caching
-  const provider = (bookConfig.provider as LLMProvider | undefined) ?? "openai";
+  const provider = bookConfig.provider ?? "openai";
+  const providers: ProviderRegistry = {
+    ...BUILTIN_PROVIDERS,
+    ...toProviderRegistry(getProviders(bookConfig)),
+  };
   const cacheDir = path.join(booksRoot, label, ".cache");
 
-  const model = createLLMModel({
-    provider,
-    modelId: bookConfig.text_classification?.model,
-    cacheDir,
-    skipCache,
-    onLog: (entry) => {
-      // Log to the book's LLM log table
-      try {
-        appendLlmLog(label, { ...entry, label });
-      } catch {
-        // Don't fail the pipeline on logging errors
-      }
-    },
-  });
+  const createModel = (modelId: string | undefined) =>
+    createLLMModel({
+      provider,
+      providers,
+      modelId,
+      cacheDir,
+      skipCache,
+      onLog: (entry) => {
+        // Log to the book's LLM log table and usage ledger
+        try {
+          appendLlmLog(label, { ...entry, label });
+          recordLlmUsage(label, entry);
+          // Stop before the next call once this one spent the budget
+          const reason = entry.usage ? budgetStopReason(label) : null;
+          if (reason) budgetController.abort(new Error(reason));
+        } catch {
+          // Don't fail the pipeline on logging errors
+        }
+      },
+    });
+
+  const model = createModel(bookConfig.text_classification?.model);
+
+  // Steps with their own `model` get a separate client; the rest share `model`
+  const stepModel = (modelId: string | undefined) =>
+    modelId ? createModel(modelId) : undefined;
+  const stepModels: PageRunnerConfig["stepModels"] = {
+    metadata: stepModel(bookConfig.metadata?.model),
+    "image-description": stepModel(bookConfig.image_description?.model),
+    "math-reocr": stepModel(bookConfig.math?.model),
+    ocr: stepModel(bookConfig.ocr?.model),
+    translation: stepModel(bookConfig.translation?.model),
+    "page-sectioning": stepModel(bookConfig.page_sectioning?.model),
+    "section-linking": stepModel(bookConfig.section_linking?.model),
+    "web-rendering": stepModel(bookConfig.web_rendering?.model),
+  };
+
+  // LLM image classification is opt-in: without a model, size filters apply
+  const imageClassificationModelId = bookConfig.image_classification?.model;
+  const imageClassificationModel = imageClassificationModelId
+    ? createModel(imageClassificationModelId)
+    : undefined;
+
+  // Speech is opt-in: without a provider no audio is generated
+  const speechProvider = bookConfig.speech?.provider
+    ? createTTSProvider({
+        provider: bookConfig.speech.provider,
+        modelId: bookConfig.speech.model,
+      })
+    : undefined;
 
   // Create storage
   const storage = createBookStorage(label);
@@ -105,7 +173,11 @@ export function createPageRunner(
     progress,
     config,
     model,
+    imageClassificationModel,
+    speechProvider,
+    stepModels,
     prompts,
+    signal,
   };
 }
 
@@ -113,6 +185,24 @@ export function createPageRunner(
 // Helpers
 // ============================================================================
 
+function toProviderRegistry(
+  record: Record<string, ProviderConfig>
+): ProviderRegistry {
+  return Object.fromEntries(
+    Object.entries(record).map(([name, p]) => [
+      name,
+      {
+        type: p.type,
+        baseURL: p.base_url,
+        resourceName: p.resource_name,
+        apiKeyEnv: p.api_key_env,
+        headers: p.headers,
+        defaultModel: p.default_model,
+      },
+    ])
+  );
+}
+
 function recordToTypeDefs(record: Record<string, string>): TypeDef[] {
   return Object.entries(record).map(([key, description]) => ({
     key,
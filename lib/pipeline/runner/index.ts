@@ -15,6 +15,8 @@ export {
   type BookStepName,
   type PageStepName,
   type ProgressEvent,
+  type ModelStep,
+  modelForStep,
   nullProgress,
   createConsoleProgress,
   createCallbackProgress,
@@ -25,18 +27,34 @@ export {
   runExtract,
   runMetadataExtraction,
   runBookPipeline,
+  runSectionLinking,
+  runAccessibilityAudit,
+  findRunningTextInconsistencies,
+  applyRunningTextCorrections,
+  runPageLabeling,
+  runTableOfContents,
   type ExtractOptions,
   type BookPipelineOptions,
+  type SectionLinkingOptions,
+  type AccessibilityAuditSummary,
+  type RunningTextApplyResult,
 } from "./book-runner";
 
 // Page-level runners
 export {
   runPagePipeline,
   runImageClassification,
+  runImageDescription,
+  applyPageImageDescriptions,
   runTextClassification,
+  runTranslation,
+  runSpeech,
   runPageSectioning,
   runWebRendering,
   runWebRenderingSection,
+  runLinkedSectionRendering,
+  runSectionAccessibilityAudit,
+  runSectionLocalization,
   runWebEdit,
 } from "./page-runner";
 
@@ -46,4 +64,5 @@ export { createBookStorage } from "./storage-adapter";
 export { createPageRunner } from "./factory";
 
 // Re-export types from steps that external code may need
-export type { PdfMetadata } from "../steps/extract";
+export type { PdfMetadata, PageLayout, LayoutRect } from "../steps/extract";
+export type { RunningTextCluster, RunningTextCorrection } from "../steps/running-text";
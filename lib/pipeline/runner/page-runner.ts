@@ -12,12 +12,41 @@ import type {
   RunOptions,
   StepName,
 } from "./types";
-import { classifyImages } from "../steps/image-classification";
+import { modelForStep, withAbortSignal } from "./types";
+import { classifyImages, classifyImagesWithLLM } from "../steps/image-classification";
+import { describeImages } from "../steps/image-description";
 import { classifyText } from "../steps/text-classification";
+import { reocrMath } from "../steps/math";
+import { ocrPage } from "../steps/ocr";
+import { translateText } from "../steps/translation";
+import { synthesizeSpeech } from "../steps/speech";
 import { sectionPage } from "../steps/page-sectioning";
-import { renderPage, renderSection, editSection } from "../steps/web-rendering";
-import type { SectionRendering, WebRenderingOutput } from "../core/schemas";
-import type { Annotation } from "../steps/web-rendering";
+import {
+  renderPage,
+  renderSection,
+  renderLinkedSections,
+  editSection,
+} from "../steps/web-rendering";
+import { findChainHead, resolveSectionChain } from "../steps/section-linking";
+import { auditSectionAccessibility } from "../steps/accessibility-audit";
+import { localizeSectionHtml } from "../web-rendering/localize-html";
+import { applyImageDescriptions } from "../web-rendering/image-descriptions";
+import type {
+  AccessibilityAuditOutput,
+  ImageClassificationOutput,
+  ImageDescription,
+  PageSectioningOutput,
+  SectionLink,
+  SectionRendering,
+  TranslatedRendering,
+  WebRenderingOutput,
+} from "../core/schemas";
+import type { Page } from "../core/types";
+import type {
+  Annotation,
+  ImageInput,
+  LinkedSectionPart,
+} from "../steps/web-rendering";
 
 // ============================================================================
 // Main pipeline runner
@@ -26,9 +55,12 @@ import type { Annotation } from "../steps/web-rendering";
 /**
  * Run the full pipeline for a single page.
  *
- * Steps are run in order:
+ * Steps are run in order (after OCR of a page without PDF text, if enabled):
  * 1. Image Classification (rule-based)
+ *    Image Description (LLM, alt text)
  * 2. Text Classification (LLM)
+ *    Translation (LLM, per target language)
+ *    Speech (TTS, read-along audio per text)
  * 3. Page Sectioning (LLM)
  * 4. Web Rendering (LLM, per section)
  */
@@ -37,33 +69,32 @@ export async function runPagePipeline(
   runner: PageRunnerConfig,
   options?: RunOptions
 ): Promise<void> {
-  const { storage, progress, config, model, prompts } = runner;
+  const { storage, progress, config, prompts } = runner;
   const steps = options?.steps ?? [
     "image-classification",
+    "image-description",
     "text-classification",
+    "translation",
+    "speech",
     "page-sectioning",
     "web-rendering",
   ];
 
   // Load the page
-  const page = await storage.getPage(pageId);
-  if (!page) {
+  const loaded = await storage.getPage(pageId);
+  if (!loaded) {
     throw new Error(`Page ${pageId} not found`);
   }
+  const page = await withOcrFallback(loaded, runner);
 
   // Step 1: Image Classification
   let imageClassificationVersion = 0;
   if (steps.includes("image-classification")) {
+    runner.signal?.throwIfAborted();
     progress.emit({ type: "step-start", step: "image-classification", pageId });
 
     try {
-      const images = await storage.getPageImages(pageId);
-      const result = classifyImages({
-        pageId,
-        images,
-        filters: config.imageFilters,
-      });
-
+      const result = await classifyPageImages(page, runner);
       const { version } = await storage.putImageClassification(pageId, result);
       imageClassificationVersion = version;
       progress.emit({
@@ -87,23 +118,53 @@ export async function runPagePipeline(
     imageClassificationVersion = existing?.version ?? 0;
   }
 
-  // Step 2: Text Classification
-  let textClassificationVersion = 0;
-  if (steps.includes("text-classification")) {
-    progress.emit({ type: "step-start", step: "text-classification", pageId });
+  // Step 1b: Image Description
+  if (steps.includes("image-description")) {
+    runner.signal?.throwIfAborted();
+    progress.emit({ type: "step-start", step: "image-description", pageId });
 
     try {
-      const result = await classifyText({
+      const imageClassification = await storage.getImageClassification(pageId);
+      if (!imageClassification) {
+        throw new Error("Image classification required for image description");
+      }
+
+      const images = await storage.getPageImages(pageId);
+      const result = await describeImages({
         page,
+        imageClassification: imageClassification.data,
+        images,
         language: config.language,
-        textTypes: config.textTypes,
-        textGroupTypes: config.textGroupTypes,
-        prunedTextTypes: config.prunedTextTypes,
-        model,
-        promptName: prompts.textClassification,
+        model: modelForStep(runner, "image-description"),
+        promptName: prompts.imageDescription ?? "image_description",
+      });
+
+      const { version } = await storage.putImageDescriptions(pageId, result);
+      progress.emit({
+        type: "step-complete",
+        step: "image-description",
+        pageId,
+        version,
       });
+    } catch (err) {
+      progress.emit({
+        type: "step-error",
+        step: "image-description",
+        pageId,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      throw err;
+    }
+  }
+
+  // Step 2: Text Classification
+  let textClassificationVersion = 0;
+  if (steps.includes("text-classification")) {
+    runner.signal?.throwIfAborted();
+    progress.emit({ type: "step-start", step: "text-classification", pageId });
 
-      const { version } = await storage.putTextClassification(pageId, result);
+    try {
+      const { version } = await classifyAndStoreText(page, runner);
       textClassificationVersion = version;
       progress.emit({
         type: "step-complete",
@@ -126,8 +187,91 @@ export async function runPagePipeline(
     textClassificationVersion = existing?.version ?? 0;
   }
 
+  // Step 2b: Translation (rendered variants are built when sections are saved)
+  if (steps.includes("translation") && (config.targetLanguages ?? []).length > 0) {
+    runner.signal?.throwIfAborted();
+    progress.emit({ type: "step-start", step: "translation", pageId });
+
+    try {
+      const textClassification = await storage.getTextClassification(pageId);
+      if (!textClassification) {
+        throw new Error("Text classification required for translation");
+      }
+
+      let version = 0;
+      for (const language of config.targetLanguages ?? []) {
+        progress.emit({
+          type: "step-progress",
+          step: "translation",
+          pageId,
+          message: `Translating into ${language}`,
+        });
+        const result = await translateText({
+          page,
+          textClassification: textClassification.data,
+          sourceLanguage: config.language,
+          targetLanguage: language,
+          model: modelForStep(runner, "translation"),
+          promptName: prompts.translation ?? "translation",
+        });
+        const saved = await storage.putTranslation(
+          pageId,
+          result,
+          textClassification.version
+        );
+        version = saved.version;
+      }
+      progress.emit({
+        type: "step-complete",
+        step: "translation",
+        pageId,
+        version,
+      });
+    } catch (err) {
+      progress.emit({
+        type: "step-error",
+        step: "translation",
+        pageId,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      throw err;
+    }
+  }
+
+  // Step 2c: Speech (only when a TTS provider is configured)
+  if (steps.includes("speech") && runner.speechProvider) {
+    runner.signal?.throwIfAborted();
+    progress.emit({ type: "step-start", step: "speech", pageId });
+
+    try {
+      const { version } = await runSpeech(pageId, runner, (done, total) =>
+        progress.emit({
+          type: "step-progress",
+          step: "speech",
+          pageId,
+          message: `Synthesizing speech (${done}/${total})`,
+        })
+      );
+      progress.emit({
+        type: "step-complete",
+        step: "speech",
+        pageId,
+        version,
+      });
+    } catch (err) {
+      progress.emit({
+        type: "step-error",
+        step: "speech",
+        pageId,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      throw err;
+    }
+  }
+
   // Step 3: Page Sectioning
   if (steps.includes("page-sectioning")) {
+    runner.signal?.throwIfAborted();
     progress.emit({ type: "step-start", step: "page-sectioning", pageId });
 
     try {
@@ -151,7 +295,7 @@ export async function runPagePipeline(
         images,
         sectionTypes: config.sectionTypes,
         prunedSectionTypes: config.prunedSectionTypes,
-        model,
+        model: modelForStep(runner, "page-sectioning"),
         promptName: prompts.pageSectioning,
       });
 
@@ -180,6 +324,7 @@ export async function runPagePipeline(
 
   // Step 4: Web Rendering
   if (steps.includes("web-rendering")) {
+    runner.signal?.throwIfAborted();
     progress.emit({ type: "step-start", step: "web-rendering", pageId });
 
     try {
@@ -190,47 +335,14 @@ export async function runPagePipeline(
         throw new Error("Page sectioning required for web rendering");
       }
 
-      const images = await storage.getPageImages(pageId);
-      const imageMap = new Map(images.map((img) => [img.imageId, img.imageBase64]));
-
-      // Render all sections (texts/images are already resolved in sectioning)
-      const result = await renderPage({
-        page,
-        sectioning: sectioning.data,
-        images: imageMap,
-        model,
-        promptName: prompts.webRendering,
-        maxRetries: 2,
-      });
-
-      // Save each section
-      for (let i = 0; i < sectioning.data.sections.length; i++) {
-        const sectionId = `${pageId}_s${String(i + 1).padStart(3, "0")}`;
-        const section = sectioning.data.sections[i];
-
-        // Find the rendering for this section (if it was rendered)
-        const rendering = result.sections.find((s) => s.sectionIndex === i);
-
-        if (section.isPruned || !rendering) {
-          // Save null for pruned/empty sections
-          await storage.putSectionRendering(sectionId, null);
-        } else {
-          await storage.putSectionRendering(sectionId, rendering);
-        }
-
+      await renderAndSavePage(page, sectioning.data, runner, (message) =>
         progress.emit({
           type: "step-progress",
           step: "web-rendering",
           pageId,
-          message: `Rendered section ${i + 1}/${sectioning.data.sections.length}`,
-        });
-      }
-
-      // Handle case where there are no sections
-      if (sectioning.data.sections.length === 0) {
-        const sectionId = `${pageId}_s001`;
-        await storage.putSectionRendering(sectionId, null);
-      }
+          message,
+        })
+      );
 
       progress.emit({
         type: "step-complete",
@@ -261,16 +373,96 @@ export async function runImageClassification(
   pageId: string,
   runner: PageRunnerConfig
 ): Promise<{ version: number }> {
-  const { storage, config } = runner;
+  const { storage } = runner;
+
+  const page = await storage.getPage(pageId);
+  if (!page) throw new Error(`Page ${pageId} not found`);
+
+  const result = await classifyPageImages(page, runner);
+  return storage.putImageClassification(pageId, result);
+}
+
+/**
+ * Run just image description (alt text) for a page.
+ */
+export async function runImageDescription(
+  pageId: string,
+  runner: PageRunnerConfig
+): Promise<{ version: number }> {
+  const { storage, config, prompts } = runner;
+  const model = modelForStep(runner, "image-description");
+
+  const page = await storage.getPage(pageId);
+  if (!page) throw new Error(`Page ${pageId} not found`);
+
+  const imageClassification = await storage.getImageClassification(pageId);
+  if (!imageClassification) throw new Error("Image classification required");
 
   const images = await storage.getPageImages(pageId);
-  const result = classifyImages({
-    pageId,
+  const result = await describeImages({
+    page,
+    imageClassification: imageClassification.data,
     images,
-    filters: config.imageFilters,
+    language: config.language,
+    model,
+    promptName: prompts.imageDescription ?? "image_description",
   });
 
-  return storage.putImageClassification(pageId, result);
+  return storage.putImageDescriptions(pageId, result);
+}
+
+/**
+ * Stamp a page's stored image descriptions onto the renderings that show its
+ * images, without an LLM re-render. Sections linked across pages are updated
+ * on the head of their chain, which holds the merged rendering. Changed
+ * renderings are saved like any other, so their accessibility audit and
+ * translated variants are rebuilt. Returns the IDs of the updated sections.
+ */
+export async function applyPageImageDescriptions(
+  pageId: string,
+  runner: PageRunnerConfig
+): Promise<string[]> {
+  const { storage } = runner;
+  const descriptions = (await storage.getImageDescriptions(pageId))?.data.images ?? [];
+  const sectioning = await storage.getPageSectioning(pageId);
+  const links = await loadSectionLinks(runner);
+
+  const sectionIds = new Set(
+    (sectioning?.data.sections ?? []).map((_, i) =>
+      findChainHead(links, `${pageId}_s${String(i + 1).padStart(3, "0")}`)
+    )
+  );
+
+  const updated: string[] = [];
+  for (const sectionId of sectionIds) {
+    const rendering = await storage.getSectionRendering(sectionId);
+    if (!rendering?.data.html) continue;
+    const html = applyImageDescriptions(rendering.data.html, descriptions);
+    if (html === rendering.data.html) continue;
+    await saveSectionRendering(sectionId, { ...rendering.data, html }, runner);
+    updated.push(sectionId);
+  }
+  return updated;
+}
+
+/**
+ * With OCR fallback on, transcribe a page that has no PDF text from its
+ * image (once: a stored transcription is already the page's raw text).
+ * Returns the page with the transcription as its raw text.
+ */
+async function withOcrFallback(page: Page, runner: PageRunnerConfig): Promise<Page> {
+  const { storage, config, prompts } = runner;
+  if (!config.ocrFallback || page.rawText.trim()) return page;
+  if (await storage.getPageOcr(page.pageId)) return page;
+
+  runner.signal?.throwIfAborted();
+  const result = await ocrPage({
+    page,
+    model: modelForStep(runner, "ocr"),
+    promptName: prompts.ocr ?? "page_ocr",
+  });
+  await storage.putPageOcr(page.pageId, result);
+  return { ...page, rawText: result.text };
 }
 
 /**
@@ -280,22 +472,124 @@ export async function runTextClassification(
   pageId: string,
   runner: PageRunnerConfig
 ): Promise<{ version: number }> {
-  const { storage, config, model, prompts } = runner;
-
-  const page = await storage.getPage(pageId);
-  if (!page) throw new Error(`Page ${pageId} not found`);
+  const loaded = await runner.storage.getPage(pageId);
+  if (!loaded) throw new Error(`Page ${pageId} not found`);
+  const page = await withOcrFallback(loaded, runner);
+  return classifyAndStoreText(page, runner);
+}
 
+/**
+ * Classify a page's text, re-transcribe its math from the page image when
+ * `mathReocr` is on, and store the result.
+ */
+async function classifyAndStoreText(
+  page: Page,
+  runner: PageRunnerConfig
+): Promise<{ version: number }> {
+  const { storage, config, prompts } = runner;
   const result = await classifyText({
     page,
     language: config.language,
     textTypes: config.textTypes,
     textGroupTypes: config.textGroupTypes,
     prunedTextTypes: config.prunedTextTypes,
-    model,
+    model: modelForStep(runner, "text-classification"),
     promptName: prompts.textClassification,
   });
 
-  return storage.putTextClassification(pageId, result);
+  const classification = config.mathReocr
+    ? await reocrMath({
+        page,
+        textClassification: result,
+        model: modelForStep(runner, "math-reocr"),
+        promptName: prompts.mathReocr ?? "math_reocr",
+      })
+    : result;
+
+  return storage.putTextClassification(page.pageId, classification);
+}
+
+/**
+ * Translate a page's text into the given languages (default: every
+ * configured target language), then rebuild the language variants of the
+ * sections that contain this page's text.
+ */
+export async function runTranslation(
+  pageId: string,
+  runner: PageRunnerConfig,
+  languages?: string[]
+): Promise<Array<{ language: string; version: number }>> {
+  const { storage, config, prompts } = runner;
+  const model = modelForStep(runner, "translation");
+
+  const page = await storage.getPage(pageId);
+  if (!page) throw new Error(`Page ${pageId} not found`);
+
+  const textClassification = await storage.getTextClassification(pageId);
+  if (!textClassification) throw new Error("Text classification required");
+
+  const results: Array<{ language: string; version: number }> = [];
+  for (const language of languages ?? config.targetLanguages ?? []) {
+    const result = await translateText({
+      page,
+      textClassification: textClassification.data,
+      sourceLanguage: config.language,
+      targetLanguage: language,
+      model,
+      promptName: prompts.translation ?? "translation",
+    });
+    const { version } = await storage.putTranslation(
+      pageId,
+      result,
+      textClassification.version
+    );
+    results.push({ language, version });
+  }
+
+  // Sections linked across a page break keep their content on the chain head
+  const sectioning = await storage.getPageSectioning(pageId);
+  const links = await loadSectionLinks(runner);
+  const linked = linkedSectionIds(links);
+  const sectionIds = new Set(
+    (sectioning?.data.sections ?? []).map((_, i) => {
+      const sectionId = `${pageId}_s${String(i + 1).padStart(3, "0")}`;
+      return linked.has(sectionId) ? findChainHead(links, sectionId) : sectionId;
+    })
+  );
+  for (const sectionId of sectionIds) {
+    await runSectionLocalization(sectionId, runner, languages);
+  }
+
+  return results;
+}
+
+/**
+ * Synthesize read-along audio for a page's text. Clips whose text, voice
+ * and provider are unchanged since the last run are reused.
+ */
+export async function runSpeech(
+  pageId: string,
+  runner: PageRunnerConfig,
+  onProgress?: (done: number, total: number) => void
+): Promise<{ version: number }> {
+  const { storage, config, speechProvider } = runner;
+  if (!speechProvider) throw new Error("No speech provider configured");
+
+  const textClassification = await storage.getTextClassification(pageId);
+  if (!textClassification) throw new Error("Text classification required for speech");
+
+  const previous = await storage.getSpeech(pageId);
+  const { output, audio } = await synthesizeSpeech({
+    textClassification: textClassification.data,
+    language: config.language,
+    provider: speechProvider,
+    voice: config.speechVoice,
+    previous: previous?.data,
+    onProgress,
+    abortSignal: runner.signal,
+  });
+
+  return storage.putSpeech(pageId, output, audio, textClassification.version);
 }
 
 /**
@@ -305,7 +599,8 @@ export async function runPageSectioning(
   pageId: string,
   runner: PageRunnerConfig
 ): Promise<{ version: number }> {
-  const { storage, config, model, prompts } = runner;
+  const { storage, config, prompts } = runner;
+  const model = modelForStep(runner, "page-sectioning");
 
   const page = await storage.getPage(pageId);
   if (!page) throw new Error(`Page ${pageId} not found`);
@@ -345,7 +640,7 @@ export async function runWebRendering(
   runner: PageRunnerConfig,
   onProgress?: (message: string) => void
 ): Promise<WebRenderingOutput> {
-  const { storage, model, prompts } = runner;
+  const { storage } = runner;
 
   const page = await storage.getPage(pageId);
   if (!page) throw new Error(`Page ${pageId} not found`);
@@ -355,51 +650,26 @@ export async function runWebRendering(
     throw new Error("Page sectioning required");
   }
 
-  const images = await storage.getPageImages(pageId);
-  const imageMap = new Map(images.map((img) => [img.imageId, img.imageBase64]));
-
-  // Render all sections (texts/images are already resolved in sectioning)
-  const result = await renderPage({
-    page,
-    sectioning: sectioning.data,
-    images: imageMap,
-    model,
-    promptName: prompts.webRendering,
-    maxRetries: 2,
-  });
-
-  // Save each section
-  for (let i = 0; i < sectioning.data.sections.length; i++) {
-    const sectionId = `${pageId}_s${String(i + 1).padStart(3, "0")}`;
-    const section = sectioning.data.sections[i];
-    const rendering = result.sections.find((s) => s.sectionIndex === i);
-
-    if (section.isPruned || !rendering) {
-      await storage.putSectionRendering(sectionId, null);
-    } else {
-      await storage.putSectionRendering(sectionId, rendering);
-    }
-
-    onProgress?.(`Rendered section ${i + 1}/${sectioning.data.sections.length}`);
-  }
-
-  if (sectioning.data.sections.length === 0) {
-    const sectionId = `${pageId}_s001`;
-    await storage.putSectionRendering(sectionId, null);
-  }
-
-  return result;
+  return renderAndSavePage(page, sectioning.data, runner, onProgress);
 }
 
 /**
- * Re-render a single section.
+ * Re-render a single section. A section linked across a page break is
+ * re-rendered together with the rest of its chain.
  */
 export async function runWebRenderingSection(
   pageId: string,
   sectionIndex: number,
   runner: PageRunnerConfig
 ): Promise<SectionRendering> {
-  const { storage, model, prompts } = runner;
+  const { storage, config, prompts } = runner;
+  const model = modelForStep(runner, "web-rendering");
+
+  const sectionId = `${pageId}_s${String(sectionIndex + 1).padStart(3, "0")}`;
+  const links = await loadSectionLinks(runner);
+  if (linkedSectionIds(links).has(sectionId)) {
+    return runLinkedSectionRendering(sectionId, runner);
+  }
 
   const page = await storage.getPage(pageId);
   if (!page) throw new Error(`Page ${pageId} not found`);
@@ -415,16 +685,17 @@ export async function runWebRenderingSection(
 
   const images = await storage.getPageImages(pageId);
   const imageMap = new Map(images.map((img) => [img.imageId, img.imageBase64]));
+  const descriptions = await loadImageDescriptions(runner, pageId);
 
   // Use resolved texts and imageIds from section
   const texts = section.texts ?? [];
   const sectionImages = (section.imageIds ?? [])
-    .map((imageId) => {
+    .map((imageId): ImageInput | null => {
       const imageBase64 = imageMap.get(imageId);
       if (!imageBase64) return null;
-      return { imageId, imageBase64 };
+      return { imageId, imageBase64, description: descriptions.get(imageId) };
     })
-    .filter((img): img is { imageId: string; imageBase64: string } => img !== null);
+    .filter((img): img is ImageInput => img !== null);
 
   if (texts.length === 0 && sectionImages.length === 0) {
     throw new Error(`Section ${sectionIndex} has no content`);
@@ -436,18 +707,105 @@ export async function runWebRenderingSection(
     sectionType: section.sectionType,
     texts,
     images: sectionImages,
+    tables: section.tables,
     model,
     promptName: prompts.webRendering,
     maxRetries: 2,
+    requireAllTexts: config.requireAllTexts,
   });
 
   // Save the result
-  const sectionId = `${pageId}_s${String(sectionIndex + 1).padStart(3, "0")}`;
-  await storage.putSectionRendering(sectionId, rendering);
+  await saveSectionRendering(sectionId, rendering, runner);
 
   return rendering;
 }
 
+/**
+ * Render the whole chain of linked sections that `sectionId` belongs to as a
+ * single unit. The rendering is stored on the head section (with
+ * `mergedSectionIds`); each continuation is stored as an empty placeholder
+ * pointing back at the head via `mergedInto`.
+ */
+export async function runLinkedSectionRendering(
+  sectionId: string,
+  runner: PageRunnerConfig
+): Promise<SectionRendering> {
+  const { storage, config, prompts } = runner;
+  const model = modelForStep(runner, "web-rendering");
+
+  const links = await loadSectionLinks(runner);
+  const chain = resolveSectionChain(links, findChainHead(links, sectionId));
+
+  const parts: LinkedSectionPart[] = [];
+  const partIds: string[] = [];
+  for (const id of chain) {
+    const match = SECTION_ID_RE.exec(id);
+    if (!match) throw new Error(`Invalid section ID: ${id}`);
+    const [, pageId, sectionNumber] = match;
+    const sectionIndex = Number(sectionNumber) - 1;
+
+    const page = await storage.getPage(pageId);
+    if (!page) throw new Error(`Page ${pageId} not found`);
+
+    const sectioning = await storage.getPageSectioning(pageId);
+    if (!sectioning) throw new Error(`Page sectioning required for ${pageId}`);
+
+    // Links can outlive a re-sectioning; skip members that no longer exist
+    const section = sectioning.data.sections[sectionIndex];
+    if (!section || section.isPruned) continue;
+
+    const images = await storage.getPageImages(pageId);
+    const imageMap = new Map(images.map((img) => [img.imageId, img.imageBase64]));
+    const descriptions = await loadImageDescriptions(runner, pageId);
+    const sectionImages = (section.imageIds ?? [])
+      .map((imageId): ImageInput | null => {
+        const imageBase64 = imageMap.get(imageId);
+        if (!imageBase64) return null;
+        return { imageId, imageBase64, description: descriptions.get(imageId) };
+      })
+      .filter((img): img is ImageInput => img !== null);
+
+    parts.push({
+      page,
+      sectionIndex,
+      sectionType: section.sectionType,
+      texts: section.texts ?? [],
+      images: sectionImages,
+      tables: section.tables,
+    });
+    partIds.push(id);
+  }
+
+  if (parts.every((p) => p.texts.length === 0 && p.images.length === 0)) {
+    throw new Error(`Section ${sectionId} has no content`);
+  }
+
+  const rendering = await renderLinkedSections({
+    parts,
+    model,
+    promptName: prompts.webRendering,
+    maxRetries: 2,
+    requireAllTexts: config.requireAllTexts,
+  });
+
+  const [headId, ...mergedIds] = partIds;
+  const headRendering: SectionRendering =
+    mergedIds.length > 0 ? { ...rendering, mergedSectionIds: mergedIds } : rendering;
+  await saveSectionRendering(headId, headRendering, runner);
+
+  for (let i = 1; i < parts.length; i++) {
+    await storage.putSectionRendering(partIds[i], {
+      sectionIndex: parts[i].sectionIndex,
+      sectionType: parts[i].sectionType,
+      reasoning: `Rendered as part of ${headId}`,
+      html: "",
+      mergedInto: headId,
+    });
+  }
+
+  return headRendering;
+}
+
 /**
  * Edit a section based on annotations.
  */
@@ -459,7 +817,8 @@ export async function runWebEdit(
   currentHtml: string,
   runner: PageRunnerConfig
 ): Promise<SectionRendering> {
-  const { storage, model, prompts } = runner;
+  const { storage, prompts } = runner;
+  const model = modelForStep(runner, "web-rendering");
 
   const page = await storage.getPage(pageId);
   if (!page) throw new Error(`Page ${pageId} not found`);
@@ -477,6 +836,28 @@ export async function runWebEdit(
     }
   }
 
+  // A merged rendering also contains content from its continuation sections
+  const sectionId = `${pageId}_s${String(sectionIndex + 1).padStart(3, "0")}`;
+  const existing = await storage.getSectionRendering(sectionId);
+  for (const mergedId of existing?.data.mergedSectionIds ?? []) {
+    const match = SECTION_ID_RE.exec(mergedId);
+    if (!match) continue;
+    const mergedSectioning = await storage.getPageSectioning(match[1]);
+    const merged = mergedSectioning?.data.sections[Number(match[2]) - 1];
+    if (!merged) continue;
+    allowedTextIds = [...(allowedTextIds ?? []), ...(merged.texts ?? []).map((t) => t.textId)];
+    allowedImageIds = [...(allowedImageIds ?? []), ...(merged.imageIds ?? [])];
+  }
+
+  // Images may come from other pages when the section is merged
+  const descriptions = new Map<string, ImageDescription>();
+  const imagePageIds = new Set((allowedImageIds ?? []).map((id) => id.split("_")[0]));
+  for (const imagePageId of imagePageIds) {
+    for (const [id, d] of await loadImageDescriptions(runner, imagePageId)) {
+      descriptions.set(id, d);
+    }
+  }
+
   const result = await editSection({
     page,
     currentHtml,
@@ -484,26 +865,246 @@ export async function runWebEdit(
     annotations,
     allowedTextIds,
     allowedImageIds,
+    imageDescriptions: (allowedImageIds ?? []).flatMap((id) => {
+      const d = descriptions.get(id);
+      return d ? [d] : [];
+    }),
     model,
     promptName: prompts.sectionEdit ?? "web_edit_section",
     maxRetries: 2,
   });
 
-  // Get current section data and update
-  const sectionId = `${pageId}_s${String(sectionIndex + 1).padStart(3, "0")}`;
-  const existing = await storage.getSectionRendering(sectionId);
-
+  // Update the current section data
   const updatedRendering: SectionRendering = {
     sectionIndex,
     sectionType: existing?.data.sectionType ?? "unknown",
     reasoning: result.reasoning,
     html: result.html,
+    ...(existing?.data.mergedSectionIds
+      ? { mergedSectionIds: existing.data.mergedSectionIds }
+      : {}),
   };
 
-  await storage.putSectionRendering(sectionId, updatedRendering);
+  await saveSectionRendering(sectionId, updatedRendering, runner);
 
   return updatedRendering;
 }
 
+/**
+ * Audit the latest rendering of a section for accessibility problems and
+ * save the findings. Returns null for empty, pruned or merged sections.
+ */
+export async function runSectionAccessibilityAudit(
+  sectionId: string,
+  runner: PageRunnerConfig
+): Promise<AccessibilityAuditOutput | null> {
+  const { storage, config } = runner;
+
+  const match = SECTION_ID_RE.exec(sectionId);
+  if (!match) throw new Error(`Invalid section ID: ${sectionId}`);
+
+  const rendering = await storage.getSectionRendering(sectionId);
+  if (!rendering || !rendering.data.html) return null;
+
+  const sectioning = await storage.getPageSectioning(match[1]);
+  const section = sectioning?.data.sections[Number(match[2]) - 1];
+
+  const audit: AccessibilityAuditOutput = {
+    webRenderingVersion: rendering.version,
+    findings: auditSectionAccessibility({
+      html: rendering.data.html,
+      textColor: section?.textColor,
+      backgroundColor: section?.backgroundColor,
+      languageCode: config.language,
+    }),
+  };
+  await storage.putAccessibilityAudit(sectionId, audit);
+  return audit;
+}
+
+/**
+ * Build and save the target-language variants of a section's latest
+ * rendering from the stored translations of every page its texts come
+ * from. Languages without a translation yet are skipped.
+ */
+export async function runSectionLocalization(
+  sectionId: string,
+  runner: PageRunnerConfig,
+  languages?: string[]
+): Promise<TranslatedRendering[]> {
+  const { storage, config } = runner;
+
+  const rendering = await storage.getSectionRendering(sectionId);
+  if (!rendering || !rendering.data.html) return [];
+
+  // Text IDs are prefixed with their page ID (merged sections span pages)
+  const pageIds = new Set(
+    [...rendering.data.html.matchAll(/\sdata-id="(pg\d{3})_[^"]*"/g)].map((m) => m[1])
+  );
+
+  const variants: TranslatedRendering[] = [];
+  for (const language of languages ?? config.targetLanguages ?? []) {
+    const translations = new Map<string, string>();
+    for (const pageId of pageIds) {
+      const stored = await storage.getTranslation(pageId, language);
+      for (const t of stored?.data.texts ?? []) translations.set(t.textId, t.text);
+    }
+    if (translations.size === 0) continue;
+
+    const variant: TranslatedRendering = {
+      language,
+      webRenderingVersion: rendering.version,
+      html: localizeSectionHtml(rendering.data.html, translations, language),
+    };
+    await storage.putTranslatedRendering(sectionId, variant);
+    variants.push(variant);
+  }
+  return variants;
+}
+
 // ============================================================================
 // Helper functions
+// ============================================================================
+
+const SECTION_ID_RE = /^(pg\d{3})_s(\d{3})$/;
+
+/**
+ * Save a section rendering; when it has content, audit it and rebuild its
+ * language variants.
+ */
+async function saveSectionRendering(
+  sectionId: string,
+  rendering: SectionRendering,
+  runner: PageRunnerConfig
+): Promise<void> {
+  await runner.storage.putSectionRendering(sectionId, rendering);
+  if (!rendering.html) return;
+  await runSectionAccessibilityAudit(sectionId, runner);
+  await runSectionLocalization(sectionId, runner);
+}
+
+async function loadSectionLinks(runner: PageRunnerConfig): Promise<SectionLink[]> {
+  const stored = await runner.storage.getSectionLinks();
+  return stored?.data.links ?? [];
+}
+
+async function loadImageDescriptions(
+  runner: PageRunnerConfig,
+  pageId: string
+): Promise<Map<string, ImageDescription>> {
+  const stored = await runner.storage.getImageDescriptions(pageId);
+  return new Map((stored?.data.images ?? []).map((d) => [d.imageId, d]));
+}
+
+/**
+ * Classify a page's images with the LLM when an image classification model
+ * is configured, falling back to the rule-based size filters otherwise.
+ */
+async function classifyPageImages(
+  page: Page,
+  runner: PageRunnerConfig
+): Promise<ImageClassificationOutput> {
+  const { storage, config, imageClassificationModel, prompts } = runner;
+  const images = await storage.getPageImages(page.pageId);
+
+  if (!imageClassificationModel) {
+    return classifyImages({
+      pageId: page.pageId,
+      images,
+      filters: config.imageFilters,
+    });
+  }
+
+  return classifyImagesWithLLM({
+    page,
+    images,
+    model: withAbortSignal(imageClassificationModel, runner.signal),
+    promptName: prompts.imageClassification ?? "image_classification",
+  });
+}
+
+function linkedSectionIds(links: SectionLink[]): Set<string> {
+  return new Set(links.flatMap((l) => [l.fromSectionId, l.toSectionId]));
+}
+
+/**
+ * Render and save every section of a page. Sections that take part in a
+ * cross-page link are left out of the per-page pass; each chain touching
+ * this page is rendered as a whole via `runLinkedSectionRendering`.
+ */
+async function renderAndSavePage(
+  page: Page,
+  sectioning: PageSectioningOutput,
+  runner: PageRunnerConfig,
+  onProgress?: (message: string) => void
+): Promise<WebRenderingOutput> {
+  const { storage, config, prompts } = runner;
+  const model = modelForStep(runner, "web-rendering");
+  const { pageId } = page;
+
+  const links = await loadSectionLinks(runner);
+  const linked = linkedSectionIds(links);
+  const sectionIdAt = (i: number) => `${pageId}_s${String(i + 1).padStart(3, "0")}`;
+
+  const images = await storage.getPageImages(pageId);
+  const imageMap = new Map(images.map((img) => [img.imageId, img.imageBase64]));
+  const imageDescriptions = await loadImageDescriptions(runner, pageId);
+
+  // Render unlinked sections (texts/images are already resolved in sectioning)
+  const result = await renderPage({
+    page,
+    sectioning: {
+      ...sectioning,
+      sections: sectioning.sections.map((section, i) =>
+        linked.has(sectionIdAt(i)) ? { ...section, isPruned: true } : section
+      ),
+    },
+    images: imageMap,
+    imageDescriptions,
+    model,
+    promptName: prompts.webRendering,
+    maxRetries: 2,
+    requireAllTexts: config.requireAllTexts,
+  });
+
+  // Save each section
+  const chainHeads = new Set<string>();
+  for (let i = 0; i < sectioning.sections.length; i++) {
+    const sectionId = sectionIdAt(i);
+    const section = sectioning.sections[i];
+
+    // Linked sections are rendered as one chain by the page that owns the
+    // chain's head; continuation pages skip theirs
+    if (linked.has(sectionId) && !section.isPruned) {
+      const headId = findChainHead(links, sectionId);
+      if (headId.startsWith(`${pageId}_`)) chainHeads.add(headId);
+      continue;
+    }
+
+    // Find the rendering for this section (if it was rendered)
+    const rendering = result.sections.find((s) => s.sectionIndex === i);
+
+    if (section.isPruned || !rendering) {
+      // Save null for pruned/empty sections
+      await storage.putSectionRendering(sectionId, null);
+    } else {
+      await saveSectionRendering(sectionId, rendering, runner);
+    }
+
+    onProgress?.(`Rendered section ${i + 1}/${sectioning.sections.length}`);
+  }
+
+  // Handle case where there are no sections
+  if (sectioning.sections.length === 0) {
+    await storage.putSectionRendering(`${pageId}_s001`, null);
+  }
+
+  // Render chains of sections that continue across page breaks
+  for (const headId of chainHeads) {
+    result.sections.push(await runLinkedSectionRendering(headId, runner));
+    onProgress?.(`Rendered linked section ${headId}`);
+  }
+  result.sections.sort((a, b) => a.sectionIndex - b.sectionIndex);
+
+  return result;
+}
@@ -11,19 +11,40 @@ import type { Storage } from "./types";
 import type { Page, PageImage } from "../core/types";
 import type {
   ImageClassificationOutput,
+  ImageDescriptionOutput,
+  AccessibilityAuditOutput,
+  AccessibilityRule,
   TextClassificationOutput,
+  PageOcrOutput,
+  TranslationOutput,
+  SpeechOutput,
   PageSectioningOutput,
   SectionRendering,
+  TranslatedRendering,
+  SectionLinksOutput,
 } from "../core/schemas";
 import {
   fromDBTextClassification,
   fromDBImageClassification,
+  fromDBImageDescriptions,
+  fromDBAccessibilityAudit,
   fromDBPageSectioning,
   fromDBSectionRendering,
+  fromDBSectionLinks,
+  fromDBTranslation,
+  fromDBTranslatedRendering,
+  fromDBSpeech,
   toDBTextClassification,
   toDBImageClassification,
+  toDBImageDescriptions,
+  toDBAccessibilityAudit,
   toDBPageSectioning,
   toDBSectionRendering,
+  toDBSectionLinks,
+  toDBTranslation,
+  toDBTranslatedRendering,
+  toDBSpeech,
+  speechAudioPath,
 } from "../core/schemas";
 import { getDb } from "@/lib/db";
 import {
@@ -31,18 +52,31 @@ import {
   getBookMetadata as getBookMetadataFromDb,
   getExtractedImages,
   putPageText,
+  putTextLayout,
+  getTextLayout,
   putImage,
   putBookMetadata as putBookMetadataToDb,
   putPdfMetadata as putPdfMetadataToDb,
   hasImage,
 } from "@/lib/books";
 import { resolveBookPaths } from "@/lib/pipeline/types";
-import type { ExtractedPage, ExtractedImage, PdfMetadata, BookMetadata } from "../steps";
+import { translationItemId } from "../translation/translation-schema";
+import type { PageLabels } from "../page-labels/page-labels-schema";
+import type { TableOfContents } from "../table-of-contents/table-of-contents-schema";
+import type {
+  ExtractedPage,
+  ExtractedImage,
+  PdfMetadata,
+  BookMetadata,
+  SpeechAudioFile,
+} from "../steps";
 
 // ============================================================================
 // Storage factory
 // ============================================================================
 
+const SECTION_ID_RE = /^(pg\d{3})_s(\d{3})$/;
+
 /**
  * Create a Storage instance for a specific book.
  */
@@ -77,8 +111,9 @@ export function createBookStorage(label: string): Storage {
         pages.push({
           pageId: row.page_id,
           pageNumber: row.page_number,
-          rawText: row.text,
+          rawText: pageText(label, row.page_id, row.text),
           pageImageBase64: fs.readFileSync(imagePath).toString("base64"),
+          layout: getTextLayout(label, row.page_id) ?? undefined,
         });
       }
       return pages;
@@ -137,8 +172,9 @@ export function createBookStorage(label: string): Storage {
         }
       }
 
-      // Write page text
+      // Write page text and its geometry
       putPageText(label, page.pageId, page.pageNumber, page.text);
+      putTextLayout(label, page.pageId, page.layout);
     },
 
     async putImage(image: ExtractedImage, source: "page" | "extract" | "crop"): Promise<void> {
@@ -184,8 +220,9 @@ export function createBookStorage(label: string): Storage {
       return {
         pageId: row.page_id,
         pageNumber: row.page_number,
-        rawText: row.text,
+        rawText: pageText(label, row.page_id, row.text),
         pageImageBase64,
+        layout: getTextLayout(label, row.page_id) ?? undefined,
       };
     },
 
@@ -246,6 +283,28 @@ export function createBookStorage(label: string): Storage {
       };
     },
 
+    async getImageDescriptions(
+      pageId: string
+    ): Promise<{ data: ImageDescriptionOutput; version: number } | null> {
+      const result = getVersionedNodeData<DBImageDescriptions>(
+        label,
+        "image-description",
+        pageId
+      );
+      if (!result) return null;
+
+      return {
+        data: fromDBImageDescriptions(result.data),
+        version: result.version,
+      };
+    },
+
+    async getPageOcr(
+      pageId: string
+    ): Promise<{ data: PageOcrOutput; version: number } | null> {
+      return getVersionedNodeData<PageOcrOutput>(label, "ocr", pageId);
+    },
+
     async getTextClassification(
       pageId: string
     ): Promise<{ data: TextClassificationOutput; version: number } | null> {
@@ -262,6 +321,35 @@ export function createBookStorage(label: string): Storage {
       };
     },
 
+    async getTranslation(
+      pageId: string,
+      language: string
+    ): Promise<{ data: TranslationOutput; version: number } | null> {
+      const result = getVersionedNodeData<DBTranslation>(
+        label,
+        "translation",
+        translationItemId(pageId, language)
+      );
+      if (!result) return null;
+
+      return {
+        data: fromDBTranslation(result.data),
+        version: result.version,
+      };
+    },
+
+    async getSpeech(
+      pageId: string
+    ): Promise<{ data: SpeechOutput; version: number } | null> {
+      const result = getVersionedNodeData<DBSpeech>(label, "speech", pageId);
+      if (!result) return null;
+
+      return {
+        data: fromDBSpeech(result.data),
+        version: result.version,
+      };
+    },
+
     async getPageSectioning(
       pageId: string
     ): Promise<{ data: PageSectioningOutput; version: number } | null> {
@@ -294,6 +382,57 @@ export function createBookStorage(label: string): Storage {
       };
     },
 
+    async getTranslatedRendering(
+      sectionId: string,
+      language: string
+    ): Promise<{ data: TranslatedRendering; version: number } | null> {
+      const result = getVersionedNodeData<DBTranslatedRendering>(
+        label,
+        "translated-rendering",
+        translationItemId(sectionId, language)
+      );
+      if (!result) return null;
+
+      return {
+        data: fromDBTranslatedRendering(result.data),
+        version: result.version,
+      };
+    },
+
+    async getAccessibilityAudit(
+      sectionId: string
+    ): Promise<{ data: AccessibilityAuditOutput; version: number } | null> {
+      const result = getVersionedNodeData<DBAccessibilityAudit>(
+        label,
+        "accessibility-audit",
+        sectionId
+      );
+      if (!result) return null;
+
+      return {
+        data: fromDBAccessibilityAudit(result.data),
+        version: result.version,
+      };
+    },
+
+    async getSectionLinks(): Promise<{ data: SectionLinksOutput; version: number } | null> {
+      const result = getVersionedNodeData<DBSectionLinks>(label, "section-linking", "book");
+      if (!result) return null;
+
+      return {
+        data: fromDBSectionLinks(result.data),
+        version: result.version,
+      };
+    },
+
+    async getPageLabels(): Promise<{ data: PageLabels; version: number } | null> {
+      return getVersionedNodeData<PageLabels>(label, "page-labels", "book");
+    },
+
+    async getTableOfContents(): Promise<{ data: TableOfContents; version: number } | null> {
+      return getVersionedNodeData<TableOfContents>(label, "table-of-contents", "book");
+    },
+
     // -------------------------------------------------------------------------
     // Write operations
     // -------------------------------------------------------------------------
@@ -315,6 +454,7 @@ export function createBookStorage(label: string): Storage {
             width: dbImg?.width ?? 0,
             height: dbImg?.height ?? 0,
             is_pruned: img.isPruned,
+            ...(img.reason !== undefined ? { reason: img.reason } : {}),
           };
         }),
       };
@@ -322,6 +462,21 @@ export function createBookStorage(label: string): Storage {
       return putVersionedNodeData(label, "image-classification", pageId, dbData);
     },
 
+    async putImageDescriptions(
+      pageId: string,
+      data: ImageDescriptionOutput
+    ): Promise<{ version: number }> {
+      const dbData = toDBImageDescriptions(data);
+      return putVersionedNodeData(label, "image-description", pageId, dbData);
+    },
+
+    async putPageOcr(
+      pageId: string,
+      data: PageOcrOutput
+    ): Promise<{ version: number }> {
+      return putVersionedNodeData(label, "ocr", pageId, data);
+    },
+
     async putTextClassification(
       pageId: string,
       data: TextClassificationOutput
@@ -330,6 +485,38 @@ export function createBookStorage(label: string): Storage {
       return putVersionedNodeData(label, "text-classification", pageId, dbData);
     },
 
+    async putTranslation(
+      pageId: string,
+      data: TranslationOutput,
+      textClassificationVersion: number
+    ): Promise<{ version: number }> {
+      const dbData = toDBTranslation(data, textClassificationVersion);
+      return putVersionedNodeData(
+        label,
+        "translation",
+        translationItemId(pageId, data.language),
+        dbData
+      );
+    },
+
+    async putSpeech(
+      pageId: string,
+      data: SpeechOutput,
+      audio: SpeechAudioFile[],
+      textClassificationVersion: number
+    ): Promise<{ version: number }> {
+      // Audio files are named by content hash, so identical clips are shared
+      for (const file of audio) {
+        const filePath = path.join(paths.bookDir, speechAudioPath(file));
+        if (fs.existsSync(filePath)) continue;
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, file.data);
+      }
+
+      const dbData = toDBSpeech(data, textClassificationVersion);
+      return putVersionedNodeData(label, "speech", pageId, dbData);
+    },
+
     async putPageSectioning(
       pageId: string,
       data: PageSectioningOutput,
@@ -370,9 +557,63 @@ export function createBookStorage(label: string): Storage {
       sectionId: string,
       data: SectionRendering | null
     ): Promise<{ version: number }> {
-      const dbData = data ? toDBSectionRendering(data) : null;
+      // Record the sectioning the section was rendered from, for staleness checks
+      const pageId = SECTION_ID_RE.exec(sectionId)?.[1];
+      const sectioning = pageId
+        ? getVersionedNodeData<DBPageSectioning>(label, "page-sectioning", pageId)
+        : null;
+      // ...and, for sections merged across pages, each other page's sectioning
+      const mergedSectioning: Record<string, number> = {};
+      for (const mergedId of data?.mergedSectionIds ?? []) {
+        const mergedPageId = SECTION_ID_RE.exec(mergedId)?.[1];
+        if (!mergedPageId || mergedPageId === pageId || mergedPageId in mergedSectioning) continue;
+        const merged = getVersionedNodeData<DBPageSectioning>(label, "page-sectioning", mergedPageId);
+        if (merged) mergedSectioning[mergedPageId] = merged.version;
+      }
+      const dbData: DBSectionRendering | null = data
+        ? {
+            ...toDBSectionRendering(data),
+            ...(sectioning ? { page_sectioning_version: sectioning.version } : {}),
+            ...(Object.keys(mergedSectioning).length > 0
+              ? { merged_sectioning_versions: mergedSectioning }
+              : {}),
+          }
+        : null;
       return putVersionedNodeData(label, "web-rendering", sectionId, dbData);
     },
+
+    async putTranslatedRendering(
+      sectionId: string,
+      data: TranslatedRendering
+    ): Promise<{ version: number }> {
+      const dbData = toDBTranslatedRendering(data);
+      return putVersionedNodeData(
+        label,
+        "translated-rendering",
+        translationItemId(sectionId, data.language),
+        dbData
+      );
+    },
+
+    async putAccessibilityAudit(
+      sectionId: string,
+      data: AccessibilityAuditOutput
+    ): Promise<{ version: number }> {
+      const dbData = toDBAccessibilityAudit(data);
+      return putVersionedNodeData(label, "accessibility-audit", sectionId, dbData);
+    },
+
+    async putSectionLinks(data: SectionLinksOutput): Promise<{ version: number }> {
+      return putVersionedNodeData(label, "section-linking", "book", toDBSectionLinks(data));
+    },
+
+    async putPageLabels(data: PageLabels): Promise<{ version: number }> {
+      return putVersionedNodeData(label, "page-labels", "book", data);
+    },
+
+    async putTableOfContents(data: TableOfContents): Promise<{ version: number }> {
+      return putVersionedNodeData(label, "table-of-contents", "book", data);
+    },
   };
 }
 
@@ -385,6 +626,17 @@ interface DBImageClassification {
     image_id: string;
     path: string;
     is_pruned: boolean;
+    reason?: string;
+  }>;
+}
+
+interface DBImageDescriptions {
+  reasoning: string;
+  images: Array<{
+    image_id: string;
+    alt_text: string;
+    long_description: string | null;
+    is_decorative: boolean;
   }>;
 }
 
@@ -397,6 +649,29 @@ interface DBTextClassification {
   }>;
 }
 
+interface DBTranslation {
+  language: string;
+  reasoning: string;
+  text_classification_version: number;
+  texts: Array<{ text_id: string; text: string }>;
+}
+
+interface DBSpeech {
+  language: string;
+  provider: string;
+  voice: string | null;
+  text_classification_version: number;
+  clips: Array<{
+    text_id: string;
+    source_hash: string;
+    audio_hash: string;
+    format: "wav" | "mp3";
+    path: string;
+    duration_ms: number;
+    words: Array<{ start: number; end: number; start_ms: number; end_ms: number }>;
+  }>;
+}
+
 interface DBPageSectioning {
   reasoning: string;
   sections: Array<{
@@ -425,12 +700,45 @@ interface DBSectionRendering {
   section_type: string;
   reasoning: string;
   html: string;
+  merged_section_ids?: string[];
+  merged_into?: string;
+  page_sectioning_version?: number;
+  merged_sectioning_versions?: Record<string, number>;
+}
+
+interface DBTranslatedRendering {
+  language: string;
+  web_rendering_version: number;
+  html: string;
+}
+
+interface DBSectionLinks {
+  links: Array<{ from_section_id: string; to_section_id: string; reasoning: string }>;
+}
+
+interface DBAccessibilityAudit {
+  web_rendering_version: number;
+  findings: Array<{
+    rule: AccessibilityRule;
+    severity: "error" | "warning";
+    message: string;
+    element_id: string | null;
+  }>;
 }
 
 // ============================================================================
 // Database helpers
 // ============================================================================
 
+/**
+ * A page's text: the text extracted from the PDF, or the latest OCR
+ * transcription when the PDF has none (scanned pages).
+ */
+function pageText(label: string, pageId: string, extracted: string): string {
+  if (extracted.trim()) return extracted;
+  return getVersionedNodeData<PageOcrOutput>(label, "ocr", pageId)?.data.text ?? extracted;
+}
+
 function getVersionedNodeData<T>(
   label: string,
   node: string,
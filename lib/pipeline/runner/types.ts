@@ -5,18 +5,35 @@
  * and the infrastructure (storage, progress emission, etc.).
  */
 
-import type { Page, PageImage, StepConfig, LLMModel } from "../core/types";
+import type {
+  Page,
+  PageImage,
+  StepConfig,
+  LLMModel,
+  GenerateObjectOptions,
+  TTSProvider,
+} from "../core/types";
 import type {
   ImageClassificationOutput,
+  ImageDescriptionOutput,
+  AccessibilityAuditOutput,
   TextClassificationOutput,
+  PageOcrOutput,
+  TranslationOutput,
+  SpeechOutput,
   PageSectioningOutput,
   SectionRendering,
+  TranslatedRendering,
+  SectionLinksOutput,
 } from "../core/schemas";
+import type { PageLabels } from "../page-labels/page-labels-schema";
+import type { TableOfContents } from "../table-of-contents/table-of-contents-schema";
 import type {
   ExtractedPage,
   ExtractedImage,
   PdfMetadata,
   BookMetadata,
+  SpeechAudioFile,
 } from "../steps";
 
 // ============================================================================
@@ -67,10 +84,28 @@ export interface Storage {
     pageId: string
   ): Promise<{ data: ImageClassificationOutput; version: number } | null>;
 
+  getImageDescriptions(
+    pageId: string
+  ): Promise<{ data: ImageDescriptionOutput; version: number } | null>;
+
+  /** OCR transcription of a page without extractable text (latest version) */
+  getPageOcr(
+    pageId: string
+  ): Promise<{ data: PageOcrOutput; version: number } | null>;
+
   getTextClassification(
     pageId: string
   ): Promise<{ data: TextClassificationOutput; version: number } | null>;
 
+  getTranslation(
+    pageId: string,
+    language: string
+  ): Promise<{ data: TranslationOutput; version: number } | null>;
+
+  getSpeech(
+    pageId: string
+  ): Promise<{ data: SpeechOutput; version: number } | null>;
+
   getPageSectioning(
     pageId: string
   ): Promise<{ data: PageSectioningOutput; version: number } | null>;
@@ -79,6 +114,24 @@ export interface Storage {
     sectionId: string
   ): Promise<{ data: SectionRendering; version: number } | null>;
 
+  getTranslatedRendering(
+    sectionId: string,
+    language: string
+  ): Promise<{ data: TranslatedRendering; version: number } | null>;
+
+  getAccessibilityAudit(
+    sectionId: string
+  ): Promise<{ data: AccessibilityAuditOutput; version: number } | null>;
+
+  /** Book-level cross-page section links (latest version) */
+  getSectionLinks(): Promise<{ data: SectionLinksOutput; version: number } | null>;
+
+  /** Book-level printed page labels (latest version) */
+  getPageLabels(): Promise<{ data: PageLabels; version: number } | null>;
+
+  /** Book-level table of contents (latest version) */
+  getTableOfContents(): Promise<{ data: TableOfContents; version: number } | null>;
+
   // -------------------------------------------------------------------------
   // Page-level write operations
   // -------------------------------------------------------------------------
@@ -88,11 +141,35 @@ export interface Storage {
     data: ImageClassificationOutput
   ): Promise<{ version: number }>;
 
+  putImageDescriptions(
+    pageId: string,
+    data: ImageDescriptionOutput
+  ): Promise<{ version: number }>;
+
+  putPageOcr(
+    pageId: string,
+    data: PageOcrOutput
+  ): Promise<{ version: number }>;
+
   putTextClassification(
     pageId: string,
     data: TextClassificationOutput
   ): Promise<{ version: number }>;
 
+  putTranslation(
+    pageId: string,
+    data: TranslationOutput,
+    textClassificationVersion: number
+  ): Promise<{ version: number }>;
+
+  /** Writes new audio files to the book's audio directory, then the clip metadata */
+  putSpeech(
+    pageId: string,
+    data: SpeechOutput,
+    audio: SpeechAudioFile[],
+    textClassificationVersion: number
+  ): Promise<{ version: number }>;
+
   putPageSectioning(
     pageId: string,
     data: PageSectioningOutput,
@@ -104,17 +181,41 @@ export interface Storage {
     sectionId: string,
     data: SectionRendering | null
   ): Promise<{ version: number }>;
+
+  putTranslatedRendering(
+    sectionId: string,
+    data: TranslatedRendering
+  ): Promise<{ version: number }>;
+
+  putAccessibilityAudit(
+    sectionId: string,
+    data: AccessibilityAuditOutput
+  ): Promise<{ version: number }>;
+
+  putSectionLinks(data: SectionLinksOutput): Promise<{ version: number }>;
+
+  putPageLabels(data: PageLabels): Promise<{ version: number }>;
+
+  putTableOfContents(data: TableOfContents): Promise<{ version: number }>;
 }
 
 // ============================================================================
 // Progress Interface
 // ============================================================================
 
-export type BookStepName = "extract" | "metadata" | "pages";
+export type BookStepName =
+  | "extract"
+  | "metadata"
+  | "pages"
+  | "section-linking"
+  | "accessibility-audit";
 
 export type PageStepName =
   | "image-classification"
+  | "image-description"
   | "text-classification"
+  | "translation"
+  | "speech"
   | "page-sectioning"
   | "web-rendering";
 
@@ -126,7 +227,10 @@ export type StepName = BookStepName | PageStepName;
  */
 export const PROGRESS_PHASES = {
   "image-classification": "Classifying images",
+  "image-description": "Describing images",
   "text-classification": "Classifying text",
+  translation: "Translating text",
+  speech: "Synthesizing speech",
   "page-sectioning": "Sectioning page",
   "web-rendering": "Rendering web pages",
 } as const satisfies Record<PageStepName, string>;
@@ -255,10 +359,20 @@ function formatStepName(step: StepName): string {
       return "metadata extraction";
     case "pages":
       return "page processing";
+    case "section-linking":
+      return "section linking";
+    case "accessibility-audit":
+      return "accessibility audit";
     case "image-classification":
       return "image classification";
+    case "image-description":
+      return "image description";
     case "text-classification":
       return "text classification";
+    case "translation":
+      return "translation";
+    case "speech":
+      return "speech synthesis";
     case "page-sectioning":
       return "page sectioning";
     case "web-rendering":
@@ -278,7 +392,45 @@ export interface PageRunnerConfig {
   progress: Progress;
   config: StepConfig;
   model: LLMModel;
+  /** Set when `image_classification.model` is configured; otherwise images are filtered by size only. */
+  imageClassificationModel?: LLMModel;
+  /** Set when `speech.provider` is configured; otherwise no audio is generated. */
+  speechProvider?: TTSProvider;
+  /** Per-step models from `<step>.model`; steps without one use `model`. */
+  stepModels?: Partial<Record<ModelStep, LLMModel>>;
   prompts: PromptConfig;
+  /** Cancels in-flight LLM and TTS requests and stops before the next step. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Steps whose LLM can be configured separately in config.yaml.
+ */
+export type ModelStep =
+  | "metadata"
+  | "image-description"
+  | "text-classification"
+  | "math-reocr"
+  | "ocr"
+  | "translation"
+  | "page-sectioning"
+  | "section-linking"
+  | "web-rendering";
+
+export function modelForStep(runner: PageRunnerConfig, step: ModelStep): LLMModel {
+  return withAbortSignal(runner.stepModels?.[step] ?? runner.model, runner.signal);
+}
+
+/**
+ * Bind a cancellation signal to every call of `model` (calls that pass
+ * their own `abortSignal` keep it).
+ */
+export function withAbortSignal(model: LLMModel, signal: AbortSignal | undefined): LLMModel {
+  if (!signal) return model;
+  return {
+    generateObject: <T>(options: GenerateObjectOptions) =>
+      model.generateObject<T>({ abortSignal: signal, ...options }),
+  };
 }
 
 /**
@@ -289,7 +441,13 @@ export interface PromptConfig {
   textClassification: string;
   pageSectioning: string;
   webRendering: string;
+  imageClassification?: string;
+  imageDescription?: string;
   sectionEdit?: string;
+  sectionLinking?: string;
+  translation?: string;
+  mathReocr?: string;
+  ocr?: string;
 }
 
 /**
@@ -0,0 +1,175 @@
+import { describe, it, expect } from "vitest";
+import type { LLMModel, GenerateObjectOptions } from "../../core/types";
+import type { PageSectioningOutput, Section } from "../../core/schemas";
+import {
+  findSectionBoundaries,
+  linkSections,
+  resolveSectionChain,
+  findChainHead,
+  sectionsToRerender,
+  type PageSectionsInput,
+} from "../../steps/section-linking";
+
+function section(
+  texts: Array<[textType: string, text: string]>,
+  overrides: Partial<Section> = {}
+): Section {
+  return {
+    sectionType: "text_only",
+    partIds: [],
+    backgroundColor: "#ffffff",
+    textColor: "#000000",
+    pageNumber: null,
+    isPruned: false,
+    texts: texts.map(([textType, text], i) => ({
+      textId: `gp001_t${String(i + 1).padStart(3, "0")}`,
+      textType,
+      text,
+    })),
+    imageIds: [],
+    ...overrides,
+  };
+}
+
+function page(pageId: string, sections: Section[]): PageSectionsInput {
+  const sectioning: PageSectioningOutput = { reasoning: "", sections };
+  return { pageId, sectioning };
+}
+
+function fakeModel(answer: (options: GenerateObjectOptions) => boolean) {
+  const calls: GenerateObjectOptions[] = [];
+  const model: LLMModel = {
+    async generateObject<T>(options: GenerateObjectOptions) {
+      calls.push(options);
+      return { object: { reasoning: "same story", continues: answer(options) } as T };
+    },
+  };
+  return { model, calls };
+}
+
+describe("findSectionBoundaries", () => {
+  it("pairs the last content section of a page with the first of the next", () => {
+    const pages = [
+      page("pg001", [
+        section([["paragraph", "Intro"]]),
+        section([["paragraph", "Once upon a time"]]),
+        section([["footer_text", "1"]], { isPruned: true }),
+      ]),
+      page("pg002", [
+        section([["header_text", "Chapter 1"]], { isPruned: true }),
+        section([["paragraph", "there lived a fox"]]),
+      ]),
+    ];
+
+    const boundaries = findSectionBoundaries(pages);
+    expect(boundaries).toHaveLength(1);
+    expect(boundaries[0].from.sectionId).toBe("pg001_s002");
+    expect(boundaries[0].to.sectionId).toBe("pg002_s002");
+    expect(boundaries[0].to.sectionIndex).toBe(1);
+  });
+
+  it("skips boundaries next to pages without content", () => {
+    const pages = [
+      page("pg001", [section([["paragraph", "A"]])]),
+      page("pg002", []),
+      page("pg003", [section([["paragraph", "B"]])]),
+    ];
+    expect(findSectionBoundaries(pages)).toEqual([]);
+  });
+});
+
+describe("linkSections", () => {
+  it("links sections the LLM says continue across the break", async () => {
+    const { model, calls } = fakeModel(() => true);
+    const result = await linkSections({
+      pages: [
+        page("pg001", [section([["paragraph", "Once upon a time"]])]),
+        page("pg002", [section([["paragraph", "there lived a fox"]])]),
+      ],
+      model,
+      promptName: "section_linking",
+    });
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0].log?.taskType).toBe("section-linking");
+    const prompt = JSON.stringify(calls[0].messages);
+    expect(prompt).toContain("Once upon a time");
+    expect(prompt).toContain("there lived a fox");
+    expect(result.links).toEqual([
+      { fromSectionId: "pg001_s001", toSectionId: "pg002_s001", reasoning: "same story" },
+    ]);
+  });
+
+  it("does not ask about sections that open with a heading", async () => {
+    const { model, calls } = fakeModel(() => true);
+    const result = await linkSections({
+      pages: [
+        page("pg001", [section([["paragraph", "The end."]])]),
+        page("pg002", [section([["section_heading", "Chapter 2"], ["paragraph", "Next"]])]),
+      ],
+      model,
+      promptName: "section_linking",
+    });
+
+    expect(calls).toHaveLength(0);
+    expect(result.links).toEqual([]);
+  });
+
+  it("omits pairs the LLM rejects", async () => {
+    const { model } = fakeModel(() => false);
+    const result = await linkSections({
+      pages: [
+        page("pg001", [section([["paragraph", "A"]])]),
+        page("pg002", [section([["paragraph", "B"]])]),
+      ],
+      model,
+      promptName: "section_linking",
+    });
+    expect(result.links).toEqual([]);
+  });
+});
+
+describe("section chains", () => {
+  const links = [
+    { fromSectionId: "pg001_s002", toSectionId: "pg002_s001", reasoning: "" },
+    { fromSectionId: "pg002_s001", toSectionId: "pg003_s001", reasoning: "" },
+  ];
+
+  it("resolves the full chain from its head", () => {
+    expect(resolveSectionChain(links, "pg001_s002")).toEqual([
+      "pg001_s002",
+      "pg002_s001",
+      "pg003_s001",
+    ]);
+    expect(resolveSectionChain(links, "pg004_s001")).toEqual(["pg004_s001"]);
+  });
+
+  it("finds the head from any member", () => {
+    expect(findChainHead(links, "pg003_s001")).toBe("pg001_s002");
+    expect(findChainHead(links, "pg001_s002")).toBe("pg001_s002");
+  });
+
+  it("terminates on cyclic links", () => {
+    const cyclic = [
+      { fromSectionId: "pg001_s001", toSectionId: "pg002_s001", reasoning: "" },
+      { fromSectionId: "pg002_s001", toSectionId: "pg001_s001", reasoning: "" },
+    ];
+    expect(resolveSectionChain(cyclic, "pg001_s001")).toEqual(["pg001_s001", "pg002_s001"]);
+    expect(findChainHead(cyclic, "pg001_s001")).toBe("pg002_s001");
+  });
+});
+
+describe("sectionsToRerender", () => {
+  const link = (fromSectionId: string, toSectionId: string) => ({ fromSectionId, toSectionId, reasoning: "" });
+
+  it("collapses a changed chain to its head and keeps sections that lost their link", () => {
+    const before = [link("pg001_s002", "pg002_s001"), link("pg002_s001", "pg003_s001")];
+    const after = [link("pg001_s002", "pg002_s001"), link("pg003_s002", "pg004_s001")];
+    expect(sectionsToRerender(before, after)).toEqual(["pg001_s002", "pg003_s001", "pg003_s002"]);
+  });
+
+  it("lists nothing when the links are unchanged", () => {
+    const links = [link("pg001_s002", "pg002_s001")];
+    expect(sectionsToRerender(links, [...links])).toEqual([]);
+  });
+});
@@ -0,0 +1,13 @@
+export interface SectionLinkEntry {
+  from_section_id: string;
+  to_section_id: string;
+  reasoning: string;
+}
+
+/**
+ * Book-level "continues on next page" relationships between sections,
+ * stored as the `section-linking` node (item_id `book`).
+ */
+export interface SectionLinks {
+  links: SectionLinkEntry[];
+}
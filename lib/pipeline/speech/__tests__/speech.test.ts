@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import type { SpeechRequest, TTSProvider } from "../../core/types";
+import {
+  fromDBSpeech,
+  toDBSpeech,
+  type TextClassificationOutput,
+} from "../../core/schemas";
+import {
+  createStubTTSProvider,
+  estimateWordTimings,
+  wavDurationMs,
+} from "../../core/tts";
+import { synthesizeSpeech } from "../../steps/speech";
+
+const textClassification: TextClassificationOutput = {
+  reasoning: "",
+  groups: [
+    {
+      groupId: "pg001_gp001",
+      groupType: "heading",
+      texts: [
+        { textType: "page_number", text: "12", isPruned: true },
+        { textType: "heading", text: "The Fox", isPruned: false },
+      ],
+    },
+    {
+      groupId: "pg001_gp002",
+      groupType: "paragraph",
+      texts: [{ textType: "paragraph", text: "Foxes sleep in the day.", isPruned: false }],
+    },
+  ],
+};
+
+function countingProvider() {
+  const requests: SpeechRequest[] = [];
+  const stub = createStubTTSProvider();
+  const provider: TTSProvider = {
+    name: "stub",
+    synthesize(request) {
+      requests.push(request);
+      return stub.synthesize(request);
+    },
+  };
+  return { provider, requests };
+}
+
+describe("stub TTS provider", () => {
+  it("produces the same WAV for the same request", async () => {
+    const stub = createStubTTSProvider();
+    const a = await stub.synthesize({ text: "Foxes sleep in the day.", language: "en" });
+    const b = await stub.synthesize({ text: "Foxes sleep in the day.", language: "en" });
+
+    expect(Buffer.from(a.audio).equals(Buffer.from(b.audio))).toBe(true);
+    expect(a.format).toBe("wav");
+    expect(a.durationMs).toBe(5 * 400 + 200);
+    expect(wavDurationMs(a.audio)).toBe(a.durationMs);
+    expect(a.words).toHaveLength(5);
+  });
+});
+
+describe("estimateWordTimings", () => {
+  it("spreads the duration over the words by length", () => {
+    const words = estimateWordTimings("A  fox!", 700);
+    expect(words).toEqual([
+      { start: 0, end: 1, startMs: 0, endMs: 200 },
+      { start: 3, end: 7, startMs: 200, endMs: 700 },
+    ]);
+  });
+
+  it("returns no timings for blank text", () => {
+    expect(estimateWordTimings("  ", 500)).toEqual([]);
+  });
+});
+
+describe("wavDurationMs", () => {
+  it("rejects data that is not a WAV file", () => {
+    expect(wavDurationMs(new TextEncoder().encode("ID3 not a wav"))).toBeNull();
+  });
+});
+
+describe("synthesizeSpeech", () => {
+  it("synthesizes the non-pruned texts keyed by text ID", async () => {
+    const { provider, requests } = countingProvider();
+    const progress: number[] = [];
+    const { output, audio } = await synthesizeSpeech({
+      textClassification,
+      language: "en",
+      provider,
+      voice: "alloy",
+      onProgress: (done) => progress.push(done),
+    });
+
+    expect(requests).toEqual([
+      { text: "The Fox", language: "en", voice: "alloy" },
+      { text: "Foxes sleep in the day.", language: "en", voice: "alloy" },
+    ]);
+    expect(progress).toEqual([1, 2]);
+    expect(output.provider).toBe("stub");
+    expect(output.voice).toBe("alloy");
+    expect(output.clips.map((c) => c.textId)).toEqual([
+      "pg001_gp001_t002",
+      "pg001_gp002_t001",
+    ]);
+    expect(audio.map((a) => a.audioHash)).toEqual(output.clips.map((c) => c.audioHash));
+    expect(output.clips[1].words).toHaveLength(5);
+  });
+
+  it("reuses clips for unchanged texts", async () => {
+    const first = await synthesizeSpeech({
+      textClassification,
+      language: "en",
+      provider: createStubTTSProvider(),
+    });
+
+    const edited: TextClassificationOutput = {
+      ...textClassification,
+      groups: [
+        textClassification.groups[0],
+        {
+          ...textClassification.groups[1],
+          texts: [{ textType: "paragraph", text: "Foxes sleep all day.", isPruned: false }],
+        },
+      ],
+    };
+    const { provider, requests } = countingProvider();
+    const second = await synthesizeSpeech({
+      textClassification: edited,
+      language: "en",
+      provider,
+      previous: first.output,
+    });
+
+    expect(requests.map((r) => r.text)).toEqual(["Foxes sleep all day."]);
+    expect(second.audio).toHaveLength(1);
+    expect(second.output.clips[0]).toEqual(first.output.clips[0]);
+    expect(second.output.clips[1].sourceHash).not.toBe(first.output.clips[1].sourceHash);
+  });
+
+  it("round-trips through the DB format", async () => {
+    const { output } = await synthesizeSpeech({
+      textClassification,
+      language: "en",
+      provider: createStubTTSProvider(),
+    });
+    const db = toDBSpeech(output, 2);
+    expect(db.text_classification_version).toBe(2);
+    expect(db.clips[0].path).toBe(`audio/${output.clips[0].audioHash}.wav`);
+    expect(fromDBSpeech(db)).toEqual(output);
+  });
+});
@@ -0,0 +1,38 @@
+import { z } from "zod/v4";
+
+export const wordTimingEntrySchema = z.object({
+  start: z.number().int(),
+  end: z.number().int(),
+  start_ms: z.number(),
+  end_ms: z.number(),
+});
+
+export const speechClipEntrySchema = z.object({
+  text_id: z.string(),
+  /** Hash of provider, voice, language and text; unchanged texts keep their clip */
+  source_hash: z.string(),
+  /** Hash of the audio file contents, also its file name */
+  audio_hash: z.string(),
+  format: z.enum(["wav", "mp3"]),
+  /** Book-relative path, e.g. `audio/<hash>.wav` */
+  path: z.string(),
+  duration_ms: z.number(),
+  words: z.array(wordTimingEntrySchema),
+});
+
+/**
+ * Read-along audio for one page, stored as the `speech` node
+ * (item_id = pageId). Audio files live in the book's `audio/` directory.
+ */
+export const pageSpeechSchema = z.object({
+  language: z.string(),
+  provider: z.string(),
+  voice: z.string().nullable(),
+  /** Text classification version the audio was made from */
+  text_classification_version: z.number().int(),
+  clips: z.array(speechClipEntrySchema),
+});
+
+export type WordTimingEntry = z.infer<typeof wordTimingEntrySchema>;
+export type SpeechClipEntry = z.infer<typeof speechClipEntrySchema>;
+export type PageSpeech = z.infer<typeof pageSpeechSchema>;
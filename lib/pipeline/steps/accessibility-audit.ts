@@ -0,0 +1,404 @@
+/**
+ * Accessibility Audit Step
+ *
+ * WCAG-oriented checks on a rendered section's HTML: text contrast against
+ * the section colors and the CSS actually applied, heading hierarchy,
+ * missing or placeholder alt text, `lang` attributes that disagree with the
+ * book language, and ARIA role/attribute correctness.
+ * No LLM required - this is a pure synchronous function.
+ */
+
+import { parseDocument } from "htmlparser2";
+import type { AccessibilityFinding } from "../core/schemas";
+import {
+  type RGB,
+  contrastRatio,
+  formatHex,
+  parseCssColor,
+  resolveTailwindColor,
+} from "../web-rendering/color-contrast";
+
+// ============================================================================
+// Input type
+// ============================================================================
+
+export interface AuditSectionInput {
+  html: string;
+  /** Section colors chosen during page sectioning */
+  textColor?: string;
+  backgroundColor?: string;
+  /** Book language code, e.g. "en" */
+  languageCode: string;
+}
+
+// ============================================================================
+// Rule data
+// ============================================================================
+
+/** WAI-ARIA 1.2 roles (abstract roles excluded). */
+const ARIA_ROLES = new Set([
+  "alert", "alertdialog", "application", "article", "banner", "blockquote",
+  "button", "caption", "cell", "checkbox", "code", "columnheader", "combobox",
+  "complementary", "contentinfo", "definition", "deletion", "dialog",
+  "directory", "document", "emphasis", "feed", "figure", "form", "generic",
+  "grid", "gridcell", "group", "heading", "img", "insertion", "link", "list",
+  "listbox", "listitem", "log", "main", "marquee", "math", "menu", "menubar",
+  "menuitem", "menuitemcheckbox", "menuitemradio", "meter", "navigation",
+  "none", "note", "option", "paragraph", "presentation", "progressbar",
+  "radio", "radiogroup", "region", "row", "rowgroup", "rowheader",
+  "scrollbar", "search", "searchbox", "separator", "slider", "spinbutton",
+  "status", "strong", "subscript", "superscript", "switch", "tab", "table",
+  "tablist", "tabpanel", "term", "textbox", "time", "timer", "toolbar",
+  "tooltip", "tree", "treegrid", "treeitem",
+]);
+
+/**
+ * Section-level roles the web rendering prompt requires. `activity` is not
+ * an ARIA role, but it is how rendered sections mark interactive content.
+ */
+const APP_ROLES = new Set(["activity"]);
+
+const ARIA_ATTRIBUTES = new Set([
+  "aria-activedescendant", "aria-atomic", "aria-autocomplete",
+  "aria-braillelabel", "aria-brailleroledescription", "aria-busy",
+  "aria-checked", "aria-colcount", "aria-colindex", "aria-colindextext",
+  "aria-colspan", "aria-controls", "aria-current", "aria-describedby",
+  "aria-description", "aria-details", "aria-disabled", "aria-errormessage",
+  "aria-expanded", "aria-flowto", "aria-haspopup", "aria-hidden",
+  "aria-invalid", "aria-keyshortcuts", "aria-label", "aria-labelledby",
+  "aria-level", "aria-live", "aria-modal", "aria-multiline",
+  "aria-multiselectable", "aria-orientation", "aria-owns", "aria-placeholder",
+  "aria-posinset", "aria-pressed", "aria-readonly", "aria-relevant",
+  "aria-required", "aria-roledescription", "aria-rowcount", "aria-rowindex",
+  "aria-rowindextext", "aria-rowspan", "aria-selected", "aria-setsize",
+  "aria-sort", "aria-valuemax", "aria-valuemin", "aria-valuenow",
+  "aria-valuetext",
+]);
+
+const IDREF_ATTRIBUTES = [
+  "aria-activedescendant", "aria-controls", "aria-describedby", "aria-details",
+  "aria-errormessage", "aria-flowto", "aria-labelledby", "aria-owns",
+];
+
+const FOCUSABLE_TAGS = new Set(["button", "input", "select", "textarea"]);
+
+const PLACEHOLDER_ALT_RE =
+  /^(image|img|picture|pic|photo|photograph|graphic|icon|placeholder|alt|untitled|figure)( ?\d+)?$/i;
+const FILENAME_ALT_RE = /\.(png|jpe?g|gif|svg|webp)$/i;
+const REDUNDANT_ALT_RE = /^(image|picture|photo) of\b/i;
+
+/** WCAG AA minimum contrast for normal and large text. */
+const MIN_CONTRAST = 4.5;
+const MIN_CONTRAST_LARGE = 3;
+const LARGE_TEXT_CLASS_RE = /^text-([2-9]xl)$/;
+
+// ============================================================================
+// Pure step function
+// ============================================================================
+
+interface DomNode {
+  type: string;
+  name?: string;
+  data?: string;
+  attribs?: Record<string, string>;
+  children?: DomNode[];
+}
+
+interface WalkContext {
+  color: RGB | null;
+  background: RGB | null;
+  large: boolean;
+  elementId: string | null;
+}
+
+/**
+ * Audit one rendered section.
+ *
+ * Contrast is checked for every text node using the inherited text and
+ * background colors: the section's chosen colors at the root, overridden by
+ * Tailwind color utilities and inline styles on the way down. Backgrounds
+ * that can't be resolved (gradients, images, translucent colors) suspend
+ * the check for their subtree rather than guessing.
+ */
+export function auditSectionAccessibility(input: AuditSectionInput): AccessibilityFinding[] {
+  const { html, textColor, backgroundColor, languageCode } = input;
+  const findings: AccessibilityFinding[] = [];
+  const seen = new Set<string>();
+  const add = (finding: AccessibilityFinding) => {
+    const key = `${finding.rule}|${finding.elementId}|${finding.message}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    findings.push(finding);
+  };
+
+  const doc = parseDocument(html) as unknown as DomNode;
+  const ids = new Set<string>();
+  collectIds(doc, ids);
+
+  const headingLevels: Array<{ level: number; elementId: string | null }> = [];
+  const bookLanguage = primaryLanguage(languageCode);
+
+  const visit = (node: DomNode, parent: WalkContext) => {
+    if (node.type === "text") {
+      if (node.data?.trim() && parent.color && parent.background) {
+        const ratio = contrastRatio(parent.color, parent.background);
+        const required = parent.large ? MIN_CONTRAST_LARGE : MIN_CONTRAST;
+        if (ratio < required) {
+          add({
+            rule: "color-contrast",
+            severity: "error",
+            message:
+              `Text color ${formatHex(parent.color)} on ${formatHex(parent.background)} ` +
+              `has contrast ${ratio.toFixed(2)}:1 (needs ${required}:1)`,
+            elementId: parent.elementId,
+          });
+        }
+      }
+      return;
+    }
+    if (node.type !== "tag" || !node.name) {
+      for (const child of node.children ?? []) visit(child, parent);
+      return;
+    }
+
+    const attribs = node.attribs ?? {};
+    const ctx: WalkContext = {
+      ...parent,
+      elementId: attribs["data-id"] ?? parent.elementId,
+    };
+    applyElementColors(attribs, ctx);
+    if (/^h[12]$/.test(node.name) || classList(attribs).some((c) => LARGE_TEXT_CLASS_RE.test(c))) {
+      ctx.large = true;
+    }
+
+    // Headings
+    const heading = /^h([1-6])$/.exec(node.name);
+    if (heading) {
+      headingLevels.push({ level: Number(heading[1]), elementId: ctx.elementId });
+      if (!hasAccessibleText(node)) {
+        add({
+          rule: "heading-order",
+          severity: "warning",
+          message: `Empty <${node.name}> heading`,
+          elementId: ctx.elementId,
+        });
+      }
+    }
+
+    // Images
+    if (node.name === "img") auditImage(attribs, add);
+
+    // Language
+    if (attribs.lang !== undefined) {
+      const lang = primaryLanguage(attribs.lang);
+      if (!lang) {
+        add({ rule: "lang", severity: "warning", message: "Empty lang attribute", elementId: ctx.elementId });
+      } else if (lang !== bookLanguage) {
+        add({
+          rule: "lang",
+          severity: "warning",
+          message: `lang="${attribs.lang}" does not match the book language "${languageCode}"`,
+          elementId: ctx.elementId,
+        });
+      }
+    }
+
+    // ARIA
+    auditAria(node, attribs, ids, ctx.elementId, add);
+
+    for (const child of node.children ?? []) visit(child, ctx);
+  };
+
+  visit(doc, {
+    color: textColor ? parseCssColor(textColor) : null,
+    background: backgroundColor ? parseCssColor(backgroundColor) : null,
+    large: false,
+    elementId: null,
+  });
+
+  for (let i = 1; i < headingLevels.length; i++) {
+    const prev = headingLevels[i - 1].level;
+    const { level, elementId } = headingLevels[i];
+    if (level > prev + 1) {
+      add({
+        rule: "heading-order",
+        severity: "warning",
+        message: `Heading level jumps from h${prev} to h${level}`,
+        elementId,
+      });
+    }
+  }
+
+  return findings;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function collectIds(node: DomNode, ids: Set<string>): void {
+  if (node.attribs?.id) ids.add(node.attribs.id);
+  for (const child of node.children ?? []) collectIds(child, ids);
+}
+
+function classList(attribs: Record<string, string>): string[] {
+  return (attribs.class ?? "").split(/\s+/).filter(Boolean);
+}
+
+function primaryLanguage(code: string): string {
+  return code.trim().toLowerCase().split(/[-_]/)[0];
+}
+
+/** Update the inherited colors from Tailwind utilities and inline styles. */
+function applyElementColors(attribs: Record<string, string>, ctx: WalkContext): void {
+  for (const cls of classList(attribs)) {
+    // Variant utilities (hover:, md:, ...) don't describe the resting state
+    if (cls.includes(":")) continue;
+    if (cls.startsWith("text-")) {
+      const token = cls.slice(5);
+      const color = resolveTailwindColor(token);
+      if (color) ctx.color = color;
+      else if (token.includes("/")) ctx.color = null; // translucent
+    } else if (/^bg-(gradient|linear|radial|conic|\[url)/.test(cls)) {
+      ctx.background = null;
+    } else if (cls.startsWith("bg-")) {
+      const token = cls.slice(3);
+      const color = resolveTailwindColor(token);
+      if (color) ctx.background = color;
+      else if (token.includes("/")) ctx.background = null; // translucent
+    }
+  }
+
+  for (const decl of (attribs.style ?? "").split(";")) {
+    const [prop, ...rest] = decl.split(":");
+    const name = prop?.trim().toLowerCase();
+    const value = rest.join(":").trim();
+    if (!name || !value) continue;
+    if (name === "color") {
+      ctx.color = parseCssColor(value);
+    } else if (name === "background-color" || name === "background") {
+      ctx.background = parseCssColor(value);
+    } else if (name === "background-image" && value !== "none") {
+      ctx.background = null;
+    }
+  }
+}
+
+function hasAccessibleText(node: DomNode): boolean {
+  if (node.type === "text") return Boolean(node.data?.trim());
+  if (node.name === "img") return Boolean(node.attribs?.alt?.trim());
+  if (node.attribs?.["aria-label"]?.trim()) return true;
+  return (node.children ?? []).some(hasAccessibleText);
+}
+
+function auditImage(
+  attribs: Record<string, string>,
+  add: (finding: AccessibilityFinding) => void
+): void {
+  const elementId = attribs["data-id"] ?? null;
+  const alt = attribs.alt;
+  const role = attribs.role?.trim().toLowerCase();
+  const hidden = role === "presentation" || role === "none" || attribs["aria-hidden"] === "true";
+
+  if (alt === undefined) {
+    if (!hidden && !attribs["aria-label"] && !attribs["aria-labelledby"]) {
+      add({ rule: "image-alt", severity: "error", message: "Image has no alt attribute", elementId });
+    }
+    return;
+  }
+
+  const text = alt.trim();
+  if (!text) return; // alt="" marks a decorative image
+
+  if (hidden) {
+    add({
+      rule: "image-alt",
+      severity: "warning",
+      message: "Image is hidden from assistive technology but has alt text",
+      elementId,
+    });
+  } else if (PLACEHOLDER_ALT_RE.test(text) || FILENAME_ALT_RE.test(text) || text === elementId) {
+    add({
+      rule: "image-alt",
+      severity: "error",
+      message: `Placeholder alt text "${text}"`,
+      elementId,
+    });
+  } else if (REDUNDANT_ALT_RE.test(text)) {
+    add({
+      rule: "image-alt",
+      severity: "warning",
+      message: `Alt text should not start with "${text.split(/\s+/).slice(0, 2).join(" ")}"`,
+      elementId,
+    });
+  }
+}
+
+function auditAria(
+  node: DomNode,
+  attribs: Record<string, string>,
+  ids: Set<string>,
+  elementId: string | null,
+  add: (finding: AccessibilityFinding) => void
+): void {
+  const roles = (attribs.role ?? "").trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (attribs.role !== undefined && roles.length === 0) {
+    add({ rule: "aria", severity: "warning", message: "Empty role attribute", elementId });
+  }
+  // Only the first recognised token applies; the rest are fallbacks
+  if (roles.length > 0 && !roles.some((r) => ARIA_ROLES.has(r) || APP_ROLES.has(r))) {
+    add({
+      rule: "aria",
+      severity: "error",
+      message: `Unknown ARIA role "${attribs.role}" on <${node.name}>`,
+      elementId,
+    });
+  }
+
+  for (const [name, value] of Object.entries(attribs)) {
+    if (!name.startsWith("aria-")) continue;
+    if (!ARIA_ATTRIBUTES.has(name)) {
+      add({ rule: "aria", severity: "error", message: `Unknown ARIA attribute ${name}`, elementId });
+      continue;
+    }
+    if (IDREF_ATTRIBUTES.includes(name)) {
+      for (const ref of value.trim().split(/\s+/).filter(Boolean)) {
+        if (!ids.has(ref)) {
+          add({
+            rule: "aria",
+            severity: "error",
+            message: `${name} references missing id "${ref}"`,
+            elementId,
+          });
+        }
+      }
+    }
+  }
+
+  if (attribs["aria-hidden"] === "true" && containsFocusable(node)) {
+    add({
+      rule: "aria",
+      severity: "error",
+      message: `aria-hidden <${node.name}> contains focusable content`,
+      elementId,
+    });
+  }
+}
+
+function containsFocusable(node: DomNode): boolean {
+  for (const child of node.children ?? []) {
+    if (child.type !== "tag" || !child.name) continue;
+    const attribs = child.attribs ?? {};
+    const tabindex = attribs.tabindex !== undefined ? Number(attribs.tabindex) : null;
+    if (tabindex !== null && tabindex < 0) continue;
+    if (
+      FOCUSABLE_TAGS.has(child.name) ||
+      (child.name === "a" && attribs.href !== undefined) ||
+      tabindex !== null
+    ) {
+      return true;
+    }
+    if (containsFocusable(child)) return true;
+  }
+  return false;
+}
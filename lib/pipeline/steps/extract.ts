@@ -11,6 +11,11 @@ export {
   type ExtractedPage,
   type ExtractedImage,
   type PdfMetadata,
+  type PageLayout,
+  type LayoutBlock,
+  type LayoutLine,
+  type LayoutSpan,
+  type LayoutRect,
   type ExtractResult,
   type ExtractProgress,
 } from "../../pdf/extract";
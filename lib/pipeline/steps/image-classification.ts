@@ -3,10 +3,19 @@
  *
  * Rule-based classification of extracted images based on size filters.
  * No LLM required - this is a pure synchronous function.
+ *
+ * When an image classification model is configured, classifyImagesWithLLM
+ * instead asks the LLM whether each image is content, decorative, a logo,
+ * a background texture or a duplicate, and keeps only content images.
  */
 
-import type { PageImage, ImageFilters } from "../core/types";
-import type { ImageClassificationOutput } from "../core/schemas";
+import type { Page, PageImage, ImageFilters, LLMModel, ValidationResult } from "../core/types";
+import {
+  type ImageClassificationOutput,
+  type ImageCategory,
+  buildImageClassificationLLMSchema,
+} from "../core/schemas";
+import { loadPrompt } from "../core/llm";
 
 // ============================================================================
 // Input type
@@ -18,6 +27,26 @@ export interface ClassifyImagesInput {
   filters: ImageFilters;
 }
 
+export interface ClassifyImagesWithLLMInput {
+  page: Page;
+  images: PageImage[];
+  model: LLMModel;
+  promptName: string;
+}
+
+// ============================================================================
+// Raw LLM response type (before post-processing)
+// ============================================================================
+
+interface RawImageClassification {
+  reasoning: string;
+  images: Array<{
+    image_id: string;
+    category: ImageCategory;
+    reason: string;
+  }>;
+}
+
 // ============================================================================
 // Pure step function
 // ============================================================================
@@ -73,3 +102,90 @@ export function classifyImages(
     }),
   };
 }
+
+/**
+ * Classify images with an LLM.
+ *
+ * This is a pure async function that:
+ * 1. Prunes full-page renders without asking the LLM
+ * 2. Calls the LLM with the page image for context, validating that every
+ *    image is classified exactly once
+ * 3. Keeps "content" images and prunes the rest, recording
+ *    "<category>: <reason>" as the reason
+ */
+export async function classifyImagesWithLLM(
+  input: ClassifyImagesWithLLMInput
+): Promise<ImageClassificationOutput> {
+  const { page, images, model, promptName } = input;
+
+  const candidates = images.filter((img) => !img.imageId.endsWith("_page"));
+  if (candidates.length === 0) {
+    return {
+      images: images.map((img) => ({
+        imageId: img.imageId,
+        isPruned: true,
+        reason: "full-page-render",
+      })),
+    };
+  }
+
+  const imageIds = candidates.map((img) => img.imageId);
+  const schema = buildImageClassificationLLMSchema(imageIds as [string, ...string[]]);
+
+  const promptContext = {
+    page: { imageBase64: page.pageImageBase64, text: page.rawText },
+    images: candidates.map((img) => ({
+      image_id: img.imageId,
+      imageBase64: img.imageBase64,
+      width: img.width,
+      height: img.height,
+    })),
+  };
+
+  const { system, messages } = await loadPrompt(promptName, promptContext);
+
+  const validate = (result: unknown): ValidationResult => {
+    const r = result as RawImageClassification;
+    const errors: string[] = [];
+    const seen = new Set<string>();
+    for (const img of r.images) {
+      if (seen.has(img.image_id)) errors.push(`Duplicate image_id: "${img.image_id}"`);
+      seen.add(img.image_id);
+    }
+    for (const id of imageIds) {
+      if (!seen.has(id)) errors.push(`Missing classification for image "${id}"`);
+    }
+    return { valid: errors.length === 0, errors };
+  };
+
+  const result = await model.generateObject<RawImageClassification>({
+    schema,
+    system,
+    messages,
+    validate,
+    maxRetries: 2,
+    log: {
+      taskType: "image-classification",
+      pageId: page.pageId,
+      promptName,
+    },
+  });
+
+  const byId = new Map(result.object.images.map((img) => [img.image_id, img]));
+  return {
+    images: images.map((img) => {
+      // Full page renders are always pruned (kept for cropping only)
+      if (img.imageId.endsWith("_page")) {
+        return { imageId: img.imageId, isPruned: true, reason: "full-page-render" };
+      }
+      const classified = byId.get(img.imageId);
+      // Keep images the LLM skipped rather than silently dropping content
+      if (!classified) return { imageId: img.imageId, isPruned: false };
+      return {
+        imageId: img.imageId,
+        isPruned: classified.category !== "content",
+        reason: `${classified.category}: ${classified.reason.trim()}`,
+      };
+    }),
+  };
+}
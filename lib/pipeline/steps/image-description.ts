@@ -0,0 +1,139 @@
+/**
+ * Image Description Step
+ *
+ * Generates alt text for every un-pruned image on a page using an LLM,
+ * plus a longer description for charts, diagrams and maps, and a flag for
+ * purely decorative images. Runs after image classification; the results
+ * are fed into web rendering so each `<img>` gets a real description.
+ */
+
+import type { Page, PageImage, LLMModel, ValidationResult } from "../core/types";
+import {
+  type ImageClassificationOutput,
+  type ImageDescriptionOutput,
+  buildImageDescriptionLLMSchema,
+} from "../core/schemas";
+import { loadPrompt } from "../core/llm";
+
+// ============================================================================
+// Input type
+// ============================================================================
+
+export interface DescribeImagesInput {
+  page: Page;
+  imageClassification: ImageClassificationOutput;
+  images: PageImage[]; // All page images (filtered by classification)
+  language: string;
+  model: LLMModel;
+  promptName: string;
+}
+
+// ============================================================================
+// Raw LLM response type (before post-processing)
+// ============================================================================
+
+interface RawImageDescriptions {
+  reasoning: string;
+  images: Array<{
+    image_id: string;
+    is_decorative: boolean;
+    alt_text: string;
+    long_description: string | null;
+  }>;
+}
+
+// ============================================================================
+// Pure step function
+// ============================================================================
+
+/**
+ * Describe the un-pruned images on a page.
+ *
+ * This is a pure async function that:
+ * 1. Filters images to un-pruned ones
+ * 2. Calls the LLM with the page image for context, validating that every
+ *    image is described exactly once
+ * 3. Normalizes decorative images to empty alt text and no long description
+ */
+export async function describeImages(
+  input: DescribeImagesInput
+): Promise<ImageDescriptionOutput> {
+  const { page, imageClassification, images, language, model, promptName } = input;
+
+  const prunedImageIds = new Set(
+    imageClassification.images
+      .filter((img) => img.isPruned)
+      .map((img) => img.imageId)
+  );
+  const unprunedImages = images.filter(
+    (img) => !prunedImageIds.has(img.imageId) && !img.imageId.endsWith("_page")
+  );
+
+  if (unprunedImages.length === 0) {
+    return { reasoning: "No images to describe", images: [] };
+  }
+
+  const imageIds = unprunedImages.map((img) => img.imageId);
+  const schema = buildImageDescriptionLLMSchema(imageIds as [string, ...string[]]);
+
+  const promptContext = {
+    page: { imageBase64: page.pageImageBase64, text: page.rawText },
+    language,
+    images: unprunedImages.map((img) => ({
+      image_id: img.imageId,
+      imageBase64: img.imageBase64,
+    })),
+  };
+
+  const { system, messages } = await loadPrompt(promptName, promptContext);
+
+  const validate = (result: unknown): ValidationResult => {
+    const r = result as RawImageDescriptions;
+    const errors: string[] = [];
+    const seen = new Set<string>();
+    for (const img of r.images) {
+      if (seen.has(img.image_id)) errors.push(`Duplicate image_id: "${img.image_id}"`);
+      seen.add(img.image_id);
+      if (!img.is_decorative && img.alt_text.trim().length === 0) {
+        errors.push(`Missing alt_text for non-decorative image "${img.image_id}"`);
+      }
+    }
+    for (const id of imageIds) {
+      if (!seen.has(id)) errors.push(`Missing description for image "${id}"`);
+    }
+    return { valid: errors.length === 0, errors };
+  };
+
+  const result = await model.generateObject<RawImageDescriptions>({
+    schema,
+    system,
+    messages,
+    validate,
+    maxRetries: 2,
+    log: {
+      taskType: "image-description",
+      pageId: page.pageId,
+      promptName,
+    },
+  });
+
+  // Keep the page's image order; decorative images carry no description
+  const byId = new Map(result.object.images.map((img) => [img.image_id, img]));
+  return {
+    reasoning: result.object.reasoning,
+    images: imageIds
+      .filter((id) => byId.has(id))
+      .map((id) => {
+        const img = byId.get(id)!;
+        return {
+          imageId: id,
+          altText: img.is_decorative ? "" : img.alt_text.trim(),
+          longDescription:
+            img.is_decorative || !img.long_description?.trim()
+              ? null
+              : img.long_description.trim(),
+          isDecorative: img.is_decorative,
+        };
+      }),
+  };
+}
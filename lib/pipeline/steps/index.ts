@@ -31,26 +31,101 @@ export {
 // Page-level steps
 export {
   classifyImages,
+  classifyImagesWithLLM,
   type ClassifyImagesInput,
+  type ClassifyImagesWithLLMInput,
 } from "./image-classification";
 
+export {
+  describeImages,
+  type DescribeImagesInput,
+} from "./image-description";
+
 export {
   classifyText,
   buildGroupSummaries,
   type ClassifyTextInput,
 } from "./text-classification";
 
+export {
+  translateText,
+  collectTranslatableTexts,
+  type TranslateTextInput,
+} from "./translation";
+
+export {
+  synthesizeSpeech,
+  type SynthesizeSpeechInput,
+  type SynthesizeSpeechResult,
+  type SpeechAudioFile,
+} from "./speech";
+
 export {
   sectionPage,
   type SectionPageInput,
 } from "./page-sectioning";
 
+export {
+  auditSectionAccessibility,
+  type AuditSectionInput,
+} from "./accessibility-audit";
+
+// Book-level post-processing
+export {
+  linkSections,
+  findSectionBoundaries,
+  resolveSectionChain,
+  findChainHead,
+  sectionsToRerender,
+  type LinkSectionsInput,
+  type PageSectionsInput,
+  type SectionBoundary,
+  type BoundarySection,
+} from "./section-linking";
+
+export {
+  buildTableOfContents,
+  flattenToc,
+  normalizeTocTitle,
+  parseTocEntries,
+  type ParsedTocEntry,
+  type TocHeading,
+  type TocResolveContext,
+  type TocSourceSection,
+  type TocSourceText,
+} from "./table-of-contents";
+
+export {
+  inferPageLabels,
+  pageIdForLabel,
+  parseRoman,
+  toRoman,
+  type PageNumberEvidence,
+} from "./page-labels";
+
+export { reocrMath, type ReocrMathInput } from "./math";
+
+export { ocrPage, type OcrPageInput } from "./ocr";
+
+export {
+  findRunningTextClusters,
+  applyRunningTextClusters,
+  normalizeRunningText,
+  type RunningTextPage,
+  type RunningTextOptions,
+  type RunningTextCluster,
+  type RunningTextCorrection,
+} from "./running-text";
+
 export {
   renderPage,
+  renderLinkedSections,
   renderSection,
   editSection,
   type RenderPageInput,
   type RenderSectionInput,
+  type RenderLinkedSectionsInput,
+  type LinkedSectionPart,
   type EditSectionInput,
   type TextInput,
   type ImageInput,
@@ -0,0 +1,120 @@
+/**
+ * Math Re-OCR Step
+ *
+ * Text classification transcribes math along with the rest of the page, and
+ * its LaTeX is often wrong or does not parse. This optional step sends the
+ * page image back to an LLM with the page's `math` texts and asks for a
+ * careful LaTeX transcription of each one, validated by the MathML
+ * converter. Runs after text classification, before the result is saved.
+ *
+ * Structured text has no per-text bounding boxes yet, so the LLM sees the
+ * whole page image rather than a crop of each expression.
+ */
+
+import type { Page, LLMModel, ValidationResult } from "../core/types";
+import {
+  type TextClassificationOutput,
+  buildMathReocrLLMSchema,
+} from "../core/schemas";
+import { loadPrompt } from "../core/llm";
+import { parseMathText, validateLatex } from "../math/latex";
+import { collectTranslatableTexts } from "./translation";
+
+// ============================================================================
+// Input type
+// ============================================================================
+
+export interface ReocrMathInput {
+  page: Page;
+  textClassification: TextClassificationOutput;
+  model: LLMModel;
+  promptName: string;
+}
+
+// ============================================================================
+// Raw LLM response type (before post-processing)
+// ============================================================================
+
+interface RawMathTranscription {
+  reasoning: string;
+  expressions: Array<{ text_id: string; latex: string }>;
+}
+
+// ============================================================================
+// Pure step function
+// ============================================================================
+
+/**
+ * Re-transcribe the un-pruned `math` texts on a page from the page image.
+ *
+ * Returns the classification with each math text replaced by the new
+ * LaTeX (display math keeps its `$$` delimiters). Pages without math are
+ * returned unchanged without an LLM call.
+ */
+export async function reocrMath(
+  input: ReocrMathInput
+): Promise<TextClassificationOutput> {
+  const { page, textClassification, model, promptName } = input;
+
+  const mathTexts = collectTranslatableTexts(textClassification).filter(
+    (t) => t.textType === "math"
+  );
+  if (mathTexts.length === 0) return textClassification;
+
+  const textIds = mathTexts.map((t) => t.textId);
+  const schema = buildMathReocrLLMSchema(textIds as [string, ...string[]]);
+
+  const { system, messages } = await loadPrompt(promptName, {
+    page: { imageBase64: page.pageImageBase64 },
+    expressions: mathTexts.map((t) => ({ text_id: t.textId, text: t.text })),
+  });
+
+  const validate = (result: unknown): ValidationResult => {
+    const r = result as RawMathTranscription;
+    const errors: string[] = [];
+    const seen = new Set<string>();
+    for (const expr of r.expressions) {
+      if (seen.has(expr.text_id)) errors.push(`Duplicate text_id: "${expr.text_id}"`);
+      seen.add(expr.text_id);
+      const error = validateLatex(parseMathText(expr.latex).latex);
+      if (error) errors.push(`Invalid LaTeX for "${expr.text_id}": ${error}`);
+    }
+    for (const id of textIds) {
+      if (!seen.has(id)) errors.push(`Missing transcription for text "${id}"`);
+    }
+    return { valid: errors.length === 0, errors };
+  };
+
+  const result = await model.generateObject<RawMathTranscription>({
+    schema,
+    system,
+    messages,
+    validate,
+    maxRetries: 2,
+    log: {
+      taskType: "math-reocr",
+      pageId: page.pageId,
+      promptName,
+    },
+  });
+
+  const latexById = new Map(
+    result.object.expressions.map((e) => [e.text_id, parseMathText(e.latex).latex])
+  );
+  const displayById = new Map(
+    mathTexts.map((t) => [t.textId, parseMathText(t.text).display])
+  );
+
+  return {
+    ...textClassification,
+    groups: textClassification.groups.map((group) => ({
+      ...group,
+      texts: group.texts.map((entry, ti) => {
+        const id = `${group.groupId}_t${String(ti + 1).padStart(3, "0")}`;
+        const latex = latexById.get(id);
+        if (latex === undefined) return entry;
+        return { ...entry, text: displayById.get(id) ? `$$${latex}$$` : latex };
+      }),
+    })),
+  };
+}
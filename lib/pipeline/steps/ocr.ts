@@ -0,0 +1,52 @@
+/**
+ * Page OCR Step
+ *
+ * Scanned PDFs are images of pages: MuPDF's structured text is empty, so
+ * text classification has no raw text to work from. This step transcribes
+ * the page render with a vision LLM. The runner only calls it for pages
+ * without extractable text, and stores the result as the page's `ocr` node
+ * so reviewers can tell OCR'd text from PDF text.
+ */
+
+import type { Page, LLMModel } from "../core/types";
+import { type PageOcrOutput, pageOcrOutputSchema } from "../core/schemas";
+import { loadPrompt } from "../core/llm";
+
+// ============================================================================
+// Input type
+// ============================================================================
+
+export interface OcrPageInput {
+  page: Page;
+  model: LLMModel;
+  promptName: string;
+}
+
+// ============================================================================
+// Pure step function
+// ============================================================================
+
+/**
+ * Transcribe the text on a page from its image, in reading order. Blank
+ * pages give empty text.
+ */
+export async function ocrPage(input: OcrPageInput): Promise<PageOcrOutput> {
+  const { page, model, promptName } = input;
+
+  const { system, messages } = await loadPrompt(promptName, {
+    page: { imageBase64: page.pageImageBase64 },
+  });
+
+  const result = await model.generateObject<PageOcrOutput>({
+    schema: pageOcrOutputSchema,
+    system,
+    messages,
+    log: {
+      taskType: "ocr",
+      pageId: page.pageId,
+      promptName,
+    },
+  });
+
+  return { reasoning: result.object.reasoning, text: result.object.text.trim() };
+}
@@ -0,0 +1,162 @@
+/**
+ * Page Label Step
+ *
+ * Maps PDF pages to the page labels printed on them ("iv", "12"). Uses the
+ * numbers found on each page (`page_number` texts and the page numbers of
+ * its sections) and looks for the offset between page order and printed
+ * number that most pages agree on, once for arabic numbers and once for
+ * roman front matter before page 1. Stray numbers (a date, a figure number)
+ * are outvoted rather than trusted.
+ * No LLM required - this is a pure synchronous function.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PageNumberEvidence {
+  pageId: string;
+  /** Printed page numbers found on the page, as written */
+  candidates: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Pages that must agree on an offset before it is used */
+const MIN_VOTES = 2;
+
+// ============================================================================
+// Numbers
+// ============================================================================
+
+const ROMAN_VALUES: [string, number][] = [
+  ["m", 1000], ["cm", 900], ["d", 500], ["cd", 400], ["c", 100], ["xc", 90],
+  ["l", 50], ["xl", 40], ["x", 10], ["ix", 9], ["v", 5], ["iv", 4], ["i", 1],
+];
+
+export function toRoman(n: number): string {
+  let out = "";
+  let rest = n;
+  for (const [numeral, value] of ROMAN_VALUES) {
+    while (rest >= value) {
+      out += numeral;
+      rest -= value;
+    }
+  }
+  return out;
+}
+
+/** Value of a roman numeral (either case), or null if it is not a canonical one. */
+export function parseRoman(text: string): number | null {
+  const lower = text.toLowerCase();
+  if (!/^[ivxlcdm]+$/.test(lower)) return null;
+  let value = 0;
+  let rest = lower;
+  for (const [numeral, n] of ROMAN_VALUES) {
+    while (rest.startsWith(numeral)) {
+      value += n;
+      rest = rest.slice(numeral.length);
+    }
+  }
+  return value > 0 && toRoman(value) === lower ? value : null;
+}
+
+/** Strip decorations like "Page 12", "- 12 -" or "12." down to the number. */
+function stripDecorations(text: string): string {
+  return text
+    .trim()
+    .replace(/^(page|p\.|pg\.?)\s*/i, "")
+    .replace(/^[-–—\s[(]+|[-–—\s\].)]+$/g, "");
+}
+
+function parseArabic(text: string): number | null {
+  const stripped = stripDecorations(text);
+  return /^\d{1,4}$/.test(stripped) ? Number(stripped) : null;
+}
+
+// ============================================================================
+// Inference
+// ============================================================================
+
+function bestOffset(votes: Map<number, number>): number | null {
+  let best: number | null = null;
+  let bestCount = 0;
+  for (const [offset, count] of votes) {
+    if (count > bestCount || (count === bestCount && best !== null && offset < best)) {
+      best = offset;
+      bestCount = count;
+    }
+  }
+  return bestCount >= MIN_VOTES ? best : null;
+}
+
+function vote(votes: Map<number, number>, offset: number) {
+  votes.set(offset, (votes.get(offset) ?? 0) + 1);
+}
+
+/**
+ * Infer printed page labels from the numbers found on each page. `pages`
+ * must be in PDF order. Pages before printed page 1 get roman labels when
+ * the front matter is numbered that way; pages that fit neither sequence
+ * are left unlabelled.
+ */
+export function inferPageLabels(pages: PageNumberEvidence[]): Record<string, string> {
+  const arabicVotes = new Map<number, number>();
+  pages.forEach((page, index) => {
+    const offsets = new Set<number>();
+    for (const candidate of page.candidates) {
+      const n = parseArabic(candidate);
+      if (n !== null) offsets.add(n - index);
+    }
+    offsets.forEach((o) => vote(arabicVotes, o));
+  });
+  const arabicOffset = bestOffset(arabicVotes);
+
+  // Front matter: the pages before arabic page 1 (or every page without one)
+  const frontMatterEnd = arabicOffset === null ? pages.length : Math.max(0, 1 - arabicOffset);
+  const romanVotes = new Map<number, number>();
+  let upperCase = 0;
+  pages.slice(0, frontMatterEnd).forEach((page, index) => {
+    const offsets = new Set<number>();
+    for (const candidate of page.candidates) {
+      const stripped = stripDecorations(candidate);
+      const n = parseRoman(stripped);
+      if (n === null) continue;
+      offsets.add(n - index);
+      if (stripped === stripped.toUpperCase()) upperCase++;
+      else upperCase--;
+    }
+    offsets.forEach((o) => vote(romanVotes, o));
+  });
+  const romanOffset = bestOffset(romanVotes);
+
+  const labels: Record<string, string> = {};
+  pages.forEach((page, index) => {
+    if (index < frontMatterEnd) {
+      if (romanOffset === null || index + romanOffset < 1) return;
+      const roman = toRoman(index + romanOffset);
+      labels[page.pageId] = upperCase > 0 ? roman.toUpperCase() : roman;
+    } else if (arabicOffset !== null) {
+      labels[page.pageId] = String(index + arabicOffset);
+    }
+  });
+  return labels;
+}
+
+/**
+ * Find the page printed with `label` ("12", "Page 12", "iv"), for following
+ * page references such as table of contents entries.
+ */
+export function pageIdForLabel(
+  labels: Record<string, string>,
+  label: string
+): string | null {
+  const wanted = stripDecorations(label).toLowerCase();
+  if (!wanted) return null;
+  for (const [pageId, pageLabel] of Object.entries(labels)) {
+    if (pageLabel.toLowerCase() === wanted) return pageId;
+  }
+  return null;
+}
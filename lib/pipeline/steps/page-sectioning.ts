@@ -15,6 +15,7 @@ import {
 } from "../core/schemas";
 import { loadPrompt } from "../core/llm";
 import { buildGroupSummaries } from "./text-classification";
+import { describeRegion, locateTexts, unionRect } from "../layout/layout";
 
 // ============================================================================
 // Input type
@@ -77,6 +78,21 @@ export async function sectionPage(
   // Build group summaries (excludes pruned text entries)
   const groupSummaries = buildGroupSummaries(textClassification);
 
+  // Where each group is on the page, when the PDF has text geometry
+  const groupPositions = new Map<string, string>();
+  if (page.layout) {
+    const entries = textClassification.groups.flatMap((g) =>
+      g.texts.map((t) => ({ groupId: g.groupId, text: t.text, isPruned: t.isPruned }))
+    );
+    const rects = locateTexts(page.layout, entries.map((e) => e.text));
+    for (const group of groupSummaries) {
+      const region = unionRect(
+        entries.flatMap((e, i) => (e.groupId === group.groupId && !e.isPruned ? rects[i] : []))
+      );
+      if (region) groupPositions.set(group.groupId, describeRegion(page.layout, region));
+    }
+  }
+
   // Filter to un-pruned images
   const prunedImageIds = new Set(
     imageClassification.images
@@ -118,6 +134,7 @@ export async function sectionPage(
       group_id: g.groupId,
       group_type: g.groupType,
       text: g.text,
+      position: groupPositions.get(g.groupId) ?? null,
     })),
     section_types: sectionTypes,
   };
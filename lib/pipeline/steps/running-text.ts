@@ -0,0 +1,167 @@
+/**
+ * Running Text Consistency Step
+ *
+ * Text classification decides per page whether a text is a running header,
+ * footer or page number, so the same running header can be pruned on one
+ * page and kept on the next. This step looks across every page for texts
+ * that repeat at the top or bottom of pages and proposes corrections that
+ * give each repeated string the same type and pruning everywhere.
+ * No LLM required - this is a pure synchronous function.
+ */
+
+import type { TextClassificationOutput } from "../core/schemas";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RunningTextPage {
+  pageId: string;
+  classification: TextClassificationOutput;
+}
+
+export interface RunningTextOptions {
+  /** Minimum number of pages a string must appear on (default 3) */
+  minPages?: number;
+}
+
+/** One text whose type or pruning differs from the rest of its cluster. */
+export interface RunningTextCorrection {
+  pageId: string;
+  groupId: string;
+  textIndex: number;
+  text: string;
+  textType: string;
+  isPruned: boolean;
+}
+
+/** A string repeated at the edges of several pages, classified inconsistently. */
+export interface RunningTextCluster {
+  /** Normalized text, with digits collapsed so "Page 4" and "Page 5" match */
+  key: string;
+  /** Most common spelling, for display */
+  sample: string;
+  pageCount: number;
+  /** Consistent decision: the majority of occurrences (ties prune) */
+  textType: string;
+  isPruned: boolean;
+  corrections: RunningTextCorrection[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_MIN_PAGES = 3;
+
+/** Running headers and footers are short; longer repeats are real content. */
+const MAX_RUNNING_TEXT_LENGTH = 120;
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+export function normalizeRunningText(text: string): string {
+  return text.toLowerCase().replace(/\d+/g, "#").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Find repeated strings in the first or last group of at least `minPages`
+ * pages whose occurrences disagree on type or pruning, with the corrections
+ * that make them consistent. Clusters are ordered by page count.
+ */
+export function findRunningTextClusters(
+  pages: RunningTextPage[],
+  options: RunningTextOptions = {}
+): RunningTextCluster[] {
+  const minPages = options.minPages ?? DEFAULT_MIN_PAGES;
+  const occurrences = new Map<string, RunningTextCorrection[]>();
+
+  for (const { pageId, classification } of pages) {
+    const { groups } = classification;
+    const edges = new Set([groups[0], groups[groups.length - 1]]);
+    for (const group of edges) {
+      if (!group) continue;
+      group.texts.forEach((entry, textIndex) => {
+        const key = normalizeRunningText(entry.text);
+        if (!key || key.length > MAX_RUNNING_TEXT_LENGTH) return;
+        const list = occurrences.get(key) ?? [];
+        list.push({
+          pageId,
+          groupId: group.groupId,
+          textIndex,
+          text: entry.text,
+          textType: entry.textType,
+          isPruned: entry.isPruned,
+        });
+        occurrences.set(key, list);
+      });
+    }
+  }
+
+  const clusters: RunningTextCluster[] = [];
+  for (const [key, list] of occurrences) {
+    const pageCount = new Set(list.map((o) => o.pageId)).size;
+    if (pageCount < minPages) continue;
+
+    const prunedCount = list.filter((o) => o.isPruned).length;
+    const isPruned = prunedCount * 2 >= list.length;
+    const textType = mostCommon(list.filter((o) => o.isPruned === isPruned).map((o) => o.textType));
+
+    const corrections = list.filter((o) => o.isPruned !== isPruned || o.textType !== textType);
+    if (corrections.length === 0) continue;
+
+    clusters.push({
+      key,
+      sample: mostCommon(list.map((o) => o.text)),
+      pageCount,
+      textType,
+      isPruned,
+      corrections,
+    });
+  }
+
+  return clusters.sort((a, b) => b.pageCount - a.pageCount || a.key.localeCompare(b.key));
+}
+
+/**
+ * Apply the accepted clusters' corrections to one page's classification.
+ * Texts that changed since the clusters were computed are left alone.
+ */
+export function applyRunningTextClusters(
+  pageId: string,
+  classification: TextClassificationOutput,
+  clusters: RunningTextCluster[]
+): { classification: TextClassificationOutput; changed: number } {
+  let changed = 0;
+  const groups = classification.groups.map((group) => ({
+    ...group,
+    texts: group.texts.map((entry, textIndex) => {
+      for (const cluster of clusters) {
+        const match = cluster.corrections.some(
+          (c) =>
+            c.pageId === pageId &&
+            c.groupId === group.groupId &&
+            c.textIndex === textIndex &&
+            c.text === entry.text
+        );
+        if (match) {
+          changed++;
+          return { ...entry, textType: cluster.textType, isPruned: cluster.isPruned };
+        }
+      }
+      return entry;
+    }),
+  }));
+  return { classification: { ...classification, groups }, changed };
+}
+
+function mostCommon(values: string[]): string {
+  const counts = new Map<string, number>();
+  for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1);
+  let best = values[0];
+  for (const [v, n] of counts) {
+    if (n > (counts.get(best) ?? 0)) best = v;
+  }
+  return best;
+}
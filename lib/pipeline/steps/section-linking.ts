@@ -0,0 +1,233 @@
+/**
+ * Section Linking Step
+ *
+ * Page sectioning sees one page at a time, so a story or activity that runs
+ * across a page break ends up as two unrelated sections. This book-level
+ * step looks at each page boundary — the last section on one page and the
+ * first section on the next — and asks the LLM whether the second continues
+ * the first. Confirmed pairs are returned as "continues on next page" links.
+ */
+
+import type { LLMModel } from "../core/types";
+import {
+  type PageSectioningOutput,
+  type SectionLink,
+  type SectionLinksOutput,
+  sectionContinuationLLMSchema,
+} from "../core/schemas";
+import { loadPrompt } from "../core/llm";
+
+// ============================================================================
+// Input types
+// ============================================================================
+
+export interface PageSectionsInput {
+  pageId: string;
+  sectioning: PageSectioningOutput;
+}
+
+export interface LinkSectionsInput {
+  /** Pages in reading order */
+  pages: PageSectionsInput[];
+  model: LLMModel;
+  promptName: string;
+}
+
+export interface BoundarySection {
+  sectionId: string;
+  pageId: string;
+  sectionIndex: number;
+  sectionType: string;
+  texts: Array<{ textId: string; textType: string; text: string }>;
+  imageIds: string[];
+}
+
+export interface SectionBoundary {
+  from: BoundarySection;
+  to: BoundarySection;
+}
+
+// ============================================================================
+// Raw LLM response type
+// ============================================================================
+
+interface RawSectionContinuation {
+  reasoning: string;
+  continues: boolean;
+}
+
+// ============================================================================
+// Pure step functions
+// ============================================================================
+
+function toBoundarySection(
+  pageId: string,
+  sectioning: PageSectioningOutput,
+  index: number
+): BoundarySection {
+  const section = sectioning.sections[index];
+  return {
+    sectionId: `${pageId}_s${String(index + 1).padStart(3, "0")}`,
+    pageId,
+    sectionIndex: index,
+    sectionType: section.sectionType,
+    texts: section.texts ?? [],
+    imageIds: section.imageIds ?? [],
+  };
+}
+
+function hasContent(section: PageSectioningOutput["sections"][number]): boolean {
+  return (
+    !section.isPruned &&
+    ((section.texts?.length ?? 0) > 0 || (section.imageIds?.length ?? 0) > 0)
+  );
+}
+
+/**
+ * Pair the last content section of each page with the first content section
+ * of the following page. Pages without any content sections break the chain.
+ */
+export function findSectionBoundaries(
+  pages: PageSectionsInput[]
+): SectionBoundary[] {
+  const boundaries: SectionBoundary[] = [];
+
+  for (let i = 0; i < pages.length - 1; i++) {
+    const current = pages[i];
+    const next = pages[i + 1];
+
+    let lastIndex = -1;
+    for (let s = current.sectioning.sections.length - 1; s >= 0; s--) {
+      if (hasContent(current.sectioning.sections[s])) {
+        lastIndex = s;
+        break;
+      }
+    }
+    const firstIndex = next.sectioning.sections.findIndex(hasContent);
+    if (lastIndex === -1 || firstIndex === -1) continue;
+
+    boundaries.push({
+      from: toBoundarySection(current.pageId, current.sectioning, lastIndex),
+      to: toBoundarySection(next.pageId, next.sectioning, firstIndex),
+    });
+  }
+
+  return boundaries;
+}
+
+/**
+ * Cheap pre-check: a section that opens with a heading starts something new,
+ * so there's no point asking the LLM.
+ */
+function startsNewUnit(section: BoundarySection): boolean {
+  const first = section.texts[0];
+  return first !== undefined && first.textType === "section_heading";
+}
+
+/**
+ * Decide, for every page boundary, whether the section after the break
+ * continues the one before it.
+ */
+export async function linkSections(
+  input: LinkSectionsInput
+): Promise<SectionLinksOutput> {
+  const { pages, model, promptName } = input;
+  const links: SectionLink[] = [];
+
+  for (const boundary of findSectionBoundaries(pages)) {
+    if (startsNewUnit(boundary.to)) continue;
+
+    const promptContext = {
+      from: {
+        section_id: boundary.from.sectionId,
+        section_type: boundary.from.sectionType,
+        texts: boundary.from.texts.map((t) => ({ text_type: t.textType, text: t.text })),
+        image_count: boundary.from.imageIds.length,
+      },
+      to: {
+        section_id: boundary.to.sectionId,
+        section_type: boundary.to.sectionType,
+        texts: boundary.to.texts.map((t) => ({ text_type: t.textType, text: t.text })),
+        image_count: boundary.to.imageIds.length,
+      },
+    };
+
+    const { system, messages } = await loadPrompt(promptName, promptContext);
+
+    const result = await model.generateObject<RawSectionContinuation>({
+      schema: sectionContinuationLLMSchema,
+      system,
+      messages,
+      log: {
+        taskType: "section-linking",
+        pageId: boundary.to.pageId,
+        promptName,
+      },
+    });
+
+    if (result.object.continues) {
+      links.push({
+        fromSectionId: boundary.from.sectionId,
+        toSectionId: boundary.to.sectionId,
+        reasoning: result.object.reasoning,
+      });
+    }
+  }
+
+  return { links };
+}
+
+/**
+ * Follow links forward from a section to collect the whole multi-page chain
+ * (head first). Returns just `[sectionId]` when nothing continues it.
+ */
+export function resolveSectionChain(
+  links: SectionLink[],
+  sectionId: string
+): string[] {
+  const next = new Map(links.map((l) => [l.fromSectionId, l.toSectionId]));
+  const chain = [sectionId];
+  const seen = new Set(chain);
+  let current = next.get(sectionId);
+  while (current && !seen.has(current)) {
+    chain.push(current);
+    seen.add(current);
+    current = next.get(current);
+  }
+  return chain;
+}
+
+/**
+ * Find the head of the chain a section belongs to.
+ */
+export function findChainHead(links: SectionLink[], sectionId: string): string {
+  const prev = new Map(links.map((l) => [l.toSectionId, l.fromSectionId]));
+  const seen = new Set([sectionId]);
+  let head = sectionId;
+  let current = prev.get(head);
+  while (current && !seen.has(current)) {
+    head = current;
+    seen.add(current);
+    current = prev.get(current);
+  }
+  return head;
+}
+
+/**
+ * Sections to re-render after the links change from `before` to `after`:
+ * every section an added or removed link touches, replaced by the head of
+ * its chain under `after`. A section left with no links is its own head,
+ * so it is rendered on its own again. Each section is listed once.
+ */
+export function sectionsToRerender(before: SectionLink[], after: SectionLink[]): string[] {
+  const key = (l: SectionLink) => `${l.fromSectionId}>${l.toSectionId}`;
+  const beforeKeys = new Set(before.map(key));
+  const afterKeys = new Set(after.map(key));
+  const result = new Set<string>();
+  for (const link of [...before, ...after]) {
+    if (beforeKeys.has(key(link)) === afterKeys.has(key(link))) continue;
+    result.add(findChainHead(after, link.fromSectionId));
+    result.add(findChainHead(after, link.toSectionId));
+  }
+  return [...result];
+}
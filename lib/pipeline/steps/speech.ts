@@ -0,0 +1,115 @@
+/**
+ * Speech Step
+ *
+ * Synthesizes read-along audio for every non-pruned text on a page using a
+ * TTS provider. Clips are keyed by the same text IDs as the sectioning
+ * (the `data-id` of the rendered element), so exported HTML can highlight
+ * each text, word by word, while it is read aloud.
+ */
+
+import crypto from "node:crypto";
+import type { TTSProvider } from "../core/types";
+import type {
+  SpeechClip,
+  SpeechOutput,
+  TextClassificationOutput,
+} from "../core/schemas";
+import { estimateWordTimings } from "../core/tts";
+import { collectTranslatableTexts } from "./translation";
+
+// ============================================================================
+// Input / output types
+// ============================================================================
+
+export interface SynthesizeSpeechInput {
+  textClassification: TextClassificationOutput;
+  language: string;
+  provider: TTSProvider;
+  voice?: string;
+  /** Previous output for the page; clips for unchanged texts are reused */
+  previous?: SpeechOutput | null;
+  onProgress?: (done: number, total: number) => void;
+  abortSignal?: AbortSignal;
+}
+
+export interface SpeechAudioFile {
+  audioHash: string;
+  format: SpeechClip["format"];
+  data: Uint8Array;
+}
+
+export interface SynthesizeSpeechResult {
+  output: SpeechOutput;
+  /** Newly synthesized audio, for the caller to persist */
+  audio: SpeechAudioFile[];
+}
+
+// ============================================================================
+// Pure step function
+// ============================================================================
+
+/**
+ * Synthesize audio for the non-pruned texts on a page.
+ *
+ * This is a pure async function that:
+ * 1. Collects the page's non-pruned texts with their text IDs
+ * 2. Reuses previous clips whose text, voice and provider are unchanged
+ * 3. Calls the TTS provider for the rest, one text at a time
+ * 4. Returns clip metadata with word timings, plus the new audio files
+ */
+export async function synthesizeSpeech(
+  input: SynthesizeSpeechInput
+): Promise<SynthesizeSpeechResult> {
+  const { textClassification, language, provider, voice, previous, onProgress, abortSignal } =
+    input;
+
+  const texts = collectTranslatableTexts(textClassification);
+  const reusable = new Map((previous?.clips ?? []).map((c) => [c.sourceHash, c]));
+
+  const clips: SpeechClip[] = [];
+  const audio: SpeechAudioFile[] = [];
+  for (const [i, t] of texts.entries()) {
+    const sourceHash = hashString(
+      JSON.stringify([provider.name, voice ?? null, language, t.text])
+    );
+    const existing = reusable.get(sourceHash);
+    if (existing) {
+      clips.push({ ...existing, textId: t.textId });
+    } else {
+      const result = await provider.synthesize({
+        text: t.text,
+        language,
+        voice,
+        abortSignal,
+      });
+      const audioHash = hashBytes(result.audio);
+      audio.push({ audioHash, format: result.format, data: result.audio });
+      clips.push({
+        textId: t.textId,
+        sourceHash,
+        audioHash,
+        format: result.format,
+        durationMs: result.durationMs,
+        words: result.words ?? estimateWordTimings(t.text, result.durationMs),
+      });
+    }
+    onProgress?.(i + 1, texts.length);
+  }
+
+  return {
+    output: { language, provider: provider.name, voice: voice ?? null, clips },
+    audio,
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function hashString(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex").slice(0, 16);
+}
+
+function hashBytes(data: Uint8Array): string {
+  return crypto.createHash("sha256").update(data).digest("hex").slice(0, 16);
+}
@@ -0,0 +1,225 @@
+/**
+ * Table of Contents Step
+ *
+ * Parses the texts of `table_of_contents` sections into entries (title,
+ * printed page, level) and resolves each entry to the page and section it
+ * points at: the printed page goes through the book's page labels, and the
+ * title is matched against `section_heading` texts on and around that page.
+ * No LLM required - this is a pure synchronous function.
+ */
+
+import type {
+  TableOfContents,
+  TocEntry,
+} from "../table-of-contents/table-of-contents-schema";
+import { pageIdForLabel, parseRoman } from "./page-labels";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TocSourceText {
+  textId: string;
+  textType: string;
+  text: string;
+}
+
+export interface TocSourceSection {
+  sectionId: string;
+  texts: TocSourceText[];
+}
+
+/** One `section_heading` text of a rendered (non-TOC) section. */
+export interface TocHeading {
+  pageId: string;
+  sectionId: string;
+  text: string;
+}
+
+export interface TocResolveContext {
+  /** Every page ID in the book, in order */
+  pageIds: string[];
+  /** Printed page label by page ID */
+  pageLabels: Record<string, string>;
+  headings: TocHeading[];
+}
+
+/** A parsed entry before it is resolved and nested. */
+export interface ParsedTocEntry {
+  title: string;
+  pageLabel: string | null;
+  level: number;
+  textId: string;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/** "Contents", "Table of Contents" - the heading of the TOC itself. */
+const TOC_TITLE_RE = /^(table of )?contents$/i;
+
+/** Dot leaders or a wide gap before a trailing page number. */
+const LEADER_RE = /(?:\s*[.·…_]{2,}\s*|\s{2,}|\t+)/;
+
+const NUMBERING_RE = /^(\d+(?:\.\d+)*)[.)]?\s+/;
+
+function splitPageLabel(line: string): { title: string; pageLabel: string | null } {
+  // Arabic page numbers may follow a single space; roman ones need a leader,
+  // or titles like "Part II" would lose their numeral.
+  const arabic = line.match(new RegExp(`^(.*?\\S)(?:${LEADER_RE.source}|\\s+)(\\d{1,4})$`));
+  if (arabic) return { title: arabic[1], pageLabel: arabic[2] };
+  const roman = line.match(new RegExp(`^(.*?\\S)${LEADER_RE.source}([ivxlcdm]+)$`, "i"));
+  if (roman && parseRoman(roman[2]) !== null) return { title: roman[1], pageLabel: roman[2] };
+  return { title: line, pageLabel: null };
+}
+
+function isPageLabel(text: string): boolean {
+  return /^\d{1,4}$/.test(text) || parseRoman(text) !== null;
+}
+
+/**
+ * Parse the texts of one or more TOC sections into flat entries. A text
+ * holding only a page number completes the entry before it. Entries with
+ * dotted numbering ("2.1") are nested by depth; entries without a page
+ * number ("Part One") act as parents of the entries that follow.
+ */
+export function parseTocEntries(texts: TocSourceText[]): ParsedTocEntry[] {
+  const entries: ParsedTocEntry[] = [];
+  // Index of the page-less heading the entries are grouped under
+  let group = -1;
+  let previousGroup = -1;
+
+  for (const source of texts) {
+    for (const raw of source.text.split("\n")) {
+      const line = raw.replace(/\s+$/, "");
+      const trimmed = line.trim();
+      if (!trimmed || TOC_TITLE_RE.test(trimmed)) continue;
+
+      const last = entries.length - 1;
+      if (isPageLabel(trimmed) && last >= 0 && entries[last].pageLabel === null) {
+        entries[last].pageLabel = trimmed;
+        if (last === group) {
+          // Title and page number were separate texts: an entry, not a heading
+          group = previousGroup;
+          entries[last].level = group >= 0 ? 2 : 1;
+        }
+        continue;
+      }
+
+      const { title, pageLabel } = splitPageLabel(trimmed);
+      const numbering = title.match(NUMBERING_RE)?.[1];
+      const depth = numbering ? numbering.split(".").length : 1;
+
+      if (pageLabel === null && !numbering) {
+        // A page-less heading groups the entries below it
+        previousGroup = group;
+        group = entries.length;
+        entries.push({ title, pageLabel, level: 1, textId: source.textId });
+        continue;
+      }
+      entries.push({
+        title: title.replace(/[\s.·…_]+$/, ""),
+        pageLabel,
+        level: depth + (group >= 0 ? 1 : 0),
+        textId: source.textId,
+      });
+    }
+  }
+  return entries;
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/** Lowercase, drop numbering, chapter words and punctuation for matching. */
+export function normalizeTocTitle(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(NUMBERING_RE, "")
+    .replace(/^(chapter|part|book|unit|lesson)\s+([0-9]+|[ivxlcdm]+|[a-z]+)\b[.:\s-]*/i, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+function headingMatches(heading: string, title: string): boolean {
+  const a = normalizeTocTitle(heading);
+  const b = normalizeTocTitle(title);
+  if (!a || !b) return heading.trim().toLowerCase() === title.trim().toLowerCase();
+  return a === b || a.startsWith(`${b} `) || b.startsWith(`${a} `);
+}
+
+function resolveEntry(
+  entry: ParsedTocEntry,
+  context: TocResolveContext,
+  tocPageIndex: number
+): { pageId: string | null; sectionId: string | null } {
+  const pageId = entry.pageLabel ? pageIdForLabel(context.pageLabels, entry.pageLabel) : null;
+  const pageIndex = pageId ? context.pageIds.indexOf(pageId) : -1;
+
+  // Prefer headings on the printed page, then the pages right around it
+  // (labels can be off by one around unnumbered plates); without a page,
+  // take the first match after the table of contents
+  const candidates = context.headings.filter((h) => headingMatches(h.text, entry.title));
+  const distance = (h: TocHeading) => {
+    const index = context.pageIds.indexOf(h.pageId);
+    if (pageIndex >= 0) return Math.abs(index - pageIndex);
+    return index > tocPageIndex ? index : Infinity;
+  };
+  const maxDistance = pageIndex >= 0 ? 1 : context.pageIds.length;
+  const nearest = candidates
+    .filter((h) => distance(h) <= maxDistance)
+    .sort((a, b) => distance(a) - distance(b))[0];
+
+  if (nearest) return { pageId: nearest.pageId, sectionId: nearest.sectionId };
+  return { pageId, sectionId: null };
+}
+
+function nest(entries: TocEntry[]): TocEntry[] {
+  const roots: TocEntry[] = [];
+  const stack: TocEntry[] = [];
+  for (const entry of entries) {
+    while (stack.length > 0 && stack[stack.length - 1].level >= entry.level) stack.pop();
+    const parent = stack[stack.length - 1];
+    if (parent) parent.children.push(entry);
+    else roots.push(entry);
+    stack.push(entry);
+  }
+  return roots;
+}
+
+/**
+ * Build the book's table of contents from its TOC sections (in page order),
+ * resolving every entry against the page labels and section headings.
+ */
+export function buildTableOfContents(
+  sections: TocSourceSection[],
+  context: TocResolveContext
+): TableOfContents {
+  const tocPageIndex = sections.length
+    ? context.pageIds.indexOf(sections[0].sectionId.split("_")[0])
+    : -1;
+  const parsed = parseTocEntries(sections.flatMap((s) => s.texts));
+  const entries = parsed.map((entry): TocEntry => {
+    const target = resolveEntry(entry, context, tocPageIndex);
+    return {
+      title: entry.title,
+      page_label: entry.pageLabel,
+      level: entry.level,
+      text_id: entry.textId,
+      page_id: target.pageId,
+      section_id: target.sectionId,
+      children: [],
+    };
+  });
+  return {
+    source_section_ids: sections.map((s) => s.sectionId),
+    entries: nest(entries),
+  };
+}
+
+/** Depth-first list of every entry in the tree. */
+export function flattenToc(entries: TocEntry[]): TocEntry[] {
+  return entries.flatMap((e) => [e, ...flattenToc(e.children)]);
+}
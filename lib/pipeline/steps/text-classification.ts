@@ -4,14 +4,23 @@
  * Classifies text on a page into typed groups using an LLM.
  * Groups text by semantic meaning (paragraphs, headers, lists, etc.)
  * and assigns text types (body, heading, caption, etc.) to each entry.
+ * `table` groups also get their cell structure (rows, header cells, spans
+ * and blank cells), with each cell pointing at one of the group's texts.
  */
 
-import type { Page, LLMModel, TypeDef, Message } from "../core/types";
+import type { Page, LLMModel, TypeDef, Message, ValidationResult } from "../core/types";
 import {
+  type DBTextTable,
   type TextClassificationOutput,
   buildTextClassificationLLMSchema,
+  fromDBTable,
 } from "../core/schemas";
 import { loadPrompt } from "../core/llm";
+import { tableErrors } from "../text-classification/tables";
+import { summarizeLayout } from "../layout/layout";
+
+/** Group type whose texts are the cells of a table. */
+export const TABLE_GROUP_TYPE = "table";
 
 // ============================================================================
 // Input type
@@ -36,6 +45,7 @@ interface RawTextClassification {
   groups: Array<{
     group_type: string;
     texts: Array<{ text_type: string; text: string }>;
+    table: DBTextTable | null;
   }>;
 }
 
@@ -49,7 +59,7 @@ interface RawTextClassification {
  * This is a pure async function that:
  * 1. Builds the LLM schema from configured types
  * 2. Renders the prompt template
- * 3. Calls the LLM
+ * 3. Calls the LLM, validating the cell structure of `table` groups
  * 4. Post-processes to assign IDs and mark pruned entries
  */
 export async function classifyText(
@@ -87,20 +97,40 @@ export async function classifyText(
       pageNumber: page.pageNumber,
       text: page.rawText,
       imageBase64: page.pageImageBase64,
+      layout: page.layout ? summarizeLayout(page.layout) : "",
     },
     language,
     text_types: textTypes,
     text_group_types: textGroupTypes,
+    has_table_group: groupTypeKeys.includes(TABLE_GROUP_TYPE),
   };
 
   // Load and render the prompt
   const { system, messages } = await loadPrompt(promptName, promptContext);
 
+  const validate = (result: unknown): ValidationResult => {
+    const r = result as RawTextClassification;
+    const errors: string[] = [];
+    r.groups.forEach((g, gi) => {
+      if (g.group_type !== TABLE_GROUP_TYPE) return;
+      if (!g.table) {
+        errors.push(`Group ${gi + 1} is a table but has no table structure`);
+        return;
+      }
+      for (const error of tableErrors(g.table, g.texts.length)) {
+        errors.push(`Group ${gi + 1}: ${error}`);
+      }
+    });
+    return { valid: errors.length === 0, errors };
+  };
+
   // Call LLM
   const result = await model.generateObject<RawTextClassification>({
     schema,
     system,
     messages,
+    validate,
+    maxRetries: 2,
     log: {
       taskType: "text-classification",
       pageId: page.pageId,
@@ -119,6 +149,9 @@ export async function classifyText(
       text: t.text,
       isPruned: prunedSet.has(t.text_type),
     })),
+    ...(g.group_type === TABLE_GROUP_TYPE && g.table
+      ? { table: fromDBTable(g.table) }
+      : {}),
   }));
 
   return {
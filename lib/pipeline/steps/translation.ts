@@ -0,0 +1,139 @@
+/**
+ * Translation Step
+ *
+ * Translates every non-pruned text on a page into a target language using
+ * an LLM. Runs after text classification; translations are keyed by the
+ * same text IDs as the sectioning, so web rendering can swap them into the
+ * rendered HTML without changing its structure.
+ */
+
+import type { Page, LLMModel, ValidationResult } from "../core/types";
+import {
+  type TextClassificationOutput,
+  type TranslationOutput,
+  buildTranslationLLMSchema,
+} from "../core/schemas";
+import { loadPrompt } from "../core/llm";
+
+// ============================================================================
+// Input type
+// ============================================================================
+
+export interface TranslateTextInput {
+  page: Page;
+  textClassification: TextClassificationOutput;
+  sourceLanguage: string;
+  targetLanguage: string;
+  model: LLMModel;
+  promptName: string;
+}
+
+// ============================================================================
+// Raw LLM response type (before post-processing)
+// ============================================================================
+
+interface RawTranslation {
+  reasoning: string;
+  translations: Array<{
+    text_id: string;
+    text: string;
+  }>;
+}
+
+// ============================================================================
+// Pure step function
+// ============================================================================
+
+/**
+ * Translate the non-pruned texts on a page.
+ *
+ * This is a pure async function that:
+ * 1. Collects the page's non-pruned texts with their text IDs
+ * 2. Calls the LLM, validating that every text is translated exactly once
+ * 3. Returns the translations in the page's text order
+ */
+export async function translateText(
+  input: TranslateTextInput
+): Promise<TranslationOutput> {
+  const { page, textClassification, sourceLanguage, targetLanguage, model, promptName } =
+    input;
+
+  const texts = collectTranslatableTexts(textClassification);
+  if (texts.length === 0) {
+    return { language: targetLanguage, reasoning: "No text to translate", texts: [] };
+  }
+
+  const textIds = texts.map((t) => t.textId);
+  const schema = buildTranslationLLMSchema(textIds as [string, ...string[]]);
+
+  const promptContext = {
+    source_language: sourceLanguage,
+    target_language: targetLanguage,
+    texts: texts.map((t) => ({
+      text_id: t.textId,
+      text_type: t.textType,
+      text: t.text,
+    })),
+  };
+
+  const { system, messages } = await loadPrompt(promptName, promptContext);
+
+  const validate = (result: unknown): ValidationResult => {
+    const r = result as RawTranslation;
+    const errors: string[] = [];
+    const seen = new Set<string>();
+    for (const t of r.translations) {
+      if (seen.has(t.text_id)) errors.push(`Duplicate text_id: "${t.text_id}"`);
+      seen.add(t.text_id);
+      if (t.text.trim().length === 0) errors.push(`Empty translation for "${t.text_id}"`);
+    }
+    for (const id of textIds) {
+      if (!seen.has(id)) errors.push(`Missing translation for text "${id}"`);
+    }
+    return { valid: errors.length === 0, errors };
+  };
+
+  const result = await model.generateObject<RawTranslation>({
+    schema,
+    system,
+    messages,
+    validate,
+    maxRetries: 2,
+    log: {
+      taskType: "translation",
+      pageId: page.pageId,
+      promptName,
+    },
+  });
+
+  const byId = new Map(result.object.translations.map((t) => [t.text_id, t.text]));
+  return {
+    language: targetLanguage,
+    reasoning: result.object.reasoning,
+    texts: textIds
+      .filter((id) => byId.has(id))
+      .map((id) => ({ textId: id, text: byId.get(id)!.trim() })),
+  };
+}
+
+/**
+ * Non-pruned texts with the IDs sectioning assigns them
+ * (`${groupId}_t${nnn}`, counting pruned texts too).
+ */
+export function collectTranslatableTexts(
+  textClassification: TextClassificationOutput
+): Array<{ textId: string; textType: string; text: string }> {
+  return textClassification.groups.flatMap((group) =>
+    group.texts.flatMap((t, ti) =>
+      t.isPruned || t.text.trim().length === 0
+        ? []
+        : [
+            {
+              textId: `${group.groupId}_t${String(ti + 1).padStart(3, "0")}`,
+              textType: t.textType,
+              text: t.text,
+            },
+          ]
+    )
+  );
+}
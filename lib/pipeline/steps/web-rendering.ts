@@ -4,17 +4,32 @@
  * Renders page sections as HTML using an LLM. Each section is rendered
  * independently, producing semantic HTML with data-id attributes for
  * text and image references.
+ *
+ * Table groups are given to the LLM as ready `<table>` markup and
+ * restored to it after rendering, and `math` texts are converted from
+ * LaTeX to MathML. Sections linked across a page break can be rendered
+ * together as one unit via `renderLinkedSections`.
  */
 
 import type { Page, PageImage, LLMModel, ValidationResult } from "../core/types";
 import {
+  type ImageDescription,
   type PageSectioningOutput,
   type SectionRendering,
+  type SectionTable,
   type WebRenderingOutput,
   webRenderingLLMResponseSchema,
 } from "../core/schemas";
 import { loadPrompt } from "../core/llm";
 import { validateSectionHtml } from "../web-rendering/validate-html";
+import { checkTextFidelity, missingTextErrors } from "../web-rendering/text-fidelity";
+import { applyImageDescriptions } from "../web-rendering/image-descriptions";
+import { applyMathml } from "../web-rendering/mathml";
+import {
+  applyTables,
+  renderTableHtml,
+  tableRenderingErrors,
+} from "../web-rendering/tables";
 
 // ============================================================================
 // Input types
@@ -24,9 +39,12 @@ export interface RenderPageInput {
   page: Page;
   sectioning: PageSectioningOutput;
   images: Map<string, string>; // imageId → base64
+  imageDescriptions?: Map<string, ImageDescription>; // imageId → alt text etc.
   model: LLMModel;
   promptName: string;
   maxRetries?: number;
+  /** Treat texts missing from the HTML as a retryable validation error */
+  requireAllTexts?: boolean;
 }
 
 export interface RenderSectionInput {
@@ -35,9 +53,34 @@ export interface RenderSectionInput {
   sectionType: string;
   texts: TextInput[];
   images: ImageInput[];
+  /** Table groups among the texts, rendered as `<table>` markup */
+  tables?: SectionTable[];
+  /** Further pages this section runs onto (merged multi-page sections) */
+  continuationPages?: Page[];
   model: LLMModel;
   promptName: string;
   maxRetries?: number;
+  /** Treat texts missing from the HTML as a retryable validation error */
+  requireAllTexts?: boolean;
+}
+
+export interface LinkedSectionPart {
+  page: Page;
+  sectionIndex: number;
+  sectionType: string;
+  texts: TextInput[];
+  images: ImageInput[];
+  tables?: SectionTable[];
+}
+
+export interface RenderLinkedSectionsInput {
+  /** Chain of sections in reading order; the first is the head */
+  parts: LinkedSectionPart[];
+  model: LLMModel;
+  promptName: string;
+  maxRetries?: number;
+  /** Treat texts missing from the HTML as a retryable validation error */
+  requireAllTexts?: boolean;
 }
 
 export interface TextInput {
@@ -49,6 +92,7 @@ export interface TextInput {
 export interface ImageInput {
   imageId: string;
   imageBase64: string;
+  description?: ImageDescription;
 }
 
 // ============================================================================
@@ -76,7 +120,16 @@ interface RawWebRenderingResponse {
 export async function renderPage(
   input: RenderPageInput
 ): Promise<WebRenderingOutput> {
-  const { page, sectioning, images, model, promptName, maxRetries } = input;
+  const {
+    page,
+    sectioning,
+    images,
+    imageDescriptions,
+    model,
+    promptName,
+    maxRetries,
+    requireAllTexts,
+  } = input;
 
   const sections: SectionRendering[] = [];
 
@@ -94,7 +147,8 @@ export async function renderPage(
       .map((imageId) => {
         const imageBase64 = images.get(imageId);
         if (!imageBase64) return null;
-        return { imageId, imageBase64 };
+        const description = imageDescriptions?.get(imageId);
+        return { imageId, imageBase64, ...(description ? { description } : {}) };
       })
       .filter((img): img is ImageInput => img !== null);
 
@@ -110,9 +164,11 @@ export async function renderPage(
       sectionType: section.sectionType,
       texts,
       images: sectionImages,
+      tables: section.tables,
       model,
       promptName,
       maxRetries,
+      requireAllTexts,
     });
 
     sections.push(rendering);
@@ -128,6 +184,7 @@ export async function renderPage(
  * - All data-id attributes reference valid text/image IDs
  * - No duplicate data-id values
  * - All text content is wrapped in elements with data-id
+ * - With `requireAllTexts`, every input text appears under its data-id
  */
 export async function renderSection(
   input: RenderSectionInput
@@ -138,10 +195,14 @@ export async function renderSection(
     sectionType,
     texts,
     images,
+    tables = [],
+    continuationPages,
     model,
     promptName,
     maxRetries,
+    requireAllTexts,
   } = input;
+  const textMap = new Map(texts.map((t) => [t.textId, t.text]));
 
   // Build allowed IDs for validation
   const allowedTextIds = texts.map((t) => t.textId);
@@ -150,6 +211,9 @@ export async function renderSection(
   // Build prompt context
   const promptContext = {
     page_image_base64: page.pageImageBase64,
+    continuation_page_images: (continuationPages ?? []).map(
+      (p) => p.pageImageBase64
+    ),
     section_type: sectionType,
     texts: texts.map((t) => ({
       text_id: t.textId,
@@ -159,6 +223,13 @@ export async function renderSection(
     images: images.map((img) => ({
       image_id: img.imageId,
       image_base64: img.imageBase64,
+      alt_text: img.description?.altText ?? null,
+      long_description: img.description?.longDescription ?? null,
+      is_decorative: img.description?.isDecorative ?? false,
+    })),
+    tables: tables.map((t) => ({
+      group_id: t.groupId,
+      html: renderTableHtml(t, textMap),
     })),
   };
 
@@ -168,7 +239,12 @@ export async function renderSection(
   // Validator function for HTML content
   const validate = (result: unknown): ValidationResult => {
     const r = result as RawWebRenderingResponse;
-    return validateSectionHtml(r.content, allowedTextIds, allowedImageIds);
+    const validation = validateSectionHtml(r.content, allowedTextIds, allowedImageIds);
+    const errors = [...validation.errors, ...tableRenderingErrors(r.content, tables)];
+    if (requireAllTexts) {
+      errors.push(...missingTextErrors(checkTextFidelity(r.content, texts), texts));
+    }
+    return { valid: errors.length === 0, errors };
   };
 
   // Call LLM with validation
@@ -189,10 +265,55 @@ export async function renderSection(
     sectionIndex,
     sectionType,
     reasoning: result.object.reasoning,
-    html: result.object.content,
+    html: applyMathml(
+      applyTables(
+        applyImageDescriptions(
+          result.object.content,
+          images.flatMap((img) => (img.description ? [img.description] : []))
+        ),
+        tables,
+        textMap
+      ),
+      texts.filter((t) => t.textType === "math")
+    ),
   };
 }
 
+/**
+ * Render a chain of sections that continue across page breaks as a single
+ * unit. Texts and images from every part are combined and the LLM sees each
+ * page image involved. The result is attributed to the head section.
+ */
+export async function renderLinkedSections(
+  input: RenderLinkedSectionsInput
+): Promise<SectionRendering> {
+  const { parts, model, promptName, maxRetries, requireAllTexts } = input;
+  if (parts.length === 0) throw new Error("No sections to render");
+
+  const head = parts[0];
+  const continuationPages: Page[] = [];
+  const seenPages = new Set([head.page.pageId]);
+  for (const part of parts.slice(1)) {
+    if (seenPages.has(part.page.pageId)) continue;
+    seenPages.add(part.page.pageId);
+    continuationPages.push(part.page);
+  }
+
+  return renderSection({
+    page: head.page,
+    sectionIndex: head.sectionIndex,
+    sectionType: head.sectionType,
+    texts: parts.flatMap((p) => p.texts),
+    images: parts.flatMap((p) => p.images),
+    tables: parts.flatMap((p) => p.tables ?? []),
+    continuationPages,
+    model,
+    promptName,
+    maxRetries,
+    requireAllTexts,
+  });
+}
+
 // ============================================================================
 // Section editing (for annotation-based edits)
 // ============================================================================
@@ -204,6 +325,8 @@ export interface EditSectionInput {
   annotations: Annotation[];
   allowedTextIds?: string[];
   allowedImageIds?: string[];
+  /** Reviewed image descriptions to re-apply to the edited HTML */
+  imageDescriptions?: ImageDescription[];
   model: LLMModel;
   promptName: string;
   maxRetries?: number;
@@ -238,6 +361,7 @@ export async function editSection(
     annotations,
     allowedTextIds,
     allowedImageIds,
+    imageDescriptions,
     model,
     promptName,
     maxRetries,
@@ -280,6 +404,6 @@ export async function editSection(
 
   return {
     reasoning: result.object.reasoning,
-    html: result.object.content,
+    html: applyImageDescriptions(result.object.content, imageDescriptions ?? []),
   };
 }
@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildTableOfContents,
+  flattenToc,
+  normalizeTocTitle,
+  parseTocEntries,
+  type TocSourceText,
+} from "../../steps/table-of-contents";
+
+function texts(...lines: string[]): TocSourceText[] {
+  return lines.map((text, i) => ({
+    textId: `pg003_gp001_t${String(i + 1).padStart(3, "0")}`,
+    textType: "standalone_text",
+    text,
+  }));
+}
+
+const PAGE_IDS = ["pg001", "pg002", "pg003", "pg004", "pg005", "pg006", "pg007"];
+const PAGE_LABELS = { pg002: "i", pg003: "ii", pg004: "1", pg005: "2", pg006: "3", pg007: "4" };
+
+describe("parseTocEntries", () => {
+  it("reads titles, dot leaders and trailing page numbers", () => {
+    expect(parseTocEntries(texts("Contents", "Preface ........ ii", "The Raven . . . . 1"))).toEqual([
+      { title: "Preface", pageLabel: "ii", level: 1, textId: "pg003_gp001_t002" },
+      { title: "The Raven", pageLabel: "1", level: 1, textId: "pg003_gp001_t003" },
+    ]);
+  });
+
+  it("keeps roman numerals that belong to the title", () => {
+    const [entry] = parseTocEntries(texts("Part II 14"));
+    expect(entry).toMatchObject({ title: "Part II", pageLabel: "14" });
+  });
+
+  it("joins page numbers given as separate texts", () => {
+    const entries = parseTocEntries(texts("The Raven", "1", "Annabel Lee", "3"));
+    expect(entries.map((e) => [e.title, e.pageLabel, e.level])).toEqual([
+      ["The Raven", "1", 1],
+      ["Annabel Lee", "3", 1],
+    ]);
+  });
+
+  it("nests by numbering depth and under page-less headings", () => {
+    const entries = parseTocEntries(
+      texts("Part One", "1 Poems 1", "1.1 The Raven 2", "Part Two", "2 Tales 3")
+    );
+    expect(entries.map((e) => [e.title, e.level])).toEqual([
+      ["Part One", 1],
+      ["1 Poems", 2],
+      ["1.1 The Raven", 3],
+      ["Part Two", 1],
+      ["2 Tales", 2],
+    ]);
+  });
+});
+
+describe("normalizeTocTitle", () => {
+  it("ignores numbering, chapter words and punctuation", () => {
+    expect(normalizeTocTitle("Chapter 3: The Raven")).toBe("the raven");
+    expect(normalizeTocTitle("1.2 The  Raven!")).toBe("the raven");
+  });
+});
+
+describe("buildTableOfContents", () => {
+  it("resolves entries through page labels and nearby headings", () => {
+    const toc = buildTableOfContents(
+      [
+        {
+          sectionId: "pg003_s001",
+          texts: texts("Part One", "Chapter 1. The Raven .... 1", "Annabel Lee .... 3", "Lost .... 9"),
+        },
+      ],
+      {
+        pageIds: PAGE_IDS,
+        pageLabels: PAGE_LABELS,
+        headings: [
+          { pageId: "pg004", sectionId: "pg004_s001", text: "The Raven" },
+          // Heading one page after the printed page (unnumbered plate)
+          { pageId: "pg007", sectionId: "pg007_s002", text: "ANNABEL LEE" },
+        ],
+      }
+    );
+
+    expect(toc.source_section_ids).toEqual(["pg003_s001"]);
+    expect(toc.entries).toHaveLength(1);
+    const [part] = toc.entries;
+    expect(part).toMatchObject({ title: "Part One", page_id: null, section_id: null });
+    expect(part.children.map((e) => [e.title, e.page_id, e.section_id])).toEqual([
+      ["Chapter 1. The Raven", "pg004", "pg004_s001"],
+      ["Annabel Lee", "pg007", "pg007_s002"],
+      ["Lost", null, null],
+    ]);
+    expect(flattenToc(toc.entries)).toHaveLength(4);
+  });
+
+  it("matches headings after the table of contents when the page is unknown", () => {
+    const toc = buildTableOfContents(
+      [{ sectionId: "pg003_s001", texts: texts("Epilogue") }],
+      {
+        pageIds: PAGE_IDS,
+        pageLabels: {},
+        headings: [
+          { pageId: "pg001", sectionId: "pg001_s001", text: "Epilogue" },
+          { pageId: "pg006", sectionId: "pg006_s001", text: "Epilogue" },
+        ],
+      }
+    );
+    expect(toc.entries[0]).toMatchObject({ page_id: "pg006", section_id: "pg006_s001" });
+  });
+});
@@ -0,0 +1,23 @@
+export interface TocEntry {
+  title: string;
+  /** Page label printed next to the entry ("12", "iv"), if any */
+  page_label: string | null;
+  /** 1 for top-level entries */
+  level: number;
+  /** Text in the table of contents section the entry was read from */
+  text_id: string;
+  /** Resolved target, null when the entry could not be matched */
+  page_id: string | null;
+  section_id: string | null;
+  children: TocEntry[];
+}
+
+/**
+ * Book-level table of contents reconstructed from `table_of_contents`
+ * sections, stored as the `table-of-contents` node (item_id `book`).
+ */
+export interface TableOfContents {
+  /** Sections the entries were parsed from, in page order */
+  source_section_ids: string[];
+  entries: TocEntry[];
+}
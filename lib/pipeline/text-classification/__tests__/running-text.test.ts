@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import type { TextClassificationOutput } from "../../core/schemas";
+import {
+  applyRunningTextClusters,
+  findRunningTextClusters,
+  normalizeRunningText,
+  type RunningTextPage,
+} from "../../steps/running-text";
+
+type Text = [textType: string, text: string, isPruned: boolean];
+
+function page(pageId: string, ...groups: Text[][]): RunningTextPage {
+  const classification: TextClassificationOutput = {
+    reasoning: "",
+    groups: groups.map((texts, i) => ({
+      groupId: `${pageId}_gp${String(i + 1).padStart(3, "0")}`,
+      groupType: "paragraph",
+      texts: texts.map(([textType, text, isPruned]) => ({ textType, text, isPruned })),
+    })),
+  };
+  return { pageId, classification };
+}
+
+const HEADER: Text = ["header_text", "The Raven", true];
+const KEPT_HEADER: Text = ["section_heading", "The Raven", false];
+const BODY: Text = ["body_text", "Once upon a midnight dreary", false];
+
+describe("normalizeRunningText", () => {
+  it("collapses digits, case and whitespace", () => {
+    expect(normalizeRunningText("  Page 12 ")).toBe("page #");
+    expect(normalizeRunningText("PAGE  3")).toBe("page #");
+  });
+});
+
+describe("findRunningTextClusters", () => {
+  it("proposes the majority classification for a repeated header", () => {
+    const pages = [
+      page("pg001", [HEADER], [BODY]),
+      page("pg002", [HEADER], [BODY]),
+      page("pg003", [KEPT_HEADER], [BODY]),
+    ];
+
+    const clusters = findRunningTextClusters(pages);
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0]).toMatchObject({
+      key: "the raven",
+      sample: "The Raven",
+      pageCount: 3,
+      textType: "header_text",
+      isPruned: true,
+    });
+    expect(clusters[0].corrections).toEqual([
+      {
+        pageId: "pg003",
+        groupId: "pg003_gp001",
+        textIndex: 0,
+        text: "The Raven",
+        textType: "section_heading",
+        isPruned: false,
+      },
+    ]);
+  });
+
+  it("matches page numbers that differ only in digits", () => {
+    const pages = [
+      page("pg001", [BODY], [["page_number", "Page 1", true]]),
+      page("pg002", [BODY], [["page_number", "Page 2", true]]),
+      page("pg003", [BODY], [["body_text", "Page 3", false]]),
+    ];
+
+    const [cluster] = findRunningTextClusters(pages);
+    expect(cluster.key).toBe("page #");
+    expect(cluster.corrections.map((c) => c.pageId)).toEqual(["pg003"]);
+  });
+
+  it("ignores consistent strings, rare strings and text away from page edges", () => {
+    const pages = [
+      page("pg001", [HEADER], [KEPT_HEADER], [BODY]),
+      page("pg002", [HEADER], [BODY]),
+      page("pg003", [HEADER], [BODY]),
+      page("pg004", [["footer_text", "Chapter One", true]], [BODY]),
+      page("pg005", [["body_text", "Chapter One", false]], [BODY]),
+    ];
+
+    expect(findRunningTextClusters(pages)).toEqual([]);
+  });
+});
+
+describe("applyRunningTextClusters", () => {
+  it("updates matching texts and skips ones that changed since", () => {
+    const pages = [
+      page("pg001", [HEADER], [BODY]),
+      page("pg002", [HEADER], [BODY]),
+      page("pg003", [KEPT_HEADER], [BODY]),
+    ];
+    const clusters = findRunningTextClusters(pages);
+
+    const applied = applyRunningTextClusters("pg003", pages[2].classification, clusters);
+    expect(applied.changed).toBe(1);
+    expect(applied.classification.groups[0].texts[0]).toEqual({
+      textType: "header_text",
+      text: "The Raven",
+      isPruned: true,
+    });
+    expect(applied.classification.groups[1]).toEqual(pages[2].classification.groups[1]);
+
+    const edited = page("pg003", [["section_heading", "The Raven!", false]], [BODY]);
+    expect(applyRunningTextClusters("pg003", edited.classification, clusters).changed).toBe(0);
+  });
+});
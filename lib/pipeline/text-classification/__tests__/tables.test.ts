@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import {
+  fromDBPageSectioning,
+  toDBPageSectioning,
+  type TextClassificationOutput,
+} from "../../core/schemas";
+import { layoutTable, tableColumnCount, tableErrors } from "../tables";
+
+const cell = (text_index: number | null, is_header = false, row_span = 1, col_span = 1) => ({
+  text_index,
+  is_header,
+  row_span,
+  col_span,
+});
+
+describe("tableErrors", () => {
+  it("accepts spans that fill the grid", () => {
+    const table = {
+      rows: [
+        [cell(0, true, 2), cell(1, true, 1, 2)],
+        [cell(2, true), cell(3, true)],
+        [cell(4, true), cell(5), cell(null)],
+      ],
+    };
+    expect(tableErrors(table, 6)).toEqual([]);
+    expect(tableColumnCount(table)).toBe(3);
+  });
+
+  it("reports bad indexes, unplaced texts and ragged rows", () => {
+    expect(tableErrors({ rows: [[cell(0), cell(0)], [cell(3)]] }, 2)).toEqual([
+      "Text 0 is in more than one cell (row 1, cell 2)",
+      "Text index 3 out of range at row 2, cell 1",
+      "Text 1 is not in any cell",
+    ]);
+    expect(tableErrors({ rows: [[cell(0), cell(1)], [cell(2)]] }, 3)).toEqual([
+      "Row 2 has 1 columns, expected 2",
+    ]);
+    expect(tableErrors({ rows: [[cell(0, false, 2)]] }, 1)).toEqual([
+      "A cell spans past the last row",
+    ]);
+  });
+});
+
+describe("layoutTable", () => {
+  it("fills rows in order and pads the last row with blank cells", () => {
+    const table = layoutTable([0, 1, 2], 2, true);
+    expect(table.rows).toEqual([
+      [cell(0, true), cell(1, true)],
+      [cell(2), cell(null)],
+    ]);
+    expect(tableErrors(table, 3)).toEqual([]);
+  });
+});
+
+describe("page sectioning with tables", () => {
+  it("resolves table cells to the text IDs of un-pruned texts", () => {
+    const classification: TextClassificationOutput = {
+      reasoning: "",
+      groups: [
+        {
+          groupId: "pg001_gp001",
+          groupType: "table",
+          texts: [
+            { textType: "section_text", text: "Animal", isPruned: false },
+            { textType: "section_text", text: "Legs", isPruned: false },
+            { textType: "section_text", text: "Spider", isPruned: true },
+          ],
+          table: {
+            rows: [
+              [
+                { textIndex: 0, isHeader: true, rowSpan: 1, colSpan: 1 },
+                { textIndex: 1, isHeader: true, rowSpan: 1, colSpan: 1 },
+              ],
+              [
+                { textIndex: 2, isHeader: true, rowSpan: 1, colSpan: 1 },
+                { textIndex: null, isHeader: false, rowSpan: 1, colSpan: 1 },
+              ],
+            ],
+          },
+        },
+      ],
+    };
+    const db = toDBPageSectioning(
+      {
+        reasoning: "",
+        sections: [
+          {
+            sectionType: "activity_fill_in_a_table",
+            partIds: ["pg001_gp001"],
+            backgroundColor: "#fff",
+            textColor: "#000",
+            pageNumber: 1,
+            isPruned: false,
+          },
+        ],
+      },
+      classification,
+      { images: [] },
+      1,
+      1
+    );
+
+    const [section] = fromDBPageSectioning(db).sections;
+    expect(section.texts?.map((t) => t.textId)).toEqual(["pg001_gp001_t001", "pg001_gp001_t002"]);
+    expect(section.tables).toEqual([
+      {
+        groupId: "pg001_gp001",
+        rows: [
+          [
+            { textId: "pg001_gp001_t001", isHeader: true, rowSpan: 1, colSpan: 1 },
+            { textId: "pg001_gp001_t002", isHeader: true, rowSpan: 1, colSpan: 1 },
+          ],
+          [
+            { textId: null, isHeader: true, rowSpan: 1, colSpan: 1 },
+            { textId: null, isHeader: false, rowSpan: 1, colSpan: 1 },
+          ],
+        ],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,92 @@
+import type { DBTextTable } from "../core/schemas";
+
+type TableCell = DBTextTable["rows"][number][number];
+
+/**
+ * Problems with the cell structure of a `table` group that has `textCount`
+ * texts: out-of-range or repeated text indexes, texts not in any cell,
+ * spans below 1, spans running past the last row, and rows whose width
+ * (counting spans from the rows above) differs from the first row's.
+ */
+export function tableErrors(table: DBTextTable, textCount: number): string[] {
+  const errors: string[] = [];
+  if (table.rows.length === 0 || table.rows.every((row) => row.length === 0)) {
+    return ["Table has no cells"];
+  }
+
+  const seen = new Set<number>();
+  table.rows.forEach((row, ri) =>
+    row.forEach((cell, ci) => {
+      const where = `row ${ri + 1}, cell ${ci + 1}`;
+      if (cell.row_span < 1 || cell.col_span < 1) errors.push(`Invalid span at ${where}`);
+      if (cell.text_index === null) return;
+      if (cell.text_index < 0 || cell.text_index >= textCount) {
+        errors.push(`Text index ${cell.text_index} out of range at ${where}`);
+      } else if (seen.has(cell.text_index)) {
+        errors.push(`Text ${cell.text_index} is in more than one cell (${where})`);
+      }
+      seen.add(cell.text_index);
+    })
+  );
+  for (let i = 0; i < textCount; i++) {
+    if (!seen.has(i)) errors.push(`Text ${i} is not in any cell`);
+  }
+  if (errors.length > 0) return errors;
+
+  const widths = rowWidths(table.rows);
+  if (widths.length > table.rows.length) {
+    errors.push("A cell spans past the last row");
+  }
+  widths.slice(0, table.rows.length).forEach((width, ri) => {
+    if (width !== widths[0]) {
+      errors.push(`Row ${ri + 1} has ${width} columns, expected ${widths[0]}`);
+    }
+  });
+  return errors;
+}
+
+/** Number of grid columns each row covers, including cells spanning down from earlier rows. */
+function rowWidths(rows: TableCell[][]): number[] {
+  const occupied: number[] = [];
+  rows.forEach((row, ri) => {
+    for (const cell of row) {
+      for (let r = ri; r < ri + cell.row_span; r++) {
+        occupied[r] = (occupied[r] ?? 0) + cell.col_span;
+      }
+    }
+  });
+  return occupied;
+}
+
+/** Number of columns of a table (the width of its first row). */
+export function tableColumnCount(table: DBTextTable): number {
+  return table.rows[0]?.reduce((n, cell) => n + cell.col_span, 0) ?? 0;
+}
+
+/**
+ * Lay out texts row by row into a grid of `columns` columns without spans,
+ * padding the last row with blank cells. With `headerRow`, the first row's
+ * cells are column headers.
+ */
+export function layoutTable(
+  textIndexes: number[],
+  columns: number,
+  headerRow: boolean
+): DBTextTable {
+  const width = Math.max(1, Math.floor(columns));
+  const cells: Array<number | null> = [...textIndexes];
+  while (cells.length === 0 || cells.length % width !== 0) cells.push(null);
+
+  const rows: TableCell[][] = [];
+  for (let i = 0; i < cells.length; i += width) {
+    rows.push(
+      cells.slice(i, i + width).map((textIndex) => ({
+        text_index: textIndex,
+        is_header: headerRow && i === 0,
+        row_span: 1,
+        col_span: 1,
+      }))
+    );
+  }
+  return { rows };
+}
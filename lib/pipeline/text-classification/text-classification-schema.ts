@@ -7,9 +7,22 @@ export const textEntrySchema = z.object({
   is_pruned: z.boolean().default(false),
 });
 
+// Cells of a "table" group; text_index points into the group's texts (null: blank cell)
+export const tableCellSchema = z.object({
+  text_index: z.number().int().nullable(),
+  is_header: z.boolean(),
+  row_span: z.number().int().min(1),
+  col_span: z.number().int().min(1),
+});
+
+export const textTableSchema = z.object({
+  rows: z.array(z.array(tableCellSchema)),
+});
+
 export const textGroupSchema = z.object({
   group_type: z.string(),
   texts: z.array(textEntrySchema),
+  table: textTableSchema.optional(),
 });
 
 export const pageTextClassificationSchema = z.object({
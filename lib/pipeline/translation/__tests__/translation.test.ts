@@ -0,0 +1,164 @@
+import { describe, it, expect } from "vitest";
+import type { LLMModel, GenerateObjectOptions, Page } from "../../core/types";
+import {
+  fromDBTranslation,
+  toDBTranslation,
+  type TextClassificationOutput,
+} from "../../core/schemas";
+import { collectTranslatableTexts, translateText } from "../../steps/translation";
+import { localizeSectionHtml } from "../../web-rendering/localize-html";
+
+const page: Page = {
+  pageId: "pg001",
+  pageNumber: 1,
+  rawText: "The Fox",
+  pageImageBase64: "cGFnZQ==",
+};
+
+const textClassification: TextClassificationOutput = {
+  reasoning: "",
+  groups: [
+    {
+      groupId: "pg001_gp001",
+      groupType: "heading",
+      texts: [
+        { textType: "page_number", text: "12", isPruned: true },
+        { textType: "heading", text: "The Fox", isPruned: false },
+      ],
+    },
+    {
+      groupId: "pg001_gp002",
+      groupType: "paragraph",
+      texts: [{ textType: "paragraph", text: "Foxes sleep in the day.", isPruned: false }],
+    },
+  ],
+};
+
+function fakeModel(translations: unknown[]) {
+  const calls: GenerateObjectOptions[] = [];
+  const model: LLMModel = {
+    async generateObject<T>(options: GenerateObjectOptions) {
+      calls.push(options);
+      return { object: { reasoning: "translated", translations } as T };
+    },
+  };
+  return { model, calls };
+}
+
+describe("collectTranslatableTexts", () => {
+  it("skips pruned texts but keeps their position in the text IDs", () => {
+    expect(collectTranslatableTexts(textClassification).map((t) => t.textId)).toEqual([
+      "pg001_gp001_t002",
+      "pg001_gp002_t001",
+    ]);
+  });
+});
+
+describe("translateText", () => {
+  it("returns translations in page order under the target language", async () => {
+    const { model, calls } = fakeModel([
+      { text_id: "pg001_gp002_t001", text: "Les renards dorment le jour. " },
+      { text_id: "pg001_gp001_t002", text: "Le renard" },
+    ]);
+    const result = await translateText({
+      page,
+      textClassification,
+      sourceLanguage: "en",
+      targetLanguage: "fr",
+      model,
+      promptName: "translation",
+    });
+
+    expect(calls[0].log?.taskType).toBe("translation");
+    expect(JSON.stringify(calls[0].messages)).not.toContain("12");
+    expect(result).toEqual({
+      language: "fr",
+      reasoning: "translated",
+      texts: [
+        { textId: "pg001_gp001_t002", text: "Le renard" },
+        { textId: "pg001_gp002_t001", text: "Les renards dorment le jour." },
+      ],
+    });
+  });
+
+  it("rejects missing, duplicate and empty translations", async () => {
+    const { model, calls } = fakeModel([]);
+    await translateText({
+      page,
+      textClassification,
+      sourceLanguage: "en",
+      targetLanguage: "fr",
+      model,
+      promptName: "translation",
+    });
+
+    const validation = calls[0].validate!({
+      reasoning: "",
+      translations: [
+        { text_id: "pg001_gp001_t002", text: "Le renard" },
+        { text_id: "pg001_gp001_t002", text: " " },
+      ],
+    });
+    expect(validation.errors).toEqual([
+      'Duplicate text_id: "pg001_gp001_t002"',
+      'Empty translation for "pg001_gp001_t002"',
+      'Missing translation for text "pg001_gp002_t001"',
+    ]);
+  });
+
+  it("skips the LLM when the page has no text", async () => {
+    const { model, calls } = fakeModel([]);
+    const result = await translateText({
+      page,
+      textClassification: { reasoning: "", groups: [] },
+      sourceLanguage: "en",
+      targetLanguage: "fr",
+      model,
+      promptName: "translation",
+    });
+    expect(calls).toHaveLength(0);
+    expect(result.texts).toEqual([]);
+  });
+
+  it("round-trips through the DB format", () => {
+    const output = {
+      language: "fr",
+      reasoning: "r",
+      texts: [{ textId: "pg001_gp001_t002", text: "Le renard" }],
+    };
+    const db = toDBTranslation(output, 3);
+    expect(db.text_classification_version).toBe(3);
+    expect(fromDBTranslation(db)).toEqual(output);
+  });
+});
+
+describe("localizeSectionHtml", () => {
+  const translations = new Map([
+    ["pg001_gp001_t002", "Le renard"],
+    ["pg001_gp002_t001", "Les renards <dorment> le jour."],
+  ]);
+
+  it("swaps text content and stamps lang, keeping the structure", () => {
+    const html =
+      '<section class="p-4" lang="en"><h1 data-id="pg001_gp001_t002" class="text-2xl">The <em>Fox</em></h1>' +
+      '<img data-id="pg001_im001" src="x.png" alt="A fox">' +
+      '<p data-id="pg001_gp002_t001">Foxes sleep in the day.</p></section>';
+
+    expect(localizeSectionHtml(html, translations, "fr")).toBe(
+      '<section class="p-4" lang="fr"><h1 data-id="pg001_gp001_t002" class="text-2xl">Le renard</h1>' +
+        '<img data-id="pg001_im001" src="x.png" alt="A fox">' +
+        '<p data-id="pg001_gp002_t001">Les renards &lt;dorment&gt; le jour.</p></section>'
+    );
+  });
+
+  it("leaves untranslated texts and wrappers of other data-id elements alone", () => {
+    const html =
+      '<div><p data-id="pg001_gp002_t001">Foxes <img data-id="pg001_im001" src="x.png"> sleep.</p>' +
+      '<p data-id="pg001_gp003_t001">Untranslated</p></div>';
+
+    expect(localizeSectionHtml(html, translations, "fr")).toBe(
+      '<div lang="fr"><p data-id="pg001_gp002_t001">Foxes <img data-id="pg001_im001" src="x.png"> sleep.</p>' +
+        '<p data-id="pg001_gp003_t001">Untranslated</p></div>'
+    );
+  });
+});
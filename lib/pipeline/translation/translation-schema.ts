@@ -0,0 +1,36 @@
+import { z } from "zod/v4";
+
+export const textTranslationEntrySchema = z.object({
+  text_id: z.string(),
+  text: z.string(),
+});
+
+/**
+ * Translated texts for one page and target language, stored as the
+ * `translation` node (item_id = `${pageId}:${language}`).
+ */
+export const pageTranslationSchema = z.object({
+  language: z.string(),
+  reasoning: z.string(),
+  /** Text classification version the translation was made from */
+  text_classification_version: z.number().int(),
+  texts: z.array(textTranslationEntrySchema),
+});
+
+/**
+ * A section rendering in a target language, stored as the
+ * `translated-rendering` node (item_id = `${sectionId}:${language}`).
+ */
+export const translatedSectionRenderingSchema = z.object({
+  language: z.string(),
+  web_rendering_version: z.number().int(),
+  html: z.string(),
+});
+
+export type TextTranslationEntry = z.infer<typeof textTranslationEntrySchema>;
+export type PageTranslation = z.infer<typeof pageTranslationSchema>;
+export type TranslatedSectionRendering = z.infer<typeof translatedSectionRenderingSchema>;
+
+export function translationItemId(id: string, language: string): string {
+  return `${id}:${language}`;
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { applyMathml } from "../mathml";
+import { checkTextFidelity } from "../text-fidelity";
+
+const MATH_ID = "pg001_gp001_t002";
+
+describe("applyMathml", () => {
+  it("replaces the content of math elements with MathML", () => {
+    const html =
+      '<section><p data-id="pg001_gp001_t001">Add the halves:</p>' +
+      `<p data-id="${MATH_ID}">$\\frac{1}{2}$ + x</p></section>`;
+    const out = applyMathml(html, [{ textId: MATH_ID, text: "$\\frac{1}{2} + x$" }]);
+
+    expect(out).toContain('<p data-id="pg001_gp001_t001">Add the halves:</p>');
+    expect(out).toContain(
+      `<p data-id="${MATH_ID}"><math display="inline" alttext="\\frac{1}{2} + x">` +
+        "<mrow><mfrac><mn>1</mn><mn>2</mn></mfrac><mo>+</mo><mi>x</mi></mrow></math></p>"
+    );
+    expect(applyMathml(out, [{ textId: MATH_ID, text: "$\\frac{1}{2} + x$" }])).toBe(out);
+  });
+
+  it("leaves unparsable LaTeX and wrapper elements alone", () => {
+    const html =
+      `<div data-id="${MATH_ID}"><span data-id="pg001_gp001_t003">x</span></div>` +
+      '<p data-id="pg001_gp001_t004">\\fraq{1}{2}</p>';
+    const out = applyMathml(html, [
+      { textId: MATH_ID, text: "x^2" },
+      { textId: "pg001_gp001_t004", text: "\\fraq{1}{2}" },
+    ]);
+    expect(out).toBe(html);
+  });
+
+  it("keeps rendered math faithful to its source text", () => {
+    const text = "$$x^2 + y^2 = z^2$$";
+    const html = applyMathml(`<p data-id="${MATH_ID}">x² + y² = z²</p>`, [
+      { textId: MATH_ID, text },
+    ]);
+    expect(html).toContain('display="block"');
+    expect(checkTextFidelity(html, [{ textId: MATH_ID, text }])).toEqual({
+      missingIds: [],
+      mismatches: [],
+    });
+  });
+});
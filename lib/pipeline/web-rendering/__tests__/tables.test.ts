@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import type { SectionTable } from "../../core/schemas";
+import { applyTables, renderTableHtml, tableRenderingErrors } from "../tables";
+
+const table: SectionTable = {
+  groupId: "pg001_gp002",
+  rows: [
+    [
+      { textId: "pg001_gp002_t001", isHeader: true, rowSpan: 1, colSpan: 1 },
+      { textId: "pg001_gp002_t002", isHeader: true, rowSpan: 1, colSpan: 2 },
+    ],
+    [
+      { textId: "pg001_gp002_t003", isHeader: true, rowSpan: 1, colSpan: 1 },
+      { textId: "pg001_gp002_t004", isHeader: false, rowSpan: 1, colSpan: 1 },
+      { textId: null, isHeader: false, rowSpan: 1, colSpan: 1 },
+    ],
+  ],
+};
+
+const texts = new Map([
+  ["pg001_gp002_t001", "Animal"],
+  ["pg001_gp002_t002", "Legs & wings"],
+  ["pg001_gp002_t003", "Bird"],
+  ["pg001_gp002_t004", "2"],
+]);
+
+const CANONICAL =
+  "<table><thead><tr>" +
+  '<th scope="col" data-id="pg001_gp002_t001">Animal</th>' +
+  '<th scope="colgroup" colspan="2" data-id="pg001_gp002_t002">Legs &amp; wings</th>' +
+  "</tr></thead><tbody><tr>" +
+  '<th scope="row" data-id="pg001_gp002_t003">Bird</th>' +
+  '<td data-id="pg001_gp002_t004">2</td><td></td>' +
+  "</tr></tbody></table>";
+
+describe("renderTableHtml", () => {
+  it("puts header rows in thead and scopes header cells", () => {
+    expect(renderTableHtml(table, texts)).toBe(CANONICAL);
+  });
+});
+
+describe("applyTables", () => {
+  it("replaces the rendered table with the canonical markup, keeping its class", () => {
+    const html =
+      '<section><h2 data-id="pg001_gp001_t001">Count the legs</h2>' +
+      '<table class="w-full"><tr><td data-id="pg001_gp002_t001">Animal</td>' +
+      '<td data-id="pg001_gp002_t004">2</td></tr></table></section>';
+
+    expect(tableRenderingErrors(html, [table])).toEqual([]);
+    expect(applyTables(html, [table], texts)).toBe(
+      '<section><h2 data-id="pg001_gp001_t001">Count the legs</h2>' +
+        CANONICAL.replace("<table>", '<table class="w-full">') +
+        "</section>"
+    );
+  });
+
+  it("flags and leaves alone tables rendered without a table element", () => {
+    const html = '<section><p data-id="pg001_gp002_t001">Animal</p></section>';
+    expect(tableRenderingErrors(html, [table])).toEqual([
+      "Table pg001_gp002 must be rendered as a <table> element containing its cells",
+    ]);
+    expect(applyTables(html, [table], texts)).toBe(html);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import type { LLMModel, GenerateObjectOptions, Page } from "../../core/types";
+import { renderSection } from "../../steps/web-rendering";
+import { checkTextFidelity, diffChars, missingTextErrors } from "../text-fidelity";
+
+const page: Page = {
+  pageId: "pg001",
+  pageNumber: 1,
+  rawText: "The Fox",
+  pageImageBase64: "cGFnZQ==",
+};
+
+const texts = [
+  { textId: "pg001_gp001_t001", textType: "heading", text: "The Fox" },
+  { textId: "pg001_gp001_t002", textType: "paragraph", text: "Foxes sleep\nin the day." },
+];
+
+function fakeModel(content: string) {
+  const calls: GenerateObjectOptions[] = [];
+  const model: LLMModel = {
+    async generateObject<T>(options: GenerateObjectOptions) {
+      calls.push(options);
+      return { object: { reasoning: "rendered", content } as T };
+    },
+  };
+  return { model, calls };
+}
+
+describe("checkTextFidelity", () => {
+  it("accepts text that only differs in whitespace and markup", () => {
+    const html =
+      '<section><h1 data-id="pg001_gp001_t001">The  Fox</h1>' +
+      '<p data-id="pg001_gp001_t002">Foxes <em>sleep</em><br>in the day.</p></section>';
+    expect(checkTextFidelity(html, texts)).toEqual({ missingIds: [], mismatches: [] });
+  });
+
+  it("reports missing ids, empty elements and changed text", () => {
+    const html =
+      '<section><h1 data-id="pg001_gp001_t001"></h1>' +
+      '<p data-id="pg001_gp001_t002">Foxes nap in the day.</p></section>';
+    const result = checkTextFidelity(html, [
+      ...texts,
+      { textId: "pg001_gp002_t001", text: "Dropped caption" },
+    ]);
+
+    expect(result.missingIds).toEqual(["pg001_gp001_t001", "pg001_gp002_t001"]);
+    expect(result.mismatches).toEqual([
+      {
+        textId: "pg001_gp001_t002",
+        expected: "Foxes sleep in the day.",
+        actual: "Foxes nap in the day.",
+        diff: [
+          { op: "equal", text: "Foxes " },
+          { op: "delete", text: "slee" },
+          { op: "insert", text: "na" },
+          { op: "equal", text: "p in the day." },
+        ],
+      },
+    ]);
+    expect(missingTextErrors(result, [{ textId: "pg001_gp002_t001", text: "Dropped caption" }])[1])
+      .toContain('"Dropped caption"');
+  });
+});
+
+describe("diffChars", () => {
+  it("reconstructs both strings from the segments", () => {
+    const a = "The quick brown fox";
+    const b = "A quick red fox!";
+    const diff = diffChars(a, b);
+    const join = (ops: string[]) =>
+      diff.filter((s) => ops.includes(s.op)).map((s) => s.text).join("");
+    expect(join(["equal", "delete"])).toBe(a);
+    expect(join(["equal", "insert"])).toBe(b);
+  });
+});
+
+describe("renderSection with requireAllTexts", () => {
+  const droppedHtml = '<section><h1 data-id="pg001_gp001_t001">The Fox</h1></section>';
+
+  it("fails validation when a text is missing", async () => {
+    const { model, calls } = fakeModel(droppedHtml);
+    await renderSection({
+      page,
+      sectionIndex: 0,
+      sectionType: "text_only",
+      texts,
+      images: [],
+      model,
+      promptName: "web_generation_html",
+      requireAllTexts: true,
+    });
+
+    const validation = calls[0].validate!({ reasoning: "", content: droppedHtml });
+    expect(validation.valid).toBe(false);
+    expect(validation.errors[0]).toContain("pg001_gp001_t002");
+  });
+
+  it("allows omissions when the option is off", async () => {
+    const { model, calls } = fakeModel(droppedHtml);
+    await renderSection({
+      page,
+      sectionIndex: 0,
+      sectionType: "text_only",
+      texts,
+      images: [],
+      model,
+      promptName: "web_generation_html",
+    });
+
+    expect(calls[0].validate!({ reasoning: "", content: droppedHtml }).valid).toBe(true);
+  });
+});
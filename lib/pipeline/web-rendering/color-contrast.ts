@@ -0,0 +1,114 @@
+import tailwindColors from "tailwindcss/colors";
+
+export interface RGB {
+  r: number; // 0-255
+  g: number;
+  b: number;
+}
+
+function clamp01(v: number): number {
+  return Math.min(1, Math.max(0, v));
+}
+
+function fromLinear(c: number): number {
+  const v = c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+  return Math.round(clamp01(v) * 255);
+}
+
+function toLinear(c: number): number {
+  const v = c / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+}
+
+/** Convert an OKLCH color (Tailwind v4's palette format) to sRGB. */
+function oklchToRgb(l: number, c: number, h: number): RGB {
+  const a = c * Math.cos((h * Math.PI) / 180);
+  const b = c * Math.sin((h * Math.PI) / 180);
+
+  const l_ = Math.pow(l + 0.3963377774 * a + 0.2158037573 * b, 3);
+  const m_ = Math.pow(l - 0.1055613458 * a - 0.0638541728 * b, 3);
+  const s_ = Math.pow(l - 0.0894841775 * a - 1.291485548 * b, 3);
+
+  return {
+    r: fromLinear(4.0767416621 * l_ - 3.3077115913 * m_ + 0.2309699292 * s_),
+    g: fromLinear(-1.2684380046 * l_ + 2.6097574011 * m_ - 0.3413193965 * s_),
+    b: fromLinear(-0.0041960863 * l_ - 0.7034186147 * m_ + 1.707614701 * s_),
+  };
+}
+
+/**
+ * Parse an opaque CSS color: hex, rgb()/rgba(), oklch(), white or black.
+ * Returns null for anything else, including translucent colors, since their
+ * rendered value depends on what is behind them.
+ */
+export function parseCssColor(value: string): RGB | null {
+  const v = value.trim().toLowerCase();
+  if (v === "white") return { r: 255, g: 255, b: 255 };
+  if (v === "black") return { r: 0, g: 0, b: 0 };
+
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/.exec(v);
+  if (hex) {
+    const h = hex[1].length === 3 ? hex[1].replace(/./g, "$&$&") : hex[1];
+    return {
+      r: parseInt(h.slice(0, 2), 16),
+      g: parseInt(h.slice(2, 4), 16),
+      b: parseInt(h.slice(4, 6), 16),
+    };
+  }
+
+  const rgb = /^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)$/.exec(v);
+  if (rgb) {
+    if (rgb[4] !== undefined && parseFloat(rgb[4]) < (rgb[4].endsWith("%") ? 100 : 1)) {
+      return null;
+    }
+    return { r: Number(rgb[1]), g: Number(rgb[2]), b: Number(rgb[3]) };
+  }
+
+  const oklch = /^oklch\(\s*([\d.]+)(%?)\s+([\d.]+)\s+([\d.]+)\s*\)$/.exec(v);
+  if (oklch) {
+    const l = Number(oklch[1]) / (oklch[2] ? 100 : 1);
+    return oklchToRgb(l, Number(oklch[3]), Number(oklch[4]));
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the color part of a Tailwind `text-*` / `bg-*` utility, e.g.
+ * "gray-800", "white" or an arbitrary value like "[#1e3a8a]".
+ */
+export function resolveTailwindColor(token: string): RGB | null {
+  const arbitrary = /^\[(.+)\]$/.exec(token);
+  if (arbitrary) return parseCssColor(arbitrary[1].replace(/_/g, " "));
+
+  const palette = tailwindColors as unknown as Record<string, string | Record<string, string>>;
+  const shade = /^([a-z]+)-(\d{2,3})$/.exec(token);
+  if (shade) {
+    const family = palette[shade[1]];
+    return typeof family === "object" && family[shade[2]]
+      ? parseCssColor(family[shade[2]])
+      : null;
+  }
+
+  const single = palette[token];
+  return typeof single === "string" ? parseCssColor(single) : null;
+}
+
+export function formatHex(color: RGB): string {
+  return (
+    "#" + [color.r, color.g, color.b].map((c) => c.toString(16).padStart(2, "0")).join("")
+  );
+}
+
+function relativeLuminance(color: RGB): number {
+  return (
+    0.2126 * toLinear(color.r) + 0.7152 * toLinear(color.g) + 0.0722 * toLinear(color.b)
+  );
+}
+
+/** WCAG 2.x contrast ratio between two colors, from 1 to 21. */
+export function contrastRatio(a: RGB, b: RGB): number {
+  const la = relativeLuminance(a);
+  const lb = relativeLuminance(b);
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+}
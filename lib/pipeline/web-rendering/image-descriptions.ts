@@ -0,0 +1,75 @@
+import type { ImageDescription } from "../core/schemas";
+
+/**
+ * Attribute marking the visually-hidden long description inserted after an
+ * image. Text inside it is exempt from the data-id validation rules.
+ */
+export const DESCRIPTION_FOR_ATTR = "data-description-for";
+
+function escapeAttr(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function escapeText(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function removeAttr(attrs: string, name: string): string {
+  return attrs.replace(new RegExp(`\\s${name}(?:\\s*=\\s*(?:"[^"]*"|'[^']*'|[^\\s>]*))?`, "gi"), "");
+}
+
+/**
+ * Stamp stored image descriptions onto rendered HTML so every `<img>` carries
+ * the reviewed alt text regardless of what the LLM wrote:
+ * - decorative images get `alt=""` and `role="presentation"`
+ * - images with a long description get a visually hidden description element
+ *   right after them, referenced via `aria-describedby`
+ *
+ * Idempotent: previously inserted descriptions are replaced.
+ */
+export function applyImageDescriptions(
+  html: string,
+  descriptions: ImageDescription[]
+): string {
+  if (descriptions.length === 0) return html;
+  const byId = new Map(descriptions.map((d) => [d.imageId, d]));
+
+  // Drop descriptions inserted by an earlier pass
+  let out = html.replace(
+    new RegExp(`<span\\b[^>]*\\s${DESCRIPTION_FOR_ATTR}="([^"]+)"[^>]*>[^<]*</span>`, "g"),
+    (match, imageId: string) => (byId.has(imageId) ? "" : match)
+  );
+
+  out = out.replace(/<img\b([^>]*?)(\s*\/?)>/gi, (match, rawAttrs: string, close: string) => {
+    const dataId = rawAttrs.match(/\sdata-id="([^"]+)"/)?.[1];
+    const description = dataId ? byId.get(dataId) : undefined;
+    if (!description) return match;
+
+    let attrs = rawAttrs;
+    for (const name of ["alt", "role", "aria-describedby", "aria-hidden"]) {
+      attrs = removeAttr(attrs, name);
+    }
+
+    if (description.isDecorative) {
+      return `<img${attrs} alt="" role="presentation"${close}>`;
+    }
+
+    const alt = ` alt="${escapeAttr(description.altText)}"`;
+    if (!description.longDescription) {
+      return `<img${attrs}${alt}${close}>`;
+    }
+
+    const descriptionId = `${description.imageId}-description`;
+    return (
+      `<img${attrs}${alt} aria-describedby="${descriptionId}"${close}>` +
+      `<span id="${descriptionId}" ${DESCRIPTION_FOR_ATTR}="${description.imageId}" class="sr-only">` +
+      `${escapeText(description.longDescription)}</span>`
+    );
+  });
+
+  return out;
+}
@@ -0,0 +1,91 @@
+import { parseDocument } from "htmlparser2";
+
+function escapeText(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Build a language variant of a rendered section: the content of every
+ * element whose data-id has a translation is replaced with the translated
+ * text, and the top-level elements get a `lang` attribute. Tags, classes and
+ * data-ids are untouched, so the variant has the same structure as the
+ * source. Elements that wrap other data-id elements (e.g. an image inside a
+ * paragraph) and texts without a translation are left as they are.
+ */
+export function localizeSectionHtml(
+  html: string,
+  translations: Map<string, string>,
+  language: string
+): string {
+  const doc = parseDocument(html, { withStartIndices: true, withEndIndices: true });
+  const edits: Array<{ start: number; end: number; text: string }> = [];
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const walk = (node: any, topLevel: boolean): void => {
+    if (node.type !== "tag") {
+      for (const child of node.children ?? []) walk(child, topLevel);
+      return;
+    }
+
+    if (topLevel) {
+      const openEnd = html.indexOf(">", node.startIndex);
+      const openTag = html.slice(node.startIndex, openEnd);
+      const withoutLang = openTag.replace(/\slang(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]*))?/gi, "");
+      const selfClosing = withoutLang.endsWith("/");
+      edits.push({
+        start: node.startIndex,
+        end: openEnd,
+        text:
+          (selfClosing ? withoutLang.slice(0, -1).trimEnd() : withoutLang) +
+          ` lang="${language}"` +
+          (selfClosing ? " /" : ""),
+      });
+    }
+
+    const dataId = node.attribs?.["data-id"];
+    const translation = dataId !== undefined ? translations.get(dataId) : undefined;
+    if (
+      translation !== undefined &&
+      !hasDataIdDescendant(node) &&
+      !hasMath(node) &&
+      node.children.length > 0
+    ) {
+      const first = node.children[0];
+      const last = node.children[node.children.length - 1];
+      edits.push({
+        start: first.startIndex,
+        end: last.endIndex + 1,
+        text: escapeText(translation),
+      });
+      return;
+    }
+
+    for (const child of node.children ?? []) walk(child, false);
+  };
+  walk(doc, true);
+
+  // Apply from the end so earlier offsets stay valid
+  let out = html;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    out = out.slice(0, edit.start) + edit.text + out.slice(edit.end);
+  }
+  return out;
+}
+
+/** Converted math stays as it is in every language. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function hasMath(node: any): boolean {
+  return (node.children ?? []).some(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (child: any) => child.type === "tag" && (child.name === "math" || hasMath(child))
+  );
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function hasDataIdDescendant(node: any): boolean {
+  for (const child of node.children ?? []) {
+    if (child.type === "tag" && child.attribs?.["data-id"] !== undefined) return true;
+    if (hasDataIdDescendant(child)) return true;
+  }
+  return false;
+}
@@ -0,0 +1,60 @@
+import { parseDocument } from "htmlparser2";
+import { latexToMathml, LatexError } from "../math/latex";
+
+export interface MathTextInput {
+  textId: string;
+  text: string;
+}
+
+/**
+ * Replace the content of the element rendering each `math` text with MathML
+ * converted from its LaTeX, so the math renders natively in the browser and
+ * in EPUB readers. Texts whose LaTeX does not parse are left as the LLM
+ * rendered them, as are elements that wrap other data-id elements.
+ *
+ * Idempotent: MathML inserted by an earlier pass is replaced.
+ */
+export function applyMathml(html: string, texts: MathTextInput[]): string {
+  const mathml = new Map<string, string>();
+  for (const { textId, text } of texts) {
+    try {
+      mathml.set(textId, latexToMathml(text));
+    } catch (err) {
+      if (!(err instanceof LatexError)) throw err;
+    }
+  }
+  if (mathml.size === 0) return html;
+
+  const doc = parseDocument(html, { withStartIndices: true, withEndIndices: true });
+  const edits: Array<{ start: number; end: number; text: string }> = [];
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const walk = (node: any): void => {
+    const dataId = node.type === "tag" ? node.attribs?.["data-id"] : undefined;
+    const replacement = dataId !== undefined ? mathml.get(dataId) : undefined;
+    if (replacement !== undefined && node.children.length > 0 && !hasDataIdDescendant(node)) {
+      const first = node.children[0];
+      const last = node.children[node.children.length - 1];
+      edits.push({ start: first.startIndex, end: last.endIndex + 1, text: replacement });
+      return;
+    }
+    for (const child of node.children ?? []) walk(child);
+  };
+  walk(doc);
+
+  // Apply from the end so earlier offsets stay valid
+  let out = html;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    out = out.slice(0, edit.start) + edit.text + out.slice(edit.end);
+  }
+  return out;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function hasDataIdDescendant(node: any): boolean {
+  for (const child of node.children ?? []) {
+    if (child.type === "tag" && child.attribs?.["data-id"] !== undefined) return true;
+    if (hasDataIdDescendant(child)) return true;
+  }
+  return false;
+}
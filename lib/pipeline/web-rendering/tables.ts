@@ -0,0 +1,132 @@
+import { parseDocument } from "htmlparser2";
+import type { SectionTable } from "../core/schemas";
+
+function escapeText(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function escapeAttr(value: string): string {
+  return escapeText(value).replace(/"/g, "&quot;");
+}
+
+/**
+ * Accessible markup for a table group. Leading rows made only of header
+ * cells become the `<thead>` with `scope="col"` headers; header cells in
+ * later rows get `scope="row"`. Spans become `rowspan`/`colspan` (with
+ * `colgroup`/`rowgroup` scopes), and each cell with text carries its data-id.
+ */
+export function renderTableHtml(
+  table: SectionTable,
+  texts: Map<string, string>,
+  className?: string
+): string {
+  const headRows = table.rows.findIndex((row) => !row.every((cell) => cell.isHeader));
+  const headCount = headRows === -1 ? table.rows.length : headRows;
+
+  const renderRow = (row: SectionTable["rows"][number], inHead: boolean) => {
+    const cells = row.map((cell) => {
+      const tag = cell.isHeader ? "th" : "td";
+      let attrs = "";
+      if (cell.isHeader) {
+        const scope = inHead
+          ? cell.colSpan > 1 ? "colgroup" : "col"
+          : cell.rowSpan > 1 ? "rowgroup" : "row";
+        attrs += ` scope="${scope}"`;
+      }
+      if (cell.rowSpan > 1) attrs += ` rowspan="${cell.rowSpan}"`;
+      if (cell.colSpan > 1) attrs += ` colspan="${cell.colSpan}"`;
+      const text = cell.textId !== null ? texts.get(cell.textId) : undefined;
+      if (cell.textId === null || text === undefined) return `<${tag}${attrs}></${tag}>`;
+      return `<${tag}${attrs} data-id="${escapeAttr(cell.textId)}">${escapeText(text)}</${tag}>`;
+    });
+    return `<tr>${cells.join("")}</tr>`;
+  };
+
+  const head = table.rows.slice(0, headCount).map((row) => renderRow(row, true));
+  const body = table.rows.slice(headCount).map((row) => renderRow(row, false));
+  const classAttr = className ? ` class="${escapeAttr(className)}"` : "";
+  return (
+    `<table${classAttr}>` +
+    (head.length > 0 ? `<thead>${head.join("")}</thead>` : "") +
+    (body.length > 0 ? `<tbody>${body.join("")}</tbody>` : "") +
+    "</table>"
+  );
+}
+
+/** Text IDs of a table's cells. */
+function tableTextIds(table: SectionTable): string[] {
+  return table.rows.flatMap((row) =>
+    row.flatMap((cell) => (cell.textId !== null ? [cell.textId] : []))
+  );
+}
+
+/**
+ * Map each table (by group ID) to the `<table>` element of the rendered HTML
+ * that contains any of its cells.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function findTableElements(html: string, tables: SectionTable[]): Map<string, any> {
+  const doc = parseDocument(html, { withStartIndices: true, withEndIndices: true });
+  const owner = new Map<string, string>();
+  for (const table of tables) {
+    for (const id of tableTextIds(table)) owner.set(id, table.groupId);
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const found = new Map<string, any>();
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const walk = (node: any, tableNode: any): void => {
+    if (node.type === "tag" && node.name === "table") tableNode = node;
+    const dataId = node.type === "tag" ? node.attribs?.["data-id"] : undefined;
+    const groupId = dataId !== undefined ? owner.get(dataId) : undefined;
+    if (groupId !== undefined && tableNode && !found.has(groupId)) {
+      found.set(groupId, tableNode);
+    }
+    for (const child of node.children ?? []) walk(child, tableNode);
+  };
+  walk(doc, null);
+  return found;
+}
+
+/**
+ * Validation errors for tables whose cells were not rendered inside a
+ * `<table>` element.
+ */
+export function tableRenderingErrors(html: string, tables: SectionTable[]): string[] {
+  const found = findTableElements(html, tables);
+  return tables
+    .filter((t) => tableTextIds(t).length > 0 && !found.has(t.groupId))
+    .map((t) => `Table ${t.groupId} must be rendered as a <table> element containing its cells`);
+}
+
+/**
+ * Replace the `<table>` the LLM rendered for each table group with the
+ * canonical markup from `renderTableHtml`, keeping the LLM's `class` for
+ * styling. Tables that were not rendered as a `<table>` are left alone.
+ */
+export function applyTables(
+  html: string,
+  tables: SectionTable[],
+  texts: Map<string, string>
+): string {
+  if (tables.length === 0) return html;
+  const found = findTableElements(html, tables);
+
+  const edits: Array<{ start: number; end: number; text: string }> = [];
+  for (const table of tables) {
+    const node = found.get(table.groupId);
+    if (!node || edits.some((e) => e.start === node.startIndex)) continue;
+    edits.push({
+      start: node.startIndex,
+      end: node.endIndex + 1,
+      text: renderTableHtml(table, texts, node.attribs?.class),
+    });
+  }
+
+  // Apply from the end so earlier offsets stay valid
+  let out = html;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    out = out.slice(0, edit.start) + edit.text + out.slice(edit.end);
+  }
+  return out;
+}
@@ -0,0 +1,194 @@
+import { parseDocument } from "htmlparser2";
+import { stripMathDelimiters } from "../math/latex";
+
+/**
+ * Text fidelity check: compares the texts a section was rendered from with
+ * the text content of the matching `data-id` elements in the HTML, so that
+ * dropped or reworded text is caught instead of silently disappearing.
+ */
+
+export interface FidelityText {
+  textId: string;
+  text: string;
+}
+
+export interface TextDiffSegment {
+  op: "equal" | "insert" | "delete";
+  text: string;
+}
+
+export interface TextMismatch {
+  textId: string;
+  expected: string;
+  actual: string;
+  /** Character-level diff from `expected` to `actual` */
+  diff: TextDiffSegment[];
+}
+
+export interface TextFidelityResult {
+  /** Text IDs with no element, or an empty element, in the HTML */
+  missingIds: string[];
+  mismatches: TextMismatch[];
+}
+
+const EXEMPT_TAGS = new Set(["style", "script"]);
+
+/** Cap on the LCS table size; larger pairs fall back to a whole-string replace. */
+const MAX_DIFF_CELLS = 4_000_000;
+
+export function checkTextFidelity(
+  html: string,
+  texts: FidelityText[]
+): TextFidelityResult {
+  const rendered = collectDataIdText(html);
+  const missingIds: string[] = [];
+  const mismatches: TextMismatch[] = [];
+
+  for (const { textId, text } of texts) {
+    // Math is compared by its LaTeX: MathML carries it as `alttext`
+    const expected = normalizeText(stripMathDelimiters(text));
+    if (!expected) continue;
+
+    const actual = rendered.get(textId);
+    if (actual === undefined || !normalizeText(actual)) {
+      missingIds.push(textId);
+      continue;
+    }
+
+    const normalizedActual = normalizeText(stripMathDelimiters(actual));
+    if (normalizedActual !== expected) {
+      mismatches.push({
+        textId,
+        expected,
+        actual: normalizedActual,
+        diff: diffChars(expected, normalizedActual),
+      });
+    }
+  }
+
+  return { missingIds, mismatches };
+}
+
+/** Validation errors for texts that are absent from the rendered HTML. */
+export function missingTextErrors(
+  result: TextFidelityResult,
+  texts: FidelityText[]
+): string[] {
+  const byId = new Map(texts.map((t) => [t.textId, t.text]));
+  return result.missingIds.map((id) => {
+    const snippet = normalizeText(byId.get(id) ?? "").slice(0, 50);
+    return `Missing text "${id}" ("${snippet}"): every text must appear in an element with its data-id`;
+  });
+}
+
+/**
+ * Character-level diff using the longest common subsequence, after trimming
+ * the common prefix and suffix.
+ */
+export function diffChars(a: string, b: string): TextDiffSegment[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const segments: TextDiffSegment[] = [];
+  const push = (op: TextDiffSegment["op"], text: string) => {
+    if (!text) return;
+    const last = segments[segments.length - 1];
+    if (last && last.op === op) last.text += text;
+    else segments.push({ op, text });
+  };
+
+  push("equal", a.slice(0, prefix));
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  if ((midA.length + 1) * (midB.length + 1) > MAX_DIFF_CELLS) {
+    push("delete", midA);
+    push("insert", midB);
+  } else {
+    for (const seg of lcsDiff(midA, midB)) push(seg.op, seg.text);
+  }
+
+  push("equal", a.slice(a.length - suffix));
+  return segments;
+}
+
+function lcsDiff(a: string, b: string): TextDiffSegment[] {
+  const n = a.length;
+  const m = b.length;
+  const width = m + 1;
+  // lengths[i * width + j] = LCS length of a[i:] and b[j:]
+  const lengths = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const segments: TextDiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[i] === b[j]) {
+      segments.push({ op: "equal", text: a[i] });
+      i++;
+      j++;
+    } else if (i < n && (j === m || lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+      segments.push({ op: "delete", text: a[i] });
+      i++;
+    } else {
+      segments.push({ op: "insert", text: b[j] });
+      j++;
+    }
+  }
+  return segments;
+}
+
+/** Unicode-normalize and collapse whitespace so layout changes are not diffs. */
+function normalizeText(text: string): string {
+  return text.normalize("NFC").replace(/\s+/g, " ").trim();
+}
+
+/** Text content of every element with a data-id, keyed by that id. */
+function collectDataIdText(html: string): Map<string, string> {
+  const result = new Map<string, string>();
+  const doc = parseDocument(html);
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const walk = (node: any, open: string[]): void => {
+    if (node.type === "text") {
+      for (const id of open) result.set(id, (result.get(id) ?? "") + node.data);
+      return;
+    }
+    if (EXEMPT_TAGS.has(node.name)) return;
+    if (node.type === "tag" && node.name === "math" && node.attribs?.alttext !== undefined) {
+      for (const id of open) result.set(id, (result.get(id) ?? "") + node.attribs.alttext);
+      return;
+    }
+
+    let inner = open;
+    const dataId = node.attribs?.["data-id"];
+    if (node.type === "tag" && dataId !== undefined) {
+      if (!result.has(dataId)) result.set(dataId, "");
+      inner = [...open, dataId];
+    }
+    // A <br> separates words even though it contributes no text node
+    if (node.type === "tag" && node.name === "br") {
+      for (const id of open) result.set(id, (result.get(id) ?? "") + " ");
+    }
+    for (const child of node.children ?? []) walk(child, inner);
+  };
+  walk(doc, []);
+
+  return result;
+}
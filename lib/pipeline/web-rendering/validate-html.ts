@@ -1,4 +1,5 @@
 import { parseDocument } from "htmlparser2";
+import { DESCRIPTION_FOR_ATTR } from "./image-descriptions";
 
 export interface HtmlValidationResult {
   valid: boolean;
@@ -26,7 +27,7 @@ export function validateSectionHtml(
 function walkNode(node: any, allowedIds: Set<string>, seenIds: Set<string>, errors: string[]): void {
   if (node.type === "text") {
     if (node.data.trim().length > 0) {
-      if (isInsideExemptTag(node)) return;
+      if (isInsideExemptTag(node) || isInsideImageDescription(node)) return;
       if (!hasAncestorWithDataId(node)) {
         const snippet = node.data.trim().slice(0, 50);
         errors.push(`Text node outside any data-id element: "${snippet}"`);
@@ -67,6 +68,18 @@ function isInsideExemptTag(node: any): boolean {
   return false;
 }
 
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function isInsideImageDescription(node: any): boolean {
+  let current = node.parent;
+  while (current) {
+    if (current.type === "tag" && current.attribs?.[DESCRIPTION_FOR_ATTR] !== undefined) {
+      return true;
+    }
+    current = current.parent;
+  }
+  return false;
+}
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 function hasAncestorWithDataId(node: any): boolean {
   let current = node.parent;
@@ -10,6 +10,12 @@ export interface SectionRendering {
   section_type: string;
   reasoning: string;
   html: string;
+  merged_section_ids?: string[];
+  merged_into?: string;
+  /** Page sectioning version the section was rendered from */
+  page_sectioning_version?: number;
+  /** Page sectioning versions of the other pages its merged sections came from, by page ID */
+  merged_sectioning_versions?: Record<string, number>;
 }
 
 export interface WebRendering {
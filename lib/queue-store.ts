@@ -0,0 +1,142 @@
+import { getQueueDb } from "@/lib/db";
+import type { Job, JobStatus, JobType } from "@/lib/queue";
+
+/**
+ * Durable storage for the job queue. Only state transitions are persisted;
+ * transient fields (progress messages, results) stay in memory.
+ */
+export interface JobStore {
+  save(job: Job): void;
+  get(id: string): Job | undefined;
+  /** Jobs that were queued or running when the process stopped, oldest first */
+  listUnfinished(): Job[];
+  /** Most recent jobs first, optionally for one book */
+  listHistory(options?: { label?: string; limit?: number }): Job[];
+  /** Highest numeric job ID handed out so far */
+  maxSeq(): number;
+  /** Delete finished jobs completed before the given time */
+  prune(completedBefore: number): number;
+}
+
+interface JobRow {
+  id: string;
+  type: string;
+  label: string;
+  status: string;
+  params: string | null;
+  error: string | null;
+  attempts: number;
+  created_at: number;
+  started_at: number | null;
+  completed_at: number | null;
+}
+
+const JOB_COLUMNS =
+  "id, type, label, status, params, error, attempts, created_at, started_at, completed_at";
+
+/**
+ * SQLite-backed store. Without a path, the database lives in the books root
+ * (resolved on every call, so BOOKS_ROOT changes are honoured).
+ */
+export function createSqliteJobStore(dbPath?: string): JobStore {
+  const db = () => getQueueDb(dbPath);
+
+  return {
+    save(job) {
+      db()
+        .prepare(
+          `INSERT INTO jobs (seq, ${JOB_COLUMNS})
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT (id) DO UPDATE SET
+             status = excluded.status,
+             error = excluded.error,
+             attempts = excluded.attempts,
+             started_at = excluded.started_at,
+             completed_at = excluded.completed_at`
+        )
+        .run(
+          jobSeq(job.id),
+          job.id,
+          job.type,
+          job.label,
+          job.status,
+          job.params === undefined ? null : JSON.stringify(job.params),
+          job.error ?? null,
+          job.attempts ?? 0,
+          job.createdAt,
+          job.startedAt ?? null,
+          job.completedAt ?? null
+        );
+    },
+
+    get(id) {
+      const row = db()
+        .prepare(`SELECT ${JOB_COLUMNS} FROM jobs WHERE id = ?`)
+        .get(id) as JobRow | undefined;
+      return row ? fromRow(row) : undefined;
+    },
+
+    listUnfinished() {
+      const rows = db()
+        .prepare(
+          `SELECT ${JOB_COLUMNS} FROM jobs WHERE status IN ('queued', 'running') ORDER BY seq`
+        )
+        .all() as unknown as JobRow[];
+      return rows.map(fromRow);
+    },
+
+    listHistory(options = {}) {
+      const limit = options.limit ?? 100;
+      const rows = (
+        options.label
+          ? db()
+              .prepare(
+                `SELECT ${JOB_COLUMNS} FROM jobs WHERE label = ? ORDER BY seq DESC LIMIT ?`
+              )
+              .all(options.label, limit)
+          : db()
+              .prepare(`SELECT ${JOB_COLUMNS} FROM jobs ORDER BY seq DESC LIMIT ?`)
+              .all(limit)
+      ) as unknown as JobRow[];
+      return rows.map(fromRow);
+    },
+
+    maxSeq() {
+      const row = db().prepare("SELECT MAX(seq) AS seq FROM jobs").get() as
+        | { seq: number | null }
+        | undefined;
+      return row?.seq ?? 0;
+    },
+
+    prune(completedBefore) {
+      return db()
+        .prepare(
+          "DELETE FROM jobs WHERE status IN ('completed', 'failed') AND completed_at < ?"
+        )
+        .run(completedBefore).changes;
+    },
+  };
+}
+
+function jobSeq(id: string): number {
+  const m = /^job_(\d+)$/.exec(id);
+  if (!m) throw new Error(`Invalid job ID: ${id}`);
+  return parseInt(m[1], 10);
+}
+
+function fromRow(row: JobRow): Job {
+  return {
+    id: row.id,
+    type: row.type as JobType,
+    label: row.label,
+    status: row.status as JobStatus,
+    ...(row.params !== null
+      ? { params: JSON.parse(row.params) as Record<string, unknown> }
+      : {}),
+    ...(row.error !== null ? { error: row.error } : {}),
+    attempts: row.attempts,
+    createdAt: row.created_at,
+    ...(row.started_at !== null ? { startedAt: row.started_at } : {}),
+    ...(row.completed_at !== null ? { completedAt: row.completed_at } : {}),
+  };
+}
@@ -3,17 +3,26 @@ import {
   createPageRunner,
   runMetadataExtraction,
   createCallbackProgress,
+  type PageStepName,
 } from "@/lib/pipeline/runner";
 import {
   runWebRendering,
   runWebRenderingSection,
   runWebEdit,
   runTextClassification,
+  runTranslation,
   runImageClassification,
+  runImageDescription,
   runPageSectioning,
   runPagePipeline,
+  runSectionLinking,
+  runPageLabeling,
+  runTableOfContents,
+  runAccessibilityAudit,
   type WebEditParams,
 } from "@/lib/pipeline/actions";
+import { createSqliteJobStore, type JobStore } from "@/lib/queue-store";
+import { budgetPauseReason } from "@/lib/usage";
 
 // --- Types ---
 
@@ -24,9 +33,13 @@ export type JobType =
   | "web-rendering-section"
   | "web-edit"
   | "text-classification"
+  | "translation"
   | "image-classification"
+  | "image-description"
   | "page-sectioning"
-  | "page-pipeline";
+  | "page-pipeline"
+  | "section-linking"
+  | "accessibility-audit";
 
 export interface Job {
   id: string;
@@ -37,6 +50,8 @@ export interface Job {
   progress?: string;
   result?: unknown;
   error?: string;
+  /** Times the job has been started, including runs cut short by a restart */
+  attempts?: number;
   createdAt: number;
   startedAt?: number;
   completedAt?: number;
@@ -44,18 +59,106 @@ export interface Job {
 
 export type JobExecutor = (
   job: Job,
-  update: (patch: Partial<Job>) => void
+  update: (patch: Partial<Job>) => void,
+  /** Aborted when the job is cancelled; pass it on to model calls */
+  signal: AbortSignal
 ) => Promise<void>;
 
 // --- Queue ---
 
-class JobQueue {
+/** Fields written to the job store; progress and results stay in memory. */
+const PERSISTED_FIELDS: (keyof Job)[] = [
+  "status",
+  "error",
+  "attempts",
+  "startedAt",
+  "completedAt",
+];
+
+/** Running jobs interrupted this many times are failed instead of re-queued. */
+const MAX_ATTEMPTS = 3;
+
+/** Not safe to run twice: a re-run would apply the edit on top of itself. */
+const NON_RESUMABLE_TYPES: JobType[] = ["web-edit"];
+
+const HISTORY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** How often paused books are re-checked (e.g. after their budget is raised). */
+const PAUSE_RECHECK_MS = 60 * 1000;
+
+export interface JobQueueOptions {
+  /** Durable job storage; without one, jobs only live in memory */
+  store?: JobStore;
+  /** Reason a book's queued jobs must wait (e.g. budget reached), or null */
+  pauseReason?: (label: string) => string | null;
+}
+
+export class JobQueue {
   jobs = new Map<string, Job>();
   private pending: string[] = [];
   private running = 0;
   private listeners = new Set<(job: Job) => void>();
   private concurrency = 16;
   private nextId = 1;
+  private store?: JobStore;
+  private controllers = new Map<string, AbortController>();
+  private pauseReason?: (label: string) => string | null;
+  private recheckTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(options: JobQueueOptions = {}) {
+    this.store = options.store;
+    this.pauseReason = options.pauseReason;
+  }
+
+  /**
+   * Reload jobs left unfinished by a previous process. Queued jobs go back
+   * on the queue in their original order; running jobs are re-queued too,
+   * unless they cannot safely run twice or have already been interrupted
+   * MAX_ATTEMPTS times, in which case they are marked failed.
+   */
+  recover(): { requeued: number; failed: number } {
+    if (!this.store) return { requeued: 0, failed: 0 };
+
+    let requeued = 0;
+    let failed = 0;
+    try {
+      this.nextId = Math.max(this.nextId, this.store.maxSeq() + 1);
+      this.store.prune(Date.now() - HISTORY_RETENTION_MS);
+
+      for (const job of this.store.listUnfinished()) {
+        if (this.jobs.has(job.id)) continue;
+        this.jobs.set(job.id, job);
+
+        if (
+          job.status === "running" &&
+          (NON_RESUMABLE_TYPES.includes(job.type) ||
+            (job.attempts ?? 0) >= MAX_ATTEMPTS)
+        ) {
+          this.updateJob(job, {
+            status: "failed",
+            error: "Interrupted by server restart",
+            completedAt: Date.now(),
+          });
+          failed++;
+          continue;
+        }
+
+        if (job.status === "running") {
+          this.updateJob(job, { status: "queued", startedAt: undefined });
+        }
+        this.pending.push(job.id);
+        requeued++;
+      }
+    } catch (err) {
+      console.error("[queue] Failed to recover jobs:", err);
+    }
+
+    if (requeued > 0 || failed > 0) {
+      console.log(`[queue] Recovered ${requeued} job(s), failed ${failed} interrupted job(s)`);
+    }
+    this.drain();
+    return { requeued, failed };
+  }
 
   enqueue(
     type: JobType,
@@ -73,16 +176,16 @@ class JobQueue {
     };
     this.jobs.set(id, job);
     this.pending.push(id);
+    this.persist(job);
     this.notify(job);
     this.drain();
     return id;
   }
 
   private async drain() {
-    while (this.running < this.concurrency && this.pending.length > 0) {
-      const jobId = this.pending.shift()!;
-      const job = this.jobs.get(jobId);
-      if (!job) continue;
+    while (this.running < this.concurrency) {
+      const job = this.takeNextJob();
+      if (!job) break;
 
       const resolveExecutor = (globalThis as unknown as {
         __getJobExecutor?: (type: JobType) => JobExecutor | undefined;
@@ -97,26 +200,41 @@ class JobQueue {
         continue;
       }
 
+      const controller = new AbortController();
+      this.controllers.set(job.id, controller);
       this.running++;
-      this.updateJob(job, { status: "running", startedAt: Date.now() });
+      this.updateJob(job, {
+        status: "running",
+        progress: undefined,
+        startedAt: Date.now(),
+        attempts: (job.attempts ?? 0) + 1,
+      });
 
       try {
-        await executor(job, (patch) => {
-          // If job was cancelled (e.g. book deleted), throw to stop the executor
-          if (job.status === "failed") throw new Error("Job cancelled");
-          this.updateJob(job, patch);
-        });
+        await executor(
+          job,
+          (patch) => {
+            // If job was cancelled (e.g. book deleted), throw to stop the executor
+            if (job.status === "failed") throw new Error("Job cancelled");
+            this.updateJob(job, patch);
+          },
+          controller.signal
+        );
         if (job.status === "running") {
           this.updateJob(job, { status: "completed", completedAt: Date.now() });
         }
       } catch (err) {
-        console.error(`[queue] Job ${job.id} (${job.type} ${job.label}) failed:`, err);
-        this.updateJob(job, {
-          status: "failed",
-          error: err instanceof Error ? err.message : "Unknown error",
-          completedAt: Date.now(),
-        });
+        // Cancelled jobs are already failed with the cancellation reason
+        if (job.status !== "failed") {
+          console.error(`[queue] Job ${job.id} (${job.type} ${job.label}) failed:`, err);
+          this.updateJob(job, {
+            status: "failed",
+            error: err instanceof Error ? err.message : "Unknown error",
+            completedAt: Date.now(),
+          });
+        }
       } finally {
+        this.controllers.delete(job.id);
         this.running--;
         this.prune();
         this.drain();
@@ -124,11 +242,64 @@ class JobQueue {
     }
   }
 
+  /**
+   * Remove and return the first pending job whose book is not paused.
+   * Paused jobs stay queued with the reason as their progress, and are
+   * re-checked after PAUSE_RECHECK_MS.
+   */
+  private takeNextJob(): Job | undefined {
+    const reasons = new Map<string, string | null>();
+    let paused = false;
+    for (const [i, jobId] of this.pending.entries()) {
+      const job = this.jobs.get(jobId);
+      if (!job) continue;
+      if (!reasons.has(job.label)) reasons.set(job.label, this.checkPaused(job.label));
+      const reason = reasons.get(job.label);
+      if (!reason) {
+        this.pending.splice(i, 1);
+        return job;
+      }
+      paused = true;
+      if (job.progress !== reason) this.updateJob(job, { progress: reason });
+    }
+    if (paused && !this.recheckTimer) {
+      this.recheckTimer = setTimeout(() => {
+        this.recheckTimer = undefined;
+        this.drain();
+      }, PAUSE_RECHECK_MS);
+      this.recheckTimer.unref?.();
+    }
+    // Drop IDs of jobs that no longer exist
+    this.pending = this.pending.filter((id) => this.jobs.has(id));
+    return undefined;
+  }
+
+  private checkPaused(label: string): string | null {
+    if (!this.pauseReason) return null;
+    try {
+      return this.pauseReason(label);
+    } catch (err) {
+      console.error(`[queue] Failed to check whether ${label} is paused:`, err);
+      return null;
+    }
+  }
+
   private updateJob(job: Job, patch: Partial<Job>) {
     Object.assign(job, patch);
+    if (PERSISTED_FIELDS.some((field) => field in patch)) this.persist(job);
     this.notify(job);
   }
 
+  private persist(job: Job) {
+    if (!this.store) return;
+    try {
+      this.store.save(job);
+    } catch (err) {
+      // Losing durability should not stop jobs from running
+      console.error(`[queue] Failed to persist job ${job.id}:`, err);
+    }
+  }
+
   subscribe(fn: (job: Job) => void) {
     this.listeners.add(fn);
   }
@@ -163,37 +334,54 @@ class JobQueue {
     );
   }
 
+  /** Looks in memory first, then in the job history for pruned jobs */
   getJob(id: string): Job | undefined {
-    return this.jobs.get(id);
+    const job = this.jobs.get(id);
+    if (job || !this.store) return job;
+    try {
+      return this.store.get(id);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /** Past and present jobs, most recent first */
+  getHistory(options: { label?: string; limit?: number } = {}): Job[] {
+    if (!this.store) {
+      return [...this.jobs.values()]
+        .filter((j) => !options.label || j.label === options.label)
+        .reverse()
+        .slice(0, options.limit ?? 100);
+    }
+    // Merge in-memory progress/results over the stored state
+    return this.store
+      .listHistory(options)
+      .map((job) => this.jobs.get(job.id) ?? job);
+  }
+
+  /**
+   * Cancel a queued or running job. Running jobs are marked failed and their
+   * signal is aborted, which stops in-flight model calls. Returns false if
+   * the job is unknown or already finished.
+   */
+  cancel(id: string, reason = "Cancelled"): boolean {
+    const job = this.jobs.get(id);
+    if (!job || (job.status !== "queued" && job.status !== "running")) return false;
+    this.pending = this.pending.filter((pendingId) => pendingId !== id);
+    this.updateJob(job, {
+      status: "failed",
+      error: reason,
+      completedAt: Date.now(),
+    });
+    this.controllers.get(id)?.abort(new Error(reason));
+    return true;
   }
 
-  /** Cancel all queued jobs for a given book label. Running jobs are marked failed. */
+  /** Cancel all queued and running jobs for a given book label. */
   cancelByLabel(label: string): number {
     let count = 0;
-    // Remove from pending queue
-    this.pending = this.pending.filter((id) => {
-      const job = this.jobs.get(id);
-      if (job && job.label === label) {
-        this.updateJob(job, {
-          status: "failed",
-          error: "Book deleted",
-          completedAt: Date.now(),
-        });
-        count++;
-        return false;
-      }
-      return true;
-    });
-    // Mark running jobs as failed so executors see the status change
-    for (const job of this.jobs.values()) {
-      if (job.label === label && job.status === "running") {
-        this.updateJob(job, {
-          status: "failed",
-          error: "Book deleted",
-          completedAt: Date.now(),
-        });
-        count++;
-      }
+    for (const job of [...this.jobs.values()]) {
+      if (job.label === label && this.cancel(job.id, "Book deleted")) count++;
     }
     return count;
   }
@@ -223,9 +411,13 @@ function getExecutor(type: JobType): JobExecutor | undefined {
     case "web-rendering-section": return webRenderingSectionExecutor;
     case "web-edit": return webEditExecutor;
     case "text-classification": return textClassificationExecutor;
+    case "translation": return translationExecutor;
     case "image-classification": return imageClassificationExecutor;
+    case "image-description": return imageDescriptionExecutor;
     case "page-sectioning": return pageSectioningExecutor;
     case "page-pipeline": return pagePipelineExecutor;
+    case "section-linking": return sectionLinkingExecutor;
+    case "accessibility-audit": return accessibilityAuditExecutor;
   }
 }
 
@@ -236,12 +428,13 @@ globalForExecutors.__getJobExecutor = getExecutor;
 
 // --- Executors ---
 
-const metadataExecutor: JobExecutor = async (job, update) => {
+const metadataExecutor: JobExecutor = async (job, update, signal) => {
   update({ progress: "Loading pages" });
 
   const runner = createPageRunner({
     label: job.label,
     progress: createCallbackProgress((msg) => update({ progress: msg })),
+    signal,
   });
 
   const metadata = await runMetadataExtraction(runner);
@@ -259,16 +452,16 @@ const metadataExecutor: JobExecutor = async (job, update) => {
   }
 };
 
-const webRenderingExecutor: JobExecutor = async (job, update) => {
+const webRenderingExecutor: JobExecutor = async (job, update, signal) => {
   const pageId = job.params?.pageId as string;
   const result = await runWebRendering(job.label, pageId, (msg) =>
     update({ progress: msg }),
-    { skipCache: true }
+    { skipCache: true, signal }
   );
   update({ result, status: "completed", completedAt: Date.now() });
 };
 
-const webRenderingSectionExecutor: JobExecutor = async (job, update) => {
+const webRenderingSectionExecutor: JobExecutor = async (job, update, signal) => {
   const pageId = job.params?.pageId as string;
   const sectionIndex = job.params?.sectionIndex as number;
   const result = await runWebRenderingSection(
@@ -276,44 +469,96 @@ const webRenderingSectionExecutor: JobExecutor = async (job, update) => {
     pageId,
     sectionIndex,
     (msg) => update({ progress: msg }),
-    { skipCache: true }
+    { skipCache: true, signal }
   );
   update({ result, status: "completed", completedAt: Date.now() });
 };
 
-const webEditExecutor: JobExecutor = async (job, update) => {
-  const result = await runWebEdit(job.label, job.params as unknown as WebEditParams);
+const webEditExecutor: JobExecutor = async (job, update, signal) => {
+  const result = await runWebEdit(job.label, job.params as unknown as WebEditParams, {
+    signal,
+  });
   update({ result, status: "completed", completedAt: Date.now() });
 };
 
-const imageClassificationExecutor: JobExecutor = async (job, update) => {
+const imageClassificationExecutor: JobExecutor = async (job, update, signal) => {
   const pageId = job.params?.pageId as string;
-  const result = await runImageClassification(job.label, pageId);
+  const result = await runImageClassification(job.label, pageId, { skipCache: true, signal });
   update({ result, status: "completed", completedAt: Date.now() });
 };
 
-const textClassificationExecutor: JobExecutor = async (job, update) => {
+const imageDescriptionExecutor: JobExecutor = async (job, update, signal) => {
   const pageId = job.params?.pageId as string;
-  const result = await runTextClassification(job.label, pageId, { skipCache: true });
+  const result = await runImageDescription(job.label, pageId, { skipCache: true, signal });
   update({ result, status: "completed", completedAt: Date.now() });
 };
 
-const pageSectioningExecutor: JobExecutor = async (job, update) => {
+const textClassificationExecutor: JobExecutor = async (job, update, signal) => {
   const pageId = job.params?.pageId as string;
-  const result = await runPageSectioning(job.label, pageId, { skipCache: true });
+  const result = await runTextClassification(job.label, pageId, { skipCache: true, signal });
   update({ result, status: "completed", completedAt: Date.now() });
 };
 
-const pagePipelineExecutor: JobExecutor = async (job, update) => {
+const translationExecutor: JobExecutor = async (job, update, signal) => {
   const pageId = job.params?.pageId as string;
-  await runPagePipeline(job.label, pageId, (msg) =>
-    update({ progress: msg })
-  );
+  const languages = job.params?.languages as string[] | undefined;
+  const result = await runTranslation(job.label, pageId, {
+    skipCache: true,
+    languages,
+    signal,
+  });
+  update({ result, status: "completed", completedAt: Date.now() });
+};
+
+const pageSectioningExecutor: JobExecutor = async (job, update, signal) => {
+  const pageId = job.params?.pageId as string;
+  const result = await runPageSectioning(job.label, pageId, { skipCache: true, signal });
+  update({ result, status: "completed", completedAt: Date.now() });
+};
+
+const pagePipelineExecutor: JobExecutor = async (job, update, signal) => {
+  const pageId = job.params?.pageId as string;
+  // Reruns of stale pages only run the steps downstream of the change
+  const steps = job.params?.steps as PageStepName[] | undefined;
+  await runPagePipeline(job.label, pageId, (msg) => update({ progress: msg }), {
+    signal,
+    steps,
+  });
   update({ status: "completed", completedAt: Date.now() });
 };
 
+const sectionLinkingExecutor: JobExecutor = async (job, update, signal) => {
+  const result = await runSectionLinking(job.label, (msg) =>
+    update({ progress: msg }),
+    { skipCache: true, signal }
+  );
+  // Linking runs once every page is sectioned, so page numbers and
+  // headings are known too
+  await runPageLabeling(job.label, { signal });
+  await runTableOfContents(job.label, { signal });
+  update({ result, status: "completed", completedAt: Date.now() });
+};
+
+const accessibilityAuditExecutor: JobExecutor = async (job, update, signal) => {
+  const result = await runAccessibilityAudit(
+    job.label,
+    (msg) => update({ progress: msg }),
+    { signal }
+  );
+  update({ result, status: "completed", completedAt: Date.now() });
+};
+
 // --- Singleton ---
 
+function createQueue(): JobQueue {
+  const q = new JobQueue({
+    store: createSqliteJobStore(),
+    pauseReason: budgetPauseReason,
+  });
+  q.recover();
+  return q;
+}
+
 const globalForQueue = globalThis as unknown as { __jobQueue?: JobQueue };
-export const queue = globalForQueue.__jobQueue ?? new JobQueue();
+export const queue = globalForQueue.__jobQueue ?? createQueue();
 globalForQueue.__jobQueue = queue;
@@ -0,0 +1,347 @@
+import fs from "node:fs";
+import path from "node:path";
+import { closeDb, getDb, undeleteDb } from "@/lib/db";
+import { getBooksRoot, putNodeData } from "@/lib/books";
+import { resolveBookPaths } from "@/lib/pipeline/types";
+import {
+  createBookStorage,
+  runExtract,
+  type ExtractOptions,
+  type Progress,
+} from "@/lib/pipeline/runner";
+import type { ExtractResult } from "@/lib/pipeline/steps";
+
+// ---------------------------------------------------------------------------
+// Non-destructive reimport
+//
+// Extraction is re-run into a fresh database; every page whose render (or,
+// failing that, text and embedded images) is byte-identical to a page of
+// the previous import is matched to it by content hash, and the node
+// versions of matched pages — classifications, sectioning, renderings and
+// every manual edit among them — are copied across with their page and
+// image IDs renamed. Pages without a match are reported for review.
+// ---------------------------------------------------------------------------
+
+export interface PageSnapshot {
+  pageId: string;
+  text: string;
+  /** Hash of the page render (`images.hash` of `<pageId>_page`) */
+  pageImageHash: string;
+  /** Hashes of the images extracted from the page, in image ID order */
+  imageHashes: string[];
+}
+
+interface ImageRow {
+  image_id: string;
+  page_id: string;
+  path: string;
+  hash: string;
+  width: number;
+  height: number;
+  source: "page" | "extract" | "crop";
+}
+
+interface NodeRow {
+  node: string;
+  item_id: string;
+  version: number;
+  data: string | null;
+}
+
+interface BookSnapshot {
+  pages: PageSnapshot[];
+  images: ImageRow[];
+  nodes: NodeRow[];
+  tables: Record<(typeof CARRIED_TABLES)[number], Record<string, unknown>[]>;
+}
+
+export interface ReimportReport {
+  createdAt: string;
+  /** Pages matched to the previous import, with their versions carried over */
+  unchanged: Array<{ pageId: string; previousPageId: string }>;
+  /** New or changed pages, which need to be processed and reviewed */
+  changed: string[];
+  /** Pages of the previous import without a match in the new one */
+  removed: string[];
+  /** Node versions copied from the previous import */
+  carriedVersions: number;
+}
+
+/** Book-wide tables copied as they are: metadata and the LLM usage history. */
+const CARRIED_TABLES = ["book_metadata", "llm_log", "llm_usage"] as const;
+
+/**
+ * Book-level nodes that describe a single import (they refer to the page IDs
+ * of the import before), so they are not carried over.
+ */
+const IMPORT_NODES = new Set(["reimport", "edition-diff"]);
+
+/** Page, image and crop IDs as they appear in item IDs and node data. */
+const ID_RE = /\bpg\d{3}(?:_page|_im\d{3}|_crop_\d+)?/g;
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+/**
+ * Match pages of a new import to pages of the previous one: first by the
+ * hash of the page render, then by identical text and embedded image
+ * hashes (for renders that differ only in rasterization). Each previous
+ * page is matched at most once. Returns new page ID → previous page ID.
+ */
+export function matchPages(
+  previous: PageSnapshot[],
+  current: PageSnapshot[]
+): Map<string, string> {
+  const matches = new Map<string, string>();
+  const used = new Set<string>();
+
+  const pass = (key: (page: PageSnapshot) => string | null) => {
+    const byKey = new Map<string, string[]>();
+    for (const page of previous) {
+      const k = key(page);
+      if (k === null || used.has(page.pageId)) continue;
+      byKey.set(k, [...(byKey.get(k) ?? []), page.pageId]);
+    }
+    for (const page of current) {
+      const k = key(page);
+      if (k === null || matches.has(page.pageId)) continue;
+      const candidate = byKey.get(k)?.find((id) => !used.has(id));
+      if (!candidate) continue;
+      matches.set(page.pageId, candidate);
+      used.add(candidate);
+    }
+  };
+
+  pass((page) => page.pageImageHash || null);
+  pass((page) =>
+    page.text.trim() ? JSON.stringify([page.text.trim(), page.imageHashes]) : null
+  );
+  return matches;
+}
+
+/**
+ * Rename the page and image IDs in `text`. Image IDs are looked up first;
+ * other IDs keep their suffix under the new page ID. Returns null when
+ * the text mentions a page that has no match.
+ */
+export function remapIds(
+  text: string,
+  pageIds: Map<string, string>,
+  imageIds: Map<string, string>
+): string | null {
+  let unmatched = false;
+  const out = text.replace(ID_RE, (id) => {
+    const image = imageIds.get(id);
+    if (image) return image;
+    const page = pageIds.get(id.slice(0, 5));
+    if (!page) {
+      unmatched = true;
+      return id;
+    }
+    return page + id.slice(5);
+  });
+  return unmatched ? null : out;
+}
+
+// ---------------------------------------------------------------------------
+// Snapshots
+// ---------------------------------------------------------------------------
+
+function readSnapshot(label: string): BookSnapshot {
+  const db = getDb(label);
+  const pageRows = db
+    .prepare("SELECT page_id, text FROM pages ORDER BY page_id")
+    .all() as Array<{ page_id: string; text: string }>;
+  const images = db
+    .prepare("SELECT * FROM images ORDER BY image_id")
+    .all() as unknown as ImageRow[];
+
+  const pages = pageRows.map((row) => ({
+    pageId: row.page_id,
+    text: row.text,
+    pageImageHash:
+      images.find((img) => img.image_id === `${row.page_id}_page`)?.hash ?? "",
+    imageHashes: images
+      .filter(
+        (img) =>
+          img.page_id === row.page_id &&
+          img.source === "extract" &&
+          img.image_id !== `${row.page_id}_page`
+      )
+      .map((img) => img.hash),
+  }));
+
+  const nodes = db
+    .prepare("SELECT node, item_id, version, data FROM node_data ORDER BY node, item_id, version")
+    .all() as unknown as NodeRow[];
+  const tables = Object.fromEntries(
+    CARRIED_TABLES.map((table) => [table, db.prepare(`SELECT * FROM ${table}`).all()])
+  ) as BookSnapshot["tables"];
+
+  return { pages, images, nodes, tables };
+}
+
+/** `base`, or `base.1`, `base.2`… if it exists. Backups are never overwritten. */
+function freePath(base: string): string {
+  let candidate = base;
+  for (let n = 1; fs.existsSync(candidate); n++) candidate = `${base}.${n}`;
+  return candidate;
+}
+
+// ---------------------------------------------------------------------------
+// Reimport
+// ---------------------------------------------------------------------------
+
+export interface ReimportResult {
+  result: ExtractResult;
+  report: ReimportReport;
+  /** Pages of the previous and the new import, for comparing them */
+  previousPages: PageSnapshot[];
+  currentPages: PageSnapshot[];
+}
+
+/**
+ * Re-extract the book's PDF without losing work: the previous database is
+ * kept as `<label>.db.reimport.bak`, and the versions of every unchanged
+ * page are carried into the new one (see `carryOver`). If extraction fails
+ * the previous database and images are put back.
+ *
+ * The previous images are deleted afterwards, unless `keepImagesIn` names a
+ * directory to move them to.
+ */
+export async function reimportBook(
+  label: string,
+  options: ExtractOptions,
+  progress: Progress,
+  keepImagesIn?: string
+): Promise<ReimportResult> {
+  const paths = resolveBookPaths(label, getBooksRoot());
+  const previous = readSnapshot(label);
+
+  const dbPath = path.join(paths.bookDir, `${label}.db`);
+  const dbBackup = freePath(`${dbPath}.reimport.bak`);
+  const imagesBackup = freePath(`${paths.imagesDir}.reimport.bak`);
+
+  closeDb(label);
+  fs.renameSync(dbPath, dbBackup);
+  for (const ext of ["-wal", "-shm"]) {
+    if (fs.existsSync(dbPath + ext)) fs.unlinkSync(dbPath + ext);
+  }
+  if (fs.existsSync(paths.imagesDir)) fs.renameSync(paths.imagesDir, imagesBackup);
+  undeleteDb(label);
+
+  try {
+    const result = await runExtract(options, createBookStorage(label), progress);
+    const current = readSnapshot(label);
+    const report = carryOver(label, previous, current, imagesBackup);
+    if (keepImagesIn && fs.existsSync(imagesBackup)) {
+      fs.rmSync(keepImagesIn, { recursive: true, force: true });
+      fs.mkdirSync(path.dirname(keepImagesIn), { recursive: true });
+      fs.renameSync(imagesBackup, keepImagesIn);
+    } else {
+      fs.rmSync(imagesBackup, { recursive: true, force: true });
+    }
+    return { result, report, previousPages: previous.pages, currentPages: current.pages };
+  } catch (err) {
+    closeDb(label);
+    if (fs.existsSync(dbPath)) fs.unlinkSync(dbPath);
+    fs.renameSync(dbBackup, dbPath);
+    if (fs.existsSync(imagesBackup)) {
+      fs.rmSync(paths.imagesDir, { recursive: true, force: true });
+      fs.renameSync(imagesBackup, paths.imagesDir);
+    }
+    undeleteDb(label);
+    throw err;
+  }
+}
+
+/**
+ * Copy the previous import's work into the freshly extracted book: crops of
+ * matched pages, book metadata, the LLM log and usage, and every node
+ * version whose item ID and data only mention matched pages (so renderings
+ * of sections merged with a changed page are left to be redone). Versions
+ * of items the new import already wrote (e.g. PDF page labels) and earlier
+ * reimport reports and edition diffs are skipped.
+ */
+function carryOver(
+  label: string,
+  previous: BookSnapshot,
+  current: BookSnapshot,
+  previousImagesDir: string
+): ReimportReport {
+  const db = getDb(label);
+  const paths = resolveBookPaths(label, getBooksRoot());
+
+  const matches = matchPages(previous.pages, current.pages);
+  const pageIds = new Map([...matches].map(([pageId, prevId]) => [prevId, pageId]));
+
+  // Extracted images are matched by hash within each matched page
+  const imageIds = new Map<string, string>();
+  const crops: ImageRow[] = [];
+  for (const [prevPageId, pageId] of pageIds) {
+    const available = current.images.filter((img) => img.page_id === pageId);
+    for (const img of previous.images.filter((i) => i.page_id === prevPageId)) {
+      if (img.source === "crop") {
+        crops.push(img);
+        continue;
+      }
+      const match = available.find((a) => a.hash === img.hash && a.source === img.source);
+      if (!match) continue;
+      imageIds.set(img.image_id, match.image_id);
+      available.splice(available.indexOf(match), 1);
+    }
+  }
+
+  const written = new Set(current.nodes.map((n) => `${n.node}\0${n.item_id}`));
+  let carriedVersions = 0;
+
+  db.batch(() => {
+    for (const crop of crops) {
+      const imageId = pageIds.get(crop.page_id)! + crop.image_id.slice(5);
+      const source = path.join(previousImagesDir, path.basename(crop.path));
+      if (!fs.existsSync(source)) continue;
+      fs.mkdirSync(paths.imagesDir, { recursive: true });
+      fs.copyFileSync(source, path.join(paths.imagesDir, `${imageId}.png`));
+      db.prepare(
+        `INSERT INTO images (image_id, page_id, path, hash, width, height, source)
+         VALUES (?, ?, ?, ?, ?, ?, 'crop')`
+      ).run(imageId, pageIds.get(crop.page_id)!, `images/${imageId}.png`, crop.hash, crop.width, crop.height);
+      imageIds.set(crop.image_id, imageId);
+    }
+
+    for (const row of previous.nodes) {
+      if (IMPORT_NODES.has(row.node) || written.has(`${row.node}\0${row.item_id}`)) continue;
+      const itemId = remapIds(row.item_id, pageIds, imageIds);
+      const data = row.data === null ? null : remapIds(row.data, pageIds, imageIds);
+      if (itemId === null || (row.data !== null && data === null)) continue;
+      db.prepare(
+        "INSERT INTO node_data (node, item_id, version, data) VALUES (?, ?, ?, ?)"
+      ).run(row.node, itemId, row.version, data);
+      carriedVersions++;
+    }
+
+    for (const table of CARRIED_TABLES) {
+      db.prepare(`DELETE FROM ${table}`).run();
+      for (const row of previous.tables[table]) {
+        const columns = Object.keys(row);
+        db.prepare(
+          `INSERT INTO ${table} (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`
+        ).run(...columns.map((c) => row[c]));
+      }
+    }
+  });
+
+  const report: ReimportReport = {
+    createdAt: new Date().toISOString(),
+    unchanged: current.pages
+      .filter((p) => matches.has(p.pageId))
+      .map((p) => ({ pageId: p.pageId, previousPageId: matches.get(p.pageId)! })),
+    changed: current.pages.filter((p) => !matches.has(p.pageId)).map((p) => p.pageId),
+    removed: previous.pages.filter((p) => !pageIds.has(p.pageId)).map((p) => p.pageId),
+    carriedVersions,
+  };
+  // Reports describe one import, so they start over with the fresh database
+  putNodeData(label, "reimport", "book", 1, report);
+  return report;
+}
@@ -0,0 +1,94 @@
+import {
+  getLatestImageClassificationPath,
+  getLatestTextClassificationPath,
+  getPageSectioning,
+  getWebRendering,
+  listPages,
+} from "@/lib/books";
+import type { PageStepName } from "@/lib/pipeline/runner";
+
+// ---------------------------------------------------------------------------
+// Staleness of downstream pipeline nodes
+//
+// Page sectioning records the text and image classification versions it was
+// built from, and each section rendering records the page sectioning version
+// it was rendered from (for sections merged or linked across pages, also the
+// sectioning versions of the pages they continue on). A node is stale when a
+// newer upstream version exists, and everything downstream of a stale node
+// is stale with it:
+//
+//   image classification ─┐
+//                         ├─→ page sectioning ─→ web rendering
+//   text classification  ─┘
+// ---------------------------------------------------------------------------
+
+export type StaleNode = "page-sectioning" | "web-rendering";
+
+export interface PageStaleness {
+  pageId: string;
+  /** Why each stale node is out of date; nodes that are current are absent */
+  stale: Partial<Record<StaleNode, string>>;
+  /** Stale section renderings, keyed by section ID */
+  staleSections: Record<string, string>;
+  /** Steps that bring the page up to date, in pipeline order */
+  rerunSteps: PageStepName[];
+}
+
+function changed(node: string, from: number, to: number): string {
+  return `${node} changed since this was generated (v${from} → v${to})`;
+}
+
+export function getPageStaleness(label: string, pageId: string): PageStaleness {
+  const stale: PageStaleness["stale"] = {};
+  const staleSections: Record<string, string> = {};
+  const sectioning = getPageSectioning(label, pageId);
+
+  if (sectioning) {
+    const { text_classification_version: textVersion, image_classification_version: imageVersion } =
+      sectioning.data;
+    const latestText = getLatestTextClassificationPath(label, pageId)?.version;
+    const latestImage = getLatestImageClassificationPath(label, pageId)?.version;
+    // Versions are missing from sectionings saved before they were recorded
+    if (textVersion !== undefined && latestText !== undefined && latestText > textVersion) {
+      stale["page-sectioning"] = changed("Text classification", textVersion, latestText);
+    } else if (imageVersion !== undefined && latestImage !== undefined && latestImage > imageVersion) {
+      stale["page-sectioning"] = changed("Image classification", imageVersion, latestImage);
+    }
+
+    for (const section of getWebRendering(label, pageId)?.sections ?? []) {
+      const sectionId = `${pageId}_s${String(section.section_index + 1).padStart(3, "0")}`;
+      const renderedFrom = section.page_sectioning_version;
+      if (stale["page-sectioning"]) {
+        staleSections[sectionId] = "Rendered from a stale page sectioning";
+      } else if (renderedFrom !== undefined && renderedFrom < sectioning.version) {
+        staleSections[sectionId] = changed("Page sectioning", renderedFrom, sectioning.version);
+      } else {
+        for (const [mergedPageId, from] of Object.entries(section.merged_sectioning_versions ?? {})) {
+          const latest = getPageSectioning(label, mergedPageId)?.version;
+          if (latest !== undefined && latest > from) {
+            staleSections[sectionId] = changed(`Page sectioning of ${mergedPageId}`, from, latest);
+            break;
+          }
+        }
+      }
+    }
+    const staleCount = Object.keys(staleSections).length;
+    if (staleCount > 0) {
+      stale["web-rendering"] = `${staleCount} section${staleCount === 1 ? " is" : "s are"} out of date`;
+    }
+  }
+
+  const rerunSteps: PageStepName[] = stale["page-sectioning"]
+    ? ["page-sectioning", "web-rendering"]
+    : stale["web-rendering"]
+      ? ["web-rendering"]
+      : [];
+  return { pageId, stale, staleSections, rerunSteps };
+}
+
+/** Pages with at least one stale node, in page order. */
+export function listStalePages(label: string): PageStaleness[] {
+  return listPages(label)
+    .map((page) => getPageStaleness(label, page.pageId))
+    .filter((page) => page.rerunSteps.length > 0);
+}
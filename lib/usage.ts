@@ -0,0 +1,222 @@
+import fs from "node:fs";
+import path from "node:path";
+import {
+  getBooksRoot,
+  listLlmUsage,
+  sumLlmUsageByModel,
+  type LlmUsageRecord,
+} from "@/lib/books";
+import { loadBookConfig, getPricing, getBudgetUsd, type ModelPrice } from "@/lib/config";
+
+// ---------------------------------------------------------------------------
+// Token usage and cost reports
+// ---------------------------------------------------------------------------
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  /** Estimated spend in USD for calls to priced models */
+  costUsd: number;
+  /** Calls to models without an entry in `pricing` (not included in costUsd) */
+  unpricedCalls: number;
+}
+
+export interface UsageBudget {
+  maxUsd: number;
+  spentUsd: number;
+  exceeded: boolean;
+}
+
+export interface UsageReport {
+  label: string;
+  from?: string;
+  to?: string;
+  total: UsageTotals;
+  byStep: Record<string, UsageTotals>;
+  byPage: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+  /** Models seen in the records that have no price */
+  unpricedModels: string[];
+  /** All-time spend against `budget.max_usd`, when a budget is set */
+  budget: UsageBudget | null;
+}
+
+export function emptyTotals(): UsageTotals {
+  return {
+    calls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    costUsd: 0,
+    unpricedCalls: 0,
+  };
+}
+
+/**
+ * Find the price of a model, trying the full ID ("openai:gpt-4o") before
+ * the ID without its provider prefix ("gpt-4o").
+ */
+export function priceFor(
+  modelId: string,
+  pricing: Record<string, ModelPrice>
+): ModelPrice | undefined {
+  if (pricing[modelId]) return pricing[modelId];
+  const colon = modelId.indexOf(":");
+  return colon >= 0 ? pricing[modelId.slice(colon + 1)] : undefined;
+}
+
+/**
+ * Estimated cost of one call in USD. Input tokens include cached ones, so
+ * cache reads and writes are taken out of the input count and charged at
+ * their own rates (falling back to the input rate).
+ */
+export function estimateCost(
+  usage: Pick<LlmUsageRecord, "inputTokens" | "outputTokens" | "cacheReadTokens" | "cacheWriteTokens">,
+  price: ModelPrice
+): number {
+  const uncached = Math.max(0, usage.inputTokens - usage.cacheReadTokens - usage.cacheWriteTokens);
+  const perToken =
+    uncached * price.input +
+    usage.cacheReadTokens * (price.cache_read ?? price.input) +
+    usage.cacheWriteTokens * (price.cache_write ?? price.input) +
+    usage.outputTokens * price.output;
+  return perToken / 1_000_000;
+}
+
+/** Roll usage records up into totals, overall and by step, page and model. */
+export function summarizeUsage(
+  records: LlmUsageRecord[],
+  pricing: Record<string, ModelPrice>
+): Pick<UsageReport, "total" | "byStep" | "byPage" | "byModel" | "unpricedModels"> {
+  const total = emptyTotals();
+  const byStep: Record<string, UsageTotals> = {};
+  const byPage: Record<string, UsageTotals> = {};
+  const byModel: Record<string, UsageTotals> = {};
+  const unpriced = new Set<string>();
+
+  for (const r of records) {
+    const price = priceFor(r.modelId, pricing);
+    if (!price) unpriced.add(r.modelId);
+    const cost = price ? estimateCost(r, price) : 0;
+
+    const buckets = [
+      total,
+      (byStep[r.taskType] ??= emptyTotals()),
+      (byModel[r.modelId] ??= emptyTotals()),
+    ];
+    if (r.pageId) buckets.push((byPage[r.pageId] ??= emptyTotals()));
+    for (const t of buckets) {
+      t.calls++;
+      t.inputTokens += r.inputTokens;
+      t.outputTokens += r.outputTokens;
+      t.cacheReadTokens += r.cacheReadTokens;
+      t.cacheWriteTokens += r.cacheWriteTokens;
+      t.costUsd += cost;
+      if (!price) t.unpricedCalls++;
+    }
+  }
+
+  return { total, byStep, byPage, byModel, unpricedModels: [...unpriced].sort() };
+}
+
+export function getUsageReport(
+  label: string,
+  range: { from?: string; to?: string } = {}
+): UsageReport {
+  const config = loadBookConfig(label);
+  const pricing = getPricing(config);
+  const summary = summarizeUsage(listLlmUsage(label, range), pricing);
+
+  const maxUsd = getBudgetUsd(config);
+  let budget: UsageBudget | null = null;
+  if (maxUsd !== undefined) {
+    const spentUsd =
+      range.from || range.to
+        ? summarizeUsage(listLlmUsage(label), pricing).total.costUsd
+        : summary.total.costUsd;
+    budget = { maxUsd, spentUsd, exceeded: spentUsd >= maxUsd };
+  }
+
+  return { label, ...range, ...summary, budget };
+}
+
+// ---------------------------------------------------------------------------
+// Budget enforcement
+//
+// Budgets are checked before every queued job starts and after every LLM
+// call, so the all-time spend is kept per book rather than recomputed: new
+// usage records are added to it as they appear, and it is rebuilt when the
+// book's config is reloaded (at most every BUDGET_RELOAD_MS).
+// ---------------------------------------------------------------------------
+
+const BUDGET_RELOAD_MS = 60 * 1000;
+
+interface BudgetState {
+  maxUsd: number | undefined;
+  pricing: Record<string, ModelPrice>;
+  spentUsd: number;
+  /** Last usage record included in `spentUsd` */
+  lastId: number;
+  loadedAt: number;
+}
+
+const budgetStates = new Map<string, BudgetState>();
+
+/** The book's budget and all-time spend, or null when it has no budget. */
+export function getBudgetSpend(label: string): UsageBudget | null {
+  const bookDir = path.join(getBooksRoot(), label);
+  if (!fs.existsSync(bookDir)) return null;
+
+  let state = budgetStates.get(bookDir);
+  if (!state || Date.now() - state.loadedAt > BUDGET_RELOAD_MS) {
+    const config = loadBookConfig(label);
+    state = {
+      maxUsd: getBudgetUsd(config),
+      pricing: getPricing(config),
+      spentUsd: 0,
+      lastId: 0,
+      loadedAt: Date.now(),
+    };
+    budgetStates.set(bookDir, state);
+  }
+  // Books without a budget are never charged, and their databases not opened
+  if (state.maxUsd === undefined) return null;
+
+  const { lastId, byModel } = sumLlmUsageByModel(label, state.lastId);
+  for (const totals of byModel) {
+    const price = priceFor(totals.modelId, state.pricing);
+    if (price) state.spentUsd += estimateCost(totals, price);
+  }
+  state.lastId = lastId;
+
+  const { maxUsd, spentUsd } = state;
+  return { maxUsd, spentUsd, exceeded: spentUsd >= maxUsd };
+}
+
+/** Why a book's jobs should not start, or null. */
+export function budgetPauseReason(label: string): string | null {
+  const budget = getBudgetSpend(label);
+  if (!budget?.exceeded) return null;
+  return `Paused: budget of ${formatUsd(budget.maxUsd)} reached (${formatUsd(budget.spentUsd)} spent)`;
+}
+
+/** Why a running job should stop once its last LLM call spent the budget, or null. */
+export function budgetStopReason(label: string): string | null {
+  const budget = getBudgetSpend(label);
+  if (!budget?.exceeded) return null;
+  return `Stopped: budget of ${formatUsd(budget.maxUsd)} reached (${formatUsd(budget.spentUsd)} spent)`;
+}
+
+export function formatUsd(amount: number): string {
+  return `$${amount < 1 && amount > 0 ? amount.toFixed(4) : amount.toFixed(2)}`;
+}
+
+export function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+  return String(count);
+}